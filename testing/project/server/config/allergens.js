@@ -0,0 +1,82 @@
+// Allergens offered when recording an allergy. Codes are our own and never
+// change once in use; synonyms are the other ways staff write the same thing,
+// so free text (such as allergies recorded before this list) can be matched.
+// Substances not listed here are recorded as typed, without a code. The
+// client bundles this file too (src/utils/allergies.ts), so it stays free of
+// server-only imports.
+export const ALLERGENS = {
+  peanut: { name: 'Peanut', category: 'food', synonyms: ['peanuts', 'groundnut', 'monkey nut', 'arachis'] },
+  'tree-nut': {
+    name: 'Tree nuts',
+    category: 'food',
+    synonyms: ['tree nut', 'almond', 'brazil nut', 'cashew', 'hazelnut', 'macadamia', 'pecan', 'pistachio', 'walnut']
+  },
+  milk: { name: 'Milk', category: 'food', synonyms: ['dairy', 'cows milk', 'cow milk'] },
+  egg: { name: 'Egg', category: 'food', synonyms: ['eggs'] },
+  fish: { name: 'Fish', category: 'food', synonyms: [] },
+  shellfish: { name: 'Shellfish', category: 'food', synonyms: ['crustacean', 'shrimp', 'prawn', 'crab', 'lobster'] },
+  mollusc: { name: 'Molluscs', category: 'food', synonyms: ['mollusk', 'mussel', 'oyster', 'squid', 'clam'] },
+  wheat: { name: 'Wheat', category: 'food', synonyms: [] },
+  soy: { name: 'Soy', category: 'food', synonyms: ['soya', 'soybean', 'soy bean'] },
+  sesame: { name: 'Sesame', category: 'food', synonyms: ['sesame seed'] },
+  mustard: { name: 'Mustard', category: 'food', synonyms: [] },
+  celery: { name: 'Celery', category: 'food', synonyms: ['celeriac'] },
+  lupin: { name: 'Lupin', category: 'food', synonyms: ['lupine'] },
+  penicillin: {
+    name: 'Penicillin',
+    category: 'medication',
+    synonyms: ['penicillins', 'amoxicillin', 'amoxycillin', 'ampicillin', 'flucloxacillin', 'co-amoxiclav', 'augmentin']
+  },
+  cephalosporin: { name: 'Cephalosporins', category: 'medication', synonyms: ['cefalexin', 'cephalexin', 'ceftriaxone', 'cefuroxime'] },
+  sulfonamide: {
+    name: 'Sulfonamide antibiotics',
+    category: 'medication',
+    synonyms: ['sulfa', 'sulpha', 'sulphonamide', 'sulfa drugs', 'co-trimoxazole', 'trimethoprim-sulfamethoxazole', 'bactrim']
+  },
+  aspirin: { name: 'Aspirin', category: 'medication', synonyms: ['acetylsalicylic acid'] },
+  nsaid: { name: 'NSAIDs', category: 'medication', synonyms: ['nsaids', 'ibuprofen', 'naproxen', 'diclofenac'] },
+  opioid: { name: 'Opioids', category: 'medication', synonyms: ['opioids', 'codeine', 'morphine', 'tramadol'] },
+  'contrast-media': { name: 'Iodinated contrast', category: 'medication', synonyms: ['contrast', 'contrast dye', 'iodine contrast'] },
+  latex: { name: 'Latex', category: 'environment', synonyms: ['rubber latex', 'natural rubber'] },
+  'bee-venom': { name: 'Bee stings', category: 'environment', synonyms: ['bee', 'bees', 'bee sting', 'bee venom'] },
+  'wasp-venom': { name: 'Wasp stings', category: 'environment', synonyms: ['wasp', 'wasps', 'wasp sting', 'wasp venom', 'hornet'] },
+  pollen: { name: 'Pollen', category: 'environment', synonyms: ['hay fever', 'grass pollen', 'tree pollen'] },
+  'dust-mite': { name: 'House dust mite', category: 'environment', synonyms: ['dust mite', 'dust mites', 'dust'] },
+  'animal-dander': { name: 'Animal dander', category: 'environment', synonyms: ['cat', 'cats', 'dog', 'dogs', 'pet dander'] },
+  nickel: { name: 'Nickel', category: 'environment', synonyms: [] }
+};
+
+export const ALLERGEN_CODES = Object.keys(ALLERGENS);
+
+export const ALLERGY_REACTIONS = {
+  rash: 'Rash or itching',
+  hives: 'Hives',
+  swelling: 'Swelling',
+  breathing: 'Breathing difficulty',
+  gastrointestinal: 'Vomiting or diarrhoea',
+  cardiovascular: 'Fainting or collapse',
+  other: 'Other'
+};
+
+export const ALLERGY_REACTION_TYPES = Object.keys(ALLERGY_REACTIONS);
+
+// Mildest first. Anaphylaxis-level allergies are the critical ones: shown on
+// anonymous scans and the signed badge.
+export const ALLERGY_SEVERITIES = ['mild', 'moderate', 'anaphylaxis'];
+
+// "Peanuts (severe!)" -> "peanut"
+export const normalizeMedicalTerm = (text) => String(text)
+  .toLowerCase()
+  .replace(/\(.*?\)/g, ' ')
+  .replace(/[^a-z0-9-]+/g, ' ')
+  .replace(/\s+/g, ' ')
+  .trim()
+  .replace(/s$/, '');
+
+const ALLERGEN_TERMS = new Map(
+  Object.entries(ALLERGENS).flatMap(([code, { name, synonyms }]) =>
+    [code, name, ...synonyms].map(term => [normalizeMedicalTerm(term), code]))
+);
+
+// The vocabulary code for a free-text substance, if it names a known allergen
+export const matchAllergen = (text) => ALLERGEN_TERMS.get(normalizeMedicalTerm(text)) || null;
@@ -0,0 +1,17 @@
+// Countries sites operate in, with the number for emergency services there.
+// A site's or organisation's own emergency number takes precedence. The
+// client bundles this file too (src/utils/sites.ts), so it stays plain data.
+export const COUNTRIES = {
+  AU: { name: 'Australia', emergencyNumber: '000' },
+  CA: { name: 'Canada', emergencyNumber: '911' },
+  DE: { name: 'Germany', emergencyNumber: '112' },
+  FR: { name: 'France', emergencyNumber: '112' },
+  GB: { name: 'United Kingdom', emergencyNumber: '999' },
+  IN: { name: 'India', emergencyNumber: '112' },
+  NL: { name: 'Netherlands', emergencyNumber: '112' },
+  US: { name: 'United States', emergencyNumber: '911' }
+};
+
+export const COUNTRY_CODES = Object.keys(COUNTRIES);
+
+export const emergencyNumberFor = (country) => COUNTRIES[country]?.emergencyNumber;
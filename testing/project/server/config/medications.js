@@ -0,0 +1,151 @@
+import { normalizeMedicalTerm } from './allergens.js';
+
+// The medication catalogue, shared with the client, which bundles this file
+// for entry suggestions and warnings (src/utils/medications.ts); keep it free
+// of server-only imports.
+
+// Drug classes the catalogue groups medications into. The allergy and
+// interaction rules below are written in terms of these; blood thinners are
+// called out on the emergency profile, as bleeding is heavier and harder to
+// stop.
+export const MEDICATION_CLASSES = {
+  anticoagulant: { name: 'Anticoagulant', bloodThinner: true },
+  antiplatelet: { name: 'Antiplatelet', bloodThinner: true },
+  nsaid: { name: 'NSAID' },
+  penicillin: { name: 'Penicillin antibiotic' },
+  cephalosporin: { name: 'Cephalosporin antibiotic' },
+  sulfonamide: { name: 'Sulfonamide antibiotic' },
+  opioid: { name: 'Opioid' },
+  benzodiazepine: { name: 'Benzodiazepine' },
+  ssri: { name: 'SSRI antidepressant' },
+  maoi: { name: 'MAOI antidepressant' },
+  nitrate: { name: 'Nitrate' },
+  'pde5-inhibitor': { name: 'PDE5 inhibitor' },
+  'ace-inhibitor': { name: 'ACE inhibitor' },
+  'potassium-sparing-diuretic': { name: 'Potassium-sparing diuretic' },
+  'beta-blocker': { name: 'Beta blocker' },
+  insulin: { name: 'Insulin' },
+  sulfonylurea: { name: 'Sulfonylurea' },
+  biguanide: { name: 'Biguanide' },
+  statin: { name: 'Statin' },
+  antiepileptic: { name: 'Antiepileptic' },
+  corticosteroid: { name: 'Corticosteroid' },
+  bronchodilator: { name: 'Bronchodilator' },
+  epinephrine: { name: 'Epinephrine' },
+  thyroid: { name: 'Thyroid hormone' },
+  antihistamine: { name: 'Antihistamine' }
+};
+
+// The bundled catalogue medication entry autocompletes from. Codes are our
+// own and never change once in use; synonyms are mostly brand names.
+// Medications not listed are recorded as typed, without a code.
+export const MEDICATIONS = {
+  warfarin: { name: 'Warfarin', classes: ['anticoagulant'], synonyms: ['coumadin', 'marevan', 'jantoven'] },
+  apixaban: { name: 'Apixaban', classes: ['anticoagulant'], synonyms: ['eliquis'] },
+  rivaroxaban: { name: 'Rivaroxaban', classes: ['anticoagulant'], synonyms: ['xarelto'] },
+  dabigatran: { name: 'Dabigatran', classes: ['anticoagulant'], synonyms: ['pradaxa'] },
+  edoxaban: { name: 'Edoxaban', classes: ['anticoagulant'], synonyms: ['lixiana', 'savaysa'] },
+  heparin: { name: 'Heparin', classes: ['anticoagulant'], synonyms: [] },
+  enoxaparin: { name: 'Enoxaparin', classes: ['anticoagulant'], synonyms: ['clexane', 'lovenox'] },
+  aspirin: { name: 'Aspirin', classes: ['antiplatelet', 'nsaid'], synonyms: ['acetylsalicylic acid', 'asa', 'disprin'] },
+  clopidogrel: { name: 'Clopidogrel', classes: ['antiplatelet'], synonyms: ['plavix'] },
+  ticagrelor: { name: 'Ticagrelor', classes: ['antiplatelet'], synonyms: ['brilinta', 'brilique'] },
+  prasugrel: { name: 'Prasugrel', classes: ['antiplatelet'], synonyms: ['effient'] },
+  ibuprofen: { name: 'Ibuprofen', classes: ['nsaid'], synonyms: ['advil', 'nurofen', 'motrin', 'brufen'] },
+  naproxen: { name: 'Naproxen', classes: ['nsaid'], synonyms: ['aleve', 'naprosyn'] },
+  diclofenac: { name: 'Diclofenac', classes: ['nsaid'], synonyms: ['voltaren', 'voltarol'] },
+  amoxicillin: { name: 'Amoxicillin', classes: ['penicillin'], synonyms: ['amoxycillin', 'amoxil'] },
+  'co-amoxiclav': { name: 'Co-amoxiclav', classes: ['penicillin'], synonyms: ['augmentin', 'amoxicillin clavulanate'] },
+  phenoxymethylpenicillin: { name: 'Phenoxymethylpenicillin', classes: ['penicillin'], synonyms: ['penicillin v', 'penicillin'] },
+  flucloxacillin: { name: 'Flucloxacillin', classes: ['penicillin'], synonyms: ['floxapen'] },
+  cefalexin: { name: 'Cefalexin', classes: ['cephalosporin'], synonyms: ['cephalexin', 'keflex'] },
+  'co-trimoxazole': {
+    name: 'Co-trimoxazole',
+    classes: ['sulfonamide'],
+    synonyms: ['bactrim', 'septra', 'trimethoprim-sulfamethoxazole', 'sulfamethoxazole']
+  },
+  morphine: { name: 'Morphine', classes: ['opioid'], synonyms: ['oramorph', 'ms contin'] },
+  codeine: { name: 'Codeine', classes: ['opioid'], synonyms: ['co-codamol'] },
+  tramadol: { name: 'Tramadol', classes: ['opioid'], synonyms: ['ultram', 'zydol'] },
+  oxycodone: { name: 'Oxycodone', classes: ['opioid'], synonyms: ['oxycontin', 'oxynorm'] },
+  diazepam: { name: 'Diazepam', classes: ['benzodiazepine'], synonyms: ['valium'] },
+  lorazepam: { name: 'Lorazepam', classes: ['benzodiazepine'], synonyms: ['ativan'] },
+  sertraline: { name: 'Sertraline', classes: ['ssri'], synonyms: ['zoloft', 'lustral'] },
+  fluoxetine: { name: 'Fluoxetine', classes: ['ssri'], synonyms: ['prozac'] },
+  citalopram: { name: 'Citalopram', classes: ['ssri'], synonyms: ['celexa', 'cipramil'] },
+  phenelzine: { name: 'Phenelzine', classes: ['maoi'], synonyms: ['nardil'] },
+  'glyceryl-trinitrate': { name: 'Glyceryl trinitrate', classes: ['nitrate'], synonyms: ['gtn', 'nitroglycerin', 'nitroglycerine'] },
+  'isosorbide-mononitrate': { name: 'Isosorbide mononitrate', classes: ['nitrate'], synonyms: ['ismn', 'imdur'] },
+  sildenafil: { name: 'Sildenafil', classes: ['pde5-inhibitor'], synonyms: ['viagra', 'revatio'] },
+  tadalafil: { name: 'Tadalafil', classes: ['pde5-inhibitor'], synonyms: ['cialis'] },
+  lisinopril: { name: 'Lisinopril', classes: ['ace-inhibitor'], synonyms: ['zestril', 'prinivil'] },
+  ramipril: { name: 'Ramipril', classes: ['ace-inhibitor'], synonyms: ['tritace', 'altace'] },
+  spironolactone: { name: 'Spironolactone', classes: ['potassium-sparing-diuretic'], synonyms: ['aldactone'] },
+  bisoprolol: { name: 'Bisoprolol', classes: ['beta-blocker'], synonyms: ['cardicor', 'concor'] },
+  metoprolol: { name: 'Metoprolol', classes: ['beta-blocker'], synonyms: ['lopressor', 'toprol'] },
+  propranolol: { name: 'Propranolol', classes: ['beta-blocker'], synonyms: ['inderal'] },
+  insulin: { name: 'Insulin', classes: ['insulin'], synonyms: ['lantus', 'levemir', 'novorapid', 'humalog', 'humulin'] },
+  gliclazide: { name: 'Gliclazide', classes: ['sulfonylurea'], synonyms: ['diamicron'] },
+  metformin: { name: 'Metformin', classes: ['biguanide'], synonyms: ['glucophage'] },
+  atorvastatin: { name: 'Atorvastatin', classes: ['statin'], synonyms: ['lipitor'] },
+  simvastatin: { name: 'Simvastatin', classes: ['statin'], synonyms: ['zocor'] },
+  levetiracetam: { name: 'Levetiracetam', classes: ['antiepileptic'], synonyms: ['keppra'] },
+  valproate: { name: 'Sodium valproate', classes: ['antiepileptic'], synonyms: ['valproate', 'epilim', 'depakote'] },
+  carbamazepine: { name: 'Carbamazepine', classes: ['antiepileptic'], synonyms: ['tegretol'] },
+  prednisolone: { name: 'Prednisolone', classes: ['corticosteroid'], synonyms: ['prednisone'] },
+  salbutamol: { name: 'Salbutamol', classes: ['bronchodilator'], synonyms: ['albuterol', 'ventolin'] },
+  epinephrine: { name: 'Epinephrine auto-injector', classes: ['epinephrine'], synonyms: ['epinephrine', 'adrenaline', 'epipen', 'jext', 'auvi-q'] },
+  levothyroxine: { name: 'Levothyroxine', classes: ['thyroid'], synonyms: ['thyroxine', 'eltroxin', 'synthroid'] },
+  cetirizine: { name: 'Cetirizine', classes: ['antihistamine'], synonyms: ['zyrtec'] },
+  loratadine: { name: 'Loratadine', classes: ['antihistamine'], synonyms: ['claritin', 'clarityn'] }
+};
+
+export const MEDICATION_CODES = Object.keys(MEDICATIONS);
+
+const MEDICATION_TERMS = new Map(
+  Object.entries(MEDICATIONS).flatMap(([code, { name, synonyms }]) =>
+    [code, name, ...synonyms].map(term => [normalizeMedicalTerm(term), code]))
+);
+
+// Strength typed into the name field, e.g. "Warfarin 5mg"
+const STRENGTH = /\d+(\.\d+)?\s*(mg|mcg|µg|g|ml|units?|iu)\b/gi;
+
+// The catalogue code for a medication as typed, by generic or brand name
+export const matchMedication = (text) => MEDICATION_TERMS.get(normalizeMedicalTerm(String(text).replace(STRENGTH, ' '))) || null;
+
+// Medication allergens from config/allergens.js, with the ways they are
+// written and the classes a person allergic to them should not be given.
+// Aspirin sensitivity commonly extends to other NSAIDs.
+export const ALLERGY_CONFLICTS = {
+  penicillin: {
+    classes: ['penicillin'],
+    terms: ['penicillin', 'penicillins', 'amoxicillin', 'amoxycillin', 'ampicillin', 'flucloxacillin', 'co-amoxiclav', 'augmentin']
+  },
+  cephalosporin: { classes: ['cephalosporin'], terms: ['cephalosporins', 'cefalexin', 'cephalexin', 'ceftriaxone', 'cefuroxime'] },
+  sulfonamide: {
+    classes: ['sulfonamide'],
+    terms: ['sulfonamide antibiotics', 'sulfa', 'sulpha', 'sulphonamide', 'sulfa drugs', 'co-trimoxazole', 'trimethoprim-sulfamethoxazole', 'bactrim']
+  },
+  aspirin: { classes: ['nsaid'], terms: ['aspirin', 'acetylsalicylic acid'] },
+  nsaid: { classes: ['nsaid'], terms: ['nsaids', 'ibuprofen', 'naproxen', 'diclofenac'] },
+  opioid: { classes: ['opioid'], terms: ['opioids', 'codeine', 'morphine', 'tramadol'] }
+};
+
+// Combinations a responder should know about, between two different
+// medications. Not a prescribing reference: only the well-established ones
+// that change what happens in an emergency.
+export const INTERACTIONS = [
+  { classes: ['anticoagulant', 'anticoagulant'], severity: 'major', effect: 'bleeding' },
+  { classes: ['anticoagulant', 'antiplatelet'], severity: 'major', effect: 'bleeding' },
+  { classes: ['anticoagulant', 'nsaid'], severity: 'major', effect: 'bleeding' },
+  { classes: ['antiplatelet', 'antiplatelet'], severity: 'moderate', effect: 'bleeding' },
+  { classes: ['antiplatelet', 'nsaid'], severity: 'moderate', effect: 'bleeding' },
+  { classes: ['nsaid', 'nsaid'], severity: 'moderate', effect: 'bleeding' },
+  { classes: ['ssri', 'anticoagulant'], severity: 'moderate', effect: 'bleeding' },
+  { classes: ['ssri', 'maoi'], severity: 'major', effect: 'serotonin' },
+  { classes: ['opioid', 'benzodiazepine'], severity: 'major', effect: 'breathing' },
+  { classes: ['nitrate', 'pde5-inhibitor'], severity: 'major', effect: 'hypotension' },
+  { classes: ['ace-inhibitor', 'potassium-sparing-diuretic'], severity: 'moderate', effect: 'potassium' },
+  { classes: ['insulin', 'sulfonylurea'], severity: 'moderate', effect: 'hypoglycaemia' },
+  { classes: ['beta-blocker', 'epinephrine'], severity: 'moderate', effect: 'epinephrine' }
+];
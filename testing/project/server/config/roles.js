@@ -0,0 +1,30 @@
+export const ROLES = {
+  SUPER_ADMIN: 'super-admin',
+  HR_EDITOR: 'hr-editor',
+  AUDITOR: 'auditor',
+  RESPONDER: 'responder',
+  // Self-service login for one employee, linked to their own record
+  EMPLOYEE: 'employee'
+};
+
+export const ALL_ROLES = Object.values(ROLES);
+
+// Roles that act on other people's records; everyone except self-service employees
+export const STAFF_ROLES = ALL_ROLES.filter(role => role !== ROLES.EMPLOYEE);
+
+// Roles that can browse the employee directory and read full records
+export const DIRECTORY_ROLES = [ROLES.SUPER_ADMIN, ROLES.HR_EDITOR, ROLES.AUDITOR];
+
+// Roles that can create, edit and delete employee records
+export const EDITOR_ROLES = [ROLES.SUPER_ADMIN, ROLES.HR_EDITOR];
+
+// Roles that can review the scan access audit log
+export const AUDIT_ROLES = [ROLES.SUPER_ADMIN, ROLES.AUDITOR];
+
+// Accounts created before role-based access control used these values
+export const LEGACY_ROLES = {
+  admin: ROLES.SUPER_ADMIN,
+  user: ROLES.RESPONDER
+};
+
+export const normalizeRole = (role) => LEGACY_ROLES[role] || role;
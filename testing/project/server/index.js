@@ -6,14 +6,39 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 import { connectDB } from './config/database.js';
 import employeeRoutes from './routes/employees.js';
+import employeeImportRoutes from './routes/employeeImport.js';
+import employeeExportRoutes from './routes/employeeExport.js';
+import employeeFhirRoutes from './routes/employeeFhir.js';
+import badgePrintRoutes from './routes/badgePrint.js';
+import badgeTemplateRoutes from './routes/badgeTemplates.js';
 import authRoutes from './routes/auth.js';
+import userRoutes from './routes/users.js';
+import inviteRoutes from './routes/invites.js';
+import badgeRoutes from './routes/badges.js';
+import scanEventRoutes from './routes/scanEvents.js';
+import offlineRoutes from './routes/offline.js';
+import incidentRoutes from './routes/incidents.js';
+import selfServiceRoutes from './routes/selfService.js';
+import organizationRoutes from './routes/organizations.js';
+import siteRoutes from './routes/sites.js';
 import { errorHandler } from './middleware/errorHandler.js';
+import { assertEncryptionConfigured } from './utils/fieldEncryption.js';
+import { schedulePurge } from './utils/employeeArchive.js';
 
 dotenv.config();
 
+// Refuse to start rather than fail on the first employee write
+assertEncryptionConfigured();
+
 const app = express();
 const PORT = process.env.PORT || 5000;
 
+// Behind a load balancer, trust its X-Forwarded-For so scan logs record the
+// real client address
+if (process.env.TRUST_PROXY) {
+  app.set('trust proxy', process.env.TRUST_PROXY);
+}
+
 // Handle __dirname in ES modules
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -49,6 +74,20 @@ app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // API Routes
 app.use('/api/auth', authRoutes);
+app.use('/api/users', userRoutes);
+app.use('/api/invites', inviteRoutes);
+app.use('/api/badges', badgeRoutes);
+app.use('/api/scan-events', scanEventRoutes);
+app.use('/api/offline', offlineRoutes);
+app.use('/api/incidents', incidentRoutes);
+app.use('/api/self-service', selfServiceRoutes);
+app.use('/api/organizations', organizationRoutes);
+app.use('/api/sites', siteRoutes);
+app.use('/api/badge-templates', badgeTemplateRoutes);
+app.use('/api/employees/import', employeeImportRoutes);
+app.use('/api/employees/export', employeeExportRoutes);
+app.use('/api/employees/fhir', employeeFhirRoutes);
+app.use('/api/employees/badges', badgePrintRoutes);
 app.use('/api/employees', employeeRoutes);
 
 // Health check endpoint
@@ -74,4 +113,7 @@ app.use(errorHandler);
 app.listen(PORT, () => {
   console.log(`🚑 Emergency Medical QR System server running on port ${PORT}`);
   console.log(`📱 Frontend URL: ${process.env.BASE_URL}`);
+
+  // Erase archived employees whose retention period has passed
+  schedulePurge();
 });
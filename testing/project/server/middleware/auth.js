@@ -1,5 +1,6 @@
 import jwt from 'jsonwebtoken';
 import User from '../models/User.js';
+import { normalizeRole } from '../config/roles.js';
 
 export const authenticate = async (req, res, next) => {
   try {
@@ -22,6 +23,7 @@ export const authenticate = async (req, res, next) => {
       });
     }
 
+    user.role = normalizeRole(user.role);
     req.user = user;
     next();
   } catch (error) {
@@ -31,4 +33,44 @@ export const authenticate = async (req, res, next) => {
       message: 'Invalid token'
     });
   }
-};
\ No newline at end of file
+};
+
+// Must run after authenticate
+export const authorize = (...roles) => (req, res, next) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      message: 'Authentication required'
+    });
+  }
+
+  if (!roles.includes(req.user.role)) {
+    return res.status(403).json({
+      success: false,
+      message: 'You do not have permission to perform this action'
+    });
+  }
+
+  next();
+};
+
+// Attaches req.user when a valid token is sent, but never rejects the request.
+// Used by public endpoints that return more data to signed-in users.
+export const optionalAuthenticate = async (req, res, next) => {
+  const token = req.header('Authorization')?.replace('Bearer ', '');
+  if (!token) return next();
+
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    const user = await User.findById(decoded.userId).select('-password');
+
+    if (user) {
+      user.role = normalizeRole(user.role);
+      req.user = user;
+    }
+  } catch {
+    // An expired or invalid token simply means an anonymous request
+  }
+
+  next();
+};
@@ -0,0 +1,91 @@
+import mongoose from 'mongoose';
+import { DEFAULT_BADGE_TEMPLATE } from '../utils/badgePdf.js';
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+// Badge look for one site. An organisation's template without a site applies
+// to its employees whose site has no template of its own.
+const badgeTemplateSchema = new mongoose.Schema({
+  site: {
+    type: String,
+    trim: true,
+    uppercase: true,
+    maxlength: 40,
+    index: { unique: true, sparse: true }
+  },
+  // The site's organisation; on a default template, whose default it is.
+  // Null only on the default of a database without organisations.
+  organization: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Organization',
+    default: null,
+    index: true
+  },
+  name: {
+    type: String,
+    required: [true, 'Template name is required'],
+    trim: true,
+    maxlength: 80
+  },
+  organizationName: {
+    type: String,
+    trim: true,
+    maxlength: 40,
+    default: DEFAULT_BADGE_TEMPLATE.organizationName
+  },
+  primaryColor: {
+    type: String,
+    match: [HEX_COLOR, 'Colors must be hex values like #1d4ed8'],
+    default: DEFAULT_BADGE_TEMPLATE.primaryColor
+  },
+  accentColor: {
+    type: String,
+    match: [HEX_COLOR, 'Colors must be hex values like #1d4ed8'],
+    default: DEFAULT_BADGE_TEMPLATE.accentColor
+  },
+  showPhoto: {
+    type: Boolean,
+    default: DEFAULT_BADGE_TEMPLATE.showPhoto
+  },
+  frontFooter: {
+    type: String,
+    trim: true,
+    maxlength: 40,
+    default: DEFAULT_BADGE_TEMPLATE.frontFooter
+  },
+  // Local number for emergency services, printed on the back
+  emergencyNumber: {
+    type: String,
+    trim: true,
+    maxlength: 20
+  },
+  // e.g. "If found, return to reception, 1 Main Street"
+  backNote: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  },
+  updatedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+// Picks the template for each employee: their site's, else their
+// organisation's default, else the one without an organisation
+badgeTemplateSchema.statics.resolverFor = async function(employees) {
+  const sites = [...new Set(employees.map(employee => employee.site).filter(Boolean))];
+  const templates = await this.find({ $or: [{ site: { $in: sites } }, { site: null }] }).lean();
+  const bySite = new Map(templates.filter(template => template.site).map(template => [template.site, template]));
+  const byOrganization = new Map(templates.filter(template => !template.site).map(template => [String(template.organization), template]));
+  const fallback = byOrganization.get('null') || DEFAULT_BADGE_TEMPLATE;
+
+  return (employee) => ({
+    ...DEFAULT_BADGE_TEMPLATE,
+    ...(bySite.get(employee.site) || byOrganization.get(String(employee.organization ?? null)) || fallback)
+  });
+};
+
+export default mongoose.model('BadgeTemplate', badgeTemplateSchema);
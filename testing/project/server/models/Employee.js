@@ -1,4 +1,11 @@
 import mongoose from 'mongoose';
+import Site from './Site.js';
+import { issueBadgeToken, issueShortCode, buildBadgeUrl } from '../utils/badgeToken.js';
+import { encryptValue, decryptValue } from '../utils/fieldEncryption.js';
+import { BADGE_MODES, buildEmergencyPayload } from '../utils/badgePayload.js';
+import { upgradeLegacyAllergies } from '../utils/allergies.js';
+import { ALLERGEN_CODES, ALLERGY_REACTION_TYPES, ALLERGY_SEVERITIES } from '../config/allergens.js';
+import { MEDICATION_CODES } from '../config/medications.js';
 
 const emergencyContactSchema = new mongoose.Schema({
   name: {
@@ -15,6 +22,44 @@ const emergencyContactSchema = new mongoose.Schema({
     type: String,
     required: [true, 'Relationship is required'],
     trim: true
+  },
+  email: {
+    type: String,
+    trim: true,
+    lowercase: true
+  },
+  // Alert this contact whenever the profile is scanned
+  notifyOnScan: {
+    type: Boolean,
+    default: false
+  }
+});
+
+const allergySchema = new mongoose.Schema({
+  substance: {
+    type: String,
+    required: [true, 'Allergy substance is required'],
+    trim: true,
+    maxlength: 100
+  },
+  // Code from config/allergens.js; absent for substances typed in freely
+  code: {
+    type: String,
+    enum: ALLERGEN_CODES
+  },
+  reaction: {
+    type: String,
+    enum: ALLERGY_REACTION_TYPES
+  },
+  // Anaphylaxis makes the allergy critical; see utils/allergies.js
+  severity: {
+    type: String,
+    enum: ALLERGY_SEVERITIES
+  },
+  // Carries an epinephrine auto-injector (e.g. EpiPen) for this allergy
+  carriesEpinephrine: {
+    type: Boolean,
+    default: false
   }
 });
 
@@ -53,10 +98,10 @@ const insuranceSchema = new mongoose.Schema({
 });
 
 const employeeSchema = new mongoose.Schema({
+  // Unique within the employee's organisation
   employeeId: {
     type: String,
     required: [true, 'Employee ID is required'],
-    unique: true,
     trim: true,
     uppercase: true
   },
@@ -65,6 +110,28 @@ const employeeSchema = new mongoose.Schema({
     required: [true, 'Name is required'],
     trim: true
   },
+  // Site code, e.g. "LON-HQ"; selects the badge template and site settings
+  site: {
+    type: String,
+    trim: true,
+    uppercase: true,
+    maxlength: 40
+  },
+  // Follows the site; see the pre('validate') hook below
+  organization: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Organization',
+    default: null
+  },
+  // Badge photo; the image itself is only loaded when asked for
+  photo: {
+    data: {
+      type: Buffer,
+      select: false
+    },
+    contentType: String,
+    updatedAt: Date
+  },
   dob: {
     type: Date,
     required: [true, 'Date of birth is required']
@@ -75,16 +142,18 @@ const employeeSchema = new mongoose.Schema({
     enum: ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'],
     uppercase: true
   },
-  allergies: [{
-    type: String,
-    trim: true
-  }],
+  allergies: [allergySchema],
   medications: [{
     name: {
       type: String,
       required: true,
       trim: true
     },
+    // Code from config/medications.js; absent for medications typed in freely
+    code: {
+      type: String,
+      enum: MEDICATION_CODES
+    },
     dosage: {
       type: String,
       trim: true
@@ -100,6 +169,25 @@ const employeeSchema = new mongoose.Schema({
   qrCodeUrl: {
     type: String
   },
+  // Current badge; older tokens live in the RevokedBadge collection
+  badge: {
+    tokenId: {
+      type: String,
+      index: { unique: true, sparse: true }
+    },
+    // Typed in when the QR code cannot be scanned
+    shortCode: {
+      type: String,
+      index: { unique: true, sparse: true }
+    },
+    issuedAt: Date
+  },
+  // What the badge QR encodes; see utils/badgePayload.js
+  badgeMode: {
+    type: String,
+    enum: BADGE_MODES,
+    default: 'url'
+  },
   medicalConditions: [{
     type: String,
     trim: true
@@ -108,20 +196,165 @@ const employeeSchema = new mongoose.Schema({
     type: String,
     trim: true,
     maxlength: 500
+  },
+  // Who is told when this profile is scanned; contacts opt in individually
+  scanNotifications: {
+    enabled: {
+      type: Boolean,
+      default: false
+    },
+    notifyEmployee: {
+      type: Boolean,
+      default: false
+    },
+    email: {
+      type: String,
+      trim: true,
+      lowercase: true
+    },
+    phone: {
+      type: String,
+      trim: true
+    }
+  },
+  // Soft deletion: archived records leave the directory and their badge
+  // stops resolving, then are erased for good once purgeAfter has passed
+  archivedAt: Date,
+  archivedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  purgeAfter: {
+    type: Date,
+    index: { sparse: true }
   }
 }, {
   timestamps: true
 });
 
-// Generate QR code URL before saving
+employeeSchema.index({ organization: 1, employeeId: 1 }, { unique: true });
+
+// A registered site decides the organisation. Employees without one, or at a
+// site not yet registered, keep the organisation they were created in.
+employeeSchema.pre('validate', async function() {
+  if (!this.isModified('site') || !this.site) return;
+
+  const site = await Site.findOne({ code: this.site }).select('organization');
+  if (site) this.organization = site.organization;
+});
+
+// Issue a signed badge token for new employees. Records created before
+// badge tokens keep their id-based URL until their badge is reissued.
 employeeSchema.pre('save', function(next) {
-  if (!this.qrCodeUrl) {
-    const baseUrl = process.env.BASE_URL || 'http://localhost:5173';
-    this.qrCodeUrl = `${baseUrl}/employee/${this._id}`;
+  if (this.isNew && !this.badge?.tokenId) {
+    this.issueBadge();
+  } else if (this.badge?.tokenId && !this.badge.shortCode) {
+    // Badges issued before short codes existed get one on their next save
+    this.badge.shortCode = issueShortCode();
   }
   next();
 });
 
+employeeSchema.methods.issueBadge = function() {
+  const { tokenId, token } = issueBadgeToken();
+  this.badge = { tokenId, shortCode: issueShortCode(), issuedAt: new Date() };
+  this.qrCodeUrl = buildBadgeUrl(token);
+  return token;
+};
+
+// Text for the badge's QR code. Payload badges are signed when rendered, so
+// they reflect the record as it is at print time.
+employeeSchema.methods.badgeQrContent = function() {
+  return this.badgeMode === 'payload' ? buildEmergencyPayload(this) : this.qrCodeUrl;
+};
+
+// Medical fields are encrypted at rest. Name and employee id stay plaintext so
+// the directory search and the unique employee id keep working.
+const ENCRYPTED_ARRAY_FIELDS = ['medicalConditions'];
+// Encrypted properties of each entry in these lists
+const ENCRYPTED_ENTRY_FIELDS = {
+  allergies: ['substance', 'code', 'reaction', 'severity'],
+  medications: ['name', 'code', 'dosage', 'frequency']
+};
+const ENCRYPTED_ROOT_PATHS = [...ENCRYPTED_ARRAY_FIELDS, ...Object.keys(ENCRYPTED_ENTRY_FIELDS), 'insurance', 'notes'];
+
+// Applies fn to every encrypted value of a raw object or a document
+const mapEncryptedFields = (target, fn) => {
+  ENCRYPTED_ARRAY_FIELDS.forEach(field => {
+    if (target[field]) target[field] = Array.from(target[field], value => fn(value));
+  });
+
+  Object.entries(ENCRYPTED_ENTRY_FIELDS).forEach(([list, fields]) => {
+    (target[list] || []).forEach(entry => {
+      fields.forEach(field => {
+        if (entry[field]) entry[field] = fn(entry[field]);
+      });
+    });
+  });
+
+  if (target.insurance?.memberId) target.insurance.memberId = fn(target.insurance.memberId);
+  if (target.notes) target.notes = fn(target.notes);
+};
+
+// Records from before structured allergies hold them as encrypted strings,
+// with the severe ones repeated in criticalAllergies. They load as structured
+// entries and are rewritten whole on their next save; the leftover
+// criticalAllergies field is removed by scripts/migrateAllergies.js.
+const hasLegacyAllergies = (raw) => (raw.allergies || []).some(allergy => typeof allergy === 'string');
+
+// Documents hold plaintext in memory; decrypt before hydration so loaded
+// documents do not look modified
+employeeSchema.pre('init', function(raw) {
+  if (hasLegacyAllergies(raw)) {
+    raw.allergies = upgradeLegacyAllergies(raw.allergies.map(decryptValue), (raw.criticalAllergies || []).map(decryptValue));
+    this.$locals.legacyAllergies = true;
+  }
+  mapEncryptedFields(raw, decryptValue);
+});
+
+// The stored strings cannot be updated entry by entry
+employeeSchema.post('init', function() {
+  if (this.$locals.legacyAllergies) this.markModified('allergies');
+});
+
+// Runs after validation, so length limits apply to the plaintext
+employeeSchema.pre('save', function(next) {
+  mapEncryptedFields(this, encryptValue);
+  next();
+});
+
+const restorePlaintext = (doc) => {
+  mapEncryptedFields(doc, decryptValue);
+  doc.modifiedPaths().forEach(path => doc.unmarkModified(path));
+};
+
+employeeSchema.post('save', function(doc) {
+  restorePlaintext(doc);
+});
+
+employeeSchema.post('save', function(error, doc, next) {
+  restorePlaintext(doc);
+  next(error);
+});
+
+// Query updates skip document middleware and would store plaintext, so
+// encrypted fields may only be changed through document.save()
+const touchesEncryptedField = (update) =>
+  Object.entries(update || {}).some(([key, value]) =>
+    key.startsWith('$')
+      ? touchesEncryptedField(value)
+      : ENCRYPTED_ROOT_PATHS.includes(key.split('.')[0])
+  );
+
+['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'].forEach(operation => {
+  employeeSchema.pre(operation, function(next) {
+    if (touchesEncryptedField(this.getUpdate())) {
+      return next(new Error('Encrypted employee fields must be changed through document.save()'));
+    }
+    next();
+  });
+});
+
 // Virtual for age calculation
 employeeSchema.virtual('age').get(function() {
   return Math.floor((Date.now() - this.dob.getTime()) / (365.25 * 24 * 60 * 60 * 1000));
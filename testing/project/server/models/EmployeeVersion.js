@@ -0,0 +1,102 @@
+import mongoose from 'mongoose';
+import { decryptValue, encryptValue } from '../utils/fieldEncryption.js';
+
+export const VERSION_SOURCES = ['baseline', 'create', 'update', 'import', 'self-service', 'restore', 'fhir'];
+
+// One saved state of an employee record: the record's fields as they were
+// after the change, and what changed from the version before. Versions outlive
+// the employee, so a disputed badge can still be answered after deletion.
+const employeeVersionSchema = new mongoose.Schema({
+  employee: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Employee',
+    required: true
+  },
+  version: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  // Unset for the baseline of records that existed before versioning
+  author: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  source: {
+    type: String,
+    enum: VERSION_SOURCES,
+    required: true
+  },
+  // Set when source is "restore"
+  restoredFrom: Number,
+  // JSON, encrypted at rest because both hold medical values
+  snapshot: {
+    type: String,
+    required: true
+  },
+  changes: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+employeeVersionSchema.index({ employee: 1, version: -1 }, { unique: true });
+
+const ENCRYPTED_FIELDS = ['snapshot', 'changes'];
+
+const mapEncryptedFields = (target, fn) => {
+  ENCRYPTED_FIELDS.forEach(field => {
+    if (target[field]) target[field] = fn(target[field]);
+  });
+};
+
+employeeVersionSchema.methods.getSnapshot = function() {
+  return JSON.parse(this.snapshot);
+};
+
+// [{ field, from, to }]
+employeeVersionSchema.methods.getChanges = function() {
+  return JSON.parse(this.changes);
+};
+
+employeeVersionSchema.set('toJSON', {
+  transform: (doc, ret) => {
+    ret.snapshot = doc.getSnapshot();
+    ret.changes = doc.getChanges();
+    return ret;
+  }
+});
+
+employeeVersionSchema.pre('init', function(raw) {
+  mapEncryptedFields(raw, decryptValue);
+});
+
+employeeVersionSchema.pre('save', function(next) {
+  mapEncryptedFields(this, encryptValue);
+  next();
+});
+
+const restorePlaintext = (doc) => {
+  mapEncryptedFields(doc, decryptValue);
+  doc.modifiedPaths().forEach(path => doc.unmarkModified(path));
+};
+
+employeeVersionSchema.post('save', function(doc) {
+  restorePlaintext(doc);
+});
+
+employeeVersionSchema.post('save', function(error, doc, next) {
+  restorePlaintext(doc);
+  next(error);
+});
+
+// History is append-only; re-encryption during key rotation goes through save()
+['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'].forEach(operation => {
+  employeeVersionSchema.pre(operation, function(next) {
+    next(new Error('Employee versions cannot be changed'));
+  });
+});
+
+export default mongoose.model('EmployeeVersion', employeeVersionSchema);
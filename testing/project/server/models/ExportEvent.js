@@ -0,0 +1,43 @@
+import mongoose from 'mongoose';
+import { EXPORT_FORMATS } from '../utils/employeeExport.js';
+
+// Printed badge sheets carry blood groups and ICE phone numbers, offline
+// syncs copy profiles onto a responder's device, and FHIR bundles hand a full
+// record to another system, so all are logged alongside the directory exports
+export const EXPORT_EVENT_FORMATS = [...EXPORT_FORMATS, 'badges', 'offline', 'fhir'];
+
+// Record of every bulk export of employee data: who took what, and when
+const exportEventSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  format: {
+    type: String,
+    enum: EXPORT_EVENT_FORMATS,
+    required: true
+  },
+  filters: {
+    search: String,
+    bloodGroup: String,
+    sites: [String]
+  },
+  count: {
+    type: Number,
+    required: true
+  },
+  ip: {
+    type: String
+  },
+  userAgent: {
+    type: String,
+    maxlength: 500
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+exportEventSchema.index({ createdAt: -1 });
+
+export default mongoose.model('ExportEvent', exportEventSchema);
@@ -0,0 +1,133 @@
+import mongoose from 'mongoose';
+import { decryptValue, encryptValue } from '../utils/fieldEncryption.js';
+
+export const INCIDENT_STATUSES = ['open', 'closed'];
+
+// One set of observations; a responder may record several as the patient
+// is monitored
+const vitalsSchema = new mongoose.Schema({
+  recordedAt: {
+    type: Date,
+    default: Date.now
+  },
+  heartRate: { type: Number, min: 0, max: 300 },
+  respiratoryRate: { type: Number, min: 0, max: 100 },
+  systolic: { type: Number, min: 0, max: 300 },
+  diastolic: { type: Number, min: 0, max: 200 },
+  spo2: { type: Number, min: 0, max: 100 },
+  // Celsius
+  temperature: { type: Number, min: 20, max: 45 },
+  // Glasgow Coma Scale
+  gcs: { type: Number, min: 3, max: 15 }
+}, { _id: false });
+
+// What a responder did for an employee after scanning their badge. The site
+// is copied from the employee when the incident is opened, so reports by site
+// stay correct if the employee moves later.
+const incidentSchema = new mongoose.Schema({
+  employee: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Employee',
+    required: true,
+    index: true
+  },
+  reportedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // The scan that led to the incident, when it was opened from one
+  scanEvent: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'ScanEvent'
+  },
+  site: {
+    type: String,
+    uppercase: true,
+    trim: true,
+    maxlength: 40,
+    index: true
+  },
+  occurredAt: {
+    type: Date,
+    required: true
+  },
+  location: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  },
+  vitals: {
+    type: [vitalsSchema],
+    validate: [value => value.length <= 20, 'An incident can hold at most 20 sets of vitals']
+  },
+  actionsTaken: {
+    type: String,
+    trim: true,
+    maxlength: 2000
+  },
+  handover: {
+    hospital: { type: String, trim: true, maxlength: 120 },
+    handedOverAt: Date
+  },
+  status: {
+    type: String,
+    enum: INCIDENT_STATUSES,
+    default: 'open'
+  }
+}, {
+  timestamps: true
+});
+
+incidentSchema.index({ occurredAt: -1 });
+
+// The clinical narrative is encrypted at rest like the employee's medical
+// fields, and for the same reasons may only change through document.save()
+const ENCRYPTED_FIELDS = ['actionsTaken'];
+
+const mapEncryptedFields = (target, fn) => {
+  ENCRYPTED_FIELDS.forEach(field => {
+    if (target[field]) target[field] = fn(target[field]);
+  });
+};
+
+incidentSchema.pre('init', function(raw) {
+  mapEncryptedFields(raw, decryptValue);
+});
+
+incidentSchema.pre('save', function(next) {
+  mapEncryptedFields(this, encryptValue);
+  next();
+});
+
+const restorePlaintext = (doc) => {
+  mapEncryptedFields(doc, decryptValue);
+  doc.modifiedPaths().forEach(path => doc.unmarkModified(path));
+};
+
+incidentSchema.post('save', function(doc) {
+  restorePlaintext(doc);
+});
+
+incidentSchema.post('save', function(error, doc, next) {
+  restorePlaintext(doc);
+  next(error);
+});
+
+const touchesEncryptedField = (update) =>
+  Object.entries(update || {}).some(([key, value]) =>
+    key.startsWith('$')
+      ? touchesEncryptedField(value)
+      : ENCRYPTED_FIELDS.includes(key.split('.')[0])
+  );
+
+['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'].forEach(operation => {
+  incidentSchema.pre(operation, function(next) {
+    if (touchesEncryptedField(this.getUpdate())) {
+      return next(new Error('Encrypted incident fields must be changed through document.save()'));
+    }
+    next();
+  });
+});
+
+export default mongoose.model('Incident', incidentSchema);
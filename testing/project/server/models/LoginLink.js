@@ -0,0 +1,28 @@
+import mongoose from 'mongoose';
+
+// One-time sign-in links emailed to self-service employees. Like invitations,
+// only the token's hash is stored.
+const loginLinkSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  usedAt: Date
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// MongoDB removes links a day after they expire
+loginLinkSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+export default mongoose.model('LoginLink', loginLinkSchema);
@@ -0,0 +1,47 @@
+import mongoose from 'mongoose';
+import { PUBLIC_PROFILE_FIELD_NAMES } from '../utils/disclosure.js';
+import { COUNTRY_CODES } from '../config/countries.js';
+
+// A company or contractor whose employees and sites are kept apart from
+// other organisations'. Its settings apply to every site that does not
+// override them.
+const organizationSchema = new mongoose.Schema({
+  // Short natural key, e.g. "ACME"
+  code: {
+    type: String,
+    required: [true, 'Organisation code is required'],
+    unique: true,
+    trim: true,
+    uppercase: true,
+    maxlength: 20,
+    match: [/^[A-Z0-9][A-Z0-9-]*$/, 'Codes may only contain letters, digits and dashes']
+  },
+  name: {
+    type: String,
+    required: [true, 'Organisation name is required'],
+    trim: true,
+    maxlength: 80
+  },
+  // Where its sites are unless they say otherwise; decides the emergency
+  // number when none is set
+  country: {
+    type: String,
+    uppercase: true,
+    enum: COUNTRY_CODES
+  },
+  // Local number for emergency services shown with scanned profiles
+  emergencyNumber: {
+    type: String,
+    trim: true,
+    maxlength: 20
+  },
+  // What an anonymous scan is shown; empty means the server default
+  publicProfileFields: [{
+    type: String,
+    enum: PUBLIC_PROFILE_FIELD_NAMES
+  }]
+}, {
+  timestamps: true
+});
+
+export default mongoose.model('Organization', organizationSchema);
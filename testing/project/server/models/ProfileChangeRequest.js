@@ -0,0 +1,104 @@
+import mongoose from 'mongoose';
+import { decryptValue, encryptValue } from '../utils/fieldEncryption.js';
+
+export const CHANGE_REQUEST_STATUSES = ['pending', 'approved', 'rejected', 'withdrawn'];
+
+// Edits an employee proposes to their own medical profile. Nothing reaches
+// the employee record, and so the public QR page, until HR approves.
+const profileChangeRequestSchema = new mongoose.Schema({
+  employee: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Employee',
+    required: true,
+    index: true
+  },
+  requestedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // JSON of the changed top-level fields and their new values. Kept as one
+  // string so it can be encrypted at rest like the record it changes.
+  changes: {
+    type: String,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: CHANGE_REQUEST_STATUSES,
+    default: 'pending'
+  },
+  reviewedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  reviewedAt: Date,
+  reviewNote: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  }
+}, {
+  timestamps: true
+});
+
+// An employee has at most one request waiting; a new submission replaces it
+profileChangeRequestSchema.index(
+  { employee: 1 },
+  { unique: true, partialFilterExpression: { status: 'pending' } }
+);
+profileChangeRequestSchema.index({ status: 1, createdAt: 1 });
+
+profileChangeRequestSchema.methods.getChanges = function() {
+  return JSON.parse(this.changes);
+};
+
+profileChangeRequestSchema.methods.setChanges = function(changes) {
+  this.changes = JSON.stringify(changes);
+};
+
+profileChangeRequestSchema.set('toJSON', {
+  transform: (doc, ret) => {
+    ret.changes = doc.getChanges();
+    return ret;
+  }
+});
+
+profileChangeRequestSchema.pre('init', function(raw) {
+  if (raw.changes) raw.changes = decryptValue(raw.changes);
+});
+
+profileChangeRequestSchema.pre('save', function(next) {
+  this.changes = encryptValue(this.changes);
+  next();
+});
+
+const restorePlaintext = (doc) => {
+  doc.changes = decryptValue(doc.changes);
+  doc.modifiedPaths().forEach(path => doc.unmarkModified(path));
+};
+
+profileChangeRequestSchema.post('save', function(doc) {
+  restorePlaintext(doc);
+});
+
+profileChangeRequestSchema.post('save', function(error, doc, next) {
+  restorePlaintext(doc);
+  next(error);
+});
+
+const touchesChanges = (update) =>
+  Object.entries(update || {}).some(([key, value]) =>
+    key.startsWith('$') ? touchesChanges(value) : key === 'changes'
+  );
+
+['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'].forEach(operation => {
+  profileChangeRequestSchema.pre(operation, function(next) {
+    if (touchesChanges(this.getUpdate())) {
+      return next(new Error('Requested changes must be changed through document.save()'));
+    }
+    next();
+  });
+});
+
+export default mongoose.model('ProfileChangeRequest', profileChangeRequestSchema);
@@ -0,0 +1,29 @@
+import mongoose from 'mongoose';
+
+// Revocation list for badge tokens. Entries are never removed, so a lost
+// badge stays invalid even if the employee is later reissued several times.
+const revokedBadgeSchema = new mongoose.Schema({
+  tokenId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  employee: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Employee',
+    required: true
+  },
+  revokedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  }
+}, {
+  timestamps: true
+});
+
+export default mongoose.model('RevokedBadge', revokedBadgeSchema);
@@ -0,0 +1,92 @@
+import mongoose from 'mongoose';
+
+// Append-only record of every emergency profile lookup. Answers the
+// "who looked at my medical data" question, so events are never edited
+// or removed once written. The one exception is the scanner's location,
+// which the browser reports a few seconds later and may be set only once.
+const scanEventSchema = new mongoose.Schema({
+  employee: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Employee',
+    required: true,
+    index: true
+  },
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  ip: {
+    type: String
+  },
+  userAgent: {
+    type: String,
+    maxlength: 500
+  },
+  disclosureTier: {
+    type: String,
+    enum: ['public', 'full'],
+    required: true
+  },
+  source: {
+    type: String,
+    enum: ['badge', 'id'],
+    required: true
+  },
+  // Set when the profile was shown from a device's offline cache; the event is
+  // uploaded at the device's next sync, so createdAt is later than the view
+  viewedOfflineAt: {
+    type: Date
+  },
+  location: {
+    latitude: Number,
+    longitude: Number,
+    accuracy: Number
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+scanEventSchema.index({ createdAt: -1 });
+
+const rejectMutation = function(next) {
+  next(new Error('Scan events are append-only'));
+};
+
+scanEventSchema.pre('save', function(next) {
+  if (!this.isNew) {
+    return rejectMutation(next);
+  }
+  next();
+});
+
+// Only `$set: { location }` on an event that has no location yet
+const isLocationAttachment = (query) => {
+  const update = query.getUpdate();
+  const filter = query.getFilter();
+  if (!update || Object.keys(update).join() !== '$set') return false;
+
+  return Object.keys(update.$set).every(path => path === 'location' || path.startsWith('location.')) &&
+    filter['location.latitude'] === null;
+};
+
+scanEventSchema.pre('updateOne', { document: true, query: true }, function(next) {
+  if (this instanceof mongoose.Query && isLocationAttachment(this)) {
+    return next();
+  }
+  rejectMutation(next);
+});
+
+scanEventSchema.pre('deleteOne', { document: true, query: true }, rejectMutation);
+
+[
+  'updateMany',
+  'findOneAndUpdate',
+  'replaceOne',
+  'findOneAndReplace',
+  'deleteMany',
+  'findOneAndDelete'
+].forEach(operation => {
+  scanEventSchema.pre(operation, rejectMutation);
+});
+
+export default mongoose.model('ScanEvent', scanEventSchema);
@@ -0,0 +1,48 @@
+import mongoose from 'mongoose';
+import { PUBLIC_PROFILE_FIELD_NAMES } from '../utils/disclosure.js';
+import { COUNTRY_CODES } from '../config/countries.js';
+
+// A plant, office or contractor location. The code is the natural key:
+// employees, badge templates, incidents and users' assigned sites all refer
+// to a site by its code.
+const siteSchema = new mongoose.Schema({
+  code: {
+    type: String,
+    required: [true, 'Site code is required'],
+    unique: true,
+    trim: true,
+    uppercase: true,
+    maxlength: 40
+  },
+  name: {
+    type: String,
+    required: [true, 'Site name is required'],
+    trim: true,
+    maxlength: 80
+  },
+  organization: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Organization',
+    required: [true, 'Organisation is required'],
+    index: true
+  },
+  // Overrides the organisation's settings when set
+  country: {
+    type: String,
+    uppercase: true,
+    enum: COUNTRY_CODES
+  },
+  emergencyNumber: {
+    type: String,
+    trim: true,
+    maxlength: 20
+  },
+  publicProfileFields: [{
+    type: String,
+    enum: PUBLIC_PROFILE_FIELD_NAMES
+  }]
+}, {
+  timestamps: true
+});
+
+export default mongoose.model('Site', siteSchema);
@@ -1,5 +1,6 @@
 import mongoose from 'mongoose';
 import bcrypt from 'bcryptjs';
+import { ALL_ROLES, ROLES, normalizeRole } from '../config/roles.js';
 
 const userSchema = new mongoose.Schema({
   username: {
@@ -25,13 +26,46 @@ const userSchema = new mongoose.Schema({
   },
   role: {
     type: String,
-    enum: ['admin', 'user'],
-    default: 'user'
+    enum: ALL_ROLES,
+    default: ROLES.RESPONDER
+  },
+  // Accounts in an organisation only work with its employees and sites;
+  // accounts without one are not limited to any organisation
+  organization: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Organization',
+    default: null
+  },
+  // Site codes this account works at: its directory shows only their
+  // employees, and their profiles may be kept in its offline cache
+  assignedSites: [{
+    type: String,
+    trim: true,
+    uppercase: true,
+    maxlength: 40
+  }],
+  // Set on self-service accounts: the one employee record this login may see
+  // and propose changes to
+  employee: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Employee',
+    index: { unique: true, sparse: true }
+  },
+  invitedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
   }
 }, {
   timestamps: true
 });
 
+// Accounts still stored with a legacy role take the current one when next
+// saved, so they pass the role check (npm run migrate-roles converts them all)
+userSchema.pre('validate', function(next) {
+  this.role = normalizeRole(this.role);
+  next();
+});
+
 // Hash password before saving
 userSchema.pre('save', async function(next) {
   if (!this.isModified('password')) {
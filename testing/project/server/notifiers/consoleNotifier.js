@@ -0,0 +1,10 @@
+// Prints notifications to the server log; the default for local development
+export const createConsoleNotifier = () => ({
+  name: 'console',
+  send: async (notification) => {
+    const recipients = notification.recipients
+      .map(recipient => recipient.email || recipient.phone)
+      .join(', ');
+    console.log(`📣 [notification] to ${recipients}: ${notification.subject}\n${notification.text}`);
+  }
+});
@@ -0,0 +1,39 @@
+// Sends email through an HTTP mail API (SendGrid, Postmark, Mailgun or an
+// internal relay) that accepts { from, to, subject, text } as JSON
+export const createEmailNotifier = () => {
+  const apiUrl = process.env.EMAIL_API_URL;
+  const apiKey = process.env.EMAIL_API_KEY;
+  const from = process.env.EMAIL_FROM;
+
+  if (!apiUrl || !from) {
+    throw new Error('Email notifier requires EMAIL_API_URL and EMAIL_FROM');
+  }
+
+  return {
+    name: 'email',
+    send: async (notification) => {
+      const to = notification.recipients
+        .filter(recipient => recipient.email)
+        .map(recipient => recipient.email);
+      if (to.length === 0) return;
+
+      const response = await fetch(apiUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey && { Authorization: `Bearer ${apiKey}` })
+        },
+        body: JSON.stringify({
+          from,
+          to,
+          subject: notification.subject,
+          text: notification.text
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`Email API responded with ${response.status}`);
+      }
+    }
+  };
+};
@@ -0,0 +1,16 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+// Appends each notification as a JSON line, handy for tests and demos
+export const createFileNotifier = () => {
+  const filePath = process.env.NOTIFIER_FILE_PATH || 'logs/notifications.log';
+
+  return {
+    name: 'file',
+    send: async (notification) => {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      const entry = { ...notification, sentAt: new Date().toISOString() };
+      await fs.appendFile(filePath, `${JSON.stringify(entry)}\n`);
+    }
+  };
+};
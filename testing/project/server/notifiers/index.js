@@ -0,0 +1,60 @@
+import { createConsoleNotifier } from './consoleNotifier.js';
+import { createFileNotifier } from './fileNotifier.js';
+import { createEmailNotifier } from './emailNotifier.js';
+import { createSmsNotifier } from './smsNotifier.js';
+import { createWebhookNotifier } from './webhookNotifier.js';
+
+// A notifier is { name, send(notification) } where a notification is
+// { type, subject, text, recipients: [{ name, email?, phone? }], metadata? }.
+// New channels only need a factory registered here.
+const NOTIFIER_FACTORIES = {
+  console: createConsoleNotifier,
+  file: createFileNotifier,
+  email: createEmailNotifier,
+  sms: createSmsNotifier,
+  webhook: createWebhookNotifier
+};
+
+let notifiers = null;
+
+const getNotifiers = () => {
+  if (notifiers) return notifiers;
+
+  const channels = (process.env.NOTIFIER_CHANNELS || 'console')
+    .split(',')
+    .map(channel => channel.trim())
+    .filter(Boolean);
+
+  notifiers = channels.flatMap(channel => {
+    const factory = NOTIFIER_FACTORIES[channel];
+    if (!factory) {
+      console.error(`Unknown notifier channel "${channel}" ignored`);
+      return [];
+    }
+
+    try {
+      return [factory()];
+    } catch (error) {
+      console.error(`Notifier "${channel}" disabled:`, error.message);
+      return [];
+    }
+  });
+
+  return notifiers;
+};
+
+// Delivers through every configured channel; one failing channel does not
+// stop the others
+export const sendNotification = async (notification) => {
+  if (notification.recipients.length === 0) return;
+
+  const results = await Promise.allSettled(
+    getNotifiers().map(notifier => notifier.send(notification))
+  );
+
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      console.error(`Notifier "${getNotifiers()[index].name}" failed:`, result.reason);
+    }
+  });
+};
@@ -0,0 +1,35 @@
+// Sends SMS through an HTTP gateway that accepts { from, to, body } as JSON.
+// One request per recipient, as most gateways only take a single number.
+export const createSmsNotifier = () => {
+  const apiUrl = process.env.SMS_API_URL;
+  const apiKey = process.env.SMS_API_KEY;
+  const from = process.env.SMS_FROM;
+
+  if (!apiUrl) {
+    throw new Error('SMS notifier requires SMS_API_URL');
+  }
+
+  return {
+    name: 'sms',
+    send: async (notification) => {
+      const numbers = notification.recipients
+        .filter(recipient => recipient.phone)
+        .map(recipient => recipient.phone);
+
+      await Promise.all(numbers.map(async (to) => {
+        const response = await fetch(apiUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(apiKey && { Authorization: `Bearer ${apiKey}` })
+          },
+          body: JSON.stringify({ from, to, body: notification.text })
+        });
+
+        if (!response.ok) {
+          throw new Error(`SMS gateway responded with ${response.status}`);
+        }
+      }));
+    }
+  };
+};
@@ -0,0 +1,23 @@
+// Posts the full notification to a webhook (Slack/Teams relay, paging system, ...)
+export const createWebhookNotifier = () => {
+  const url = process.env.NOTIFY_WEBHOOK_URL;
+
+  if (!url) {
+    throw new Error('Webhook notifier requires NOTIFY_WEBHOOK_URL');
+  }
+
+  return {
+    name: 'webhook',
+    send: async (notification) => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(notification)
+      });
+
+      if (!response.ok) {
+        throw new Error(`Webhook responded with ${response.status}`);
+      }
+    }
+  };
+};
@@ -2,9 +2,42 @@ import express from 'express';
 import jwt from 'jsonwebtoken';
 import { body, validationResult } from 'express-validator';
 import User from '../models/User.js';
+import Invite from '../models/Invite.js';
+import Organization from '../models/Organization.js';
+import LoginLink from '../models/LoginLink.js';
+import { ROLES, normalizeRole } from '../config/roles.js';
+import { hashToken } from '../utils/tokens.js';
+import { sendLoginLink } from '../utils/loginLinks.js';
 
 const router = express.Router();
 
+// Open self-registration is off unless explicitly enabled; accounts are
+// otherwise created by redeeming an invitation. Once organisations exist it
+// stays off, as a self-registered account would belong to none and so be
+// limited to none: the invitation is what places an account in one.
+const isOpenRegistrationEnabled = async () =>
+  process.env.ALLOW_OPEN_REGISTRATION === 'true' && !(await Organization.exists({}));
+
+// GET /api/auth/config - Public settings the login screens need
+router.get('/config', async (req, res) => {
+  try {
+    const isFirstUser = (await User.countDocuments()) === 0;
+
+    res.json({
+      success: true,
+      data: {
+        registrationOpen: (await isOpenRegistrationEnabled()) || isFirstUser
+      }
+    });
+  } catch (error) {
+    console.error('Get auth config error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
 // POST /api/auth/register
 router.post('/register', [
   body('username').isLength({ min: 3 }).withMessage('Username must be at least 3 characters'),
@@ -21,7 +54,36 @@ router.post('/register', [
       });
     }
 
-    const { username, email, password } = req.body;
+    const { username, email, password, inviteToken } = req.body;
+
+    let invite = null;
+    if (inviteToken) {
+      invite = await Invite.findOne({ tokenHash: hashToken(inviteToken) });
+
+      if (!invite || !invite.isRedeemable()) {
+        return res.status(400).json({
+          success: false,
+          message: 'This invitation is invalid or has expired'
+        });
+      }
+
+      if (invite.email !== email.toLowerCase()) {
+        return res.status(400).json({
+          success: false,
+          message: 'Email does not match the invitation'
+        });
+      }
+    }
+
+    // The very first account bootstraps the system as super-admin
+    const isFirstUser = (await User.countDocuments()) === 0;
+
+    if (!invite && !isFirstUser && !(await isOpenRegistrationEnabled())) {
+      return res.status(403).json({
+        success: false,
+        message: 'Registration is by invitation only'
+      });
+    }
 
     // Check if user already exists
     const existingUser = await User.findOne({
@@ -35,8 +97,50 @@ router.post('/register', [
       });
     }
 
-    const user = new User({ username, email, password, role: 'admin' });
-    await user.save();
+    let role = ROLES.RESPONDER;
+    if (invite) {
+      role = invite.role;
+    } else if (isFirstUser) {
+      role = ROLES.SUPER_ADMIN;
+    }
+
+    // Claim the invitation atomically so the same link cannot be redeemed twice
+    if (invite) {
+      const claimed = await Invite.findOneAndUpdate(
+        { _id: invite._id, acceptedAt: null, revokedAt: null },
+        { acceptedAt: new Date() },
+        { new: true }
+      );
+
+      if (!claimed) {
+        return res.status(409).json({
+          success: false,
+          message: 'This invitation has already been used'
+        });
+      }
+    }
+
+    const user = new User({
+      username,
+      email,
+      password,
+      role,
+      organization: invite?.organization,
+      invitedBy: invite?.createdBy
+    });
+
+    try {
+      await user.save();
+    } catch (saveError) {
+      if (invite) {
+        await Invite.updateOne({ _id: invite._id }, { $unset: { acceptedAt: 1 } });
+      }
+      throw saveError;
+    }
+
+    if (invite) {
+      await Invite.updateOne({ _id: invite._id }, { acceptedBy: user._id });
+    }
 
     const token = jwt.sign(
       { userId: user._id, role: user.role },
@@ -97,8 +201,10 @@ router.post('/login', [
       });
     }
 
+    const role = normalizeRole(user.role);
+
     const token = jwt.sign(
-      { userId: user._id, role: user.role },
+      { userId: user._id, role },
       process.env.JWT_SECRET,
       { expiresIn: '7d' }
     );
@@ -111,7 +217,7 @@ router.post('/login', [
         id: user._id,
         username: user.username,
         email: user.email,
-        role: user.role
+        role
       }
     });
   } catch (error) {
@@ -123,4 +229,94 @@ router.post('/login', [
   }
 });
 
-export default router;
\ No newline at end of file
+// POST /api/auth/login-link - Email a one-time sign-in link to a self-service
+// employee. Answers the same whether or not the account exists.
+router.post('/login-link', [
+  body('email').isEmail().withMessage('Please enter a valid email')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const user = await User.findOne({ email: req.body.email.toLowerCase(), role: ROLES.EMPLOYEE });
+    if (user) {
+      await sendLoginLink(user);
+    }
+
+    res.json({
+      success: true,
+      message: 'If an employee account uses this email, a sign-in link is on its way'
+    });
+  } catch (error) {
+    console.error('Send login link error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// POST /api/auth/login-link/verify - Sign in with a link from the email
+router.post('/login-link/verify', [
+  body('token').isString().notEmpty().withMessage('Sign-in token is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    // Used up atomically so the same link cannot sign in twice
+    const link = await LoginLink.findOneAndUpdate(
+      { tokenHash: hashToken(req.body.token), usedAt: null, expiresAt: { $gt: new Date() } },
+      { usedAt: new Date() },
+      { new: true }
+    );
+    const user = link && await User.findById(link.user);
+
+    if (!user) {
+      return res.status(401).json({
+        success: false,
+        message: 'This sign-in link is invalid, expired or already used'
+      });
+    }
+
+    const role = normalizeRole(user.role);
+
+    const token = jwt.sign(
+      { userId: user._id, role },
+      process.env.JWT_SECRET,
+      { expiresIn: '7d' }
+    );
+
+    res.json({
+      success: true,
+      message: 'Login successful',
+      token,
+      user: {
+        id: user._id,
+        username: user.username,
+        email: user.email,
+        role
+      }
+    });
+  } catch (error) {
+    console.error('Verify login link error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,118 @@
+import express from 'express';
+import { query, validationResult } from 'express-validator';
+import Employee from '../models/Employee.js';
+import BadgeTemplate from '../models/BadgeTemplate.js';
+import ExportEvent from '../models/ExportEvent.js';
+import { authenticate, authorize } from '../middleware/auth.js';
+import { EDITOR_ROLES } from '../config/roles.js';
+import { PAPER_SIZES, writeBadgePdf } from '../utils/badgePdf.js';
+import { ACTIVE_EMPLOYEES, buildFilter, directoryFilterValidation } from '../utils/employeeFilters.js';
+import { generateQRCodeBuffer } from '../utils/qrGenerator.js';
+import { employeeScope } from '../utils/siteScope.js';
+
+const router = express.Router();
+
+// Each badge embeds a photo and a QR image; keeps one PDF to a sane size
+const MAX_SHEET_BADGES = 500;
+
+const sheetValidation = [
+  query('paper').isIn(Object.keys(PAPER_SIZES)).withMessage(`Paper must be one of ${Object.keys(PAPER_SIZES).join(', ')}`),
+  ...directoryFilterValidation
+];
+
+const toBadges = async (employees) => {
+  const templateFor = await BadgeTemplate.resolverFor(employees);
+
+  return Promise.all(employees.map(async (employee) => ({
+    employee,
+    template: templateFor(employee),
+    qrCode: await generateQRCodeBuffer(employee.badgeQrContent()),
+    photo: employee.photo?.data
+  })));
+};
+
+const sendBadgePdf = (res, badges, { paper, filename }) => {
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.setHeader('Cache-Control', 'no-store');
+  res.type('application/pdf');
+  writeBadgePdf(badges, res, { paper });
+};
+
+// GET /api/employees/badges/sheet?paper=a4|letter - Badges for the filtered
+// directory on printable sheets with crop marks; logged like an export
+router.get('/sheet', authenticate, authorize(...EDITOR_ROLES), sheetValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { paper, search, bloodGroup } = req.query;
+    const filter = buildFilter({ search, bloodGroup }, req.user);
+
+    const count = await Employee.countDocuments(filter);
+    if (count === 0 || count > MAX_SHEET_BADGES) {
+      return res.status(400).json({
+        success: false,
+        message: count === 0
+          ? 'No employees match these filters'
+          : `Narrow the filters to at most ${MAX_SHEET_BADGES} badges per print run`
+      });
+    }
+
+    const employees = await Employee.find(filter).select('+photo.data').sort({ name: 1 });
+    const badges = await toBadges(employees);
+
+    await ExportEvent.create({
+      user: req.user._id,
+      format: 'badges',
+      filters: { search, bloodGroup },
+      count: employees.length,
+      ip: req.ip,
+      userAgent: req.get('User-Agent')?.slice(0, 500)
+    });
+
+    sendBadgePdf(res, badges, {
+      paper,
+      filename: `badges-${paper}-${new Date().toISOString().split('T')[0]}.pdf`
+    });
+  } catch (error) {
+    console.error('Print badge sheet error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// GET /api/employees/badges/:id - One CR80 badge, front and back
+router.get('/:id', authenticate, authorize(...EDITOR_ROLES), async (req, res) => {
+  try {
+    const employee = await Employee.findOne({ _id: req.params.id, ...ACTIVE_EMPLOYEES, ...employeeScope(req.user) })
+      .select('+photo.data');
+
+    if (!employee) {
+      return res.status(404).json({
+        success: false,
+        message: 'Employee not found'
+      });
+    }
+
+    sendBadgePdf(res, await toBadges([employee]), {
+      paper: 'card',
+      filename: `badge-${employee.employeeId}.pdf`
+    });
+  } catch (error) {
+    console.error('Print badge error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+export default router;
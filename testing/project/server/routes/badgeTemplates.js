@@ -0,0 +1,198 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { body, validationResult } from 'express-validator';
+import BadgeTemplate from '../models/BadgeTemplate.js';
+import { authenticate, authorize } from '../middleware/auth.js';
+import { EDITOR_ROLES } from '../config/roles.js';
+import { organizationFor, resolveAssignableSite } from '../utils/siteScope.js';
+
+const router = express.Router();
+
+const templateValidation = [
+  body('name').notEmpty().trim().withMessage('Template name is required'),
+  body('site').optional({ values: 'falsy' }).isString().isLength({ max: 40 }).withMessage('Site code must be at most 40 characters'),
+  body('primaryColor').optional().matches(/^#[0-9a-f]{6}$/i).withMessage('Primary color must be a hex value'),
+  body('accentColor').optional().matches(/^#[0-9a-f]{6}$/i).withMessage('Accent color must be a hex value'),
+  body('showPhoto').optional().isBoolean().withMessage('Show photo must be true or false'),
+  body('organizationName').optional().isString().isLength({ max: 40 }),
+  body('frontFooter').optional().isString().isLength({ max: 40 }),
+  body('emergencyNumber').optional().isString().isLength({ max: 20 }),
+  body('backNote').optional().isString().isLength({ max: 200 })
+];
+
+const TEMPLATE_FIELDS = [
+  'name', 'organizationName', 'primaryColor', 'accentColor', 'showPhoto',
+  'frontFooter', 'emergencyNumber', 'backNote'
+];
+
+// A blank site means the default template, stored without a site so the
+// sparse unique index allows it
+const toTemplateFields = (reqBody) => {
+  const fields = Object.fromEntries(
+    TEMPLATE_FIELDS.filter(field => reqBody[field] !== undefined).map(field => [field, reqBody[field]])
+  );
+  fields.site = reqBody.site?.trim() ? reqBody.site.trim().toUpperCase() : undefined;
+  return fields;
+};
+
+// Accounts of an organisation only see and change its templates
+const orgFilter = (req) => (req.user.organization ? { organization: req.user.organization } : {});
+
+const findTemplate = (req) => (mongoose.isValidObjectId(req.params.id)
+  ? BadgeTemplate.findOne({ _id: req.params.id, ...orgFilter(req) })
+  : null);
+
+// Only one template per site, and one default per organisation
+const findConflict = (site, organization, excludeId) => BadgeTemplate.findOne({
+  site: site || null,
+  ...(!site && { organization }),
+  ...(excludeId && { _id: { $ne: excludeId } })
+});
+
+const conflictMessage = (site) => (site
+  ? `Site ${site} already has a badge template`
+  : 'A default badge template already exists');
+
+const rejectInvalidRequest = (req, res) => {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) return false;
+
+  res.status(400).json({
+    success: false,
+    message: 'Validation failed',
+    errors: errors.array()
+  });
+  return true;
+};
+
+// GET /api/badge-templates - All templates, default first
+router.get('/', authenticate, authorize(...EDITOR_ROLES), async (req, res) => {
+  try {
+    const templates = await BadgeTemplate.find(orgFilter(req)).sort({ site: 1 });
+    res.json({
+      success: true,
+      data: templates
+    });
+  } catch (error) {
+    console.error('Get badge templates error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// POST /api/badge-templates - Create a template for a site (or the default)
+router.post('/', authenticate, authorize(...EDITOR_ROLES), templateValidation, async (req, res) => {
+  try {
+    if (rejectInvalidRequest(req, res)) return;
+
+    const fields = toTemplateFields(req.body);
+    const { site, message } = await resolveAssignableSite(req.user, fields.site);
+    if (message) {
+      return res.status(400).json({
+        success: false,
+        message
+      });
+    }
+
+    const organization = organizationFor(site, req.user);
+    if (await findConflict(fields.site, organization)) {
+      return res.status(409).json({
+        success: false,
+        message: conflictMessage(fields.site)
+      });
+    }
+
+    const template = await BadgeTemplate.create({ ...fields, organization, updatedBy: req.user._id });
+
+    res.status(201).json({
+      success: true,
+      message: 'Badge template created successfully',
+      data: template
+    });
+  } catch (error) {
+    console.error('Create badge template error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// PUT /api/badge-templates/:id - Update a template
+router.put('/:id', authenticate, authorize(...EDITOR_ROLES), templateValidation, async (req, res) => {
+  try {
+    if (rejectInvalidRequest(req, res)) return;
+
+    const template = await findTemplate(req);
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Badge template not found'
+      });
+    }
+
+    const fields = toTemplateFields(req.body);
+    const { site, message } = await resolveAssignableSite(req.user, fields.site);
+    if (message) {
+      return res.status(400).json({
+        success: false,
+        message
+      });
+    }
+
+    // A default stays with its organisation when an unscoped account edits it
+    const organization = site ? site.organization : template.organization ?? organizationFor(null, req.user);
+    if (await findConflict(fields.site, organization, template._id)) {
+      return res.status(409).json({
+        success: false,
+        message: conflictMessage(fields.site)
+      });
+    }
+
+    template.set({ ...fields, organization, updatedBy: req.user._id });
+    await template.save();
+
+    res.json({
+      success: true,
+      message: 'Badge template updated successfully',
+      data: template
+    });
+  } catch (error) {
+    console.error('Update badge template error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// DELETE /api/badge-templates/:id - Employees fall back to the default template
+router.delete('/:id', authenticate, authorize(...EDITOR_ROLES), async (req, res) => {
+  try {
+    const template = await findTemplate(req);
+
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Badge template not found'
+      });
+    }
+
+    await template.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Badge template deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete badge template error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+export default router;
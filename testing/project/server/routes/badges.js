@@ -0,0 +1,139 @@
+import express from 'express';
+import Employee from '../models/Employee.js';
+import RevokedBadge from '../models/RevokedBadge.js';
+import { optionalAuthenticate } from '../middleware/auth.js';
+import { isShortCode, normalizeShortCode, tokenForId, verifyBadgeToken } from '../utils/badgeToken.js';
+import { getPayloadPublicKey, isBadgePayloadConfigured } from '../utils/badgePayload.js';
+import { resolveDisclosureTier, toDisclosedProfile } from '../utils/disclosure.js';
+import { recordScanEvent } from '../utils/scanLog.js';
+import { scheduleScanNotification } from '../utils/scanNotifications.js';
+import { resolveSiteSettings, toProfileSiteSettings } from '../utils/siteSettings.js';
+
+const router = express.Router();
+
+// Resolves a scanned token to its employee, or explains why it cannot be used
+const resolveBadge = async (token) => {
+  const tokenId = verifyBadgeToken(token);
+  if (!tokenId) {
+    return { status: 'invalid', httpStatus: 400, message: 'This QR code is not a valid badge' };
+  }
+
+  const revoked = await RevokedBadge.exists({ tokenId });
+  if (revoked) {
+    return { status: 'revoked', httpStatus: 410, message: 'This badge has been revoked' };
+  }
+
+  const employee = await Employee.findOne({ 'badge.tokenId': tokenId });
+  if (!employee) {
+    return { status: 'unknown', httpStatus: 404, message: 'Employee not found' };
+  }
+
+  if (employee.archivedAt) {
+    return { status: 'archived', httpStatus: 410, message: 'This employee record is no longer active' };
+  }
+
+  return { status: 'active', httpStatus: 200, employee };
+};
+
+// GET /api/badges/payload-keys - Public keys that verify self-contained badge
+// payloads; scanners cache them so they can verify without a connection
+router.get('/payload-keys', (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: isBadgePayloadConfigured() ? [getPayloadPublicKey()] : []
+    });
+  } catch (error) {
+    console.error('Get payload keys error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// GET /api/badges/code/:code - Resolves a typed short code to its badge
+// token, so the scanner can continue exactly as if the QR had been read
+router.get('/code/:code', async (req, res) => {
+  try {
+    const code = normalizeShortCode(req.params.code);
+    const employee = isShortCode(code)
+      ? await Employee.findOne({ 'badge.shortCode': code }).select('badge')
+      : null;
+
+    if (!employee) {
+      return res.status(404).json({
+        success: false,
+        message: 'No current badge has this code'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { token: tokenForId(employee.badge.tokenId) }
+    });
+  } catch (error) {
+    console.error('Badge code lookup error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// GET /api/badges/:token/status - Lightweight check used by the scanner
+router.get('/:token/status', async (req, res) => {
+  try {
+    const { status, httpStatus, message } = await resolveBadge(req.params.token);
+
+    res.status(httpStatus).json({
+      success: status === 'active',
+      message,
+      data: { status }
+    });
+  } catch (error) {
+    console.error('Badge status error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// GET /api/badges/:token - Emergency profile for a scanned badge
+router.get('/:token', optionalAuthenticate, async (req, res) => {
+  try {
+    const { status, httpStatus, message, employee } = await resolveBadge(req.params.token);
+
+    if (!employee) {
+      return res.status(httpStatus).json({
+        success: false,
+        message,
+        data: { status }
+      });
+    }
+
+    const tier = resolveDisclosureTier(req.user, employee);
+    const siteSettings = await resolveSiteSettings(employee.site);
+    const scanEvent = await recordScanEvent(req, employee, { tier, source: 'badge' });
+    const requestLocation = scheduleScanNotification(scanEvent, employee);
+
+    res.json({
+      success: true,
+      data: {
+        ...toDisclosedProfile(employee, tier, siteSettings.publicProfileFields),
+        siteSettings: toProfileSiteSettings(siteSettings),
+        scanId: scanEvent?._id,
+        requestLocation
+      }
+    });
+  } catch (error) {
+    console.error('Get badge profile error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,93 @@
+import express from 'express';
+import { query, validationResult } from 'express-validator';
+import Employee from '../models/Employee.js';
+import ExportEvent from '../models/ExportEvent.js';
+import User from '../models/User.js';
+import { authenticate, authorize } from '../middleware/auth.js';
+import { AUDIT_ROLES, DIRECTORY_ROLES } from '../config/roles.js';
+import { EXPORT_FORMATS, toCsvExport, toJsonExport, writeRosterPdf } from '../utils/employeeExport.js';
+import { buildFilter, describeFilters, directoryFilterValidation } from '../utils/employeeFilters.js';
+
+const router = express.Router();
+
+const exportValidation = [
+  query('format').isIn(EXPORT_FORMATS).withMessage(`Format must be one of ${EXPORT_FORMATS.join(', ')}`),
+  ...directoryFilterValidation
+];
+
+// GET /api/employees/export?format=csv|json|pdf - Export the filtered
+// directory; limited to roles that can read full records, and logged
+router.get('/', authenticate, authorize(...DIRECTORY_ROLES), exportValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { format, search, bloodGroup } = req.query;
+    const employees = await Employee.find(buildFilter({ search, bloodGroup }, req.user)).sort({ name: 1 });
+
+    // No log entry, no export
+    await ExportEvent.create({
+      user: req.user._id,
+      format,
+      filters: { search, bloodGroup },
+      count: employees.length,
+      ip: req.ip,
+      userAgent: req.get('User-Agent')?.slice(0, 500)
+    });
+
+    const filename = `employees-${new Date().toISOString().split('T')[0]}.${format}`;
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader('Cache-Control', 'no-store');
+
+    if (format === 'csv') {
+      res.type('text/csv').send(toCsvExport(employees));
+    } else if (format === 'json') {
+      res.type('application/json').send(toJsonExport(employees));
+    } else {
+      res.type('application/pdf');
+      writeRosterPdf(employees, res, {
+        generatedBy: req.user.username,
+        filterSummary: describeFilters({ search, bloodGroup })
+      });
+    }
+  } catch (error) {
+    console.error('Export employees error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// GET /api/employees/export/log - Recent exports, for auditors
+router.get('/log', authenticate, authorize(...AUDIT_ROLES), async (req, res) => {
+  try {
+    // Auditors of an organisation only see exports made by its accounts
+    const filter = req.user.organization
+      ? { user: { $in: await User.find({ organization: req.user.organization }).distinct('_id') } }
+      : {};
+    const events = await ExportEvent.find(filter)
+      .populate('user', 'username email role')
+      .sort({ createdAt: -1 })
+      .limit(100);
+
+    res.json({
+      success: true,
+      data: events
+    });
+  } catch (error) {
+    console.error('Get export log error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+export default router;
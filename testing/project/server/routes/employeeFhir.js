@@ -0,0 +1,158 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import Employee from '../models/Employee.js';
+import ExportEvent from '../models/ExportEvent.js';
+import { authenticate, authorize } from '../middleware/auth.js';
+import { DIRECTORY_ROLES, EDITOR_ROLES } from '../config/roles.js';
+import { ACTIVE_EMPLOYEES } from '../utils/employeeFilters.js';
+import { FHIR_CONTENT_TYPE, fhirSystems, fromFhirBundle, toFhirBundle } from '../utils/fhir.js';
+import { validateFhirBundle } from '../utils/fhirValidation.js';
+import { stripManagedFields, validateEmployeeRecord } from '../utils/employeeValidation.js';
+import { recordVersion, snapshotEmployee } from '../utils/employeeVersions.js';
+import { employeeScope, organizationFor, resolveAssignableSite } from '../utils/siteScope.js';
+
+const router = express.Router();
+
+// EHRs send bundles as application/fhir+json, which the app-wide parser skips
+router.use(express.json({ type: FHIR_CONTENT_TYPE, limit: '10mb' }));
+
+// GET /api/employees/fhir/:id - The employee's profile as a FHIR R4 Bundle;
+// logged like any other export
+router.get('/:id', authenticate, authorize(...DIRECTORY_ROLES), async (req, res) => {
+  try {
+    const employee = mongoose.isValidObjectId(req.params.id)
+      ? await Employee.findOne({ _id: req.params.id, ...ACTIVE_EMPLOYEES, ...employeeScope(req.user) })
+      : null;
+
+    if (!employee) {
+      return res.status(404).json({
+        success: false,
+        message: 'Employee not found'
+      });
+    }
+
+    await ExportEvent.create({
+      user: req.user._id,
+      format: 'fhir',
+      filters: { search: employee.employeeId },
+      count: 1,
+      ip: req.ip,
+      userAgent: req.get('User-Agent')?.slice(0, 500)
+    });
+
+    res.setHeader('Content-Disposition', `attachment; filename="${employee.employeeId}.fhir.json"`);
+    res.setHeader('Cache-Control', 'no-store');
+    res.type(FHIR_CONTENT_TYPE).send(JSON.stringify(toFhirBundle(employee), null, 2));
+  } catch (error) {
+    console.error('FHIR export error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// Carried over from the record being updated, as FHIR has nowhere to say
+// which contacts want scan notifications
+const keepNotificationChoices = (contacts = [], existing) => contacts.map(contact => ({
+  ...contact,
+  notifyOnScan: existing.emergencyContacts.some(previous => previous.phone === contact.phone && previous.notifyOnScan)
+}));
+
+// POST /api/employees/fhir?site=CODE - Create or update an employee from a
+// FHIR R4 Bundle. The Patient's employee-id identifier picks the record; new
+// employees are placed at the given site, existing ones stay where they are.
+router.post('/', authenticate, authorize(...EDITOR_ROLES), async (req, res) => {
+  try {
+    const bundleErrors = validateFhirBundle(req.body);
+    if (bundleErrors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid FHIR bundle',
+        errors: bundleErrors
+      });
+    }
+
+    const fields = fromFhirBundle(req.body);
+    if (!fields.employeeId) {
+      return res.status(400).json({
+        success: false,
+        message: `The Patient needs an identifier with system ${fhirSystems().employeeId}`
+      });
+    }
+
+    // Employee IDs are unique per organisation: the site's, else the account's
+    const { site, message } = await resolveAssignableSite(req.user, req.query.site);
+    const organization = organizationFor(site, req.user);
+    const employee = await Employee.findOne({
+      ...employeeScope(req.user),
+      employeeId: fields.employeeId.trim().toUpperCase(),
+      organization
+    });
+    if (employee?.archivedAt) {
+      return res.status(409).json({
+        success: false,
+        message: 'Employee ID belongs to an archived employee; restore that record instead'
+      });
+    }
+
+    if (!employee && message) {
+      return res.status(400).json({
+        success: false,
+        message
+      });
+    }
+
+    const { record, errors } = await validateEmployeeRecord({
+      ...fields,
+      site: employee ? employee.site : site?.code
+    });
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors
+      });
+    }
+
+    if (employee) {
+      const previous = snapshotEmployee(employee);
+      employee.set({
+        ...stripManagedFields(record),
+        emergencyContacts: keepNotificationChoices(record.emergencyContacts, employee)
+      });
+      await employee.save();
+      await recordVersion(employee, { author: req.user._id, source: 'fhir', previous });
+
+      return res.json({
+        success: true,
+        message: 'Employee updated from FHIR bundle',
+        data: employee
+      });
+    }
+
+    const created = new Employee({ ...stripManagedFields(record), organization });
+    await created.save();
+    await recordVersion(created, { author: req.user._id, source: 'fhir' });
+
+    res.status(201).json({
+      success: true,
+      message: 'Employee created from FHIR bundle',
+      data: created
+    });
+  } catch (error) {
+    if (error.code === 11000) {
+      return res.status(409).json({
+        success: false,
+        message: 'Employee ID already exists in this organisation'
+      });
+    }
+    console.error('FHIR import error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+export default router;
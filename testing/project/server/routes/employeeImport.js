@@ -0,0 +1,163 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import Employee from '../models/Employee.js';
+import { authenticate, authorize } from '../middleware/auth.js';
+import { EDITOR_ROLES } from '../config/roles.js';
+import { stripManagedFields, validateEmployeeRecord } from '../utils/employeeValidation.js';
+import { recordVersion } from '../utils/employeeVersions.js';
+import { organizationFor, resolveAssignableSite } from '../utils/siteScope.js';
+
+const router = express.Router();
+
+const MAX_IMPORT_ROWS = 2000;
+
+const importValidation = [
+  body('employees')
+    .isArray({ min: 1, max: MAX_IMPORT_ROWS })
+    .withMessage(`Provide between 1 and ${MAX_IMPORT_ROWS} employees`),
+  body('employees.*').isObject().withMessage('Each employee must be an object')
+];
+
+const toRowErrors = (errors) => errors.map(({ path, msg }) => ({ field: path, message: msg }));
+
+// Errors raised by the Employee model itself
+const modelErrors = (error) => {
+  if (error.name === 'ValidationError') {
+    return Object.values(error.errors).map(e => ({ field: e.path, message: e.message }));
+  }
+  if (error.code === 11000) {
+    return [{ field: 'employeeId', message: 'Employee ID already exists' }];
+  }
+  return [{ field: '', message: 'Could not be saved' }];
+};
+
+// Employee IDs are unique per organisation, so duplicates are keyed by both
+const idKey = (organization, employeeId) => `${organization || ''}:${employeeId}`;
+
+// Validates every row with the employee form rules, then the model's own
+// (e.g. contact relationship), checks the importing user may place employees
+// at the row's site, and flags employee ids that already exist in the
+// organisation or repeat within the file. `index` is the position in the
+// submitted array, which the client maps back to its spreadsheet rows.
+const validateImportRows = async (rows, user) => {
+  const results = [];
+  const siteCache = new Map();
+  for (const row of rows) {
+    const result = await validateEmployeeRecord(row);
+    const { site, message } = await resolveAssignableSite(user, result.record.site, siteCache);
+    results.push({
+      ...result,
+      siteError: message,
+      organization: organizationFor(site, user)
+    });
+  }
+
+  const employeeIds = results.map(({ record }) => String(record.employeeId || '').trim().toUpperCase());
+  const existing = await Employee.find({ employeeId: { $in: employeeIds.filter(Boolean) } }, 'employeeId organization');
+  const existingIds = new Set(existing.map(employee => idKey(employee.organization, employee.employeeId)));
+  const firstSeenAt = new Map();
+
+  return results.map(({ record, errors, siteError, organization }, index) => {
+    const rowErrors = toRowErrors(errors);
+    const employeeId = employeeIds[index];
+    const key = idKey(organization, employeeId);
+
+    if (siteError) rowErrors.push({ field: 'site', message: siteError });
+
+    if (rowErrors.length === 0) {
+      const modelError = new Employee(stripManagedFields(record)).validateSync();
+      if (modelError) rowErrors.push(...modelErrors(modelError));
+    }
+
+    if (employeeId && existingIds.has(key)) {
+      rowErrors.push({ field: 'employeeId', message: 'Employee ID already exists' });
+    } else if (employeeId && firstSeenAt.has(key)) {
+      rowErrors.push({ field: 'employeeId', message: 'Employee ID is repeated in this file' });
+    }
+    if (employeeId && !firstSeenAt.has(key)) {
+      firstSeenAt.set(key, index);
+    }
+
+    return { index, employeeId, record, organization, errors: rowErrors };
+  });
+};
+
+const rejectInvalidRequest = (req, res) => {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) return false;
+
+  res.status(400).json({
+    success: false,
+    message: 'Validation failed',
+    errors: errors.array()
+  });
+  return true;
+};
+
+// POST /api/employees/import/preview - Per-row validation without saving
+router.post('/preview', authenticate, authorize(...EDITOR_ROLES), importValidation, async (req, res) => {
+  try {
+    if (rejectInvalidRequest(req, res)) return;
+
+    const rows = await validateImportRows(req.body.employees, req.user);
+
+    res.json({
+      success: true,
+      data: rows.map(({ index, employeeId, errors }) => ({
+        index,
+        employeeId,
+        valid: errors.length === 0,
+        errors
+      }))
+    });
+  } catch (error) {
+    console.error('Preview import error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// POST /api/employees/import - Create every valid row; invalid rows are
+// returned with their errors instead of failing the whole batch
+router.post('/', authenticate, authorize(...EDITOR_ROLES), importValidation, async (req, res) => {
+  try {
+    if (rejectInvalidRequest(req, res)) return;
+
+    const rows = await validateImportRows(req.body.employees, req.user);
+    const created = [];
+    const rejected = [];
+
+    // Saved one by one so the model encrypts each record and issues its badge
+    for (const { index, employeeId, record, organization, errors } of rows) {
+      if (errors.length > 0) {
+        rejected.push({ index, employeeId, errors });
+        continue;
+      }
+
+      try {
+        const employee = new Employee({ ...stripManagedFields(record), organization });
+        await employee.save();
+        await recordVersion(employee, { author: req.user._id, source: 'import' });
+        created.push({ index, employeeId: employee.employeeId, id: employee._id });
+      } catch (error) {
+        rejected.push({ index, employeeId, errors: modelErrors(error) });
+      }
+    }
+
+    res.status(created.length > 0 ? 201 : 200).json({
+      success: true,
+      message: `Imported ${created.length} of ${rows.length} employees`,
+      data: { created, rejected }
+    });
+  } catch (error) {
+    console.error('Import employees error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+export default router;
@@ -1,28 +1,166 @@
 import express from 'express';
-import { body, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import multer from 'multer';
+import { query, validationResult } from 'express-validator';
 import Employee from '../models/Employee.js';
-import { generateQRCode } from '../utils/qrGenerator.js';
-import { authenticate } from '../middleware/auth.js';
+import EmployeeVersion from '../models/EmployeeVersion.js';
+import RevokedBadge from '../models/RevokedBadge.js';
+import {
+  generateQRCode,
+  isQrLogoConfigured,
+  renderQRCode,
+  QR_ERROR_CORRECTION_LEVELS,
+  QR_FORMATS,
+  QR_MARGIN_RANGE,
+  QR_SIZE_RANGE
+} from '../utils/qrGenerator.js';
+import { recordScanEvent } from '../utils/scanLog.js';
+import { scheduleScanNotification } from '../utils/scanNotifications.js';
+import { authenticate, authorize, optionalAuthenticate } from '../middleware/auth.js';
+import { DIRECTORY_ROLES, EDITOR_ROLES, STAFF_ROLES } from '../config/roles.js';
+import { DISCLOSURE_TIERS, resolveDisclosureTier, toDisclosedProfile } from '../utils/disclosure.js';
+import { employeeValidation, stripManagedFields, validateEmployeeRecord } from '../utils/employeeValidation.js';
+import { ACTIVE_EMPLOYEES, buildFilter } from '../utils/employeeFilters.js';
+import { archiveEmployee, unarchiveEmployee } from '../utils/employeeArchive.js';
+import { employeeScope, organizationFor, resolveAssignableSite } from '../utils/siteScope.js';
+import { resolveSiteSettings, toProfileSiteSettings } from '../utils/siteSettings.js';
+import { VERSIONED_FIELDS, recordVersion, snapshotEmployee } from '../utils/employeeVersions.js';
+import { upgradeLegacyAllergies } from '../utils/allergies.js';
 
 const router = express.Router();
 
-// Validation rules
-const employeeValidation = [
-  body('name').notEmpty().trim().withMessage('Name is required'),
-  body('employeeId').notEmpty().trim().withMessage('Employee ID is required'),
-  body('dob').isDate().withMessage('Valid date of birth is required'),
-  body('bloodGroup').isIn(['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-']).withMessage('Valid blood group is required'),
-  body('emergencyContacts').isArray({ min: 1 }).withMessage('At least one emergency contact is required'),
-  body('physician.name').notEmpty().withMessage('Physician name is required'),
-  body('physician.phone').notEmpty().withMessage('Physician phone is required'),
-  body('insurance.provider').notEmpty().withMessage('Insurance provider is required'),
-  body('insurance.memberId').notEmpty().withMessage('Insurance member ID is required')
+const PHOTO_TYPES = ['image/jpeg', 'image/png'];
+const MAX_PHOTO_BYTES = 2 * 1024 * 1024;
+
+const photoUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_PHOTO_BYTES, files: 1 },
+  fileFilter: (req, file, cb) => cb(null, PHOTO_TYPES.includes(file.mimetype))
+}).single('photo');
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const luminance = (hex) => [1, 3, 5]
+  .map(i => parseInt(hex.slice(i, i + 2), 16))
+  .reduce((sum, channel, i) => sum + channel * [0.299, 0.587, 0.114][i], 0);
+
+const qrValidation = [
+  query('format').optional().isIn(QR_FORMATS).withMessage(`Format must be one of ${QR_FORMATS.join(', ')}`),
+  query('size')
+    .optional()
+    .isInt(QR_SIZE_RANGE)
+    .withMessage(`Size must be between ${QR_SIZE_RANGE.min} and ${QR_SIZE_RANGE.max}`)
+    .toInt(),
+  query('errorCorrection')
+    .optional()
+    .isIn(QR_ERROR_CORRECTION_LEVELS)
+    .withMessage(`Error correction must be one of ${QR_ERROR_CORRECTION_LEVELS.join(', ')}`),
+  query('margin')
+    .optional()
+    .isInt(QR_MARGIN_RANGE)
+    .withMessage(`Margin must be between ${QR_MARGIN_RANGE.min} and ${QR_MARGIN_RANGE.max} modules`)
+    .toInt(),
+  query('dark').optional().matches(HEX_COLOR).withMessage('Dark color must be a hex value like #000000'),
+  query('light').optional().matches(HEX_COLOR).withMessage('Light color must be a hex value like #ffffff'),
+  // Scanners expect dark modules on a light background
+  query('dark')
+    .optional()
+    .custom((dark, { req }) => !HEX_COLOR.test(dark) || luminance(dark) < luminance(req.query.light || '#ffffff'))
+    .withMessage('Dark color must be darker than the light color'),
+  query('logo').optional().isBoolean().withMessage('Logo must be true or false').toBoolean(),
+  // The logo hides modules in the centre; only level H reliably recovers them
+  query('errorCorrection')
+    .optional()
+    .custom((level, { req }) => !req.query.logo || level === 'H')
+    .withMessage('A logo overlay needs error correction level H')
 ];
 
-// GET /api/employees/:id - Public endpoint for QR scanning
-router.get('/:id', async (req, res) => {
+// Multer reports oversized files as errors; answer those with a 400
+const receivePhoto = (req, res, next) => {
+  photoUpload(req, res, (error) => {
+    if (!error) return next();
+    res.status(400).json({
+      success: false,
+      message: error.code === 'LIMIT_FILE_SIZE' ? 'Photo must be 2 MB or smaller' : 'Invalid photo upload'
+    });
+  });
+};
+
+// Archived records can only be listed in the archive or restored, and
+// staff only manage employees at their own sites
+const findActiveEmployee = (id, user) => Employee.findOne({ _id: id, ...ACTIVE_EMPLOYEES, ...employeeScope(user) });
+
+// Version history stays readable once a record is archived, but only within
+// the account's organisation and sites
+const isEmployeeInScope = async (id, user) =>
+  mongoose.isValidObjectId(id) && !!(await Employee.exists({ _id: id, ...employeeScope(user) }));
+
+const MAX_LOOKUP_RESULTS = 10;
+
+const lookupValidation = [
+  query('q').isString().trim().isLength({ min: 2, max: 100 }).withMessage('Enter at least 2 characters to search')
+];
+
+// GET /api/employees/lookup?q= - Name or employee id search for any signed-in
+// account, for when a badge cannot be scanned. Returns only enough to pick
+// the right person; opening the profile is logged as usual.
+router.get('/lookup', authenticate, authorize(...STAFF_ROLES), lookupValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const employees = await Employee.find(buildFilter({ search: req.query.q }, req.user))
+      .select('name employeeId site')
+      .sort({ name: 1 })
+      .limit(MAX_LOOKUP_RESULTS);
+
+    res.json({
+      success: true,
+      data: employees.map(({ _id, name, employeeId, site }) => ({ _id, name, employeeId, site }))
+    });
+  } catch (error) {
+    console.error('Employee lookup error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// GET /api/employees/archived - Archived records awaiting purge, most
+// recently archived first
+router.get('/archived', authenticate, authorize(...DIRECTORY_ROLES), async (req, res) => {
+  try {
+    const employees = await Employee.find({ archivedAt: { $ne: null }, ...employeeScope(req.user) })
+      .select('name employeeId site department archivedAt archivedBy purgeAfter')
+      .populate('archivedBy', 'username')
+      .sort({ archivedAt: -1 });
+
+    res.json({
+      success: true,
+      data: employees
+    });
+  } catch (error) {
+    console.error('Get archived employees error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// GET /api/employees/:id - Public endpoint for QR scanning; signed-in
+// responders get the full record of their own organisation's employees,
+// anyone else the public tier
+router.get('/:id', optionalAuthenticate, async (req, res) => {
   try {
-    const employee = await Employee.findById(req.params.id);
+    const employee = mongoose.isValidObjectId(req.params.id) ? await Employee.findById(req.params.id) : null;
     
     if (!employee) {
       return res.status(404).json({ 
@@ -31,24 +169,39 @@ router.get('/:id', async (req, res) => {
       });
     }
 
-    // Return public emergency information only
-    const publicInfo = {
-      id: employee._id,
-      name: employee.name,
-      age: employee.age,
-      dob: employee.dob,
-      bloodGroup: employee.bloodGroup,
-      allergies: employee.allergies,
-      medications: employee.medications,
-      emergencyContacts: employee.emergencyContacts,
-      physician: employee.physician,
-      medicalConditions: employee.medicalConditions,
-      notes: employee.notes
-    };
+    // Badges of archived employees are still out there; tell whoever scans
+    // one that the record is gone rather than that it never existed
+    if (employee.archivedAt) {
+      return res.status(410).json({
+        success: false,
+        message: 'This employee record is no longer active',
+        data: { status: 'archived' }
+      });
+    }
+
+    const tier = resolveDisclosureTier(req.user, employee);
+    const siteSettings = await resolveSiteSettings(employee.site);
+
+    // Once a signed badge exists, anonymous lookups must go through its token
+    // so that revoking the badge actually cuts off access
+    if (employee.badge?.tokenId && tier === DISCLOSURE_TIERS.PUBLIC) {
+      return res.status(410).json({
+        success: false,
+        message: 'This badge is no longer valid. Please scan the employee\'s current badge.'
+      });
+    }
+
+    const scanEvent = await recordScanEvent(req, employee, { tier, source: 'id' });
+    const requestLocation = scheduleScanNotification(scanEvent, employee);
 
     res.json({
       success: true,
-      data: publicInfo
+      data: {
+        ...toDisclosedProfile(employee, tier, siteSettings.publicProfileFields),
+        siteSettings: toProfileSiteSettings(siteSettings),
+        scanId: scanEvent?._id,
+        requestLocation
+      }
     });
   } catch (error) {
     console.error('Get employee error:', error);
@@ -59,10 +212,10 @@ router.get('/:id', async (req, res) => {
   }
 });
 
-// GET /api/employees - Get all employees (Admin only)
-router.get('/', authenticate, async (req, res) => {
+// GET /api/employees - Get all employees (directory roles only)
+router.get('/', authenticate, authorize(...DIRECTORY_ROLES), async (req, res) => {
   try {
-    const employees = await Employee.find().sort({ createdAt: -1 });
+    const employees = await Employee.find({ ...ACTIVE_EMPLOYEES, ...employeeScope(req.user) }).sort({ createdAt: -1 });
     res.json({
       success: true,
       data: employees
@@ -77,7 +230,7 @@ router.get('/', authenticate, async (req, res) => {
 });
 
 // POST /api/employees - Create new employee
-router.post('/', authenticate, employeeValidation, async (req, res) => {
+router.post('/', authenticate, authorize(...EDITOR_ROLES), employeeValidation, async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -88,23 +241,36 @@ router.post('/', authenticate, employeeValidation, async (req, res) => {
       });
     }
 
-    // Check if employee ID already exists
+    const { site, message } = await resolveAssignableSite(req.user, req.body.site);
+    if (message) {
+      return res.status(400).json({
+        success: false,
+        message
+      });
+    }
+    const organization = organizationFor(site, req.user);
+
+    // Employee IDs only need to be unique within the organisation
     const existingEmployee = await Employee.findOne({ 
-      employeeId: req.body.employeeId.toUpperCase() 
+      employeeId: req.body.employeeId.toUpperCase(),
+      organization
     });
     
     if (existingEmployee) {
       return res.status(409).json({
         success: false,
-        message: 'Employee ID already exists'
+        message: existingEmployee.archivedAt
+          ? 'Employee ID belongs to an archived employee; restore that record instead'
+          : 'Employee ID already exists in this organisation'
       });
     }
 
-    const employee = new Employee(req.body);
+    const employee = new Employee({ ...stripManagedFields(req.body), organization });
     await employee.save();
+    await recordVersion(employee, { author: req.user._id, source: 'create' });
 
     // Generate QR code
-    const qrCodeDataUrl = await generateQRCode(employee.qrCodeUrl);
+    const qrCodeDataUrl = await generateQRCode(employee.badgeQrContent());
     employee.qrCodeDataUrl = qrCodeDataUrl;
 
     res.status(201).json({
@@ -113,6 +279,12 @@ router.post('/', authenticate, employeeValidation, async (req, res) => {
       data: employee
     });
   } catch (error) {
+    if (error.code === 11000) {
+      return res.status(409).json({
+        success: false,
+        message: 'Employee ID already exists in this organisation'
+      });
+    }
     console.error('Create employee error:', error);
     res.status(500).json({ 
       success: false, 
@@ -122,7 +294,7 @@ router.post('/', authenticate, employeeValidation, async (req, res) => {
 });
 
 // PUT /api/employees/:id - Update employee
-router.put('/:id', authenticate, employeeValidation, async (req, res) => {
+router.put('/:id', authenticate, authorize(...EDITOR_ROLES), employeeValidation, async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -133,11 +305,9 @@ router.put('/:id', authenticate, employeeValidation, async (req, res) => {
       });
     }
 
-    const employee = await Employee.findByIdAndUpdate(
-      req.params.id,
-      req.body,
-      { new: true, runValidators: true }
-    );
+    // Load and save rather than update in place so the model can encrypt
+    // the medical fields
+    const employee = await findActiveEmployee(req.params.id, req.user);
 
     if (!employee) {
       return res.status(404).json({
@@ -146,12 +316,35 @@ router.put('/:id', authenticate, employeeValidation, async (req, res) => {
       });
     }
 
+    // Moving an employee needs access to the new site as well
+    const siteCode = req.body.site?.trim().toUpperCase() || undefined;
+    if (siteCode !== (employee.site || undefined)) {
+      const { message } = await resolveAssignableSite(req.user, siteCode);
+      if (message) {
+        return res.status(400).json({
+          success: false,
+          message
+        });
+      }
+    }
+
+    const previous = snapshotEmployee(employee);
+    employee.set(stripManagedFields(req.body));
+    await employee.save();
+    await recordVersion(employee, { author: req.user._id, source: 'update', previous });
+
     res.json({
       success: true,
       message: 'Employee updated successfully',
       data: employee
     });
   } catch (error) {
+    if (error.code === 11000) {
+      return res.status(409).json({
+        success: false,
+        message: 'Employee ID already exists in this organisation'
+      });
+    }
     console.error('Update employee error:', error);
     res.status(500).json({ 
       success: false, 
@@ -160,10 +353,11 @@ router.put('/:id', authenticate, employeeValidation, async (req, res) => {
   }
 });
 
-// DELETE /api/employees/:id - Delete employee
-router.delete('/:id', authenticate, async (req, res) => {
+// DELETE /api/employees/:id - Archive employee. The record can be restored
+// until its retention period ends, then the purge job erases it.
+router.delete('/:id', authenticate, authorize(...EDITOR_ROLES), async (req, res) => {
   try {
-    const employee = await Employee.findByIdAndDelete(req.params.id);
+    const employee = await findActiveEmployee(req.params.id, req.user);
 
     if (!employee) {
       return res.status(404).json({
@@ -172,12 +366,16 @@ router.delete('/:id', authenticate, async (req, res) => {
       });
     }
 
+    archiveEmployee(employee, req.user);
+    await employee.save();
+
     res.json({
       success: true,
-      message: 'Employee deleted successfully'
+      message: 'Employee archived successfully',
+      data: { archivedAt: employee.archivedAt, purgeAfter: employee.purgeAfter }
     });
   } catch (error) {
-    console.error('Delete employee error:', error);
+    console.error('Archive employee error:', error);
     res.status(500).json({ 
       success: false, 
       message: 'Server error' 
@@ -185,10 +383,60 @@ router.delete('/:id', authenticate, async (req, res) => {
   }
 });
 
-// GET /api/employees/:id/qr - Get QR code for employee
-router.get('/:id/qr', authenticate, async (req, res) => {
+// POST /api/employees/:id/restore - Bring an archived employee back into the
+// directory; their existing badge works again
+router.post('/:id/restore', authenticate, authorize(...EDITOR_ROLES), async (req, res) => {
+  try {
+    const employee = mongoose.isValidObjectId(req.params.id)
+      && await Employee.findOne({ _id: req.params.id, archivedAt: { $ne: null }, ...employeeScope(req.user) });
+
+    if (!employee) {
+      return res.status(404).json({
+        success: false,
+        message: 'Archived employee not found'
+      });
+    }
+
+    unarchiveEmployee(employee);
+    await employee.save();
+
+    res.json({
+      success: true,
+      message: 'Employee restored successfully',
+      data: employee
+    });
+  } catch (error) {
+    console.error('Restore employee error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// GET /api/employees/:id/qr - Get QR code for employee. Without a format
+// the response is a PNG data URL; with one, the file itself
+// (?format=png|svg|pdf|eps&size&errorCorrection&margin&dark&light&logo)
+router.get('/:id/qr', authenticate, authorize(...EDITOR_ROLES), qrValidation, async (req, res) => {
   try {
-    const employee = await Employee.findById(req.params.id);
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { format, size, errorCorrection, margin, dark, light, logo } = req.query;
+    if (logo && !isQrLogoConfigured()) {
+      return res.status(400).json({
+        success: false,
+        message: 'No QR logo is configured on the server'
+      });
+    }
+
+    const employee = await findActiveEmployee(req.params.id, req.user);
     
     if (!employee) {
       return res.status(404).json({
@@ -197,7 +445,21 @@ router.get('/:id/qr', authenticate, async (req, res) => {
       });
     }
 
-    const qrCodeDataUrl = await generateQRCode(employee.qrCodeUrl);
+    if (format) {
+      const qrCode = await renderQRCode(employee.badgeQrContent(), {
+        format,
+        size,
+        errorCorrectionLevel: errorCorrection || (logo ? 'H' : undefined),
+        margin,
+        dark,
+        light,
+        logo
+      });
+      res.setHeader('Content-Disposition', `attachment; filename="${employee.employeeId}-qr.${qrCode.extension}"`);
+      return res.type(qrCode.contentType).send(qrCode.data);
+    }
+
+    const qrCodeDataUrl = await generateQRCode(employee.badgeQrContent());
     
     res.json({
       success: true,
@@ -215,4 +477,298 @@ router.get('/:id/qr', authenticate, async (req, res) => {
   }
 });
 
-export default router;
\ No newline at end of file
+// PUT /api/employees/:id/photo - Upload the badge photo (JPEG or PNG, multipart field "photo")
+router.put('/:id/photo', authenticate, authorize(...EDITOR_ROLES), receivePhoto, async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        message: 'A JPEG or PNG photo is required'
+      });
+    }
+
+    const employee = await findActiveEmployee(req.params.id, req.user);
+
+    if (!employee) {
+      return res.status(404).json({
+        success: false,
+        message: 'Employee not found'
+      });
+    }
+
+    employee.photo = {
+      data: req.file.buffer,
+      contentType: req.file.mimetype,
+      updatedAt: new Date()
+    };
+    await employee.save();
+
+    res.json({
+      success: true,
+      message: 'Photo updated successfully',
+      data: { photo: { contentType: employee.photo.contentType, updatedAt: employee.photo.updatedAt } }
+    });
+  } catch (error) {
+    console.error('Upload photo error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// GET /api/employees/:id/photo - Badge photo for the admin screens
+router.get('/:id/photo', authenticate, authorize(...DIRECTORY_ROLES), async (req, res) => {
+  try {
+    const employee = mongoose.isValidObjectId(req.params.id)
+      ? await findActiveEmployee(req.params.id, req.user).select('+photo.data')
+      : null;
+
+    if (!employee?.photo?.data) {
+      return res.status(404).json({
+        success: false,
+        message: 'Photo not found'
+      });
+    }
+
+    res.setHeader('Cache-Control', 'private, no-cache');
+    res.type(employee.photo.contentType).send(employee.photo.data);
+  } catch (error) {
+    console.error('Get photo error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// DELETE /api/employees/:id/photo - Remove the badge photo
+router.delete('/:id/photo', authenticate, authorize(...EDITOR_ROLES), async (req, res) => {
+  try {
+    const employee = await findActiveEmployee(req.params.id, req.user);
+
+    if (!employee) {
+      return res.status(404).json({
+        success: false,
+        message: 'Employee not found'
+      });
+    }
+
+    employee.photo = undefined;
+    await employee.save();
+
+    res.json({
+      success: true,
+      message: 'Photo removed successfully'
+    });
+  } catch (error) {
+    console.error('Delete photo error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// POST /api/employees/:id/badge/reissue - Revoke the current badge and issue a new one
+router.post('/:id/badge/reissue', authenticate, authorize(...EDITOR_ROLES), async (req, res) => {
+  try {
+    const employee = await findActiveEmployee(req.params.id, req.user);
+
+    if (!employee) {
+      return res.status(404).json({
+        success: false,
+        message: 'Employee not found'
+      });
+    }
+
+    if (employee.badge?.tokenId) {
+      await RevokedBadge.create({
+        tokenId: employee.badge.tokenId,
+        employee: employee._id,
+        revokedBy: req.user._id,
+        reason: req.body.reason
+      });
+    }
+
+    employee.issueBadge();
+    await employee.save();
+
+    const qrCodeDataUrl = await generateQRCode(employee.badgeQrContent());
+
+    res.json({
+      success: true,
+      message: 'Badge reissued successfully',
+      data: {
+        qrCodeDataUrl,
+        qrCodeUrl: employee.qrCodeUrl,
+        badge: { shortCode: employee.badge.shortCode, issuedAt: employee.badge.issuedAt }
+      }
+    });
+  } catch (error) {
+    console.error('Reissue badge error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+const versionQuery = [
+  query('at').optional().isISO8601().withMessage('at must be a date or time')
+];
+
+// GET /api/employees/:id/versions - Change history, newest first. With ?at,
+// only versions up to that time, so the first is what the record showed then.
+router.get('/:id/versions', authenticate, authorize(...DIRECTORY_ROLES), versionQuery, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    if (!(await isEmployeeInScope(req.params.id, req.user))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Employee not found'
+      });
+    }
+
+    const filter = { employee: req.params.id };
+    if (req.query.at) filter.createdAt = { $lte: new Date(req.query.at) };
+
+    const versions = await EmployeeVersion.find(filter)
+      .select('-snapshot')
+      .populate('author', 'username role')
+      .sort({ version: -1 });
+
+    res.json({
+      success: true,
+      data: versions.map(version => ({ ...version.toObject(), changes: version.getChanges() }))
+    });
+  } catch (error) {
+    console.error('Get employee versions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+const findVersion = (employeeId, version) =>
+  mongoose.isValidObjectId(employeeId) && /^\d+$/.test(version)
+    ? EmployeeVersion.findOne({ employee: employeeId, version: Number(version) })
+    : null;
+
+// GET /api/employees/:id/versions/:version - The whole record as it was at
+// that version
+router.get('/:id/versions/:version', authenticate, authorize(...DIRECTORY_ROLES), async (req, res) => {
+  try {
+    const version = await isEmployeeInScope(req.params.id, req.user)
+      ? await findVersion(req.params.id, req.params.version)?.populate('author', 'username role')
+      : null;
+
+    if (!version) {
+      return res.status(404).json({
+        success: false,
+        message: 'Version not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: version
+    });
+  } catch (error) {
+    console.error('Get employee version error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// POST /api/employees/:id/versions/:version/restore - Put the record back as
+// it was at that version. The restore is itself recorded as a new version.
+router.post('/:id/versions/:version/restore', authenticate, authorize(...EDITOR_ROLES), async (req, res) => {
+  try {
+    const [employee, version] = await Promise.all([
+      mongoose.isValidObjectId(req.params.id) ? findActiveEmployee(req.params.id, req.user) : null,
+      findVersion(req.params.id, req.params.version)
+    ]);
+
+    if (!employee || !version) {
+      return res.status(404).json({
+        success: false,
+        message: employee ? 'Version not found' : 'Employee not found'
+      });
+    }
+
+    const snapshot = version.getSnapshot();
+    const previous = snapshotEmployee(employee);
+
+    // Versions from before structured allergies hold them as strings
+    snapshot.allergies = upgradeLegacyAllergies(snapshot.allergies, snapshot.criticalAllergies);
+
+    // Fields that were empty at that version are cleared. The result must
+    // pass today's rules, as an edit would: sites and signing keys change.
+    const { record, errors } = await validateEmployeeRecord(Object.fromEntries(VERSIONED_FIELDS.map(field => [
+      field,
+      snapshot[field] ?? (Array.isArray(employee[field]) ? [] : undefined)
+    ])));
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors
+      });
+    }
+
+    const siteCode = record.site?.trim().toUpperCase() || undefined;
+    if (siteCode !== (employee.site || undefined)) {
+      const { message } = await resolveAssignableSite(req.user, siteCode);
+      if (message) {
+        return res.status(400).json({
+          success: false,
+          message
+        });
+      }
+    }
+
+    employee.set(stripManagedFields(record));
+    await employee.save();
+
+    const restored = await recordVersion(employee, {
+      author: req.user._id,
+      source: 'restore',
+      previous,
+      restoredFrom: version.version
+    });
+
+    res.json({
+      success: true,
+      message: restored
+        ? `Restored version ${version.version}`
+        : `The record already matches version ${version.version}`,
+      data: employee
+    });
+  } catch (error) {
+    if (error.code === 11000) {
+      return res.status(409).json({
+        success: false,
+        message: 'Another employee now uses this version\'s employee ID'
+      });
+    }
+    console.error('Restore employee version error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,350 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { body, query, validationResult } from 'express-validator';
+import Incident, { INCIDENT_STATUSES } from '../models/Incident.js';
+import Employee from '../models/Employee.js';
+import ScanEvent from '../models/ScanEvent.js';
+import { authenticate, authorize } from '../middleware/auth.js';
+import { DIRECTORY_ROLES, EDITOR_ROLES, STAFF_ROLES } from '../config/roles.js';
+import { ACTIVE_EMPLOYEES } from '../utils/employeeFilters.js';
+import { siteCodesInScope } from '../utils/siteScope.js';
+
+const router = express.Router();
+
+router.use(authenticate, authorize(...STAFF_ROLES));
+
+const MAX_PAGE_SIZE = 200;
+
+// Allows for a responder's clock running a little ahead
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+const VITAL_RANGES = {
+  heartRate: { min: 0, max: 300 },
+  respiratoryRate: { min: 0, max: 100 },
+  systolic: { min: 0, max: 300 },
+  diastolic: { min: 0, max: 200 },
+  spo2: { min: 0, max: 100 },
+  temperature: { min: 20, max: 45 },
+  gcs: { min: 3, max: 15 }
+};
+
+const notInFuture = (value) => {
+  if (new Date(value).getTime() > Date.now() + CLOCK_SKEW_MS) {
+    throw new Error('Time cannot be in the future');
+  }
+  return true;
+};
+
+const detailValidation = [
+  body('occurredAt').optional().isISO8601().withMessage('Valid incident time is required').bail().custom(notInFuture),
+  body('location').optional().isString().trim().isLength({ max: 200 }).withMessage('Location must be at most 200 characters'),
+  body('actionsTaken').optional().isString().trim().isLength({ max: 2000 }).withMessage('Actions taken must be at most 2000 characters'),
+  body('handover.hospital').optional().isString().trim().isLength({ max: 120 }).withMessage('Hospital must be at most 120 characters'),
+  body('handover.handedOverAt').optional({ values: 'falsy' }).isISO8601().withMessage('Valid handover time is required').bail().custom(notInFuture),
+  body('vitals').optional().isArray({ max: 20 }).withMessage('At most 20 sets of vitals can be recorded'),
+  body('vitals.*.recordedAt').optional().isISO8601().withMessage('Valid vitals time is required').bail().custom(notInFuture),
+  ...Object.entries(VITAL_RANGES).map(([field, range]) =>
+    body(`vitals.*.${field}`)
+      .optional({ values: 'null' })
+      .isFloat(range)
+      .withMessage(`${field} must be between ${range.min} and ${range.max}`)
+  )
+];
+
+const createValidation = [
+  body('employee').isMongoId().withMessage('Valid employee id is required'),
+  body('scanEvent').optional().isMongoId().withMessage('Valid scan id is required'),
+  ...detailValidation
+];
+
+const updateValidation = [
+  body('status').optional().isIn(INCIDENT_STATUSES).withMessage('Status must be open or closed'),
+  ...detailValidation
+];
+
+const periodValidation = [
+  query('from').optional({ values: 'falsy' }).isISO8601().withMessage('from must be a date or time'),
+  query('to').optional({ values: 'falsy' }).isISO8601().withMessage('to must be a date or time')
+];
+
+const listValidation = [
+  query('status').optional({ values: 'falsy' }).isIn(INCIDENT_STATUSES).withMessage('Status must be open or closed'),
+  query('site').optional({ values: 'falsy' }).isString().isLength({ max: 40 }).withMessage('Site code must be at most 40 characters'),
+  ...periodValidation
+];
+
+const respondIfInvalid = (req, res) => {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) return false;
+
+  res.status(400).json({
+    success: false,
+    message: 'Validation failed',
+    errors: errors.array()
+  });
+  return true;
+};
+
+// Keeps only the fields a client may set, so a request cannot reassign the
+// employee, reporter or site
+const pickDetails = ({ occurredAt, location, actionsTaken, handover, vitals }) => {
+  const details = {};
+  if (occurredAt !== undefined) details.occurredAt = occurredAt;
+  if (location !== undefined) details.location = location;
+  if (actionsTaken !== undefined) details.actionsTaken = actionsTaken;
+  if (handover !== undefined) {
+    details.handover = {
+      hospital: handover?.hospital,
+      handedOverAt: handover?.handedOverAt || undefined
+    };
+  }
+  if (vitals !== undefined) {
+    details.vitals = vitals.map(set => ({
+      recordedAt: set.recordedAt,
+      ...Object.fromEntries(Object.keys(VITAL_RANGES).map(field => [field, set[field] ?? undefined]))
+    }));
+  }
+  return details;
+};
+
+// Narrows a filter to the reviewer's sites; a requested site outside them
+// matches nothing
+const scopeToSites = async (filter, user) => {
+  const sites = await siteCodesInScope(user);
+  if (!sites) return filter;
+
+  return {
+    ...filter,
+    site: filter.site ? { $in: sites.includes(filter.site) ? [filter.site] : [] } : { $in: sites }
+  };
+};
+
+const occurredBetween = (from, to) => {
+  const range = {};
+  if (from) range.$gte = new Date(from);
+  if (to) {
+    // Make a bare date inclusive of the whole day
+    const end = new Date(to);
+    if (/^\d{4}-\d{2}-\d{2}$/.test(to)) end.setUTCHours(23, 59, 59, 999);
+    range.$lte = end;
+  }
+  return range;
+};
+
+const canReview = (user) => DIRECTORY_ROLES.includes(user.role);
+
+const populateIncident = (incidentQuery) => incidentQuery
+  .populate('employee', 'name employeeId site')
+  .populate('reportedBy', 'username role');
+
+// POST /api/incidents - Open an incident for an employee the responder is treating
+router.post('/', createValidation, async (req, res) => {
+  try {
+    if (respondIfInvalid(req, res)) return;
+
+    const employee = await Employee.findOne({ _id: req.body.employee, ...ACTIVE_EMPLOYEES }).select('site');
+    if (!employee) {
+      return res.status(404).json({
+        success: false,
+        message: 'Employee not found'
+      });
+    }
+
+    // Only link a scan of this same employee
+    let scanEvent;
+    if (req.body.scanEvent) {
+      const scan = await ScanEvent.findOne({ _id: req.body.scanEvent, employee: employee._id }).select('_id');
+      scanEvent = scan?._id;
+    }
+
+    const incident = new Incident({
+      occurredAt: new Date(),
+      ...pickDetails(req.body),
+      employee: employee._id,
+      reportedBy: req.user._id,
+      scanEvent,
+      site: employee.site
+    });
+    await incident.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Incident recorded',
+      data: incident
+    });
+  } catch (error) {
+    console.error('Create incident error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// GET /api/incidents - Incidents, filterable by employee, site, status and date range
+router.get('/', authorize(...DIRECTORY_ROLES), listValidation, async (req, res) => {
+  try {
+    if (respondIfInvalid(req, res)) return;
+
+    const { employee, site, status, from, to } = req.query;
+    const page = Math.max(parseInt(req.query.page, 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || 50, 1), MAX_PAGE_SIZE);
+
+    const filter = {};
+
+    if (employee) {
+      if (!mongoose.isValidObjectId(employee)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid employee id'
+        });
+      }
+      filter.employee = employee;
+    }
+
+    if (site) filter.site = String(site).toUpperCase();
+    if (status) filter.status = status;
+
+    if (from || to) filter.occurredAt = occurredBetween(from, to);
+
+    const scopedFilter = await scopeToSites(filter, req.user);
+
+    const [incidents, total] = await Promise.all([
+      populateIncident(Incident.find(scopedFilter))
+        .sort({ occurredAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Incident.countDocuments(scopedFilter)
+    ]);
+
+    res.json({
+      success: true,
+      data: incidents,
+      pagination: {
+        page,
+        limit,
+        total
+      }
+    });
+  } catch (error) {
+    console.error('Get incidents error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// GET /api/incidents/sites - Incident counts per site, for the EHS overview
+router.get('/sites', authorize(...DIRECTORY_ROLES), periodValidation, async (req, res) => {
+  try {
+    if (respondIfInvalid(req, res)) return;
+
+    const { from, to } = req.query;
+    const match = await scopeToSites(from || to ? { occurredAt: occurredBetween(from, to) } : {}, req.user);
+
+    const sites = await Incident.aggregate([
+      { $match: match },
+      {
+        $group: {
+          _id: '$site',
+          total: { $sum: 1 },
+          open: { $sum: { $cond: [{ $eq: ['$status', 'open'] }, 1, 0] } },
+          lastOccurredAt: { $max: '$occurredAt' }
+        }
+      },
+      { $sort: { total: -1 } }
+    ]);
+
+    res.json({
+      success: true,
+      data: sites.map(({ _id, ...counts }) => ({ site: _id || null, ...counts }))
+    });
+  } catch (error) {
+    console.error('Get incident sites error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// GET /api/incidents/:id - One incident, for reviewers and its reporter
+router.get('/:id', async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Incident not found'
+      });
+    }
+
+    const incident = await populateIncident(Incident.findOne(await scopeToSites({ _id: req.params.id }, req.user)));
+    if (!incident || (!canReview(req.user) && !incident.reportedBy?._id.equals(req.user._id))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Incident not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: incident
+    });
+  } catch (error) {
+    console.error('Get incident error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// PATCH /api/incidents/:id - Add to or close an incident; its reporter and
+// editors only
+router.patch('/:id', updateValidation, async (req, res) => {
+  try {
+    if (respondIfInvalid(req, res)) return;
+
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Incident not found'
+      });
+    }
+
+    const incident = await Incident.findOne(await scopeToSites({ _id: req.params.id }, req.user));
+    if (!incident) {
+      return res.status(404).json({
+        success: false,
+        message: 'Incident not found'
+      });
+    }
+
+    if (!incident.reportedBy.equals(req.user._id) && !EDITOR_ROLES.includes(req.user.role)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to perform this action'
+      });
+    }
+
+    // Encrypted fields change only through save()
+    incident.set(pickDetails(req.body));
+    if (req.body.status) incident.status = req.body.status;
+    await incident.save();
+
+    res.json({
+      success: true,
+      message: 'Incident updated',
+      data: await populateIncident(Incident.findById(incident._id))
+    });
+  } catch (error) {
+    console.error('Update incident error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,173 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { body, validationResult } from 'express-validator';
+import Invite from '../models/Invite.js';
+import User from '../models/User.js';
+import { authenticate, authorize } from '../middleware/auth.js';
+import { ROLES, STAFF_ROLES } from '../config/roles.js';
+import { generateToken, hashToken } from '../utils/tokens.js';
+
+const router = express.Router();
+
+const DEFAULT_EXPIRY_DAYS = 7;
+const MAX_EXPIRY_DAYS = 30;
+
+const inviteValidation = [
+  body('email').isEmail().withMessage('Please enter a valid email'),
+  // Employee logins are created from their record, so they are linked to it
+  body('role').isIn(STAFF_ROLES).withMessage('Valid role is required'),
+  body('expiresInDays')
+    .optional()
+    .isInt({ min: 1, max: MAX_EXPIRY_DAYS })
+    .withMessage(`Expiry must be between 1 and ${MAX_EXPIRY_DAYS} days`)
+];
+
+// GET /api/invites/token/:token - Public lookup used by the accept-invite page
+router.get('/token/:token', async (req, res) => {
+  try {
+    const invite = await Invite.findOne({ tokenHash: hashToken(req.params.token) });
+
+    if (!invite || !invite.isRedeemable()) {
+      return res.status(404).json({
+        success: false,
+        message: 'This invitation is invalid or has expired'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        email: invite.email,
+        role: invite.role,
+        expiresAt: invite.expiresAt
+      }
+    });
+  } catch (error) {
+    console.error('Get invite error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+router.use(authenticate, authorize(ROLES.SUPER_ADMIN));
+
+// Super-admins of an organisation only see and revoke its own invitations
+const orgFilter = (req) => (req.user.organization ? { organization: req.user.organization } : {});
+
+// GET /api/invites - List invitations
+router.get('/', async (req, res) => {
+  try {
+    const invites = await Invite.find(orgFilter(req))
+      .populate('createdBy', 'username')
+      .sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: invites
+    });
+  } catch (error) {
+    console.error('Get invites error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// POST /api/invites - Create an invitation
+router.post('/', inviteValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const email = req.body.email.toLowerCase();
+
+    const existingUser = await User.findOne({ email });
+    if (existingUser) {
+      return res.status(409).json({
+        success: false,
+        message: 'A user with this email already exists'
+      });
+    }
+
+    const expiresInDays = Number(req.body.expiresInDays) || DEFAULT_EXPIRY_DAYS;
+    const { token, tokenHash } = generateToken();
+
+    const invite = new Invite({
+      email,
+      role: req.body.role,
+      tokenHash,
+      expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+      createdBy: req.user._id,
+      organization: req.user.organization
+    });
+    await invite.save();
+
+    const baseUrl = process.env.BASE_URL || 'http://localhost:5173';
+
+    // The raw token is only ever returned here; the database keeps its hash
+    res.status(201).json({
+      success: true,
+      message: 'Invitation created successfully',
+      data: {
+        invite,
+        token,
+        acceptUrl: `${baseUrl}/accept-invite/${token}`
+      }
+    });
+  } catch (error) {
+    console.error('Create invite error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// DELETE /api/invites/:id - Revoke a pending invitation
+router.delete('/:id', async (req, res) => {
+  try {
+    const invite = mongoose.isValidObjectId(req.params.id)
+      ? await Invite.findOne({ _id: req.params.id, ...orgFilter(req) })
+      : null;
+
+    if (!invite) {
+      return res.status(404).json({
+        success: false,
+        message: 'Invitation not found'
+      });
+    }
+
+    if (!invite.isRedeemable()) {
+      return res.status(400).json({
+        success: false,
+        message: `Invitation is already ${invite.status}`
+      });
+    }
+
+    invite.revokedAt = new Date();
+    await invite.save();
+
+    res.json({
+      success: true,
+      message: 'Invitation revoked successfully',
+      data: invite
+    });
+  } catch (error) {
+    console.error('Revoke invite error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+export default router;
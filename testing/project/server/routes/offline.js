@@ -0,0 +1,74 @@
+import express from 'express';
+import Employee from '../models/Employee.js';
+import ExportEvent from '../models/ExportEvent.js';
+import { authenticate, authorize } from '../middleware/auth.js';
+import { STAFF_ROLES } from '../config/roles.js';
+import { tokenForId } from '../utils/badgeToken.js';
+import { resolveDisclosureTier, toDisclosedProfile } from '../utils/disclosure.js';
+import { ACTIVE_EMPLOYEES } from '../utils/employeeFilters.js';
+import { employeeScope } from '../utils/siteScope.js';
+import { resolveSiteSettings, toProfileSiteSettings } from '../utils/siteSettings.js';
+
+const router = express.Router();
+
+router.use(authenticate, authorize(...STAFF_ROLES));
+
+// How long a device may show a synced copy before it must reach the server again
+const getOfflineCacheMaxAgeHours = () => Number(process.env.OFFLINE_CACHE_MAX_AGE_HOURS) || 72;
+
+// GET /api/offline/profiles - Profiles for the caller's assigned sites, for
+// the scanner's encrypted offline cache; logged like an export
+router.get('/profiles', async (req, res) => {
+  try {
+    const sites = req.user.assignedSites || [];
+    const syncedAt = new Date();
+    const maxAgeHours = getOfflineCacheMaxAgeHours();
+    const expiresAt = new Date(syncedAt.getTime() + maxAgeHours * 60 * 60 * 1000);
+
+    const employees = sites.length > 0
+      ? await Employee.find({ ...ACTIVE_EMPLOYEES, ...employeeScope(req.user) }).sort({ name: 1 })
+      : [];
+
+    const settingsBySite = new Map(await Promise.all(
+      [...new Set(employees.map(employee => employee.site))].map(async site => [site, await resolveSiteSettings(site)])
+    ));
+
+    const profiles = employees.map(employee => ({
+      ...toDisclosedProfile(employee, resolveDisclosureTier(req.user, employee), settingsBySite.get(employee.site).publicProfileFields),
+      siteSettings: toProfileSiteSettings(settingsBySite.get(employee.site)),
+      // Lets a scanned or typed badge be matched without the network
+      badgeToken: employee.badge?.tokenId ? tokenForId(employee.badge.tokenId) : undefined,
+      badgeCode: employee.badge?.shortCode
+    }));
+
+    if (profiles.length > 0) {
+      await ExportEvent.create({
+        user: req.user._id,
+        format: 'offline',
+        filters: { sites },
+        count: profiles.length,
+        ip: req.ip,
+        userAgent: req.get('User-Agent')?.slice(0, 500)
+      });
+    }
+
+    res.set('Cache-Control', 'no-store');
+    res.json({
+      success: true,
+      data: {
+        sites,
+        syncedAt,
+        expiresAt,
+        profiles
+      }
+    });
+  } catch (error) {
+    console.error('Offline profiles error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,134 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { body, validationResult } from 'express-validator';
+import Organization from '../models/Organization.js';
+import { authenticate, authorize } from '../middleware/auth.js';
+import { ROLES, STAFF_ROLES } from '../config/roles.js';
+import { settingsValidation } from '../utils/siteSettings.js';
+
+const router = express.Router();
+
+router.use(authenticate);
+
+const codeValidation = body('code')
+  .isString()
+  .trim()
+  .matches(/^[A-Za-z0-9][A-Za-z0-9-]*$/)
+  .isLength({ max: 20 })
+  .withMessage('Code must be at most 20 letters, digits and dashes');
+
+const rejectInvalidRequest = (req, res) => {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) return false;
+
+  res.status(400).json({
+    success: false,
+    message: 'Validation failed',
+    errors: errors.array()
+  });
+  return true;
+};
+
+// GET /api/organizations - Organisations the caller can see: their own, or
+// all of them for accounts outside any organisation
+router.get('/', authorize(...STAFF_ROLES), async (req, res) => {
+  try {
+    const filter = req.user.organization ? { _id: req.user.organization } : {};
+    const organizations = await Organization.find(filter).sort({ name: 1 });
+
+    res.json({
+      success: true,
+      data: organizations
+    });
+  } catch (error) {
+    console.error('Get organizations error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// POST /api/organizations - Create an organisation; only super-admins who
+// are not themselves limited to one
+router.post('/', authorize(ROLES.SUPER_ADMIN), [codeValidation, ...settingsValidation], async (req, res) => {
+  try {
+    if (rejectInvalidRequest(req, res)) return;
+
+    if (req.user.organization) {
+      return res.status(403).json({
+        success: false,
+        message: 'You can only manage your own organisation'
+      });
+    }
+
+    const code = req.body.code.toUpperCase();
+    if (await Organization.exists({ code })) {
+      return res.status(409).json({
+        success: false,
+        message: `Organisation ${code} already exists`
+      });
+    }
+
+    const organization = await Organization.create({
+      code,
+      name: req.body.name,
+      country: req.body.country || undefined,
+      emergencyNumber: req.body.emergencyNumber,
+      publicProfileFields: req.body.publicProfileFields
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Organisation created successfully',
+      data: organization
+    });
+  } catch (error) {
+    console.error('Create organization error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// PUT /api/organizations/:id - Update an organisation's name and settings.
+// The code never changes.
+router.put('/:id', authorize(ROLES.SUPER_ADMIN), settingsValidation, async (req, res) => {
+  try {
+    if (rejectInvalidRequest(req, res)) return;
+
+    const inScope = mongoose.isValidObjectId(req.params.id)
+      && (!req.user.organization || req.user.organization.equals(req.params.id));
+    const organization = inScope && await Organization.findById(req.params.id);
+
+    if (!organization) {
+      return res.status(404).json({
+        success: false,
+        message: 'Organisation not found'
+      });
+    }
+
+    organization.set({
+      name: req.body.name,
+      country: req.body.country || undefined,
+      emergencyNumber: req.body.emergencyNumber,
+      publicProfileFields: req.body.publicProfileFields
+    });
+    await organization.save();
+
+    res.json({
+      success: true,
+      message: 'Organisation updated successfully',
+      data: organization
+    });
+  } catch (error) {
+    console.error('Update organization error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,240 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { body, query, validationResult } from 'express-validator';
+import ScanEvent from '../models/ScanEvent.js';
+import Employee from '../models/Employee.js';
+import { authenticate, authorize } from '../middleware/auth.js';
+import { AUDIT_ROLES, STAFF_ROLES } from '../config/roles.js';
+import { attachScanLocation } from '../utils/scanNotifications.js';
+import { DISCLOSURE_TIERS, resolveDisclosureTier } from '../utils/disclosure.js';
+import { employeeScope } from '../utils/siteScope.js';
+
+const router = express.Router();
+
+const MAX_PAGE_SIZE = 200;
+
+// The scanning browser may only report its location shortly after the scan
+const LOCATION_REPORT_WINDOW_MS = 5 * 60 * 1000;
+
+const locationValidation = [
+  body('latitude').isFloat({ min: -90, max: 90 }).withMessage('Valid latitude is required'),
+  body('longitude').isFloat({ min: -180, max: 180 }).withMessage('Valid longitude is required'),
+  body('accuracy').optional().isFloat({ min: 0 }).withMessage('Accuracy must be a positive number')
+];
+
+// Scans carry no organisation or site of their own, so they are narrowed
+// through their employee; a requested employee outside the scope matches nothing
+const scopeToEmployees = async (filter, user) => {
+  const scope = employeeScope(user);
+  if (Object.keys(scope).length === 0) return filter;
+
+  const employees = await Employee.find(scope).distinct('_id');
+  return {
+    ...filter,
+    employee: { $in: filter.employee ? employees.filter(id => id.equals(filter.employee)) : employees }
+  };
+};
+
+// POST /api/scan-events/:id/location - Public; the scanner's browser attaches
+// its approximate location to the scan it just made
+router.post('/:id/location', locationValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Scan not found'
+      });
+    }
+
+    const location = {
+      latitude: Number(req.body.latitude),
+      longitude: Number(req.body.longitude),
+      accuracy: req.body.accuracy === undefined ? undefined : Number(req.body.accuracy)
+    };
+
+    const result = await ScanEvent.updateOne(
+      {
+        _id: req.params.id,
+        'location.latitude': null,
+        createdAt: { $gte: new Date(Date.now() - LOCATION_REPORT_WINDOW_MS) }
+      },
+      { $set: { location } },
+      { timestamps: false }
+    );
+
+    if (result.matchedCount === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Scan not found or location already recorded'
+      });
+    }
+
+    attachScanLocation(req.params.id, location);
+
+    res.json({
+      success: true,
+      message: 'Location recorded'
+    });
+  } catch (error) {
+    console.error('Record scan location error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// One sync uploads everything viewed since the last one
+const MAX_OFFLINE_SCANS = 500;
+
+const offlineScanValidation = [
+  body('scans').isArray({ min: 1, max: MAX_OFFLINE_SCANS }).withMessage(`Between 1 and ${MAX_OFFLINE_SCANS} scans are required`),
+  body('scans.*.employee').isMongoId().withMessage('Valid employee id is required'),
+  body('scans.*.source').isIn(['badge', 'id']).withMessage('Source must be badge or id'),
+  body('scans.*.viewedAt').isISO8601().withMessage('Valid view time is required')
+];
+
+// POST /api/scan-events/offline - Profiles a device showed from its offline
+// cache, reported once it is back online so the audit log stays complete
+router.post('/offline', authenticate, authorize(...STAFF_ROLES), offlineScanValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { scans } = req.body;
+    const known = await Employee.find({
+      _id: { $in: scans.map(scan => scan.employee) },
+      ...employeeScope(req.user)
+    }).select('organization site');
+    const knownById = new Map(known.map(employee => [employee._id.toString(), employee]));
+    const now = Date.now();
+
+    // Profiles deleted since the sync, or outside the caller's organisation
+    // and sites, are skipped; a device clock running
+    // ahead is clamped to the upload time
+    const events = scans
+      .filter(scan => knownById.has(scan.employee))
+      .map(scan => ({
+        employee: scan.employee,
+        user: req.user._id,
+        ip: req.ip,
+        userAgent: req.get('User-Agent')?.slice(0, 500),
+        disclosureTier: resolveDisclosureTier(req.user, knownById.get(scan.employee)),
+        source: scan.source,
+        viewedOfflineAt: new Date(Math.min(new Date(scan.viewedAt).getTime(), now))
+      }));
+
+    if (events.length > 0) {
+      await ScanEvent.insertMany(events);
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Offline scans recorded',
+      data: { recorded: events.length }
+    });
+  } catch (error) {
+    console.error('Record offline scans error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+const historyValidation = [
+  query('from').optional({ values: 'falsy' }).isISO8601().withMessage('from must be a date or time'),
+  query('to').optional({ values: 'falsy' }).isISO8601().withMessage('to must be a date or time'),
+  query('tier').optional({ values: 'falsy' }).isIn(Object.values(DISCLOSURE_TIERS)).withMessage('Tier must be public or full'),
+  query('authenticated').optional({ values: 'falsy' }).isIn(['true', 'false']).withMessage('authenticated must be true or false')
+];
+
+// GET /api/scan-events - Scan history, filterable by employee, date range and tier
+router.get('/', authenticate, authorize(...AUDIT_ROLES), historyValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { employee, from, to, tier, authenticated } = req.query;
+    const page = Math.max(parseInt(req.query.page, 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || 50, 1), MAX_PAGE_SIZE);
+
+    const filter = {};
+
+    if (employee) {
+      if (!mongoose.isValidObjectId(employee)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid employee id'
+        });
+      }
+      filter.employee = employee;
+    }
+
+    if (from || to) {
+      filter.createdAt = {};
+      if (from) filter.createdAt.$gte = new Date(from);
+      if (to) {
+        // Make a bare date inclusive of the whole day
+        const end = new Date(to);
+        if (/^\d{4}-\d{2}-\d{2}$/.test(to)) end.setUTCHours(23, 59, 59, 999);
+        filter.createdAt.$lte = end;
+      }
+    }
+
+    if (tier) filter.disclosureTier = tier;
+    if (authenticated === 'true') filter.user = { $ne: null };
+    if (authenticated === 'false') filter.user = null;
+
+    const scopedFilter = await scopeToEmployees(filter, req.user);
+
+    const [events, total] = await Promise.all([
+      ScanEvent.find(scopedFilter)
+        .populate('employee', 'name employeeId')
+        .populate('user', 'username email role')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      ScanEvent.countDocuments(scopedFilter)
+    ]);
+
+    res.json({
+      success: true,
+      data: events,
+      pagination: {
+        page,
+        limit,
+        total
+      }
+    });
+  } catch (error) {
+    console.error('Get scan events error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+export default router;
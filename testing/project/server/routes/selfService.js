@@ -0,0 +1,503 @@
+import crypto from 'crypto';
+import express from 'express';
+import mongoose from 'mongoose';
+import { body, query, validationResult } from 'express-validator';
+import Employee from '../models/Employee.js';
+import User from '../models/User.js';
+import ProfileChangeRequest, { CHANGE_REQUEST_STATUSES } from '../models/ProfileChangeRequest.js';
+import { authenticate, authorize } from '../middleware/auth.js';
+import { EDITOR_ROLES, ROLES } from '../config/roles.js';
+import { validateEmployeeRecord } from '../utils/employeeValidation.js';
+import { ACTIVE_EMPLOYEES } from '../utils/employeeFilters.js';
+import { employeeScope } from '../utils/siteScope.js';
+import { sendLoginLink } from '../utils/loginLinks.js';
+import { canonical, recordVersion, snapshotEmployee } from '../utils/employeeVersions.js';
+import { upgradeLegacyAllergies } from '../utils/allergies.js';
+
+const router = express.Router();
+
+router.use(authenticate);
+
+const requireEmployee = authorize(ROLES.EMPLOYEE);
+const requireEditor = authorize(...EDITOR_ROLES);
+
+// What an employee may change about themselves. Identity, site and badge
+// fields stay with HR.
+const SELF_SERVICE_FIELDS = [
+  'bloodGroup',
+  'allergies',
+  'medications',
+  'medicalConditions',
+  'emergencyContacts',
+  'physician',
+  'insurance',
+  'notes',
+  'scanNotifications'
+];
+
+const respondIfInvalid = (req, res) => {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) return false;
+
+  res.status(400).json({
+    success: false,
+    message: 'Validation failed',
+    errors: errors.array()
+  });
+  return true;
+};
+
+const selfServiceValues = (employee) => {
+  const plain = employee.toObject();
+  return Object.fromEntries(SELF_SERVICE_FIELDS.map(field => [field, canonical(plain[field])]));
+};
+
+// The record as it would be with the changes applied, in the shape the
+// employee form submits, so it can go through the usual validation rules
+const mergedRecord = (employee, changes) => ({
+  name: employee.name,
+  employeeId: employee.employeeId,
+  dob: employee.dob.toISOString().slice(0, 10),
+  ...selfServiceValues(employee),
+  ...changes
+});
+
+const toSelfServiceProfile = (employee) => ({
+  id: employee._id,
+  employeeId: employee.employeeId,
+  name: employee.name,
+  dob: employee.dob,
+  age: employee.age,
+  site: employee.site,
+  ...Object.fromEntries(SELF_SERVICE_FIELDS.map(field => [field, employee[field]]))
+});
+
+// Archived employees keep their login until the purge but have no profile.
+// HR pass their own scope so they only act on employees at their sites.
+const findActiveEmployee = (id, scope = {}) => Employee.findOne({ _id: id, ...ACTIVE_EMPLOYEES, ...scope });
+
+const findOwnEmployee = (user) => user.employee ? findActiveEmployee(user.employee) : null;
+
+// GET /api/self-service/profile - The signed-in employee's own record and
+// their latest change request
+router.get('/profile', requireEmployee, async (req, res) => {
+  try {
+    const employee = await findOwnEmployee(req.user);
+    if (!employee) {
+      return res.status(404).json({
+        success: false,
+        message: 'Your account is not linked to an employee record'
+      });
+    }
+
+    const changeRequest = await ProfileChangeRequest.findOne({ employee: employee._id })
+      .sort({ createdAt: -1 })
+      .select('-requestedBy -reviewedBy');
+
+    res.json({
+      success: true,
+      data: {
+        profile: toSelfServiceProfile(employee),
+        changeRequest
+      }
+    });
+  } catch (error) {
+    console.error('Get self-service profile error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// POST /api/self-service/change-requests - Propose changes to one's own
+// profile. Replaces a request still waiting for review.
+router.post('/change-requests', requireEmployee, async (req, res) => {
+  try {
+    const employee = await findOwnEmployee(req.user);
+    if (!employee) {
+      return res.status(404).json({
+        success: false,
+        message: 'Your account is not linked to an employee record'
+      });
+    }
+
+    const proposed = Object.fromEntries(
+      SELF_SERVICE_FIELDS
+        .filter(field => req.body[field] !== undefined)
+        .map(field => [field, req.body[field]])
+    );
+
+    const { record, errors } = await validateEmployeeRecord(mergedRecord(employee, proposed));
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors
+      });
+    }
+
+    // Let the model normalise the values (trimming, casing) before comparing,
+    // without saving anything
+    const before = selfServiceValues(employee);
+    employee.set(Object.fromEntries(SELF_SERVICE_FIELDS.map(field => [field, record[field]])));
+    const validationError = employee.validateSync();
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: Object.values(validationError.errors).map(({ path, message }) => ({ path, msg: message }))
+      });
+    }
+
+    const after = selfServiceValues(employee);
+    const changes = Object.fromEntries(
+      SELF_SERVICE_FIELDS
+        .filter(field => JSON.stringify(after[field]) !== JSON.stringify(before[field]))
+        .map(field => [field, after[field]])
+    );
+
+    if (Object.keys(changes).length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Nothing has changed from your current profile'
+      });
+    }
+
+    let changeRequest = await ProfileChangeRequest.findOne({ employee: employee._id, status: 'pending' });
+    if (!changeRequest) {
+      changeRequest = new ProfileChangeRequest({ employee: employee._id });
+    }
+    changeRequest.requestedBy = req.user._id;
+    changeRequest.setChanges(changes);
+    await changeRequest.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Your changes were sent to HR for approval',
+      data: changeRequest
+    });
+  } catch (error) {
+    if (error.code === 11000) {
+      return res.status(409).json({
+        success: false,
+        message: 'A change request was submitted at the same time; please reload and try again'
+      });
+    }
+    console.error('Submit change request error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// DELETE /api/self-service/change-requests/pending - Withdraw one's own
+// request before it is reviewed
+router.delete('/change-requests/pending', requireEmployee, async (req, res) => {
+  try {
+    const changeRequest = req.user.employee && await ProfileChangeRequest.findOneAndUpdate(
+      { employee: req.user.employee, status: 'pending' },
+      { status: 'withdrawn' },
+      { new: true }
+    );
+
+    if (!changeRequest) {
+      return res.status(404).json({
+        success: false,
+        message: 'You have no change request waiting for review'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Change request withdrawn'
+    });
+  } catch (error) {
+    console.error('Withdraw change request error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// POST /api/self-service/password - Set a password so the employee can sign
+// in without a link
+router.post('/password', requireEmployee, [
+  body('password').isLength({ min: 6 }).withMessage('Password must be at least 6 characters')
+], async (req, res) => {
+  try {
+    if (respondIfInvalid(req, res)) return;
+
+    const user = await User.findById(req.user._id);
+    user.password = req.body.password;
+    await user.save();
+
+    res.json({
+      success: true,
+      message: 'Password saved. You can now sign in with your email and password.'
+    });
+  } catch (error) {
+    console.error('Set self-service password error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+const queueValidation = [
+  query('status').optional().isIn(CHANGE_REQUEST_STATUSES).withMessage(`Status must be one of ${CHANGE_REQUEST_STATUSES.join(', ')}`)
+];
+
+// GET /api/self-service/change-requests - HR's approval queue, with the
+// current values next to each proposed change
+router.get('/change-requests', requireEditor, queueValidation, async (req, res) => {
+  try {
+    if (respondIfInvalid(req, res)) return;
+
+    const status = req.query.status || 'pending';
+    const filter = { status };
+
+    const scope = employeeScope(req.user);
+    if (Object.keys(scope).length > 0) {
+      filter.employee = { $in: await Employee.find(scope).distinct('_id') };
+    }
+
+    const changeRequests = await ProfileChangeRequest.find(filter)
+      .populate('requestedBy', 'username email')
+      .populate('reviewedBy', 'username')
+      .sort({ createdAt: status === 'pending' ? 1 : -1 })
+      .limit(200);
+
+    const employees = await Employee.find({
+      _id: { $in: changeRequests.map(request => request.employee) },
+      ...ACTIVE_EMPLOYEES
+    });
+    const employeesById = new Map(employees.map(employee => [employee._id.toString(), employee]));
+
+    res.json({
+      success: true,
+      data: changeRequests.map(request => {
+        const employee = employeesById.get(request.employee.toString());
+        const current = employee ? selfServiceValues(employee) : {};
+        const changes = request.getChanges();
+
+        return {
+          ...request.toJSON(),
+          employee: employee
+            ? { _id: employee._id, name: employee.name, employeeId: employee.employeeId, site: employee.site }
+            : null,
+          current: Object.fromEntries(Object.keys(changes).map(field => [field, current[field]]))
+        };
+      })
+    });
+  } catch (error) {
+    console.error('Get change requests error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+const findPendingRequest = async (req, res) => {
+  if (!mongoose.isValidObjectId(req.params.id)) {
+    res.status(404).json({
+      success: false,
+      message: 'Change request not found'
+    });
+    return null;
+  }
+
+  // Requests about employees outside the reviewer's organisation and sites
+  // are treated as missing
+  const changeRequest = await ProfileChangeRequest.findById(req.params.id);
+  if (!changeRequest || !(await Employee.exists({ _id: changeRequest.employee, ...employeeScope(req.user) }))) {
+    res.status(404).json({
+      success: false,
+      message: 'Change request not found'
+    });
+    return null;
+  }
+
+  if (changeRequest.status !== 'pending') {
+    res.status(409).json({
+      success: false,
+      message: `This change request was already ${changeRequest.status}`
+    });
+    return null;
+  }
+
+  return changeRequest;
+};
+
+const reviewValidation = [
+  body('note').optional().isString().trim().isLength({ max: 500 }).withMessage('Note must be at most 500 characters')
+];
+
+// POST /api/self-service/change-requests/:id/approve - Apply the changes to
+// the live record
+router.post('/change-requests/:id/approve', requireEditor, reviewValidation, async (req, res) => {
+  try {
+    if (respondIfInvalid(req, res)) return;
+
+    const changeRequest = await findPendingRequest(req, res);
+    if (!changeRequest) return;
+
+    const employee = await findActiveEmployee(changeRequest.employee, employeeScope(req.user));
+    if (!employee) {
+      return res.status(404).json({
+        success: false,
+        message: 'Employee not found'
+      });
+    }
+
+    // The record may have been edited since the request was made
+    const changes = changeRequest.getChanges();
+    const { errors } = await validateEmployeeRecord(mergedRecord(employee, changes));
+    if (errors.length > 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'These changes no longer fit the current record; reject the request and ask the employee to resubmit',
+        errors
+      });
+    }
+
+    // Requests made before allergies were structured hold them as strings
+    if (changes.allergies) {
+      changes.allergies = upgradeLegacyAllergies(changes.allergies, changes.criticalAllergies);
+    }
+
+    // Encrypted fields change only through save()
+    const previous = snapshotEmployee(employee);
+    employee.set(changes);
+    await employee.save();
+    await recordVersion(employee, { author: changeRequest.requestedBy, source: 'self-service', previous });
+
+    changeRequest.status = 'approved';
+    changeRequest.reviewedBy = req.user._id;
+    changeRequest.reviewedAt = new Date();
+    changeRequest.reviewNote = req.body.note || undefined;
+    await changeRequest.save();
+
+    res.json({
+      success: true,
+      message: 'Changes approved and applied',
+      data: changeRequest
+    });
+  } catch (error) {
+    console.error('Approve change request error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// POST /api/self-service/change-requests/:id/reject - Turn the changes down;
+// the note is shown to the employee
+router.post('/change-requests/:id/reject', requireEditor, reviewValidation, async (req, res) => {
+  try {
+    if (respondIfInvalid(req, res)) return;
+
+    const changeRequest = await findPendingRequest(req, res);
+    if (!changeRequest) return;
+
+    changeRequest.status = 'rejected';
+    changeRequest.reviewedBy = req.user._id;
+    changeRequest.reviewedAt = new Date();
+    changeRequest.reviewNote = req.body.note || undefined;
+    await changeRequest.save();
+
+    res.json({
+      success: true,
+      message: 'Change request rejected',
+      data: changeRequest
+    });
+  } catch (error) {
+    console.error('Reject change request error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// Usernames follow the employee id, e.g. "emp-0042", with a suffix if taken
+const availableUsername = async (employeeId) => {
+  const base = employeeId.toLowerCase().replace(/[^a-z0-9._-]/g, '').slice(0, 24).padEnd(3, '0');
+  let username = base;
+  for (let suffix = 2; await User.exists({ username }); suffix += 1) {
+    username = `${base}-${suffix}`;
+  }
+  return username;
+};
+
+// POST /api/self-service/accounts - Give an employee a self-service login and
+// email them a sign-in link
+router.post('/accounts', requireEditor, [
+  body('employee').isMongoId().withMessage('Valid employee id is required'),
+  body('email').isEmail().withMessage('Please enter a valid email')
+], async (req, res) => {
+  try {
+    if (respondIfInvalid(req, res)) return;
+
+    const employee = await findActiveEmployee(req.body.employee, employeeScope(req.user)).select('employeeId name organization');
+    if (!employee) {
+      return res.status(404).json({
+        success: false,
+        message: 'Employee not found'
+      });
+    }
+
+    const email = req.body.email.toLowerCase();
+
+    if (await User.exists({ employee: employee._id })) {
+      return res.status(409).json({
+        success: false,
+        message: 'This employee already has a self-service account; they can request a sign-in link from the login page'
+      });
+    }
+
+    if (await User.exists({ email })) {
+      return res.status(409).json({
+        success: false,
+        message: 'An account with this email already exists'
+      });
+    }
+
+    // Never shown to anyone; the employee signs in by link until they set
+    // their own password
+    const user = new User({
+      username: await availableUsername(employee.employeeId),
+      email,
+      password: crypto.randomBytes(24).toString('base64url'),
+      role: ROLES.EMPLOYEE,
+      employee: employee._id,
+      organization: employee.organization,
+      invitedBy: req.user._id
+    });
+    await user.save();
+
+    await sendLoginLink(user);
+
+    res.status(201).json({
+      success: true,
+      message: `Self-service access created for ${employee.name}`,
+      data: {
+        username: user.username,
+        email: user.email
+      }
+    });
+  } catch (error) {
+    console.error('Create self-service account error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,195 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import Site from '../models/Site.js';
+import Organization from '../models/Organization.js';
+import Employee from '../models/Employee.js';
+import BadgeTemplate from '../models/BadgeTemplate.js';
+import { authenticate, authorize } from '../middleware/auth.js';
+import { ROLES, STAFF_ROLES } from '../config/roles.js';
+import { settingsValidation } from '../utils/siteSettings.js';
+
+const router = express.Router();
+
+router.use(authenticate);
+
+const createValidation = [
+  body('code')
+    .isString()
+    .trim()
+    .matches(/^[A-Za-z0-9][A-Za-z0-9-]*$/)
+    .isLength({ max: 40 })
+    .withMessage('Code must be at most 40 letters, digits and dashes'),
+  body('organization').isMongoId().withMessage('Valid organisation is required'),
+  ...settingsValidation
+];
+
+const rejectInvalidRequest = (req, res) => {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) return false;
+
+  res.status(400).json({
+    success: false,
+    message: 'Validation failed',
+    errors: errors.array()
+  });
+  return true;
+};
+
+// Sites an account may see and manage: its organisation's, or all
+const siteFilter = (user) => (user.organization ? { organization: user.organization } : {});
+
+const findSite = (req) => Site.findOne({ code: req.params.code.toUpperCase(), ...siteFilter(req.user) });
+
+const toSettings = ({ name, country, emergencyNumber, publicProfileFields }) => ({
+  name,
+  country: country || undefined,
+  emergencyNumber,
+  publicProfileFields
+});
+
+// GET /api/sites - Sites with their organisation and whether they have their
+// own badge template, for pickers and the settings screen
+router.get('/', authorize(...STAFF_ROLES), async (req, res) => {
+  try {
+    const [sites, templateSites] = await Promise.all([
+      Site.find(siteFilter(req.user)).populate('organization', 'code name').sort({ code: 1 }),
+      BadgeTemplate.find({ site: { $ne: null } }).distinct('site')
+    ]);
+    const withTemplate = new Set(templateSites);
+
+    res.json({
+      success: true,
+      data: sites.map(site => ({ ...site.toJSON(), hasBadgeTemplate: withTemplate.has(site.code) }))
+    });
+  } catch (error) {
+    console.error('Get sites error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// POST /api/sites - Register a site under an organisation
+router.post('/', authorize(ROLES.SUPER_ADMIN), createValidation, async (req, res) => {
+  try {
+    if (rejectInvalidRequest(req, res)) return;
+
+    const inScope = !req.user.organization || req.user.organization.equals(req.body.organization);
+    const organization = inScope && await Organization.findById(req.body.organization);
+    if (!organization) {
+      return res.status(404).json({
+        success: false,
+        message: 'Organisation not found'
+      });
+    }
+
+    const code = req.body.code.toUpperCase();
+    if (await Site.exists({ code })) {
+      return res.status(409).json({
+        success: false,
+        message: `Site ${code} already exists`
+      });
+    }
+
+    // Employees already recorded at this code join the organisation, unless
+    // another organisation has them
+    if (await Employee.exists({ site: code, organization: { $nin: [null, organization._id] } })) {
+      return res.status(409).json({
+        success: false,
+        message: `Employees of another organisation are recorded at site ${code}`
+      });
+    }
+
+    const site = await Site.create({ code, organization: organization._id, ...toSettings(req.body) });
+
+    await Employee.updateMany(
+      { site: code, organization: null },
+      { organization: organization._id }
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Site created successfully',
+      data: site
+    });
+  } catch (error) {
+    if (error.code === 11000) {
+      return res.status(409).json({
+        success: false,
+        message: 'Some employees at this site share an employee ID with others in the organisation'
+      });
+    }
+    console.error('Create site error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// PUT /api/sites/:code - Update a site's name and settings. The code and
+// organisation never change, since employees and badges refer to them.
+router.put('/:code', authorize(ROLES.SUPER_ADMIN), settingsValidation, async (req, res) => {
+  try {
+    if (rejectInvalidRequest(req, res)) return;
+
+    const site = await findSite(req);
+    if (!site) {
+      return res.status(404).json({
+        success: false,
+        message: 'Site not found'
+      });
+    }
+
+    site.set(toSettings(req.body));
+    await site.save();
+
+    res.json({
+      success: true,
+      message: 'Site updated successfully',
+      data: site
+    });
+  } catch (error) {
+    console.error('Update site error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// DELETE /api/sites/:code - Only sites no employee record refers to
+router.delete('/:code', authorize(ROLES.SUPER_ADMIN), async (req, res) => {
+  try {
+    const site = await findSite(req);
+    if (!site) {
+      return res.status(404).json({
+        success: false,
+        message: 'Site not found'
+      });
+    }
+
+    if (await Employee.exists({ site: site.code })) {
+      return res.status(409).json({
+        success: false,
+        message: `Employees are still recorded at ${site.code}; move them to another site first`
+      });
+    }
+
+    await site.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Site deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete site error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+export default router;
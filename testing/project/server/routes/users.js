@@ -0,0 +1,232 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { body, validationResult } from 'express-validator';
+import User from '../models/User.js';
+import Organization from '../models/Organization.js';
+import Site from '../models/Site.js';
+import { authenticate, authorize } from '../middleware/auth.js';
+import { ROLES, STAFF_ROLES, normalizeRole } from '../config/roles.js';
+
+const router = express.Router();
+
+router.use(authenticate, authorize(ROLES.SUPER_ADMIN));
+
+const toPublicUser = (user) => ({
+  id: user._id,
+  username: user.username,
+  email: user.email,
+  role: normalizeRole(user.role),
+  organization: user.organization || null,
+  assignedSites: user.assignedSites || [],
+  employee: user.employee,
+  createdAt: user.createdAt
+});
+
+// Super-admins within an organisation only manage its accounts
+const userFilter = (req) => ({
+  _id: req.params.id,
+  ...(req.user.organization && { organization: req.user.organization })
+});
+
+// GET /api/users - List all user accounts
+router.get('/', async (req, res) => {
+  try {
+    const filter = req.user.organization ? { organization: req.user.organization } : {};
+    const users = await User.find(filter).select('-password').sort({ createdAt: -1 });
+    res.json({
+      success: true,
+      data: users.map(toPublicUser)
+    });
+  } catch (error) {
+    console.error('Get users error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// PATCH /api/users/:id/role - Change a user's role
+router.patch('/:id/role', [
+  body('role').isIn(STAFF_ROLES).withMessage('Valid role is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    // Self-demotion could leave the system without any super-admin
+    if (req.params.id === req.user._id.toString() && req.body.role !== ROLES.SUPER_ADMIN) {
+      return res.status(400).json({
+        success: false,
+        message: 'You cannot remove your own super-admin role'
+      });
+    }
+
+    // Self-service logins stay tied to their employee record
+    if (await User.exists({ _id: req.params.id, employee: { $ne: null } })) {
+      return res.status(400).json({
+        success: false,
+        message: 'Employee self-service accounts cannot be given a staff role'
+      });
+    }
+
+    const user = await User.findOneAndUpdate(
+      userFilter(req),
+      { role: req.body.role },
+      { new: true, runValidators: true }
+    ).select('-password');
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Role updated successfully',
+      data: toPublicUser(user)
+    });
+  } catch (error) {
+    console.error('Update role error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// PATCH /api/users/:id/sites - Set the sites a user works at: their
+// directory and offline cache are limited to these
+router.patch('/:id/sites', [
+  body('sites').isArray({ max: 50 }).withMessage('Sites must be a list of at most 50 site codes'),
+  body('sites.*').isString().trim().notEmpty().isLength({ max: 40 }).withMessage('Site codes must be 1 to 40 characters')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const sites = [...new Set(req.body.sites.map(site => site.toUpperCase()))];
+
+    const user = await User.findOne(userFilter(req));
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    // Only registered sites, and only the user's own organisation's
+    const known = await Site.find({
+      code: { $in: sites },
+      ...(user.organization && { organization: user.organization })
+    }).distinct('code');
+    const unknown = sites.filter(site => !known.includes(site));
+    if (unknown.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: user.organization
+          ? `Not sites of this user's organisation: ${unknown.join(', ')}`
+          : `Unknown sites: ${unknown.join(', ')}`
+      });
+    }
+
+    user.assignedSites = sites;
+    await user.save();
+
+    res.json({
+      success: true,
+      message: 'Sites updated successfully',
+      data: toPublicUser(user)
+    });
+  } catch (error) {
+    console.error('Update sites error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// PATCH /api/users/:id/organization - Move a staff account into an
+// organisation, or out of all of them (null). Sites elsewhere are dropped.
+router.patch('/:id/organization', [
+  body('organization').custom(value => value === null || mongoose.isValidObjectId(value)).withMessage('Valid organisation is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    if (req.user.organization) {
+      return res.status(403).json({
+        success: false,
+        message: 'You can only manage your own organisation'
+      });
+    }
+
+    const user = await User.findById(req.params.id);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    // Self-service logins follow their employee record
+    if (user.employee) {
+      return res.status(400).json({
+        success: false,
+        message: 'Employee self-service accounts belong to their employee\'s organisation'
+      });
+    }
+
+    if (req.body.organization && !(await Organization.exists({ _id: req.body.organization }))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Organisation not found'
+      });
+    }
+
+    user.organization = req.body.organization;
+    if (user.organization && user.assignedSites.length > 0) {
+      user.assignedSites = await Site.find({
+        code: { $in: user.assignedSites },
+        organization: user.organization
+      }).distinct('code');
+    }
+    await user.save();
+
+    res.json({
+      success: true,
+      message: 'Organisation updated successfully',
+      data: toPublicUser(user)
+    });
+  } catch (error) {
+    console.error('Update user organization error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+export default router;
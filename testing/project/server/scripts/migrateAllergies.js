@@ -0,0 +1,56 @@
+// Converts allergies stored as free-text strings into structured entries.
+//
+// Such records already load as structured entries (see the Employee model),
+// so this only makes the change permanent: each one is saved in the new
+// shape and its old criticalAllergies list removed. Allergies that were
+// listed as severe become anaphylaxis-level, so they stay on anonymous scans.
+// Review those afterwards and lower the severity where it is overstated.
+//
+//   npm run migrate-allergies
+//
+// Safe to run again: records already migrated are left alone.
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import Employee from '../models/Employee.js';
+
+dotenv.config();
+
+// Legacy entries are strings; structured ones are subdocuments
+const LEGACY_ALLERGIES = {
+  $or: [
+    { allergies: { $type: 'string' } },
+    { criticalAllergies: { $exists: true } }
+  ]
+};
+
+const migrate = async () => {
+  await mongoose.connect(process.env.MONGO_URI || 'mongodb://localhost:27017/emergencyDB');
+
+  let migrated = 0;
+  let failed = 0;
+
+  for await (const employee of Employee.find(LEGACY_ALLERGIES).cursor()) {
+    try {
+      await employee.save({ validateBeforeSave: false, timestamps: false });
+      // Not in the schema any more, so only the driver can remove it
+      await Employee.collection.updateOne({ _id: employee._id }, { $unset: { criticalAllergies: '' } });
+      migrated += 1;
+    } catch (error) {
+      failed += 1;
+      console.error(`Failed to migrate allergies of employee ${employee.employeeId}:`, error.message);
+    }
+  }
+
+  console.log(`✅ Migrated allergies of ${migrated} employee(s), ${failed} failure(s)`);
+  return failed;
+};
+
+migrate()
+  .then(failed => {
+    process.exitCode = failed > 0 ? 1 : 0;
+  })
+  .catch(error => {
+    console.error('❌ Allergy migration failed:', error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,35 @@
+// Rewrites the roles of accounts created before role-based access control
+// (admin, user) to the current ones (super-admin, responder).
+//
+// Such accounts already act with the current role when they sign in, and are
+// converted when next saved; this converts the rest, so role queries and the
+// database agree with what the app shows.
+//
+//   npm run migrate-roles
+//
+// Safe to run again: accounts with a current role are left alone.
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import User from '../models/User.js';
+import { LEGACY_ROLES } from '../config/roles.js';
+
+dotenv.config();
+
+const migrate = async () => {
+  await mongoose.connect(process.env.MONGO_URI || 'mongodb://localhost:27017/emergencyDB');
+
+  for (const [legacy, role] of Object.entries(LEGACY_ROLES)) {
+    const { modifiedCount } = await User.updateMany({ role: legacy }, { $set: { role } }, { runValidators: false });
+    console.log(`✅ Moved ${modifiedCount} account(s) from ${legacy} to ${role}`);
+  }
+};
+
+migrate()
+  .then(() => {
+    process.exitCode = 0;
+  })
+  .catch(error => {
+    console.error('❌ Role migration failed:', error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,90 @@
+// Moves a single-tenant database onto organisations and sites.
+//
+// Every site code already in use (on employees, users, badge templates and
+// incidents) is registered under one organisation, created if needed, and
+// every employee and badge template is placed in their site's organisation.
+// Employees and the default badge template without a site join the same
+// organisation. Finally the employee indexes are synced,
+// which replaces the global employee ID index with the per-organisation one.
+//
+//   npm run migrate-sites -- [ORG-CODE] ["Organisation name"]
+//
+// Safe to run again: registered sites and placed employees are left alone.
+// Staff accounts are not moved; assign them in User Accounts afterwards.
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import BadgeTemplate from '../models/BadgeTemplate.js';
+import Employee from '../models/Employee.js';
+import Incident from '../models/Incident.js';
+import Organization from '../models/Organization.js';
+import Site from '../models/Site.js';
+import User from '../models/User.js';
+
+dotenv.config();
+
+const [code = 'DEFAULT', name = 'Default organisation'] = process.argv.slice(2);
+
+const migrate = async () => {
+  await mongoose.connect(process.env.MONGO_URI || 'mongodb://localhost:27017/emergencyDB');
+
+  const organization = await Organization.findOne({ code: code.toUpperCase() })
+    || await Organization.create({ code, name });
+  console.log(`🏢 Using organisation ${organization.code} (${organization.name})`);
+
+  const codesInUse = new Set([
+    ...await Employee.distinct('site'),
+    ...await User.distinct('assignedSites'),
+    ...await BadgeTemplate.distinct('site'),
+    ...await Incident.distinct('site')
+  ].filter(Boolean));
+  const registered = new Set(await Site.distinct('code'));
+
+  let createdSites = 0;
+  for (const siteCode of codesInUse) {
+    if (registered.has(siteCode)) continue;
+    await Site.create({ code: siteCode, name: siteCode, organization: organization._id });
+    createdSites += 1;
+  }
+  console.log(`✅ Registered ${createdSites} site(s)`);
+
+  let placed = 0;
+  for (const site of await Site.find()) {
+    const { modifiedCount } = await Employee.updateMany(
+      { site: site.code, organization: { $ne: site.organization } },
+      { organization: site.organization }
+    );
+    placed += modifiedCount;
+  }
+  const { modifiedCount: withoutSite } = await Employee.updateMany(
+    { organization: null },
+    { organization: organization._id }
+  );
+  console.log(`✅ Placed ${placed + withoutSite} employee(s) in an organisation`);
+
+  let placedTemplates = 0;
+  for (const site of await Site.find()) {
+    const { modifiedCount } = await BadgeTemplate.updateMany(
+      { site: site.code, organization: { $ne: site.organization } },
+      { organization: site.organization }
+    );
+    placedTemplates += modifiedCount;
+  }
+  const { modifiedCount: defaultTemplates } = await BadgeTemplate.updateMany(
+    { site: null, organization: null },
+    { organization: organization._id }
+  );
+  console.log(`✅ Placed ${placedTemplates + defaultTemplates} badge template(s) in an organisation`);
+
+  await Employee.syncIndexes();
+  console.log('✅ Employee IDs are now unique per organisation');
+};
+
+migrate()
+  .then(() => {
+    process.exitCode = 0;
+  })
+  .catch(error => {
+    console.error('❌ Site migration failed:', error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,27 @@
+// Permanently erases archived employees whose retention period has passed.
+//
+// The server already does this on a schedule (EMPLOYEE_PURGE_INTERVAL_HOURS);
+// run `npm run purge-archived` to purge immediately or from an external cron.
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import { purgeExpiredEmployees } from '../utils/employeeArchive.js';
+
+dotenv.config();
+
+const purge = async () => {
+  await mongoose.connect(process.env.MONGO_URI || 'mongodb://localhost:27017/emergencyDB');
+
+  const { purged, failed } = await purgeExpiredEmployees();
+  console.log(`✅ Purged ${purged} archived employee record(s), ${failed} failure(s)`);
+  return failed;
+};
+
+purge()
+  .then(failed => {
+    process.exitCode = failed > 0 ? 1 : 0;
+  })
+  .catch(error => {
+    console.error('❌ Purge failed:', error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
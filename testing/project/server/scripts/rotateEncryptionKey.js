@@ -0,0 +1,89 @@
+// Re-encrypts every employee, employee version, incident and profile change
+// request with the current field encryption key.
+//
+// To rotate: add the new key to the keyring next to the old one, make it the
+// current key (FIELD_ENCRYPTION_KEY_ID or "current" in the key file), run
+// `npm run rotate-keys`, then remove the old key once this reports no failures.
+// Records saved before encryption was enabled are encrypted by the same run.
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import Employee from '../models/Employee.js';
+import EmployeeVersion from '../models/EmployeeVersion.js';
+import Incident from '../models/Incident.js';
+import ProfileChangeRequest from '../models/ProfileChangeRequest.js';
+import { assertEncryptionConfigured, getCurrentKeyId } from '../utils/fieldEncryption.js';
+
+dotenv.config();
+
+const rotate = async () => {
+  assertEncryptionConfigured();
+  await mongoose.connect(process.env.MONGO_URI || 'mongodb://localhost:27017/emergencyDB');
+
+  console.log(`🔐 Re-encrypting employee records with key "${getCurrentKeyId()}"`);
+
+  let updated = 0;
+  let failed = 0;
+
+  for await (const employee of Employee.find().cursor()) {
+    try {
+      // Saving encrypts every medical field afresh with the current key
+      await employee.save({ validateBeforeSave: false, timestamps: false });
+      updated += 1;
+    } catch (error) {
+      failed += 1;
+      console.error(`Failed to re-encrypt employee ${employee.employeeId}:`, error.message);
+    }
+  }
+
+  console.log(`✅ Re-encrypted ${updated} employee record(s), ${failed} failure(s)`);
+
+  let versions = 0;
+  for await (const version of EmployeeVersion.find().cursor()) {
+    try {
+      await version.save({ validateBeforeSave: false, timestamps: false });
+      versions += 1;
+    } catch (error) {
+      failed += 1;
+      console.error(`Failed to re-encrypt version ${version.version} of employee ${version.employee}:`, error.message);
+    }
+  }
+
+  console.log(`✅ Re-encrypted ${versions} employee version(s)`);
+
+  let incidents = 0;
+  for await (const incident of Incident.find().cursor()) {
+    try {
+      await incident.save({ validateBeforeSave: false, timestamps: false });
+      incidents += 1;
+    } catch (error) {
+      failed += 1;
+      console.error(`Failed to re-encrypt incident ${incident._id}:`, error.message);
+    }
+  }
+
+  console.log(`✅ Re-encrypted ${incidents} incident record(s)`);
+
+  let changeRequests = 0;
+  for await (const request of ProfileChangeRequest.find().cursor()) {
+    try {
+      await request.save({ validateBeforeSave: false, timestamps: false });
+      changeRequests += 1;
+    } catch (error) {
+      failed += 1;
+      console.error(`Failed to re-encrypt change request ${request._id}:`, error.message);
+    }
+  }
+
+  console.log(`✅ Re-encrypted ${changeRequests} profile change request(s)`);
+  return failed;
+};
+
+rotate()
+  .then(failed => {
+    process.exitCode = failed > 0 ? 1 : 0;
+  })
+  .catch(error => {
+    console.error('❌ Key rotation failed:', error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
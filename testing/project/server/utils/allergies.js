@@ -0,0 +1,77 @@
+import {
+  ALLERGENS, ALLERGY_REACTIONS, ALLERGY_SEVERITIES, matchAllergen, normalizeMedicalTerm
+} from '../config/allergens.js';
+
+export const isAnaphylactic = (allergy) => allergy?.severity === 'anaphylaxis';
+
+// Allergies severe enough for the public tier and the signed badge
+export const criticalAllergiesOf = (employee) => (employee.allergies || []).filter(isAnaphylactic);
+
+const severityRank = (severity) => ALLERGY_SEVERITIES.indexOf(severity);
+
+// "Peanut (anaphylaxis, breathing difficulty, carries epinephrine)"
+export const describeAllergy = (allergy) => {
+  const details = [
+    allergy.severity,
+    ALLERGY_REACTIONS[allergy.reaction]?.toLowerCase(),
+    allergy.carriesEpinephrine && 'carries epinephrine'
+  ].filter(Boolean);
+  return details.length > 0 ? `${allergy.substance} (${details.join(', ')})` : allergy.substance;
+};
+
+// Allergies used to be free-text strings, with the severe ones repeated in a
+// separate criticalAllergies list. Turns those into structured entries:
+// recognised substances get their vocabulary code, spellings of the same
+// term ("peanuts", "Peanut") become one entry, and anything listed as severe
+// is treated as anaphylaxis, which keeps it on anonymous scans as before.
+// Entries that are already structured pass through.
+export const upgradeLegacyAllergies = (allergies, criticalAllergies = []) => {
+  if (!Array.isArray(allergies)) return allergies;
+
+  const severe = new Set((criticalAllergies || []).map(allergy => String(allergy).trim().toLowerCase()));
+  const byKey = new Map();
+
+  allergies.forEach(allergy => {
+    if (typeof allergy !== 'string') {
+      byKey.set(Symbol('structured'), allergy);
+      return;
+    }
+
+    const text = allergy.trim();
+    if (!text) return;
+
+    const key = normalizeMedicalTerm(text) || text.toLowerCase();
+    const code = matchAllergen(text);
+    const entry = {
+      substance: code && key === normalizeMedicalTerm(ALLERGENS[code].name) ? ALLERGENS[code].name : text,
+      code: code || undefined,
+      severity: severe.has(text.toLowerCase()) || /anaphyla/i.test(text) ? 'anaphylaxis' : undefined,
+      carriesEpinephrine: false
+    };
+
+    const existing = byKey.get(key);
+    if (!existing || severityRank(entry.severity) > severityRank(existing.severity)) {
+      byKey.set(key, entry);
+    }
+  });
+
+  return [...byKey.values()];
+};
+
+// Applied to submitted allergies before validation: legacy strings are
+// upgraded, blank choices are dropped, and each substance gets the vocabulary
+// code it names, if any. The code is never taken from the client, so it
+// cannot disagree with the substance.
+export const normalizeAllergies = (allergies, criticalAllergies) => {
+  const upgraded = upgradeLegacyAllergies(allergies, criticalAllergies);
+  if (!Array.isArray(upgraded)) return upgraded;
+
+  return upgraded.map(allergy => (allergy && typeof allergy === 'object'
+    ? {
+      ...allergy,
+      code: typeof allergy.substance === 'string' ? matchAllergen(allergy.substance) || undefined : undefined,
+      reaction: allergy.reaction || undefined,
+      severity: allergy.severity || undefined
+    }
+    : allergy));
+};
@@ -0,0 +1,125 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { tokenForId } from './badgeToken.js';
+import { criticalAllergiesOf } from './allergies.js';
+import { isBloodThinner } from './medications.js';
+
+// Self-contained badges carry a short emergency summary as plain text, so any
+// phone's QR reader can show it without reaching the server:
+//
+//   SAFESCAN EMERGENCY CARD v1
+//   Name: Jane Doe
+//   Blood group: O+
+//   Allergies: Penicillin; Latex
+//   Medications: Warfarin 5mg; Metformin 500mg
+//   ICE: Mary Doe (Spouse)
+//   ICE phone: +44 7700 900123
+//   Issued: 2026-10-18
+//   Ref: <badge token>
+//   Sig: <keyId>.<signature>
+//
+// The signature is ECDSA P-256 over every line before it, in the raw r||s form
+// WebCrypto verifies, so the scanner can check it offline with the public key.
+
+// What a badge QR encodes: a link to the online profile, or the signed summary
+export const BADGE_MODES = ['url', 'payload'];
+
+export const PAYLOAD_HEADER = 'SAFESCAN EMERGENCY CARD v1';
+
+// Keeps the symbol small enough to scan reliably from a printed card
+const MAX_LIST_ITEMS = 4;
+const MAX_MEDICATIONS = 3;
+const MAX_ITEM_LENGTH = 40;
+
+let cachedKey = null;
+
+// PEM from BADGE_PAYLOAD_KEY_FILE, or inline in BADGE_PAYLOAD_PRIVATE_KEY with
+// escaped newlines
+const readPrivateKeyPem = () => {
+  if (process.env.BADGE_PAYLOAD_KEY_FILE) {
+    return fs.readFileSync(process.env.BADGE_PAYLOAD_KEY_FILE, 'utf8');
+  }
+  return process.env.BADGE_PAYLOAD_PRIVATE_KEY?.replace(/\\n/g, '\n') || null;
+};
+
+const getSigningKey = () => {
+  const pem = readPrivateKeyPem();
+  if (!pem) {
+    throw new Error('Badge payload signing is not configured: set BADGE_PAYLOAD_KEY_FILE or BADGE_PAYLOAD_PRIVATE_KEY');
+  }
+
+  if (cachedKey?.pem !== pem) {
+    const privateKey = crypto.createPrivateKey(pem);
+    if (privateKey.asymmetricKeyDetails?.namedCurve !== 'prime256v1') {
+      throw new Error('Badge payload signing key must be an EC P-256 key');
+    }
+    const spki = crypto.createPublicKey(privateKey).export({ type: 'spki', format: 'der' });
+    cachedKey = {
+      pem,
+      privateKey,
+      publicKey: spki.toString('base64'),
+      keyId: crypto.createHash('sha256').update(spki).digest('base64url').slice(0, 8)
+    };
+  }
+  return cachedKey;
+};
+
+export const isBadgePayloadConfigured = () =>
+  Boolean(process.env.BADGE_PAYLOAD_KEY_FILE || process.env.BADGE_PAYLOAD_PRIVATE_KEY);
+
+// Public half for scanners to cache; SPKI DER, base64 encoded
+export const getPayloadPublicKey = () => {
+  const { keyId, publicKey } = getSigningKey();
+  return { keyId, publicKey, algorithm: 'ECDSA-P256-SHA256' };
+};
+
+// Line breaks and the list separator would change how a line is read
+const clean = (value) => String(value ?? '').replace(/[\r\n;]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+const shorten = (value) => {
+  const text = clean(value);
+  return text.length > MAX_ITEM_LENGTH ? `${text.slice(0, MAX_ITEM_LENGTH - 1)}…` : text;
+};
+
+const list = (items, max = MAX_LIST_ITEMS) => {
+  const values = (items || []).map(shorten).filter(Boolean);
+  if (values.length === 0) return 'none recorded';
+  const shown = values.slice(0, max).join('; ');
+  return values.length > max ? `${shown}; +${values.length - max} more` : shown;
+};
+
+const iceLines = (contact) => {
+  if (!contact) return ['ICE: none recorded'];
+  const relationship = contact.relationship ? ` (${shorten(contact.relationship)})` : '';
+  return [`ICE: ${shorten(contact.name)}${relationship}`, `ICE phone: ${clean(contact.phone)}`];
+};
+
+// The signed summary for an employee's badge. Anaphylaxis-level allergies
+// only; the full list stays behind the online lookup. Blood thinners are
+// listed first so they are never the medications left off.
+export const buildEmergencyPayload = (employee) => {
+  const { keyId, privateKey } = getSigningKey();
+  const medications = [...(employee.medications || [])]
+    .sort((a, b) => Number(isBloodThinner(b)) - Number(isBloodThinner(a)));
+
+  const lines = [
+    PAYLOAD_HEADER,
+    `Name: ${clean(employee.name)}`,
+    `Blood group: ${clean(employee.bloodGroup)}`,
+    `Allergies: ${list(criticalAllergiesOf(employee).map(allergy => allergy.substance))}`,
+    `Medications: ${list(medications.map(m => [m.name, m.dosage].filter(Boolean).join(' ')), MAX_MEDICATIONS)}`,
+    ...iceLines(employee.emergencyContacts?.[0]),
+    `Issued: ${new Date().toISOString().split('T')[0]}`
+  ];
+
+  if (employee.badge?.tokenId) {
+    lines.push(`Ref: ${tokenForId(employee.badge.tokenId)}`);
+  }
+
+  const signature = crypto.sign('sha256', Buffer.from(lines.join('\n')), {
+    key: privateKey,
+    dsaEncoding: 'ieee-p1363'
+  });
+
+  return [...lines, `Sig: ${keyId}.${signature.toString('base64url')}`].join('\n');
+};
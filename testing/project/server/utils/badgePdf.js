@@ -0,0 +1,208 @@
+import PDFDocument from 'pdfkit';
+import { formatShortCode } from './badgeToken.js';
+
+const MM = 72 / 25.4;
+
+// CR80 card (85.6 x 53.98 mm), printed in portrait
+export const BADGE_WIDTH = 53.98 * MM;
+export const BADGE_HEIGHT = 85.6 * MM;
+
+export const PAPER_SIZES = {
+  a4: [595.28, 841.89],
+  letter: [612, 792]
+};
+
+const SHEET_MARGIN = 36;
+const GUTTER = 18;
+const CROP_MARK_LENGTH = 8;
+const CROP_MARK_OFFSET = 3;
+const PADDING = 8;
+
+// Used when neither the employee's site nor the organisation has a template
+export const DEFAULT_BADGE_TEMPLATE = {
+  organizationName: 'SafeScan',
+  primaryColor: '#1d4ed8',
+  accentColor: '#b91c1c',
+  showPhoto: true,
+  frontFooter: 'Scan in an emergency',
+  backNote: '',
+  emergencyNumber: ''
+};
+
+const initialsOf = (name) => name
+  .split(/\s+/)
+  .filter(Boolean)
+  .slice(0, 2)
+  .map(part => part[0].toUpperCase())
+  .join('');
+
+const centeredText = (doc, text, y, options = {}) => {
+  doc.text(text, PADDING, y, {
+    width: BADGE_WIDTH - PADDING * 2,
+    align: 'center',
+    lineBreak: false,
+    ellipsis: true,
+    ...options
+  });
+};
+
+const drawHeaderBand = (doc, template, label) => {
+  doc.rect(0, 0, BADGE_WIDTH, 30).fill(template.primaryColor);
+  doc.fillColor('#ffffff').font('Helvetica-Bold').fontSize(label.length > 22 ? 8 : 10);
+  centeredText(doc, label, 11);
+};
+
+// Front: organisation, photo, name, employee id and the scan QR code
+const drawFront = (doc, { employee, template, qrCode, photo }) => {
+  drawHeaderBand(doc, template, template.organizationName);
+
+  let y = 38;
+  if (template.showPhoto) {
+    const photoWidth = 66;
+    const photoHeight = 82;
+    const x = (BADGE_WIDTH - photoWidth) / 2;
+
+    if (photo) {
+      doc.save();
+      doc.rect(x, y, photoWidth, photoHeight).clip();
+      doc.image(photo, x, y, { cover: [photoWidth, photoHeight], align: 'center', valign: 'center' });
+      doc.restore();
+    } else {
+      doc.rect(x, y, photoWidth, photoHeight).fill('#e5e7eb');
+      doc.fillColor('#6b7280').font('Helvetica-Bold').fontSize(22);
+      doc.text(initialsOf(employee.name), x, y + photoHeight / 2 - 11, { width: photoWidth, align: 'center', lineBreak: false });
+    }
+    y += photoHeight + 5;
+  }
+
+  doc.fillColor('#111827').font('Helvetica-Bold').fontSize(10);
+  centeredText(doc, employee.name, y);
+  doc.fillColor('#4b5563').font('Helvetica').fontSize(7.5);
+  const shortCode = employee.badge?.shortCode;
+  centeredText(doc, shortCode ? `ID ${employee.employeeId} · Code ${formatShortCode(shortCode)}` : `ID ${employee.employeeId}`, y + 13);
+
+  const qrSize = template.showPhoto ? 74 : 110;
+  const qrTop = BADGE_HEIGHT - qrSize - 14;
+  doc.image(qrCode, (BADGE_WIDTH - qrSize) / 2, qrTop, { width: qrSize });
+
+  if (template.frontFooter) {
+    doc.fillColor('#4b5563').font('Helvetica').fontSize(6);
+    centeredText(doc, template.frontFooter, BADGE_HEIGHT - 11);
+  }
+};
+
+// Back: blood group, in-case-of-emergency contact and site instructions
+const drawBack = (doc, { employee, template }) => {
+  drawHeaderBand(doc, template, 'EMERGENCY INFORMATION');
+
+  doc.fillColor('#4b5563').font('Helvetica').fontSize(7);
+  centeredText(doc, 'BLOOD GROUP', 42);
+  doc.fillColor(template.accentColor).font('Helvetica-Bold').fontSize(36);
+  centeredText(doc, employee.bloodGroup, 52);
+
+  const contact = employee.emergencyContacts[0];
+  if (contact) {
+    doc.fillColor('#4b5563').font('Helvetica').fontSize(7);
+    centeredText(doc, 'ICE CONTACT', 106);
+    doc.fillColor('#111827').font('Helvetica').fontSize(8.5);
+    centeredText(doc, `${contact.name} (${contact.relationship})`, 117);
+    doc.font('Helvetica-Bold').fontSize(12);
+    centeredText(doc, contact.phone, 129);
+  }
+
+  if (template.emergencyNumber) {
+    doc.rect(PADDING, 152, BADGE_WIDTH - PADDING * 2, 20).fill(template.accentColor);
+    doc.fillColor('#ffffff').font('Helvetica-Bold').fontSize(9);
+    centeredText(doc, `EMERGENCY: CALL ${template.emergencyNumber}`, 158);
+  }
+
+  if (template.backNote) {
+    doc.fillColor('#4b5563').font('Helvetica').fontSize(6.5);
+    doc.text(template.backNote, PADDING, 182, {
+      width: BADGE_WIDTH - PADDING * 2,
+      height: BADGE_HEIGHT - 182 - PADDING,
+      align: 'center',
+      ellipsis: true
+    });
+  }
+
+  doc.rect(0, 0, BADGE_WIDTH, BADGE_HEIGHT).lineWidth(0.5).stroke('#d1d5db');
+};
+
+const drawAt = (doc, x, y, draw) => {
+  doc.save();
+  doc.translate(x, y);
+  draw();
+  doc.restore();
+};
+
+const drawCropMarks = (doc, x, y) => {
+  const corners = [
+    [x, y, -1, -1],
+    [x + BADGE_WIDTH, y, 1, -1],
+    [x, y + BADGE_HEIGHT, -1, 1],
+    [x + BADGE_WIDTH, y + BADGE_HEIGHT, 1, 1]
+  ];
+
+  doc.save().lineWidth(0.25).strokeColor('#000000');
+  corners.forEach(([cx, cy, dx, dy]) => {
+    const startX = cx + dx * CROP_MARK_OFFSET;
+    const startY = cy + dy * CROP_MARK_OFFSET;
+    doc.moveTo(startX, cy).lineTo(startX + dx * CROP_MARK_LENGTH, cy).stroke();
+    doc.moveTo(cx, startY).lineTo(cx, startY + dy * CROP_MARK_LENGTH).stroke();
+  });
+  doc.restore();
+};
+
+const sheetGrid = ([pageWidth, pageHeight]) => {
+  const columns = Math.floor((pageWidth - SHEET_MARGIN * 2 + GUTTER) / (BADGE_WIDTH + GUTTER));
+  const rows = Math.floor((pageHeight - SHEET_MARGIN * 2 + GUTTER) / (BADGE_HEIGHT + GUTTER));
+
+  return {
+    columns,
+    rows,
+    left: (pageWidth - (columns * BADGE_WIDTH + (columns - 1) * GUTTER)) / 2,
+    top: (pageHeight - (rows * BADGE_HEIGHT + (rows - 1) * GUTTER)) / 2
+  };
+};
+
+// badges: [{ employee, template, qrCode: PNG buffer, photo?: image buffer }]
+// paper: 'card' for one CR80 page per side, or a key of PAPER_SIZES for sheets.
+// Sheets alternate a page of fronts with a page of backs, mirrored so they
+// line up when printed double-sided (flip on long edge).
+export const writeBadgePdf = (badges, stream, { paper = 'card' } = {}) => {
+  const doc = new PDFDocument({ autoFirstPage: false, margin: 0 });
+  doc.pipe(stream);
+
+  if (paper === 'card') {
+    badges.forEach(badge => {
+      doc.addPage({ size: [BADGE_WIDTH, BADGE_HEIGHT], margin: 0 });
+      drawFront(doc, badge);
+      doc.addPage({ size: [BADGE_WIDTH, BADGE_HEIGHT], margin: 0 });
+      drawBack(doc, badge);
+    });
+  } else {
+    const size = PAPER_SIZES[paper];
+    const grid = sheetGrid(size);
+    const perSheet = grid.columns * grid.rows;
+
+    for (let start = 0; start < badges.length; start += perSheet) {
+      const sheet = badges.slice(start, start + perSheet);
+
+      [drawFront, drawBack].forEach((draw, side) => {
+        doc.addPage({ size, margin: 0 });
+        sheet.forEach((badge, index) => {
+          const row = Math.floor(index / grid.columns);
+          const column = side === 0 ? index % grid.columns : grid.columns - 1 - (index % grid.columns);
+          const x = grid.left + column * (BADGE_WIDTH + GUTTER);
+          const y = grid.top + row * (BADGE_HEIGHT + GUTTER);
+
+          drawAt(doc, x, y, () => draw(doc, badge));
+          drawCropMarks(doc, x, y);
+        });
+      });
+    }
+  }
+
+  doc.end();
+};
@@ -0,0 +1,58 @@
+import crypto from 'crypto';
+
+// Badge tokens are `<tokenId>.<signature>`. The id is random, so it reveals
+// nothing about the employee, and the signature stops anyone from minting
+// ids to probe the lookup endpoint.
+const SIGNATURE_LENGTH = 22;
+
+// Checked before comparing, as timingSafeEqual needs inputs of equal byte
+// length and a multibyte character would throw there
+const SIGNATURE_PATTERN = new RegExp(`^[A-Za-z0-9_-]{${SIGNATURE_LENGTH}}$`);
+
+const getSecret = () => process.env.BADGE_TOKEN_SECRET || process.env.JWT_SECRET;
+
+const sign = (tokenId) =>
+  crypto.createHmac('sha256', getSecret()).update(tokenId).digest('base64url').slice(0, SIGNATURE_LENGTH);
+
+export const tokenForId = (tokenId) => `${tokenId}.${sign(tokenId)}`;
+
+export const issueBadgeToken = () => {
+  const tokenId = crypto.randomBytes(12).toString('base64url');
+  return { tokenId, token: tokenForId(tokenId) };
+};
+
+// Returns the token id when the signature is valid, otherwise null
+export const verifyBadgeToken = (token) => {
+  if (typeof token !== 'string') return null;
+
+  const [tokenId, signature] = token.split('.');
+  if (!tokenId || !signature || !SIGNATURE_PATTERN.test(signature)) return null;
+
+  const expected = Buffer.from(sign(tokenId));
+  const received = Buffer.from(signature);
+
+  return crypto.timingSafeEqual(expected, received) ? tokenId : null;
+};
+
+// Short codes let a badge be typed in when its QR code cannot be scanned.
+// Crockford base32 leaves out letters that are easily misread.
+const SHORT_CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const SHORT_CODE_LENGTH = 8;
+
+export const issueShortCode = () =>
+  Array.from(crypto.randomBytes(SHORT_CODE_LENGTH), byte => SHORT_CODE_ALPHABET[byte % SHORT_CODE_ALPHABET.length]).join('');
+
+// Accepts lower case, spaces, dashes and the usual O/0 and I/L/1 mix-ups
+export const normalizeShortCode = (input) =>
+  String(input).toUpperCase().replace(/[\s-]/g, '').replace(/O/g, '0').replace(/[IL]/g, '1');
+
+export const isShortCode = (code) =>
+  code.length === SHORT_CODE_LENGTH && [...code].every(char => SHORT_CODE_ALPHABET.includes(char));
+
+// Printed as XXXX-XXXX
+export const formatShortCode = (code) => `${code.slice(0, 4)}-${code.slice(4)}`;
+
+export const buildBadgeUrl = (token) => {
+  const baseUrl = process.env.BASE_URL || 'http://localhost:5173';
+  return `${baseUrl}/badge/${token}`;
+};
@@ -0,0 +1,98 @@
+import { STAFF_ROLES } from '../config/roles.js';
+import { criticalAllergiesOf } from './allergies.js';
+
+export const DISCLOSURE_TIERS = {
+  PUBLIC: 'public',
+  FULL: 'full'
+};
+
+// Any signed-in staff account sees the full record; anonymous scans, and
+// employees signed in to self-service, get the public tier
+const FULL_DISCLOSURE_ROLES = STAFF_ROLES;
+
+// Fields an anonymous scan may be shown. PUBLIC_PROFILE_FIELDS picks the
+// default subset; sites and organisations may set their own.
+const PUBLIC_FIELD_BUILDERS = {
+  name: (employee) => ({ name: employee.name }),
+  age: (employee) => ({ age: employee.age }),
+  bloodGroup: (employee) => ({ bloodGroup: employee.bloodGroup }),
+  // Anaphylaxis-level allergies only
+  criticalAllergies: (employee) => ({ allergies: criticalAllergiesOf(employee) }),
+  iceContact: (employee) => ({
+    emergencyContacts: employee.emergencyContacts
+      .slice(0, 1)
+      .map(({ name, phone, relationship }) => ({ name, phone, relationship }))
+  }),
+  medications: (employee) => ({ medications: employee.medications }),
+  medicalConditions: (employee) => ({ medicalConditions: employee.medicalConditions })
+};
+
+export const PUBLIC_PROFILE_FIELD_NAMES = Object.keys(PUBLIC_FIELD_BUILDERS);
+
+const DEFAULT_PUBLIC_FIELDS = ['name', 'bloodGroup', 'criticalAllergies', 'iceContact'];
+
+// Sections the client renders; used to tell it what was held back
+const PROFILE_SECTIONS = ['dob', 'allergies', 'medications', 'medicalConditions', 'emergencyContacts', 'physician', 'notes'];
+
+const getPublicFields = () => {
+  const configured = process.env.PUBLIC_PROFILE_FIELDS;
+  if (!configured) return DEFAULT_PUBLIC_FIELDS;
+
+  return configured
+    .split(',')
+    .map(field => field.trim())
+    .filter(field => PUBLIC_FIELD_BUILDERS[field]);
+};
+
+// The in-memory form of employeeScope (utils/siteScope.js), for a record
+// already loaded
+const worksWith = (user, employee) =>
+  (!user.organization || user.organization.equals(employee.organization))
+  && (!(user.assignedSites?.length > 0) || user.assignedSites.includes(employee.site));
+
+// Staff outside the employee's organisation or sites scan like anyone else
+export const resolveDisclosureTier = (user, employee) =>
+  user && FULL_DISCLOSURE_ROLES.includes(user.role) && worksWith(user, employee)
+    ? DISCLOSURE_TIERS.FULL
+    : DISCLOSURE_TIERS.PUBLIC;
+
+// Staff also get the employee ID, which the triage list records each casualty by
+const toFullProfile = (employee) => ({
+  id: employee._id,
+  employeeId: employee.employeeId,
+  name: employee.name,
+  age: employee.age,
+  dob: employee.dob,
+  bloodGroup: employee.bloodGroup,
+  allergies: employee.allergies,
+  medications: employee.medications,
+  emergencyContacts: employee.emergencyContacts,
+  physician: employee.physician,
+  medicalConditions: employee.medicalConditions,
+  notes: employee.notes
+});
+
+const countOf = (value) => {
+  if (Array.isArray(value)) return value.length;
+  return value ? 1 : 0;
+};
+
+// publicFields is the site's disclosure policy, if it has one
+export const toDisclosedProfile = (employee, tier, publicFields) => {
+  const fullProfile = toFullProfile(employee);
+
+  if (tier === DISCLOSURE_TIERS.FULL) {
+    return { ...fullProfile, disclosureTier: tier, withheldSections: [] };
+  }
+
+  const publicProfile = (publicFields?.length ? publicFields : getPublicFields()).reduce(
+    (profile, field) => ({ ...profile, ...PUBLIC_FIELD_BUILDERS[field](employee) }),
+    { id: employee._id }
+  );
+
+  const withheldSections = PROFILE_SECTIONS.filter(
+    section => countOf(fullProfile[section]) > countOf(publicProfile[section])
+  );
+
+  return { ...publicProfile, disclosureTier: tier, withheldSections };
+};
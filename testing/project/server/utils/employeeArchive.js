@@ -0,0 +1,84 @@
+import Employee from '../models/Employee.js';
+import EmployeeVersion from '../models/EmployeeVersion.js';
+import LoginLink from '../models/LoginLink.js';
+import ProfileChangeRequest from '../models/ProfileChangeRequest.js';
+import RevokedBadge from '../models/RevokedBadge.js';
+import User from '../models/User.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// How long an archived record can still be restored before it is erased
+export const getRetentionDays = () => Number(process.env.EMPLOYEE_RETENTION_DAYS) || 90;
+
+const getPurgeIntervalHours = () => Number(process.env.EMPLOYEE_PURGE_INTERVAL_HOURS) || 24;
+
+export const archiveEmployee = (employee, user) => {
+  const archivedAt = new Date();
+  employee.archivedAt = archivedAt;
+  employee.archivedBy = user._id;
+  employee.purgeAfter = new Date(archivedAt.getTime() + getRetentionDays() * 24 * HOUR_MS);
+};
+
+export const unarchiveEmployee = (employee) => {
+  employee.archivedAt = undefined;
+  employee.archivedBy = undefined;
+  employee.purgeAfter = undefined;
+};
+
+// Permanently erases one archived record and everything holding its medical
+// data or giving access to it: version history, change requests, revoked
+// badge entries and the employee's self-service login. Scan events and
+// incidents are kept as the site's safety record; they keep only the id.
+const purgeEmployee = async (employee) => {
+  const selfServiceUsers = await User.find({ employee: employee._id }).distinct('_id');
+
+  await Promise.all([
+    EmployeeVersion.deleteMany({ employee: employee._id }),
+    ProfileChangeRequest.deleteMany({ employee: employee._id }),
+    RevokedBadge.deleteMany({ employee: employee._id }),
+    LoginLink.deleteMany({ user: { $in: selfServiceUsers } }),
+    User.deleteMany({ _id: { $in: selfServiceUsers } })
+  ]);
+
+  // Last, so a failure above is retried on the next run
+  await Employee.deleteOne({ _id: employee._id });
+};
+
+// Erases every archived record whose retention period has passed
+export const purgeExpiredEmployees = async () => {
+  let purged = 0;
+  let failed = 0;
+
+  const expired = Employee.find({ archivedAt: { $ne: null }, purgeAfter: { $lte: new Date() } })
+    .select('_id employeeId')
+    .cursor();
+
+  for await (const employee of expired) {
+    try {
+      await purgeEmployee(employee);
+      purged += 1;
+    } catch (error) {
+      failed += 1;
+      console.error(`Failed to purge archived employee ${employee.employeeId}:`, error.message);
+    }
+  }
+
+  return { purged, failed };
+};
+
+// Runs the purge on an interval inside the server process
+export const schedulePurge = () => {
+  const run = () => purgeExpiredEmployees()
+    .then(({ purged, failed }) => {
+      if (purged > 0 || failed > 0) {
+        console.log(`🗑️  Purged ${purged} archived employee record(s), ${failed} failure(s)`);
+      }
+    })
+    .catch(error => console.error('Archived employee purge error:', error));
+
+  const timer = setInterval(run, getPurgeIntervalHours() * HOUR_MS);
+  // Never keeps the process alive on its own
+  timer.unref();
+  run();
+  return timer;
+};
@@ -0,0 +1,176 @@
+import PDFDocument from 'pdfkit';
+import { ALLERGY_REACTIONS } from '../config/allergens.js';
+import { describeAllergy } from './allergies.js';
+
+export const EXPORT_FORMATS = ['csv', 'json', 'pdf'];
+
+// Identifies JSON exports so the import wizard can read them back
+export const JSON_EXPORT_FORMAT = 'safescan-employees';
+// Version 2: structured allergies; version 1 files still import
+export const JSON_EXPORT_VERSION = 2;
+
+const formatDate = (date) => (date ? date.toISOString().split('T')[0] : undefined);
+
+// Same shape the import endpoint accepts, so a JSON export re-imports as is
+export const toExportRecord = (employee) => ({
+  employeeId: employee.employeeId,
+  name: employee.name,
+  site: employee.site,
+  dob: formatDate(employee.dob),
+  bloodGroup: employee.bloodGroup,
+  allergies: employee.allergies.map(({ substance, reaction, severity, carriesEpinephrine }) => ({
+    substance, reaction, severity, carriesEpinephrine
+  })),
+  medicalConditions: [...employee.medicalConditions],
+  medications: employee.medications.map(({ name, dosage, frequency }) => ({ name, dosage, frequency })),
+  emergencyContacts: employee.emergencyContacts.map(({ name, phone, relationship, email, notifyOnScan }) => ({
+    name, phone, relationship, email, notifyOnScan
+  })),
+  physician: employee.physician && {
+    name: employee.physician.name,
+    phone: employee.physician.phone,
+    specialty: employee.physician.specialty
+  },
+  insurance: employee.insurance && {
+    provider: employee.insurance.provider,
+    memberId: employee.insurance.memberId,
+    groupNumber: employee.insurance.groupNumber
+  },
+  notes: employee.notes,
+  scanNotifications: employee.scanNotifications && {
+    enabled: employee.scanNotifications.enabled,
+    notifyEmployee: employee.scanNotifications.notifyEmployee,
+    email: employee.scanNotifications.email,
+    phone: employee.scanNotifications.phone
+  }
+});
+
+export const toJsonExport = (employees) => JSON.stringify({
+  format: JSON_EXPORT_FORMAT,
+  version: JSON_EXPORT_VERSION,
+  exportedAt: new Date().toISOString(),
+  employees: employees.map(toExportRecord)
+}, null, 2);
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsvCell = (value) => {
+  const text = value === undefined || value === null ? '' : String(value);
+  const safe = FORMULA_PREFIX.test(text) ? `'${text}` : text;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+const numbered = (label, count, fields = ['']) =>
+  Array.from({ length: count }, (_, i) => fields.map(field => `${label} ${i + 1}${field && ` ${field}`}`)).flat();
+
+const padded = (values, count) => Array.from({ length: count }, (_, i) => values[i]);
+
+// One row per employee with numbered columns for repeated data, using the
+// headers the import wizard maps automatically
+export const toCsvExport = (employees) => {
+  const max = (select) => Math.max(1, ...employees.map(employee => select(employee).length));
+  const counts = {
+    allergies: max(employee => employee.allergies),
+    conditions: max(employee => employee.medicalConditions),
+    medications: max(employee => employee.medications),
+    contacts: max(employee => employee.emergencyContacts)
+  };
+
+  const header = [
+    'Employee ID', 'Name', 'Site', 'Date of Birth', 'Blood Group',
+    ...numbered('Allergy', counts.allergies, ['', 'Reaction', 'Severity', 'Epinephrine']),
+    ...numbered('Medical Condition', counts.conditions),
+    ...numbered('Medication', counts.medications, ['Name', 'Dosage', 'Frequency']),
+    ...numbered('Contact', counts.contacts, ['Name', 'Phone', 'Relationship', 'Email']),
+    'Physician Name', 'Physician Phone', 'Physician Specialty',
+    'Insurance Provider', 'Insurance Member ID', 'Insurance Group Number',
+    'Notes'
+  ];
+
+  const rows = employees.map(employee => [
+    employee.employeeId,
+    employee.name,
+    employee.site,
+    formatDate(employee.dob),
+    employee.bloodGroup,
+    ...padded(employee.allergies, counts.allergies).flatMap(allergy => [
+      allergy?.substance,
+      ALLERGY_REACTIONS[allergy?.reaction],
+      allergy?.severity,
+      allergy && (allergy.carriesEpinephrine ? 'Yes' : 'No')
+    ]),
+    ...padded(employee.medicalConditions, counts.conditions),
+    ...padded(employee.medications, counts.medications)
+      .flatMap(medication => [medication?.name, medication?.dosage, medication?.frequency]),
+    ...padded(employee.emergencyContacts, counts.contacts)
+      .flatMap(contact => [contact?.name, contact?.phone, contact?.relationship, contact?.email]),
+    employee.physician?.name,
+    employee.physician?.phone,
+    employee.physician?.specialty,
+    employee.insurance?.provider,
+    employee.insurance?.memberId,
+    employee.insurance?.groupNumber,
+    employee.notes
+  ]);
+
+  return [header, ...rows].map(row => row.map(escapeCsvCell).join(',')).join('\r\n');
+};
+
+const listOrNone = (items) => (items.length > 0 ? items.join(', ') : 'None');
+
+// Printable roster: one block per employee with the information a first
+// aider needs, plus page numbers and a confidentiality footer
+export const writeRosterPdf = (employees, stream, { generatedBy, filterSummary }) => {
+  const doc = new PDFDocument({ size: 'A4', margin: 40, bufferPages: true });
+  doc.pipe(stream);
+
+  doc.fontSize(18).font('Helvetica-Bold').text('Employee Emergency Roster');
+  doc.fontSize(9).font('Helvetica').fillColor('#555555')
+    .text(`Generated ${new Date().toUTCString()} by ${generatedBy} · ${employees.length} employees · ${filterSummary}`);
+  doc.moveDown();
+
+  employees.forEach(employee => {
+    // Keep each block on one page where possible
+    if (doc.y > doc.page.height - 160) doc.addPage();
+
+    const allergies = employee.allergies.map(describeAllergy);
+    const medications = employee.medications.map(medication =>
+      [medication.name, medication.dosage, medication.frequency].filter(Boolean).join(' '));
+    const contact = employee.emergencyContacts[0];
+
+    doc.fillColor('#000000').fontSize(12).font('Helvetica-Bold')
+      .text(`${employee.name}  (${employee.employeeId})`, { continued: true })
+      .fillColor('#b91c1c').text(`   Blood group ${employee.bloodGroup}`);
+
+    doc.fillColor('#000000').fontSize(9).font('Helvetica');
+    doc.text(`Date of birth: ${formatDate(employee.dob) || 'Unknown'}`);
+    doc.text(`Allergies: ${listOrNone(allergies)}`);
+    doc.text(`Medications: ${listOrNone(medications)}`);
+    doc.text(`Conditions: ${listOrNone(employee.medicalConditions)}`);
+    if (contact) {
+      doc.text(`Emergency contact: ${contact.name} (${contact.relationship}) ${contact.phone}`);
+    }
+    if (employee.physician) {
+      doc.text(`Physician: ${employee.physician.name} ${employee.physician.phone}`);
+    }
+
+    doc.moveDown(0.5);
+    doc.strokeColor('#dddddd').moveTo(doc.page.margins.left, doc.y)
+      .lineTo(doc.page.width - doc.page.margins.right, doc.y).stroke();
+    doc.moveDown(0.5);
+  });
+
+  const { start, count } = doc.bufferedPageRange();
+  for (let page = start; page < start + count; page++) {
+    doc.switchToPage(page);
+    doc.fontSize(8).fillColor('#555555').text(
+      `CONFIDENTIAL - contains medical information · Page ${page + 1} of ${count}`,
+      doc.page.margins.left,
+      doc.page.height - 30,
+      { align: 'center', width: doc.page.width - doc.page.margins.left - doc.page.margins.right, lineBreak: false }
+    );
+  }
+
+  doc.end();
+};
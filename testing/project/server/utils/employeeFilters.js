@@ -0,0 +1,33 @@
+import { query } from 'express-validator';
+import { employeeScope } from './siteScope.js';
+
+// Query parameters shared by the bulk endpoints (export, badge sheets)
+export const directoryFilterValidation = [
+  query('search').optional().isString().isLength({ max: 100 }),
+  query('bloodGroup').optional({ values: 'falsy' }).isIn(['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'])
+];
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Records that have not been archived; see utils/employeeArchive.js
+export const ACTIVE_EMPLOYEES = { archivedAt: null };
+
+// Mirrors the directory filters in EmployeeList: name or employee id
+// containing the search text, and an exact blood group, within the sites the
+// user works at. Archived records are never part of the directory.
+export const buildFilter = ({ search, bloodGroup }, user) => {
+  const filter = { ...ACTIVE_EMPLOYEES, ...employeeScope(user) };
+  if (search) {
+    const pattern = new RegExp(escapeRegex(search), 'i');
+    filter.$or = [{ name: pattern }, { employeeId: pattern }];
+  }
+  if (bloodGroup) filter.bloodGroup = bloodGroup;
+  return filter;
+};
+
+export const describeFilters = ({ search, bloodGroup }) => {
+  const parts = [];
+  if (search) parts.push(`search "${search}"`);
+  if (bloodGroup) parts.push(`blood group ${bloodGroup}`);
+  return parts.length > 0 ? `Filtered by ${parts.join(', ')}` : 'All employees';
+};
@@ -0,0 +1,77 @@
+import { body, validationResult } from 'express-validator';
+import { BADGE_MODES, isBadgePayloadConfigured } from './badgePayload.js';
+import { normalizeAllergies } from './allergies.js';
+import { normalizeMedications } from './medications.js';
+import { ALLERGY_REACTION_TYPES, ALLERGY_SEVERITIES } from '../config/allergens.js';
+
+// Validation rules
+export const employeeValidation = [
+  body('name').notEmpty().trim().withMessage('Name is required'),
+  body('employeeId').notEmpty().trim().withMessage('Employee ID is required'),
+  body('dob').isDate().withMessage('Valid date of birth is required'),
+  body('site').optional({ values: 'falsy' }).isString().isLength({ max: 40 }).withMessage('Site code must be at most 40 characters'),
+  body('badgeMode')
+    .optional()
+    .isIn(BADGE_MODES)
+    .withMessage(`Badge mode must be one of ${BADGE_MODES.join(', ')}`)
+    .bail()
+    .custom(value => value !== 'payload' || isBadgePayloadConfigured())
+    .withMessage('Signed badge payloads are not configured on the server'),
+  body('bloodGroup').isIn(['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-']).withMessage('Valid blood group is required'),
+  // Older clients and exports send allergies as strings plus a
+  // criticalAllergies list; the rules below see them structured
+  body('allergies')
+    .optional()
+    .customSanitizer((value, { req }) => normalizeAllergies(value, req.body.criticalAllergies))
+    .isArray({ max: 50 })
+    .withMessage('At most 50 allergies can be recorded'),
+  body('allergies.*.substance')
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Allergy substance is required')
+    .isLength({ max: 100 })
+    .withMessage('Allergy substance must be at most 100 characters'),
+  body('allergies.*.reaction')
+    .optional({ values: 'falsy' })
+    .isIn(ALLERGY_REACTION_TYPES)
+    .withMessage(`Reaction must be one of ${ALLERGY_REACTION_TYPES.join(', ')}`),
+  body('allergies.*.severity')
+    .optional({ values: 'falsy' })
+    .isIn(ALLERGY_SEVERITIES)
+    .withMessage(`Severity must be one of ${ALLERGY_SEVERITIES.join(', ')}`),
+  body('allergies.*.carriesEpinephrine').optional().isBoolean().withMessage('Epinephrine auto-injector must be true or false'),
+  body('medications')
+    .optional()
+    .customSanitizer(normalizeMedications)
+    .isArray({ max: 50 })
+    .withMessage('At most 50 medications can be recorded'),
+  body('emergencyContacts').isArray({ min: 1 }).withMessage('At least one emergency contact is required'),
+  body('emergencyContacts.*.email').optional({ values: 'falsy' }).isEmail().withMessage('Contact email must be valid'),
+  body('scanNotifications.email').optional({ values: 'falsy' }).isEmail().withMessage('Notification email must be valid'),
+  body('physician.name').notEmpty().withMessage('Physician name is required'),
+  body('physician.phone').notEmpty().withMessage('Physician phone is required'),
+  body('insurance.provider').notEmpty().withMessage('Insurance provider is required'),
+  body('insurance.memberId').notEmpty().withMessage('Insurance member ID is required')
+];
+
+// Badge, QR, photo, archive and organisation fields are managed by the
+// server, never by the client
+export const stripManagedFields = ({
+  badge, qrCodeUrl, photo, archivedAt, archivedBy, purgeAfter, organization, ...fields
+}) => fields;
+
+// Runs the same rules against a record that did not arrive as a request body,
+// such as a bulk import row. Sanitizers apply to the returned copy. Rules run
+// in order, as they do on a route, so later ones see earlier sanitizers' work.
+export const validateEmployeeRecord = async (record) => {
+  const req = { body: structuredClone(record) };
+  for (const chain of employeeValidation) {
+    await chain.run(req);
+  }
+
+  return {
+    record: req.body,
+    errors: validationResult(req).array()
+  };
+};
@@ -0,0 +1,98 @@
+import EmployeeVersion from '../models/EmployeeVersion.js';
+
+// The fields a version records: everything a responder or the badge can show.
+// Badge tokens and photos have their own history (RevokedBadge, reissue).
+export const VERSIONED_FIELDS = [
+  'employeeId',
+  'name',
+  'site',
+  'dob',
+  'bloodGroup',
+  'allergies',
+  'medications',
+  'medicalConditions',
+  'emergencyContacts',
+  'physician',
+  'insurance',
+  'notes',
+  'scanNotifications',
+  'badgeMode'
+];
+
+// Drops ids, empty values and key order so equal values compare equal
+export const canonical = (value) => {
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(canonical);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .filter(key => key !== '_id' && key !== 'id' && ![undefined, null, ''].includes(value[key]))
+        .sort()
+        .map(key => [key, canonical(value[key])])
+    );
+  }
+  return value;
+};
+
+export const snapshotEmployee = (employee) => {
+  const plain = employee.toObject();
+  return Object.fromEntries(
+    VERSIONED_FIELDS
+      .map(field => [field, field === 'dob' ? plain.dob?.toISOString().slice(0, 10) : canonical(plain[field])])
+      .filter(([, value]) => value !== undefined)
+  );
+};
+
+const diffSnapshots = (before, after) =>
+  VERSIONED_FIELDS
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({ field, from: before[field], to: after[field] }));
+
+const createVersion = (employee, version, snapshot, changes, details) =>
+  EmployeeVersion.create({
+    employee: employee._id,
+    version,
+    snapshot: JSON.stringify(snapshot),
+    changes: JSON.stringify(changes),
+    ...details
+  });
+
+const appendVersion = async (employee, { author, source, previous, restoredFrom }) => {
+  const latest = await EmployeeVersion.findOne({ employee: employee._id }).sort({ version: -1 });
+
+  let base = latest?.getSnapshot();
+  let number = latest?.version || 0;
+
+  if (!latest && previous) {
+    await createVersion(employee, 1, previous, [], { source: 'baseline' });
+    base = previous;
+    number = 1;
+  }
+
+  const snapshot = snapshotEmployee(employee);
+  const changes = diffSnapshots(base || {}, snapshot);
+  if (base && changes.length === 0) return null;
+
+  return createVersion(employee, number + 1, snapshot, changes, { author, source, restoredFrom });
+};
+
+// Concurrent saves of one employee can both pick the next number
+const MAX_NUMBERING_ATTEMPTS = 5;
+
+// Records the employee's saved state as a new version, unless nothing that is
+// versioned changed. `previous` is the snapshot taken before the change; for
+// records older than versioning it becomes their baseline version. A version
+// number taken meanwhile is retried with the next one, so callers never see
+// that duplicate key as their own.
+export const recordVersion = async (employee, details) => {
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      return await appendVersion(employee, details);
+    } catch (error) {
+      if (error.code !== 11000) throw error;
+      if (attempt === MAX_NUMBERING_ATTEMPTS) {
+        throw new Error(`Could not number a new version of employee ${employee._id}`);
+      }
+    }
+  }
+};
@@ -0,0 +1,262 @@
+import crypto from 'crypto';
+import { ALLERGENS, ALLERGY_REACTIONS } from '../config/allergens.js';
+import { MEDICATIONS } from '../config/medications.js';
+
+// Identifiers, code systems and extensions we define ourselves live under the
+// app's own address, as FHIR expects of URLs whose publisher controls them.
+// Allergen and medication codes are this app's vocabularies
+// (config/allergens.js, config/medications.js), not SNOMED CT or RxNorm, so
+// the text as recorded always travels with them.
+export const fhirSystems = () => {
+  const base = process.env.FHIR_SYSTEM_BASE || `${process.env.BASE_URL || 'http://localhost:5173'}/fhir`;
+  return {
+    employeeId: `${base}/sid/employee-id`,
+    allergen: `${base}/CodeSystem/allergen`,
+    allergyReaction: `${base}/CodeSystem/allergy-reaction`,
+    medication: `${base}/CodeSystem/medication`,
+    bloodGroup: `${base}/StructureDefinition/blood-group`,
+    carriesEpinephrine: `${base}/StructureDefinition/carries-epinephrine`
+  };
+};
+
+const HL7 = 'http://terminology.hl7.org/CodeSystem';
+const ALLERGY_CLINICAL = `${HL7}/allergyintolerance-clinical`;
+const CONDITION_CLINICAL = `${HL7}/condition-clinical`;
+const COVERAGE_CLASS = `${HL7}/coverage-class`;
+
+export const FHIR_CONTENT_TYPE = 'application/fhir+json';
+
+const active = (system) => ({ coding: [{ system, code: 'active' }] });
+
+const telecom = (phone, email) => [
+  phone && { system: 'phone', value: phone },
+  email && { system: 'email', value: email }
+].filter(Boolean);
+
+// Severity as recorded here, in FHIR's terms: criticality is the risk of a
+// future reaction, reaction.severity how bad the known one is
+const CRITICALITY = { mild: 'low', moderate: 'low', anaphylaxis: 'high' };
+const REACTION_SEVERITY = { mild: 'mild', moderate: 'moderate', anaphylaxis: 'severe' };
+
+const toAllergyIntolerance = (allergy, patient, systems) => {
+  const { substance, code, reaction, severity, carriesEpinephrine } = allergy;
+  const manifestation = reaction
+    ? { coding: [{ system: systems.allergyReaction, code: reaction, display: ALLERGY_REACTIONS[reaction] }], text: ALLERGY_REACTIONS[reaction] }
+    : { text: severity === 'anaphylaxis' ? 'Anaphylaxis' : 'Allergic reaction' };
+
+  return {
+    resourceType: 'AllergyIntolerance',
+    clinicalStatus: active(ALLERGY_CLINICAL),
+    category: code ? [ALLERGENS[code].category] : undefined,
+    criticality: CRITICALITY[severity],
+    code: {
+      coding: code ? [{ system: systems.allergen, code, display: ALLERGENS[code].name }] : undefined,
+      text: substance
+    },
+    patient,
+    reaction: reaction || severity ? [{ manifestation: [manifestation], severity: REACTION_SEVERITY[severity] }] : undefined,
+    extension: carriesEpinephrine ? [{ url: systems.carriesEpinephrine, valueBoolean: true }] : undefined
+  };
+};
+
+const toMedicationStatement = ({ name, code, dosage, frequency }, subject, systems) => ({
+  resourceType: 'MedicationStatement',
+  status: 'active',
+  medicationCodeableConcept: {
+    coding: code ? [{ system: systems.medication, code, display: MEDICATIONS[code].name }] : undefined,
+    text: name
+  },
+  subject,
+  dosage: dosage || frequency
+    ? [{ text: dosage || undefined, timing: frequency ? { code: { text: frequency } } : undefined }]
+    : undefined
+});
+
+// An employee's emergency profile as a FHIR R4 collection Bundle: the
+// Patient, then what they react to and take, their conditions, emergency
+// contacts, physician and insurance. Entries refer to each other by urn:uuid,
+// as the bundle is not tied to any FHIR server.
+export const toFhirBundle = (employee) => {
+  const systems = fhirSystems();
+  const entry = [];
+  const add = (resource) => {
+    const fullUrl = `urn:uuid:${crypto.randomUUID()}`;
+    entry.push({ fullUrl, resource });
+    return { reference: fullUrl };
+  };
+
+  const patient = {
+    resourceType: 'Patient',
+    identifier: [{ system: systems.employeeId, value: employee.employeeId }],
+    active: true,
+    name: [{ text: employee.name }],
+    birthDate: employee.dob?.toISOString().split('T')[0],
+    extension: [{ url: systems.bloodGroup, valueCode: employee.bloodGroup }]
+  };
+  const subject = add(patient);
+
+  employee.allergies.forEach(allergy => add(toAllergyIntolerance(allergy, subject, systems)));
+  employee.medications.forEach(medication => add(toMedicationStatement(medication, subject, systems)));
+  employee.medicalConditions.forEach(condition => add({
+    resourceType: 'Condition',
+    clinicalStatus: active(CONDITION_CLINICAL),
+    code: { text: condition },
+    subject
+  }));
+  employee.emergencyContacts.forEach(contact => add({
+    resourceType: 'RelatedPerson',
+    patient: subject,
+    relationship: [{ text: contact.relationship }],
+    name: [{ text: contact.name }],
+    telecom: telecom(contact.phone, contact.email)
+  }));
+
+  // The physician's specialty belongs to their role rather than to them
+  if (employee.physician?.name) {
+    const practitioner = add({
+      resourceType: 'Practitioner',
+      name: [{ text: employee.physician.name }],
+      telecom: telecom(employee.physician.phone)
+    });
+    patient.generalPractitioner = [add({
+      resourceType: 'PractitionerRole',
+      practitioner,
+      specialty: employee.physician.specialty ? [{ text: employee.physician.specialty }] : undefined,
+      telecom: telecom(employee.physician.phone)
+    })];
+  }
+
+  if (employee.insurance?.provider) {
+    add({
+      resourceType: 'Coverage',
+      status: 'active',
+      subscriberId: employee.insurance.memberId,
+      beneficiary: subject,
+      payor: [{ display: employee.insurance.provider }],
+      class: employee.insurance.groupNumber
+        ? [{ type: { coding: [{ system: COVERAGE_CLASS, code: 'group' }] }, value: employee.insurance.groupNumber }]
+        : undefined
+    });
+  }
+
+  return {
+    resourceType: 'Bundle',
+    type: 'collection',
+    timestamp: new Date().toISOString(),
+    entry
+  };
+};
+
+// Reading a bundle back. Bundles from other systems only need the Patient to
+// carry our employee-id identifier and a blood-group extension; everything
+// else is read from standard elements, and anything we have no field for is
+// ignored.
+
+const textOf = (concept) => concept?.text || concept?.coding?.find(coding => coding.display)?.display || concept?.coding?.[0]?.code;
+
+const codeIn = (concept, system) => concept?.coding?.find(coding => coding.system === system)?.code;
+
+const nameOf = (names = []) => {
+  const name = names.find(n => n.use === 'official' || n.use === 'usual') || names[0];
+  return name && (name.text || [...(name.given || []), name.family].filter(Boolean).join(' '));
+};
+
+const contactPoint = (points = [], system) => points
+  .filter(point => point.system === system && point.value)
+  .sort((a, b) => (a.rank ?? Infinity) - (b.rank ?? Infinity))[0]?.value;
+
+const extensionOf = (resource, url) => resource.extension?.find(extension => extension.url === url);
+
+// Entries stated as no longer true, or recorded in error, are not carried over
+const isCurrent = (resource) => {
+  const clinical = resource.clinicalStatus?.coding?.[0]?.code;
+  const verification = resource.verificationStatus?.coding?.[0]?.code;
+  return !['inactive', 'resolved', 'remission'].includes(clinical) && !['refuted', 'entered-in-error'].includes(verification);
+};
+
+const CURRENT_MEDICATION_STATUSES = ['active', 'intended', 'on-hold', 'unknown'];
+
+const toAllergy = (resource, systems) => {
+  const reactions = resource.reaction || [];
+  const reaction = reactions
+    .flatMap(r => r.manifestation)
+    .map(concept => codeIn(concept, systems.allergyReaction))
+    .find(code => ALLERGY_REACTIONS[code]);
+  const severities = reactions.map(r => r.severity);
+  const anaphylactic = resource.criticality === 'high'
+    || severities.includes('severe')
+    || reactions.some(r => r.manifestation.some(concept => /anaphyla/i.test(textOf(concept) || '')));
+  const allergen = codeIn(resource.code, systems.allergen);
+
+  return {
+    substance: resource.code?.text || ALLERGENS[allergen]?.name || textOf(resource.code),
+    reaction,
+    severity: anaphylactic ? 'anaphylaxis' : ['moderate', 'mild'].find(severity => severities.includes(severity)),
+    carriesEpinephrine: extensionOf(resource, systems.carriesEpinephrine)?.valueBoolean === true
+  };
+};
+
+// The employee record a bundle describes, in the shape the employee form
+// submits. Expects a bundle that passed validateFhirBundle.
+export const fromFhirBundle = (bundle) => {
+  const systems = fhirSystems();
+  const resources = bundle.entry.map(({ resource }) => resource);
+  const byReference = new Map();
+  bundle.entry.forEach(({ fullUrl, resource }) => {
+    if (fullUrl) byReference.set(fullUrl, resource);
+    if (resource.id) byReference.set(`${resource.resourceType}/${resource.id}`, resource);
+  });
+  const resolve = (reference) => (reference?.reference ? byReference.get(reference.reference) : undefined);
+  const ofType = (type) => resources.filter(resource => resource.resourceType === type);
+
+  const patient = ofType('Patient')[0];
+  const medicationName = (statement) => textOf(statement.medicationCodeableConcept)
+    || textOf(resolve(statement.medicationReference)?.code)
+    || statement.medicationReference?.display;
+
+  // A general practitioner may also be an Organization (the practice); only a
+  // person, or their role, can be the physician
+  const ofPhysicianType = (resource, types) => (types.includes(resource?.resourceType) ? resource : undefined);
+  const gp = (patient.generalPractitioner || [])
+    .map(reference => ofPhysicianType(resolve(reference), ['Practitioner', 'PractitionerRole']))
+    .find(Boolean);
+  const role = ofPhysicianType(gp, ['PractitionerRole']);
+  const practitioner = role
+    ? ofPhysicianType(resolve(role.practitioner), ['Practitioner'])
+    : gp || ofType('Practitioner')[0];
+  const coverage = ofType('Coverage').find(c => c.status === 'active');
+
+  return {
+    employeeId: patient.identifier.find(identifier => identifier.system === systems.employeeId)?.value,
+    name: nameOf(patient.name),
+    dob: patient.birthDate,
+    bloodGroup: extensionOf(patient, systems.bloodGroup)?.valueCode,
+    allergies: ofType('AllergyIntolerance').filter(isCurrent).map(resource => toAllergy(resource, systems)),
+    medications: ofType('MedicationStatement')
+      .filter(statement => CURRENT_MEDICATION_STATUSES.includes(statement.status))
+      .map(statement => ({
+        name: medicationName(statement),
+        dosage: statement.dosage?.[0]?.text,
+        frequency: textOf(statement.dosage?.[0]?.timing?.code)
+      })),
+    medicalConditions: ofType('Condition').filter(isCurrent).map(condition => textOf(condition.code)).filter(Boolean),
+    emergencyContacts: ofType('RelatedPerson')
+      .filter(person => person.active !== false)
+      .map(person => ({
+        name: nameOf(person.name),
+        phone: contactPoint(person.telecom, 'phone'),
+        email: contactPoint(person.telecom, 'email'),
+        relationship: textOf(person.relationship?.[0])
+      })),
+    physician: practitioner && {
+      name: nameOf(practitioner.name),
+      phone: contactPoint(role?.telecom, 'phone') || contactPoint(practitioner.telecom, 'phone'),
+      specialty: textOf(role?.specialty?.[0])
+    },
+    insurance: coverage && {
+      provider: coverage.payor[0].display || resolve(coverage.payor[0])?.name,
+      memberId: coverage.subscriberId || coverage.identifier?.[0]?.value,
+      groupNumber: coverage.class?.find(c => codeIn(c.type, COVERAGE_CLASS) === 'group')?.value
+    }
+  };
+};
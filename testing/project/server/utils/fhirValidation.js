@@ -0,0 +1,230 @@
+// Checks a submitted bundle against the FHIR R4 shapes of the resources we
+// read: element types, required elements, value sets of the codes we act on,
+// and that every clinical resource belongs to the bundle's one Patient. Enough
+// to reject a malformed bundle before anything is mapped; not a full profile
+// validator, and elements we do not read are not checked.
+
+// FHIR dates may be partial (year, year-month); birth dates must be complete
+// here, as the employee record needs one
+const PRIMITIVES = {
+  string: value => typeof value === 'string' && value.trim() !== '',
+  uri: value => typeof value === 'string' && /^\S+$/.test(value),
+  code: value => typeof value === 'string' && /^\S+( \S+)*$/.test(value),
+  boolean: value => typeof value === 'boolean',
+  positiveInt: value => Number.isInteger(value) && value > 0,
+  date: value => typeof value === 'string' && /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/.test(value),
+  instant: value => typeof value === 'string' && !Number.isNaN(Date.parse(value))
+};
+
+const DATATYPES = {
+  Coding: { system: 'uri', code: 'code', display: 'string' },
+  CodeableConcept: { coding: { type: 'Coding', array: true }, text: 'string' },
+  Reference: { reference: 'string', display: 'string' },
+  Identifier: { system: 'uri', value: 'string' },
+  HumanName: { use: 'code', text: 'string', family: 'string', given: { type: 'string', array: true } },
+  ContactPoint: {
+    system: { type: 'code', codes: ['phone', 'fax', 'email', 'pager', 'url', 'sms', 'other'] },
+    value: 'string',
+    rank: 'positiveInt'
+  },
+  Extension: { url: { type: 'uri', required: true }, valueCode: 'code', valueString: 'string', valueBoolean: 'boolean' },
+  Timing: { code: 'CodeableConcept' },
+  Dosage: { text: 'string', timing: 'Timing' }
+};
+
+const CLINICAL_STATUS = 'CodeableConcept';
+
+const RESOURCES = {
+  Patient: {
+    identifier: { type: 'Identifier', array: true, required: true },
+    active: 'boolean',
+    name: { type: 'HumanName', array: true, required: true },
+    birthDate: { type: 'date', required: true },
+    gender: { type: 'code', codes: ['male', 'female', 'other', 'unknown'] },
+    generalPractitioner: { type: 'Reference', array: true },
+    extension: { type: 'Extension', array: true }
+  },
+  AllergyIntolerance: {
+    clinicalStatus: CLINICAL_STATUS,
+    verificationStatus: 'CodeableConcept',
+    category: { type: 'code', array: true, codes: ['food', 'medication', 'environment', 'biologic'] },
+    criticality: { type: 'code', codes: ['low', 'high', 'unable-to-assess'] },
+    code: { type: 'CodeableConcept', required: true },
+    patient: { type: 'Reference', required: true },
+    reaction: {
+      array: true,
+      shape: {
+        manifestation: { type: 'CodeableConcept', array: true, required: true },
+        severity: { type: 'code', codes: ['mild', 'moderate', 'severe'] }
+      }
+    },
+    extension: { type: 'Extension', array: true }
+  },
+  MedicationStatement: {
+    status: {
+      type: 'code',
+      required: true,
+      codes: ['active', 'completed', 'entered-in-error', 'intended', 'stopped', 'on-hold', 'unknown', 'not-taken']
+    },
+    medicationCodeableConcept: 'CodeableConcept',
+    medicationReference: 'Reference',
+    subject: { type: 'Reference', required: true },
+    dosage: { type: 'Dosage', array: true }
+  },
+  Medication: {
+    code: 'CodeableConcept'
+  },
+  Condition: {
+    clinicalStatus: CLINICAL_STATUS,
+    verificationStatus: 'CodeableConcept',
+    code: { type: 'CodeableConcept', required: true },
+    subject: { type: 'Reference', required: true }
+  },
+  RelatedPerson: {
+    active: 'boolean',
+    patient: { type: 'Reference', required: true },
+    relationship: { type: 'CodeableConcept', array: true },
+    name: { type: 'HumanName', array: true },
+    telecom: { type: 'ContactPoint', array: true }
+  },
+  Practitioner: {
+    name: { type: 'HumanName', array: true },
+    telecom: { type: 'ContactPoint', array: true }
+  },
+  PractitionerRole: {
+    practitioner: 'Reference',
+    specialty: { type: 'CodeableConcept', array: true },
+    telecom: { type: 'ContactPoint', array: true }
+  },
+  Coverage: {
+    status: { type: 'code', required: true, codes: ['active', 'cancelled', 'draft', 'entered-in-error'] },
+    subscriberId: 'string',
+    identifier: { type: 'Identifier', array: true },
+    beneficiary: { type: 'Reference', required: true },
+    payor: { type: 'Reference', array: true, required: true },
+    class: {
+      array: true,
+      shape: {
+        type: { type: 'CodeableConcept', required: true },
+        value: { type: 'string', required: true }
+      }
+    }
+  },
+  Organization: {
+    name: 'string'
+  }
+};
+
+// Exactly one of these choice elements, where FHIR requires the choice
+const CHOICES = {
+  MedicationStatement: ['medicationCodeableConcept', 'medicationReference']
+};
+
+// The element that ties each clinical resource to the Patient
+const PATIENT_ELEMENTS = {
+  AllergyIntolerance: 'patient',
+  MedicationStatement: 'subject',
+  Condition: 'subject',
+  RelatedPerson: 'patient',
+  Coverage: 'beneficiary'
+};
+
+const BUNDLE_TYPES = ['collection', 'document', 'transaction', 'batch'];
+
+const isObject = (value) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const checkShape = (value, shape, path, errors) => {
+  Object.entries(shape).forEach(([key, rule]) => checkElement(value[key], rule, `${path}.${key}`, errors));
+};
+
+const checkElement = (value, rule, path, errors) => {
+  const { type, shape, array, required, codes } = typeof rule === 'string' ? { type: rule } : rule;
+
+  if (value === undefined || value === null) {
+    if (required) errors.push({ path, message: `${path} is required` });
+    return;
+  }
+
+  if (array) {
+    if (!Array.isArray(value)) {
+      errors.push({ path, message: `${path} must be an array` });
+    } else if (required && value.length === 0) {
+      errors.push({ path, message: `${path} must not be empty` });
+    } else {
+      value.forEach((item, i) => checkElement(item, { type, shape, codes }, `${path}[${i}]`, errors));
+    }
+    return;
+  }
+
+  const complex = shape || DATATYPES[type];
+  if (complex) {
+    if (!isObject(value)) {
+      errors.push({ path, message: `${path} must be ${type ? `a ${type}` : 'an object'}` });
+    } else {
+      checkShape(value, complex, path, errors);
+    }
+  } else if (!PRIMITIVES[type](value)) {
+    errors.push({ path, message: `${path} must be a valid ${type}` });
+  } else if (codes && !codes.includes(value)) {
+    errors.push({ path, message: `${path} must be one of ${codes.join(', ')}` });
+  }
+};
+
+// Errors as { path, message }; empty when the bundle can be imported
+export const validateFhirBundle = (bundle) => {
+  const errors = [];
+
+  if (!isObject(bundle) || bundle.resourceType !== 'Bundle') {
+    return [{ path: 'resourceType', message: 'Expected a FHIR Bundle' }];
+  }
+  checkElement(bundle.type, { type: 'code', required: true, codes: BUNDLE_TYPES }, 'type', errors);
+  checkElement(bundle.timestamp, 'instant', 'timestamp', errors);
+  if (!Array.isArray(bundle.entry) || bundle.entry.length === 0) {
+    return [...errors, { path: 'entry', message: 'entry must list the bundle\'s resources' }];
+  }
+
+  const references = new Map();
+  bundle.entry.forEach((entry, i) => {
+    const path = `entry[${i}]`;
+    if (!isObject(entry) || !isObject(entry.resource)) {
+      errors.push({ path, message: `${path}.resource is required` });
+      return;
+    }
+    checkElement(entry.fullUrl, 'uri', `${path}.fullUrl`, errors);
+
+    const { resource } = entry;
+    if (!PRIMITIVES.code(resource.resourceType)) {
+      errors.push({ path: `${path}.resource.resourceType`, message: `${path}.resource.resourceType is required` });
+      return;
+    }
+    // Other resource types may come along; they are left alone
+    const shape = RESOURCES[resource.resourceType];
+    if (!shape) return;
+
+    checkShape(resource, shape, `${path}.resource`, errors);
+    const choice = CHOICES[resource.resourceType];
+    if (choice && choice.filter(key => resource[key] !== undefined).length !== 1) {
+      errors.push({ path: `${path}.resource`, message: `${path}.resource must have exactly one of ${choice.join(', ')}` });
+    }
+
+    if (entry.fullUrl) references.set(entry.fullUrl, resource);
+    if (typeof resource.id === 'string') references.set(`${resource.resourceType}/${resource.id}`, resource);
+  });
+  if (errors.length > 0) return errors;
+
+  const patients = bundle.entry.filter(({ resource }) => resource.resourceType === 'Patient');
+  if (patients.length !== 1) {
+    return [{ path: 'entry', message: `A bundle must describe exactly one Patient; found ${patients.length}` }];
+  }
+  const patient = patients[0].resource;
+
+  bundle.entry.forEach(({ resource }, i) => {
+    const element = PATIENT_ELEMENTS[resource.resourceType];
+    if (element && references.get(resource[element].reference) !== patient) {
+      const path = `entry[${i}].resource.${element}`;
+      errors.push({ path, message: `${path} must refer to the bundle's Patient` });
+    }
+  });
+
+  return errors;
+};
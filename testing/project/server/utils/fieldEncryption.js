@@ -0,0 +1,105 @@
+import crypto from 'crypto';
+import fs from 'fs';
+
+// Encrypted values look like enc:v1:<keyId>:<iv>:<authTag>:<ciphertext>
+// (base64url parts), so a stored value names the key that can open it
+const PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const KEY_BYTES = 32;
+
+let keyring = null;
+
+const decodeKey = (keyId, encoded) => {
+  const key = Buffer.from(encoded, 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`Field encryption key "${keyId}" must be ${KEY_BYTES} bytes, base64 encoded`);
+  }
+  return key;
+};
+
+// Keys come from a JSON key file ({ "current": "<id>", "keys": { "<id>": "<base64>" } })
+// or from FIELD_ENCRYPTION_KEYS="<id>:<base64>,<id>:<base64>". The current key
+// encrypts; every listed key can still decrypt until rotation has finished.
+const loadKeyring = () => {
+  let current;
+  let entries;
+
+  if (process.env.FIELD_ENCRYPTION_KEY_FILE) {
+    const file = JSON.parse(fs.readFileSync(process.env.FIELD_ENCRYPTION_KEY_FILE, 'utf8'));
+    current = file.current;
+    entries = Object.entries(file.keys || {});
+  } else if (process.env.FIELD_ENCRYPTION_KEYS) {
+    entries = process.env.FIELD_ENCRYPTION_KEYS
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean)
+      .map(entry => {
+        const separator = entry.indexOf(':');
+        return [entry.slice(0, separator), entry.slice(separator + 1)];
+      });
+    current = process.env.FIELD_ENCRYPTION_KEY_ID || entries[0]?.[0];
+  } else {
+    throw new Error('Field encryption is not configured: set FIELD_ENCRYPTION_KEY_FILE or FIELD_ENCRYPTION_KEYS');
+  }
+
+  const keys = new Map(entries.map(([keyId, encoded]) => [keyId, decodeKey(keyId, encoded)]));
+  if (!keys.has(current)) {
+    throw new Error(`Current field encryption key "${current}" is not in the keyring`);
+  }
+
+  return { current, keys };
+};
+
+const getKeyring = () => {
+  if (!keyring) keyring = loadKeyring();
+  return keyring;
+};
+
+// Fails fast at startup instead of on the first write
+export const assertEncryptionConfigured = () => {
+  getKeyring();
+};
+
+export const getCurrentKeyId = () => getKeyring().current;
+
+export const isEncrypted = (value) => typeof value === 'string' && value.startsWith(PREFIX);
+
+export const keyIdOf = (value) => (isEncrypted(value) ? value.slice(PREFIX.length).split(':')[0] : null);
+
+export const encryptValue = (value) => {
+  if (value === null || value === undefined || value === '' || isEncrypted(value)) {
+    return value;
+  }
+
+  const { current, keys } = getKeyring();
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, keys.get(current), iv);
+  const ciphertext = Buffer.concat([cipher.update(String(value), 'utf8'), cipher.final()]);
+
+  return PREFIX + [
+    current,
+    iv.toString('base64url'),
+    cipher.getAuthTag().toString('base64url'),
+    ciphertext.toString('base64url')
+  ].join(':');
+};
+
+// Plaintext written before encryption was enabled passes through unchanged
+export const decryptValue = (value) => {
+  if (!isEncrypted(value)) return value;
+
+  const [keyId, iv, authTag, ciphertext] = value.slice(PREFIX.length).split(':');
+  const key = getKeyring().keys.get(keyId);
+  if (!key) {
+    throw new Error(`Field encryption key "${keyId}" is not in the keyring`);
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(authTag, 'base64url'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64url')),
+    decipher.final()
+  ]).toString('utf8');
+};
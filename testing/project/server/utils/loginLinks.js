@@ -0,0 +1,30 @@
+import LoginLink from '../models/LoginLink.js';
+import { generateToken } from './tokens.js';
+import { sendNotification } from '../notifiers/index.js';
+
+const getLoginLinkTtlMinutes = () => Number(process.env.LOGIN_LINK_TTL_MINUTES) || 15;
+
+// Creates a one-time sign-in link for a self-service account and sends it to
+// the account's email, and only there: whoever holds it can act as the
+// employee.
+export const sendLoginLink = async (user) => {
+  const { token, tokenHash } = generateToken();
+  const ttlMinutes = getLoginLinkTtlMinutes();
+
+  await LoginLink.create({
+    user: user._id,
+    tokenHash,
+    expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000)
+  });
+
+  const baseUrl = process.env.BASE_URL || 'http://localhost:5173';
+  const loginUrl = `${baseUrl}/login/link/${token}`;
+
+  await sendNotification({
+    type: 'login-link',
+    subject: 'SafeScan: your sign-in link',
+    text: `Use this link to sign in to SafeScan and review your emergency profile:\n${loginUrl}\n\n` +
+      `It works once and expires in ${ttlMinutes} minutes. If you did not ask for it, you can ignore this message.`,
+    recipients: [{ name: user.username, email: user.email }]
+  });
+};
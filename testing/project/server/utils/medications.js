@@ -0,0 +1,17 @@
+import { MEDICATIONS, MEDICATION_CLASSES, matchMedication } from '../config/medications.js';
+
+// Records saved before the catalogue have no code; their names still match
+const classesOf = (medication) => MEDICATIONS[medication.code || matchMedication(medication.name)]?.classes || [];
+
+export const isBloodThinner = (medication) => classesOf(medication).some(name => MEDICATION_CLASSES[name].bloodThinner);
+
+// Applied to submitted medications before validation: each gets the catalogue
+// code its name matches, if any. As with allergies, the code is never taken
+// from the client.
+export const normalizeMedications = (medications) => {
+  if (!Array.isArray(medications)) return medications;
+
+  return medications.map(medication => (medication && typeof medication === 'object'
+    ? { ...medication, code: typeof medication.name === 'string' ? matchMedication(medication.name) || undefined : undefined }
+    : medication));
+};
@@ -1,4 +1,7 @@
+import fs from 'fs';
 import QRCode from 'qrcode';
+import PDFDocument from 'pdfkit';
+import { PNG } from 'pngjs';
 
 export const generateQRCode = async (url) => {
   try {
@@ -19,4 +22,280 @@ export const generateQRCode = async (url) => {
     console.error('QR Code generation error:', error);
     throw new Error('Failed to generate QR code');
   }
-};
\ No newline at end of file
+};
+
+// PNG buffer for embedding in printed badges; larger so it stays sharp in print
+export const generateQRCodeBuffer = async (url, width = 512) => {
+  try {
+    return await QRCode.toBuffer(url, {
+      errorCorrectionLevel: 'M',
+      type: 'png',
+      margin: 1,
+      width
+    });
+  } catch (error) {
+    console.error('QR Code generation error:', error);
+    throw new Error('Failed to generate QR code');
+  }
+};
+
+export const QR_FORMATS = ['png', 'svg', 'pdf', 'eps'];
+export const QR_ERROR_CORRECTION_LEVELS = ['L', 'M', 'Q', 'H'];
+export const QR_SIZE_RANGE = { min: 128, max: 4096 };
+export const QR_MARGIN_RANGE = { min: 0, max: 16 };
+
+// size is in pixels for PNG and points for the vector formats; margin is the
+// quiet zone in modules
+export const DEFAULT_QR_OPTIONS = {
+  format: 'png',
+  size: 256,
+  errorCorrectionLevel: 'M',
+  margin: 1,
+  dark: '#000000',
+  light: '#ffffff',
+  logo: false
+};
+
+const QR_CONTENT_TYPES = {
+  png: 'image/png',
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf',
+  eps: 'application/postscript'
+};
+
+// Width of the logo relative to the symbol. Covers well under the 30% of
+// codewords that level H can recover.
+const LOGO_SCALE = 0.22;
+
+let cachedLogo = null;
+
+// PNG named by QR_LOGO_PATH, read on first use
+const loadLogo = () => {
+  const logoPath = process.env.QR_LOGO_PATH;
+  if (!logoPath) return null;
+
+  if (cachedLogo?.path !== logoPath) {
+    const buffer = fs.readFileSync(logoPath);
+    cachedLogo = { path: logoPath, buffer, image: PNG.sync.read(buffer) };
+  }
+  return cachedLogo;
+};
+
+export const isQrLogoConfigured = () => Boolean(process.env.QR_LOGO_PATH);
+
+const hexToRgb = (hex) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+
+// Horizontal runs of dark modules, so vector output stays compact
+const darkRuns = (modules) => {
+  const runs = [];
+  for (let row = 0; row < modules.size; row++) {
+    let start = null;
+    for (let col = 0; col <= modules.size; col++) {
+      const dark = col < modules.size && modules.get(row, col);
+      if (dark && start === null) start = col;
+      if (!dark && start !== null) {
+        runs.push({ row, col: start, length: col - start });
+        start = null;
+      }
+    }
+  }
+  return runs;
+};
+
+// Centre square for the logo, in modules from the outer edge, with half a
+// module of light padding around it
+const logoBox = (moduleCount, margin) => {
+  const size = Math.ceil(moduleCount * LOGO_SCALE) + 1;
+  return { offset: margin + (moduleCount - size) / 2, size };
+};
+
+// Logo dimensions fitted into a square, keeping its aspect ratio
+const fitLogo = (image, box) => {
+  const ratio = Math.min(box / image.width, box / image.height);
+  return { width: image.width * ratio, height: image.height * ratio };
+};
+
+// Logo pixel at (x, y) of a w x h rendering, blended over the light colour
+const logoPixel = (image, x, y, w, h, light) => {
+  const sx = Math.min(image.width - 1, Math.floor(x * image.width / w));
+  const sy = Math.min(image.height - 1, Math.floor(y * image.height / h));
+  const i = (sy * image.width + sx) * 4;
+  const alpha = image.data[i + 3] / 255;
+  return [0, 1, 2].map(c => Math.round(image.data[i + c] * alpha + light[c] * (1 - alpha)));
+};
+
+const renderPng = async (url, options, logo) => {
+  const buffer = await QRCode.toBuffer(url, {
+    errorCorrectionLevel: options.errorCorrectionLevel,
+    type: 'png',
+    margin: options.margin,
+    width: options.size,
+    color: { dark: options.dark, light: options.light }
+  });
+  if (!logo) return buffer;
+
+  const png = PNG.sync.read(buffer);
+  const scale = png.width / options.units;
+  const box = logoBox(options.moduleCount, options.margin);
+  const light = hexToRgb(options.light);
+  const boxStart = Math.round(box.offset * scale);
+  const boxSize = Math.round(box.size * scale);
+
+  const { width, height } = fitLogo(logo.image, boxSize - scale);
+  const logoWidth = Math.round(width);
+  const logoHeight = Math.round(height);
+  const logoX = boxStart + Math.round((boxSize - logoWidth) / 2);
+  const logoY = boxStart + Math.round((boxSize - logoHeight) / 2);
+
+  for (let y = boxStart; y < boxStart + boxSize; y++) {
+    for (let x = boxStart; x < boxStart + boxSize; x++) {
+      const inLogo = x >= logoX && x < logoX + logoWidth && y >= logoY && y < logoY + logoHeight;
+      const rgb = inLogo ? logoPixel(logo.image, x - logoX, y - logoY, logoWidth, logoHeight, light) : light;
+      const i = (y * png.width + x) * 4;
+      png.data[i] = rgb[0];
+      png.data[i + 1] = rgb[1];
+      png.data[i + 2] = rgb[2];
+      png.data[i + 3] = 255;
+    }
+  }
+
+  return PNG.sync.write(png);
+};
+
+const renderSvg = async (url, options, logo) => {
+  let svg = await QRCode.toString(url, {
+    errorCorrectionLevel: options.errorCorrectionLevel,
+    type: 'svg',
+    margin: options.margin,
+    width: options.size,
+    color: { dark: options.dark, light: options.light }
+  });
+  if (!logo) return Buffer.from(svg);
+
+  // The symbol's viewBox is measured in modules
+  const box = logoBox(options.moduleCount, options.margin);
+  const inset = 0.5;
+  svg = svg.replace('</svg>', [
+    `<rect x="${box.offset}" y="${box.offset}" width="${box.size}" height="${box.size}" fill="${options.light}"/>`,
+    `<image x="${box.offset + inset}" y="${box.offset + inset}" width="${box.size - inset * 2}" height="${box.size - inset * 2}"`,
+    ` preserveAspectRatio="xMidYMid meet" href="data:image/png;base64,${logo.buffer.toString('base64')}"/>`,
+    '</svg>'
+  ].join(''));
+
+  return Buffer.from(svg);
+};
+
+const renderPdf = (modules, options, logo) => new Promise((resolve, reject) => {
+  const doc = new PDFDocument({ size: [options.size, options.size], margin: 0 });
+  const chunks = [];
+  doc.on('data', chunk => chunks.push(chunk));
+  doc.on('end', () => resolve(Buffer.concat(chunks)));
+  doc.on('error', reject);
+
+  const scale = options.size / options.units;
+  doc.rect(0, 0, options.size, options.size).fill(options.light);
+
+  darkRuns(modules).forEach(({ row, col, length }) => {
+    doc.rect((col + options.margin) * scale, (row + options.margin) * scale, length * scale, scale);
+  });
+  doc.fill(options.dark);
+
+  if (logo) {
+    const box = logoBox(options.moduleCount, options.margin);
+    doc.rect(box.offset * scale, box.offset * scale, box.size * scale, box.size * scale).fill(options.light);
+    doc.image(logo.buffer, (box.offset + 0.5) * scale, (box.offset + 0.5) * scale, {
+      fit: [(box.size - 1) * scale, (box.size - 1) * scale],
+      align: 'center',
+      valign: 'center'
+    });
+  }
+
+  doc.end();
+});
+
+const psColor = (hex) => hexToRgb(hex).map(c => (c / 255).toFixed(3)).join(' ');
+
+// PostScript's origin is bottom left, so rows count down from the top
+const renderEps = (modules, options, logo) => {
+  const { size, units, margin } = options;
+  const scale = size / units;
+  const n = (value) => Number(value.toFixed(3));
+  const lines = [
+    '%!PS-Adobe-3.0 EPSF-3.0',
+    `%%BoundingBox: 0 0 ${Math.ceil(size)} ${Math.ceil(size)}`,
+    `%%HiResBoundingBox: 0 0 ${size} ${size}`,
+    '%%Creator: SafeScan',
+    '%%EndComments',
+    `${psColor(options.light)} setrgbcolor 0 0 ${size} ${size} rectfill`,
+    `${psColor(options.dark)} setrgbcolor`
+  ];
+
+  darkRuns(modules).forEach(({ row, col, length }) => {
+    lines.push(`${n((col + margin) * scale)} ${n(size - (row + margin + 1) * scale)} ${n(length * scale)} ${n(scale)} rectfill`);
+  });
+
+  if (logo) {
+    const box = logoBox(options.moduleCount, margin);
+    const light = hexToRgb(options.light);
+    const boxSize = box.size * scale;
+    const { width, height } = fitLogo(logo.image, (box.size - 1) * scale);
+    const x = box.offset * scale + (boxSize - width) / 2;
+    const y = size - box.offset * scale - boxSize + (boxSize - height) / 2;
+    const { width: pixelsWide, height: pixelsHigh } = logo.image;
+
+    const hex = [];
+    for (let py = 0; py < pixelsHigh; py++) {
+      let line = '';
+      for (let px = 0; px < pixelsWide; px++) {
+        line += logoPixel(logo.image, px, py, pixelsWide, pixelsHigh, light)
+          .map(c => c.toString(16).padStart(2, '0'))
+          .join('');
+      }
+      hex.push(line);
+    }
+
+    lines.push(
+      `${psColor(options.light)} setrgbcolor`,
+      `${n(box.offset * scale)} ${n(size - box.offset * scale - boxSize)} ${n(boxSize)} ${n(boxSize)} rectfill`,
+      'gsave',
+      `${n(x)} ${n(y)} translate ${n(width)} ${n(height)} scale`,
+      `${pixelsWide} ${pixelsHigh} 8 [${pixelsWide} 0 0 -${pixelsHigh} 0 ${pixelsHigh}]`,
+      'currentfile /ASCIIHexDecode filter false 3 colorimage',
+      ...hex,
+      '>',
+      'grestore'
+    );
+  }
+
+  lines.push('showpage', '%%EOF');
+  return Buffer.from(lines.join('\n'));
+};
+
+// Renders url as a QR code in the requested format. Returns the file contents
+// with its content type and extension.
+export const renderQRCode = async (url, requestedOptions = {}) => {
+  const options = {
+    ...DEFAULT_QR_OPTIONS,
+    ...Object.fromEntries(Object.entries(requestedOptions).filter(([, value]) => value !== undefined))
+  };
+  const logo = options.logo ? loadLogo() : null;
+  if (options.logo && !logo) {
+    throw new Error('QR_LOGO_PATH is not set');
+  }
+
+  const { modules } = QRCode.create(url, { errorCorrectionLevel: options.errorCorrectionLevel });
+  const geometry = { ...options, moduleCount: modules.size, units: modules.size + options.margin * 2 };
+
+  let data;
+  if (options.format === 'svg') {
+    data = await renderSvg(url, geometry, logo);
+  } else if (options.format === 'pdf') {
+    data = await renderPdf(modules, geometry, logo);
+  } else if (options.format === 'eps') {
+    data = renderEps(modules, geometry, logo);
+  } else {
+    data = await renderPng(url, geometry, logo);
+  }
+
+  return { data, contentType: QR_CONTENT_TYPES[options.format], extension: options.format };
+};
@@ -0,0 +1,19 @@
+import ScanEvent from '../models/ScanEvent.js';
+
+// Records a profile lookup. A logging failure must never keep emergency
+// information from a responder, so errors are reported and swallowed.
+export const recordScanEvent = async (req, employee, { tier, source }) => {
+  try {
+    return await ScanEvent.create({
+      employee: employee._id,
+      user: req.user?._id,
+      ip: req.ip,
+      userAgent: req.get('User-Agent')?.slice(0, 500),
+      disclosureTier: tier,
+      source
+    });
+  } catch (error) {
+    console.error('Record scan event error:', error);
+    return null;
+  }
+};
@@ -0,0 +1,78 @@
+import { sendNotification } from '../notifiers/index.js';
+
+// How long to hold a notification while the scanner's browser reports its location
+const getLocationWaitMs = () => Number(process.env.SCAN_NOTIFICATION_DELAY_MS) || 30 * 1000;
+
+// Notifications waiting for a location report, keyed by scan event id
+const pendingNotifications = new Map();
+
+// The employee (if opted in) plus every emergency contact flagged for scan alerts
+const getScanRecipients = (employee) => {
+  const settings = employee.scanNotifications;
+  if (!settings?.enabled) return [];
+
+  const recipients = employee.emergencyContacts
+    .filter(contact => contact.notifyOnScan)
+    .map(contact => ({ name: contact.name, email: contact.email, phone: contact.phone }));
+
+  if (settings.notifyEmployee && (settings.email || settings.phone)) {
+    recipients.unshift({ name: employee.name, email: settings.email, phone: settings.phone });
+  }
+
+  return recipients;
+};
+
+const describeLocation = (location) => {
+  if (!location) return 'Location was not shared by the scanning device.';
+
+  const { latitude, longitude, accuracy } = location;
+  const within = accuracy ? ` (within about ${Math.round(accuracy)} m)` : '';
+  return `Approximate location: ${latitude.toFixed(5)}, ${longitude.toFixed(5)}${within}\n` +
+    `https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=17/${latitude}/${longitude}`;
+};
+
+const deliver = (scanEventId, location) => {
+  const pending = pendingNotifications.get(scanEventId);
+  if (!pending) return;
+
+  clearTimeout(pending.timer);
+  pendingNotifications.delete(scanEventId);
+
+  const { employeeName, recipients, scannedAt, authenticated } = pending;
+  const viewer = authenticated ? 'a signed-in responder' : 'an anonymous scanner';
+
+  sendNotification({
+    type: 'profile-scanned',
+    subject: `SafeScan: ${employeeName}'s emergency profile was scanned`,
+    text: `${employeeName}'s emergency profile was opened by ${viewer} at ${scannedAt.toUTCString()}.\n` +
+      describeLocation(location),
+    recipients,
+    metadata: { scanEventId, scannedAt, location: location || null }
+  }).catch(error => console.error('Scan notification error:', error));
+};
+
+// Queues a notification for a recorded scan. Returns whether one was queued,
+// which is also the signal for the client to offer its location.
+export const scheduleScanNotification = (scanEvent, employee) => {
+  const recipients = getScanRecipients(employee);
+  if (!scanEvent || recipients.length === 0) return false;
+
+  const scanEventId = scanEvent._id.toString();
+  const timer = setTimeout(() => deliver(scanEventId, null), getLocationWaitMs());
+  timer.unref();
+
+  pendingNotifications.set(scanEventId, {
+    employeeName: employee.name,
+    recipients,
+    scannedAt: scanEvent.createdAt,
+    authenticated: Boolean(scanEvent.user),
+    timer
+  });
+
+  return true;
+};
+
+// Sends a queued notification straight away, now including the location
+export const attachScanLocation = (scanEventId, location) => {
+  deliver(scanEventId.toString(), location);
+};
@@ -0,0 +1,49 @@
+import Site from '../models/Site.js';
+
+// Which employees an account works with: its organisation's, narrowed to its
+// assigned sites if it has any. Accounts with neither are not scoped.
+export const employeeScope = (user) => {
+  const scope = {};
+  if (user.organization) scope.organization = user.organization;
+  if (user.assignedSites?.length > 0) scope.site = { $in: user.assignedSites };
+  return scope;
+};
+
+// The organisation a new employee belongs to: their site's, else the
+// account's own
+export const organizationFor = (site, user) => site?.organization || user.organization || null;
+
+// Checks a site code an account wants to place an employee at. Resolves to
+// { site } (null for no site) or { message } saying why it cannot be used.
+// `cache` lets a batch look each code up once.
+export const resolveAssignableSite = async (user, code, cache = new Map()) => {
+  const siteCode = code?.trim().toUpperCase();
+
+  if (!siteCode) {
+    return user.assignedSites?.length > 0
+      ? { message: 'Choose one of your assigned sites' }
+      : { site: null };
+  }
+
+  if (!cache.has(siteCode)) cache.set(siteCode, await Site.findOne({ code: siteCode }));
+  const site = cache.get(siteCode);
+
+  if (!site) {
+    return { message: `Site ${siteCode} is not registered` };
+  }
+  if (user.organization && !site.organization.equals(user.organization)) {
+    return { message: `Site ${siteCode} belongs to another organisation` };
+  }
+  if (user.assignedSites?.length > 0 && !user.assignedSites.includes(siteCode)) {
+    return { message: `You are not assigned to site ${siteCode}` };
+  }
+  return { site };
+};
+
+// Site codes an account works at, for records that only carry a site code
+// (incidents). Null when the account is not scoped.
+export const siteCodesInScope = async (user) => {
+  if (user.assignedSites?.length > 0) return user.assignedSites;
+  if (user.organization) return Site.find({ organization: user.organization }).distinct('code');
+  return null;
+};
@@ -0,0 +1,45 @@
+import { body } from 'express-validator';
+import Site from '../models/Site.js';
+import { PUBLIC_PROFILE_FIELD_NAMES } from './disclosure.js';
+import { COUNTRY_CODES, emergencyNumberFor } from '../config/countries.js';
+
+// Name and settings shared by organisations and sites
+export const settingsValidation = [
+  body('name').isString().trim().notEmpty().isLength({ max: 80 }).withMessage('Name is required and must be at most 80 characters'),
+  body('country').optional({ values: 'falsy' }).isIn(COUNTRY_CODES).withMessage(`Country must be one of ${COUNTRY_CODES.join(', ')}`),
+  body('emergencyNumber').optional().isString().trim().isLength({ max: 20 }).withMessage('Emergency number must be at most 20 characters'),
+  body('publicProfileFields').optional().isArray().withMessage('Public profile fields must be a list'),
+  body('publicProfileFields.*')
+    .isIn(PUBLIC_PROFILE_FIELD_NAMES)
+    .withMessage(`Public profile fields must be among ${PUBLIC_PROFILE_FIELD_NAMES.join(', ')}`)
+];
+
+// Settings for profiles at a site: the site's own, else its organisation's.
+// Without an emergency number at either level, the country's is used.
+// Unregistered site codes and employees without a site get the defaults.
+export const resolveSiteSettings = async (code) => {
+  const site = code ? await Site.findOne({ code }).populate('organization') : null;
+  const organization = site?.organization;
+  const country = site?.country || organization?.country || undefined;
+
+  return {
+    site: site?.code,
+    siteName: site?.name,
+    organizationName: organization?.name,
+    country,
+    emergencyNumber: site?.emergencyNumber || organization?.emergencyNumber || emergencyNumberFor(country),
+    publicProfileFields: site?.publicProfileFields?.length
+      ? site.publicProfileFields
+      : organization?.publicProfileFields
+  };
+};
+
+// What the client shows alongside a profile; the disclosure policy has
+// already been applied by then
+export const toProfileSiteSettings = ({ site, siteName, organizationName, country, emergencyNumber }) => ({
+  site,
+  siteName,
+  organizationName,
+  country,
+  emergencyNumber
+});
@@ -0,0 +1,10 @@
+import crypto from 'crypto';
+
+// One-time tokens are handed to the user once and only their hash is stored
+export const hashToken = (token) =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+export const generateToken = (bytes = 32) => {
+  const token = crypto.randomBytes(bytes).toString('hex');
+  return { token, tokenHash: hashToken(token) };
+};
@@ -2,40 +2,97 @@ import React from 'react';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import { AuthProvider } from './context/AuthContext';
 import { EmployeeProvider } from './context/EmployeeContext';
+import { OfflineProvider } from './context/OfflineContext';
+import { LanguageProvider } from './context/LanguageContext';
 import HomePage from './pages/HomePage';
 import QRScannerPage from './pages/QRScannerPage';
 import EmployeeInfoPage from './pages/EmployeeInfoPage';
 import AdminDashboard from './pages/AdminDashboard';
 import LoginPage from './pages/LoginPage';
 import RegisterPage from './pages/RegisterPage';
+import AcceptInvitePage from './pages/AcceptInvitePage';
+import ScanHistoryPage from './pages/ScanHistoryPage';
+import BadgeDesignerPage from './pages/BadgeDesignerPage';
+import IncidentsPage from './pages/IncidentsPage';
+import LoginLinkPage from './pages/LoginLinkPage';
+import MyProfilePage from './pages/MyProfilePage';
+import SitesPage from './pages/SitesPage';
 import ProtectedRoute from './components/ProtectedRoute';
 import Navbar from './components/Navbar';
+import { AUDIT_ROLES, DASHBOARD_ROLES, EDITOR_ROLES } from './utils/roles';
 
 function App() {
   return (
     <Router>
-      <AuthProvider>
-        <EmployeeProvider>
-          <div className="min-h-screen bg-gray-50">
-            <Navbar />
-            <Routes>
-              <Route path="/" element={<HomePage />} />
-              <Route path="/scan" element={<QRScannerPage />} />
-              <Route path="/employee/:id" element={<EmployeeInfoPage />} />
-              <Route path="/login" element={<LoginPage />} />
-              <Route path="/register" element={<RegisterPage />} />
-              <Route 
-                path="/admin" 
-                element={
-                  <ProtectedRoute>
-                    <AdminDashboard />
-                  </ProtectedRoute>
-                } 
-              />
-            </Routes>
-          </div>
-        </EmployeeProvider>
-      </AuthProvider>
+      <LanguageProvider>
+        <AuthProvider>
+          <OfflineProvider>
+            <EmployeeProvider>
+              <div className="min-h-screen bg-gray-50">
+                <Navbar />
+                <Routes>
+                  <Route path="/" element={<HomePage />} />
+                  <Route path="/scan" element={<QRScannerPage />} />
+                  <Route path="/employee/:id" element={<EmployeeInfoPage />} />
+                  <Route path="/badge/:token" element={<EmployeeInfoPage />} />
+                  <Route path="/login" element={<LoginPage />} />
+                  <Route path="/login/link/:token" element={<LoginLinkPage />} />
+                  <Route path="/register" element={<RegisterPage />} />
+                  <Route path="/accept-invite/:token" element={<AcceptInvitePage />} />
+                  <Route
+                    path="/my-profile"
+                    element={
+                      <ProtectedRoute roles={['employee']}>
+                        <MyProfilePage />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route 
+                    path="/admin" 
+                    element={
+                      <ProtectedRoute roles={DASHBOARD_ROLES}>
+                        <AdminDashboard />
+                      </ProtectedRoute>
+                    } 
+                  />
+                  <Route
+                    path="/admin/scans"
+                    element={
+                      <ProtectedRoute roles={AUDIT_ROLES}>
+                        <ScanHistoryPage />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/admin/incidents"
+                    element={
+                      <ProtectedRoute roles={DASHBOARD_ROLES}>
+                        <IncidentsPage />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/admin/badges"
+                    element={
+                      <ProtectedRoute roles={EDITOR_ROLES}>
+                        <BadgeDesignerPage />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/admin/sites"
+                    element={
+                      <ProtectedRoute roles={['super-admin']}>
+                        <SitesPage />
+                      </ProtectedRoute>
+                    }
+                  />
+                </Routes>
+              </div>
+            </EmployeeProvider>
+          </OfflineProvider>
+        </AuthProvider>
+      </LanguageProvider>
     </Router>
   );
 }
@@ -0,0 +1,140 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import axios from 'axios';
+import { Employee } from '../context/EmployeeContext';
+import { getErrorMessage } from '../utils/apiError';
+import { AlertCircle, Archive, ChevronDown, ChevronRight, RotateCcw } from 'lucide-react';
+
+type ArchivedEmployee = Pick<Employee, '_id' | 'name' | 'employeeId' | 'site'> & {
+  archivedAt: string;
+  purgeAfter: string;
+  archivedBy?: { username: string } | null;
+};
+
+interface ArchivedEmployeesProps {
+  canRestore: boolean;
+  onRestored: () => void;
+}
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+// Records archived from the directory, kept until the purge job erases them
+// at the end of the retention period
+const ArchivedEmployees: React.FC<ArchivedEmployeesProps> = ({ canRestore, onRestored }) => {
+  const [open, setOpen] = useState(false);
+  const [employees, setEmployees] = useState<ArchivedEmployee[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const fetchArchived = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await axios.get('/employees/archived');
+      setEmployees(response.data.data);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load archived employees'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Fetched on every open, so records archived meanwhile show up
+  useEffect(() => {
+    if (open) fetchArchived();
+  }, [open, fetchArchived]);
+
+  const handleRestore = async (employee: ArchivedEmployee) => {
+    if (!window.confirm(`Restore ${employee.name}? They return to the directory and their current badge works again.`)) {
+      return;
+    }
+
+    setRestoringId(employee._id);
+    setError(null);
+    try {
+      await axios.post(`/employees/${employee._id}/restore`);
+      setEmployees(prev => prev.filter(item => item._id !== employee._id));
+      onRestored();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to restore employee'));
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm mt-8">
+      <button
+        type="button"
+        onClick={() => setOpen(prev => !prev)}
+        className="w-full px-6 py-4 flex items-center space-x-2 text-left"
+      >
+        {open ? <ChevronDown className="h-5 w-5 text-gray-500" /> : <ChevronRight className="h-5 w-5 text-gray-500" />}
+        <Archive className="h-5 w-5 text-gray-600" />
+        <h2 className="text-lg font-semibold text-gray-900">Archived Employees</h2>
+      </button>
+
+      {open && (
+        <div className="px-6 pb-6 border-t border-gray-200 pt-4 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-start space-x-2">
+              <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0" />
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center py-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+              <span className="ml-3 text-gray-600">Loading archived employees...</span>
+            </div>
+          ) : employees.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">No employees are archived.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-2 pr-4">Employee</th>
+                  <th className="py-2 pr-4">Archived</th>
+                  <th className="py-2 pr-4">Erased after</th>
+                  {canRestore && <th className="py-2"></th>}
+                </tr>
+              </thead>
+              <tbody>
+                {employees.map(employee => (
+                  <tr key={employee._id} className="border-b last:border-0">
+                    <td className="py-2 pr-4">
+                      <p className="font-medium text-gray-900">{employee.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {employee.employeeId}{employee.site && ` · ${employee.site}`}
+                      </p>
+                    </td>
+                    <td className="py-2 pr-4 text-gray-700">
+                      {formatDate(employee.archivedAt)}
+                      {employee.archivedBy && <span className="text-gray-500"> by {employee.archivedBy.username}</span>}
+                    </td>
+                    <td className="py-2 pr-4 text-gray-700">{formatDate(employee.purgeAfter)}</td>
+                    {canRestore && (
+                      <td className="py-2 text-right">
+                        <button
+                          onClick={() => handleRestore(employee)}
+                          disabled={restoringId === employee._id}
+                          className="inline-flex items-center space-x-1 px-3 py-1.5 text-sm text-blue-700 border border-blue-200 rounded-lg hover:bg-blue-50 disabled:opacity-50 transition-colors"
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                          <span>{restoringId === employee._id ? 'Restoring...' : 'Restore'}</span>
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ArchivedEmployees;
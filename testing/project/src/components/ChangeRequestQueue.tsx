@@ -0,0 +1,139 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import axios from 'axios';
+import { getErrorMessage } from '../utils/apiError';
+import { QueuedChangeRequest, SelfServiceField } from '../utils/selfService';
+import { RECORD_FIELD_LABELS, formatFieldValue } from '../utils/employeeVersions';
+import { AlertCircle, Check, ClipboardCheck, X } from 'lucide-react';
+
+// Employees' proposed profile changes, shown next to the live values so HR can
+// approve them onto the record or send them back
+const ChangeRequestQueue: React.FC<{ onApproved?: () => void }> = ({ onApproved }) => {
+  const [requests, setRequests] = useState<QueuedChangeRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRequests = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await axios.get('/self-service/change-requests');
+      setRequests(response.data.data);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to fetch change requests'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  const handleReview = async (request: QueuedChangeRequest, decision: 'approve' | 'reject') => {
+    let note: string | null = null;
+    if (decision === 'reject') {
+      note = window.prompt('Reason for rejecting (shown to the employee):', '');
+      if (note === null) return;
+    }
+
+    setReviewingId(request._id);
+    setError(null);
+    try {
+      await axios.post(`/self-service/change-requests/${request._id}/${decision}`, note ? { note } : {});
+      setRequests(prev => prev.filter(item => item._id !== request._id));
+      if (decision === 'approve') onApproved?.();
+    } catch (err) {
+      setError(getErrorMessage(err, `Failed to ${decision} change request`));
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  if (!loading && !error && requests.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm mb-8">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center space-x-2">
+        <ClipboardCheck className="h-5 w-5 text-yellow-600" />
+        <h2 className="text-lg font-semibold text-gray-900">Profile Changes Awaiting Approval</h2>
+        {requests.length > 0 && (
+          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+            {requests.length}
+          </span>
+        )}
+      </div>
+
+      <div className="p-6 space-y-4">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-start space-x-2">
+            <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0" />
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-yellow-600"></div>
+            <span className="ml-3 text-gray-600">Loading change requests...</span>
+          </div>
+        ) : (
+          requests.map(request => (
+            <div key={request._id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-3">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {request.employee ? `${request.employee.name} (${request.employee.employeeId})` : 'Deleted employee'}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Submitted {new Date(request.updatedAt).toLocaleString()}
+                    {request.requestedBy && ` by ${request.requestedBy.email}`}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => handleReview(request, 'reject')}
+                    disabled={reviewingId === request._id}
+                    className="flex items-center space-x-1 px-3 py-1.5 text-sm text-red-700 border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-50 transition-colors"
+                  >
+                    <X className="h-4 w-4" />
+                    <span>Reject</span>
+                  </button>
+                  <button
+                    onClick={() => handleReview(request, 'approve')}
+                    disabled={reviewingId === request._id || !request.employee}
+                    className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+                  >
+                    <Check className="h-4 w-4" />
+                    <span>Approve</span>
+                  </button>
+                </div>
+              </div>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="py-1 pr-4 w-40">Field</th>
+                    <th className="py-1 pr-4">Current</th>
+                    <th className="py-1">Proposed</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {(Object.keys(request.changes) as SelfServiceField[]).map(field => (
+                    <tr key={field} className="border-b last:border-0 align-top">
+                      <td className="py-1 pr-4 text-gray-700">{RECORD_FIELD_LABELS[field]}</td>
+                      <td className="py-1 pr-4 text-gray-500">{formatFieldValue(field, request.current[field])}</td>
+                      <td className="py-1 text-gray-900 font-medium">{formatFieldValue(field, request.changes[field])}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ChangeRequestQueue;
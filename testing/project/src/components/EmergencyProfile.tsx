@@ -0,0 +1,434 @@
+import React, { ReactNode } from 'react';
+import { Employee } from '../context/EmployeeContext';
+import { useLanguage } from '../context/LanguageContext';
+import { translateMedicalTerm } from '../locales/medicalTerms';
+import { resolveEmergencyNumber } from '../utils/sites';
+import { Allergy, AllergySeverity, criticalAllergiesOf, isAnaphylactic } from '../utils/allergies';
+import { bloodThinnersOf, isBloodThinner, medicationWarnings } from '../utils/medications';
+import {
+  User,
+  Phone,
+  Heart,
+  Pill,
+  AlertTriangle,
+  AlertOctagon,
+  Droplet,
+  Syringe,
+  UserCheck,
+  Calendar,
+  Lock
+} from 'lucide-react';
+
+// Scans and badge payloads may carry only some of the record
+export type EmergencyProfileData = Partial<Employee>;
+
+interface EmergencyProfileProps {
+  employee: EmergencyProfileData;
+  // Notices shown between the header and the medical details
+  children?: ReactNode;
+}
+
+const RestrictedNotice: React.FC = () => {
+  const { t } = useLanguage();
+  return (
+    <div className="flex items-center space-x-2 bg-gray-50 border border-dashed border-gray-300 rounded-lg p-3 text-gray-600">
+      <Lock className="h-4 w-4 flex-shrink-0" />
+      <span className="text-sm">{t('profile.restricted')}</span>
+    </div>
+  );
+};
+
+// A term as recorded, with its translation underneath when the reader's
+// language differs, so a local responder can read a foreign worker's record
+const MedicalTerm: React.FC<{ term: string }> = ({ term }) => {
+  const { language } = useLanguage();
+  const translation = translateMedicalTerm(term, language);
+  return (
+    <span>
+      {term}
+      {translation && (
+        <span lang={language} className="block text-sm font-normal opacity-80">{translation}</span>
+      )}
+    </span>
+  );
+};
+
+const SEVERITY_STYLES: Record<AllergySeverity, string> = {
+  mild: 'bg-yellow-100 text-yellow-800',
+  moderate: 'bg-orange-200 text-orange-900',
+  anaphylaxis: 'bg-red-600 text-white'
+};
+
+// Reaction and auto-injector lines shared by the banner and the allergy list
+const AllergyDetails: React.FC<{ allergy: Allergy; className: string }> = ({ allergy, className }) => {
+  const { t } = useLanguage();
+  return (
+    <>
+      {allergy.reaction && (
+        <div className={`text-sm ${className}`}>
+          {t('profile.reaction', { reaction: t(`allergy.reaction.${allergy.reaction}` as const) })}
+        </div>
+      )}
+      {allergy.carriesEpinephrine && (
+        <div className={`flex items-center space-x-1 text-sm font-semibold mt-1 ${className}`}>
+          <Syringe className="h-4 w-4" />
+          <span>{t('profile.carriesEpinephrine')}</span>
+        </div>
+      )}
+    </>
+  );
+};
+
+const handleCallEmergencyContact = (phone?: string) => {
+  if (phone) {
+    window.location.href = `tel:${phone}`;
+  }
+};
+
+const calculateAge = (dob: string) => {
+  const birthDate = new Date(dob);
+  if (isNaN(birthDate.getTime())) return null;
+  
+  const today = new Date();
+  let age = today.getFullYear() - birthDate.getFullYear();
+  const monthDiff = today.getMonth() - birthDate.getMonth();
+  
+  if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
+    age--;
+  }
+  
+  return age;
+};
+
+// The emergency view of a profile, shared by online lookups, offline copies
+// and self-contained badge payloads
+const EmergencyProfile: React.FC<EmergencyProfileProps> = ({ employee, children }) => {
+  const { t, formatDate } = useLanguage();
+  const withheldSections = employee.withheldSections || [];
+  const isWithheld = (section: string) => withheldSections.includes(section);
+  const isPublicTier = employee.disclosureTier === 'public';
+  const siteSettings = employee.siteSettings;
+  const emergencyNumber = resolveEmergencyNumber(siteSettings);
+  const age = employee.dob ? calculateAge(employee.dob) : null;
+  const anaphylactic = criticalAllergiesOf(employee.allergies);
+  // Anaphylaxis-level allergies first
+  const allergies = [...anaphylactic, ...(employee.allergies || []).filter(allergy => !isAnaphylactic(allergy))];
+  const bloodThinners = bloodThinnersOf(employee.medications);
+  // Blood thinners first
+  const medications = [...bloodThinners, ...(employee.medications || []).filter(medication => !isBloodThinner(medication))];
+  const warnings = medicationWarnings(employee.allergies, employee.medications);
+
+  return (
+    <>
+      {/* Header */}
+      <div className="bg-white rounded-xl shadow-lg p-6 mb-6">
+        <div className="flex items-start space-x-4">
+          <div className="bg-red-100 p-3 rounded-full">
+            <User className="h-8 w-8 text-red-600" />
+          </div>
+          <div className="flex-1">
+            <h1 className="text-2xl font-bold text-gray-900 mb-1">{employee.name || t('profile.unknown')}</h1>
+            {employee.employeeId && (
+              <p className="text-gray-600">{t('profile.employeeId', { id: employee.employeeId })}</p>
+            )}
+            {siteSettings?.siteName && (
+              <p className="text-gray-600">
+                {siteSettings.siteName}
+                {siteSettings.organizationName && ` · ${siteSettings.organizationName}`}
+              </p>
+            )}
+            {employee.dob && (
+              <div className="flex items-center space-x-4 mt-2 text-sm text-gray-600">
+                <span className="flex items-center space-x-1">
+                  <Calendar className="h-4 w-4" />
+                  <span>{age === null ? t('profile.notAvailable') : t('profile.age', { age })}</span>
+                </span>
+                <span>{t('profile.born', { date: formatDate(employee.dob, { year: 'numeric', month: 'long', day: 'numeric' }) })}</span>
+              </div>
+            )}
+          </div>
+          <div className="text-right">
+            <div className="bg-red-600 text-white px-4 py-2 rounded-lg font-semibold">
+              {t('profile.bloodType', { bloodGroup: employee.bloodGroup || t('profile.notAvailable') })}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {anaphylactic.length > 0 && (
+        <div role="alert" className="bg-red-600 text-white rounded-xl shadow-lg p-6 mb-6">
+          <div className="flex items-center space-x-3 mb-3">
+            <AlertOctagon className="h-7 w-7 flex-shrink-0" />
+            <h2 className="text-xl font-bold uppercase">{t('profile.anaphylaxisRisk')}</h2>
+          </div>
+          <div className="space-y-2">
+            {anaphylactic.map((allergy, index) => (
+              <div key={index} className="bg-red-700 rounded-lg p-3">
+                <div className="text-lg font-semibold"><MedicalTerm term={allergy.substance} /></div>
+                <AllergyDetails allergy={allergy} className="text-red-100" />
+              </div>
+            ))}
+          </div>
+          <p className="text-sm text-red-100 mt-3">{t('profile.anaphylaxisNotice', { number: emergencyNumber })}</p>
+        </div>
+      )}
+
+      {bloodThinners.length > 0 && (
+        <div role="alert" className="bg-red-900 text-white rounded-xl shadow-lg p-6 mb-6">
+          <div className="flex items-center space-x-3 mb-3">
+            <Droplet className="h-7 w-7 flex-shrink-0" />
+            <h2 className="text-xl font-bold uppercase">{t('profile.bloodThinners')}</h2>
+          </div>
+          <div className="space-y-2">
+            {bloodThinners.map((medication, index) => (
+              <div key={index} className="bg-red-800 rounded-lg p-3">
+                <div className="text-lg font-semibold"><MedicalTerm term={medication.name} /></div>
+                {medication.dosage && (
+                  <div className="text-sm text-red-100">{t('profile.dosage', { dosage: medication.dosage })}</div>
+                )}
+              </div>
+            ))}
+          </div>
+          <p className="text-sm text-red-100 mt-3">{t('profile.bloodThinnersNotice')}</p>
+        </div>
+      )}
+
+      {children}
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        {/* Medical Information */}
+        <div className="space-y-6">
+          {/* Allergies */}
+          <div className="bg-white rounded-xl shadow-lg p-6">
+            <div className="flex items-center space-x-3 mb-4">
+              <div className="bg-orange-100 p-2 rounded-lg">
+                <AlertTriangle className="h-6 w-6 text-orange-600" />
+              </div>
+              <h2 className="text-xl font-bold text-gray-900">
+                {isPublicTier ? t('profile.severeAllergies') : t('profile.allergies')}
+              </h2>
+            </div>
+            {allergies.length ? (
+              <div className="space-y-2">
+                {allergies.map((allergy, index) => (
+                  <div key={index} className="bg-orange-50 border border-orange-200 rounded-lg p-3">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-orange-800"><MedicalTerm term={allergy.substance} /></span>
+                      {allergy.severity && (
+                        <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${SEVERITY_STYLES[allergy.severity]}`}>
+                          {t(`allergy.severity.${allergy.severity}` as const)}
+                        </span>
+                      )}
+                    </div>
+                    <AllergyDetails allergy={allergy} className="text-orange-700" />
+                  </div>
+                ))}
+              </div>
+            ) : isWithheld('allergies') ? (
+              <RestrictedNotice />
+            ) : (
+              <p className="text-gray-500 italic">{t('profile.noAllergies')}</p>
+            )}
+            {!!employee.allergies?.length && isWithheld('allergies') && (
+              <div className="mt-3">
+                <RestrictedNotice />
+              </div>
+            )}
+          </div>
+
+          {/* Medications */}
+          <div className="bg-white rounded-xl shadow-lg p-6">
+            <div className="flex items-center space-x-3 mb-4">
+              <div className="bg-blue-100 p-2 rounded-lg">
+                <Pill className="h-6 w-6 text-blue-600" />
+              </div>
+              <h2 className="text-xl font-bold text-gray-900">{t('profile.medications')}</h2>
+            </div>
+            {medications.length ? (
+              <div className="space-y-3">
+                {medications.map((medication, index) => (
+                  <div key={index} className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="font-semibold text-blue-900"><MedicalTerm term={medication.name} /></div>
+                      {isBloodThinner(medication) && (
+                        <span className="text-xs font-bold uppercase px-2 py-1 rounded bg-red-900 text-white whitespace-nowrap">
+                          {t('profile.bloodThinner')}
+                        </span>
+                      )}
+                    </div>
+                    {medication.dosage && (
+                      <div className="text-sm text-blue-700 mt-1">{t('profile.dosage', { dosage: medication.dosage })}</div>
+                    )}
+                    {medication.frequency && (
+                      <div className="text-sm text-blue-700">{t('profile.frequency', { frequency: medication.frequency })}</div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : isWithheld('medications') ? (
+              <RestrictedNotice />
+            ) : (
+              <p className="text-gray-500 italic">{t('profile.noMedications')}</p>
+            )}
+            {warnings.length > 0 && (
+              <div className="mt-4 bg-amber-50 border border-amber-300 rounded-lg p-4">
+                <div className="flex items-center space-x-2 font-semibold text-amber-900 mb-2">
+                  <AlertTriangle className="h-4 w-4" />
+                  <span>{t('profile.medicationWarnings')}</span>
+                </div>
+                <ul className="space-y-1 text-sm">
+                  {warnings.map((warning, index) => (
+                    <li key={index} className={warning.severity === 'major' ? 'text-red-700 font-semibold' : 'text-amber-900'}>
+                      {warning.kind === 'allergy'
+                        ? t('profile.allergyConflict', { medication: warning.medication, allergy: warning.allergy })
+                        : t('profile.interaction', {
+                          first: warning.medications[0],
+                          second: warning.medications[1],
+                          effect: t(`medication.effect.${warning.effect}` as const)
+                        })}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          {/* Medical Conditions */}
+          {isWithheld('medicalConditions') && (
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <div className="flex items-center space-x-3 mb-4">
+                <div className="bg-purple-100 p-2 rounded-lg">
+                  <Heart className="h-6 w-6 text-purple-600" />
+                </div>
+                <h2 className="text-xl font-bold text-gray-900">{t('profile.conditions')}</h2>
+              </div>
+              <RestrictedNotice />
+            </div>
+          )}
+
+          {employee.medicalConditions?.length > 0 && (
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <div className="flex items-center space-x-3 mb-4">
+                <div className="bg-purple-100 p-2 rounded-lg">
+                  <Heart className="h-6 w-6 text-purple-600" />
+                </div>
+                <h2 className="text-xl font-bold text-gray-900">{t('profile.conditions')}</h2>
+              </div>
+              <div className="space-y-2">
+                {employee.medicalConditions.map((condition, index) => (
+                  <div key={index} className="bg-purple-50 border border-purple-200 rounded-lg p-3">
+                    <span className="font-medium text-purple-800"><MedicalTerm term={condition} /></span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Contact Information */}
+        <div className="space-y-6">
+          {/* Emergency Contacts */}
+          <div className="bg-white rounded-xl shadow-lg p-6">
+            <div className="flex items-center space-x-3 mb-4">
+              <div className="bg-red-100 p-2 rounded-lg">
+                <Phone className="h-6 w-6 text-red-600" />
+              </div>
+              <h2 className="text-xl font-bold text-gray-900">{t('profile.emergencyContacts')}</h2>
+            </div>
+            <div className="space-y-4">
+              {employee.emergencyContacts?.length ? (
+                employee.emergencyContacts.map((contact, index) => (
+                  <div key={index} className="bg-red-50 border border-red-200 rounded-lg p-4">
+                    <div className="flex justify-between items-start mb-2">
+                      <div>
+                        <div className="font-semibold text-gray-900">{contact.name}</div>
+                        <div className="text-sm text-gray-600">{contact.relationship}</div>
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => handleCallEmergencyContact(contact.phone)}
+                      className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors flex items-center space-x-2 w-full justify-center"
+                    >
+                      <Phone className="h-4 w-4" />
+                      <span>{t('profile.call', { phone: contact.phone || t('profile.notAvailable') })}</span>
+                    </button>
+                  </div>
+                ))
+              ) : (
+                <p className="text-gray-500 italic">{t('profile.noContacts')}</p>
+              )}
+              {isWithheld('emergencyContacts') && <RestrictedNotice />}
+            </div>
+          </div>
+
+          {/* Physician */}
+          {employee.physician && (
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <div className="flex items-center space-x-3 mb-4">
+                <div className="bg-green-100 p-2 rounded-lg">
+                  <UserCheck className="h-6 w-6 text-green-600" />
+                </div>
+                <h2 className="text-xl font-bold text-gray-900">{t('profile.physician')}</h2>
+              </div>
+              <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+                <div className="font-semibold text-gray-900 mb-1">{employee.physician.name || t('profile.unknown')}</div>
+                {employee.physician.specialty && (
+                  <div className="text-sm text-gray-600 mb-3">{employee.physician.specialty}</div>
+                )}
+                {employee.physician.phone && (
+                  <button
+                    onClick={() => handleCallEmergencyContact(employee.physician?.phone)}
+                    className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors flex items-center space-x-2 w-full justify-center"
+                  >
+                    <Phone className="h-4 w-4" />
+                    <span>{t('profile.call', { phone: employee.physician.phone })}</span>
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {isWithheld('physician') && (
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <div className="flex items-center space-x-3 mb-4">
+                <div className="bg-green-100 p-2 rounded-lg">
+                  <UserCheck className="h-6 w-6 text-green-600" />
+                </div>
+                <h2 className="text-xl font-bold text-gray-900">{t('profile.physician')}</h2>
+              </div>
+              <RestrictedNotice />
+            </div>
+          )}
+
+          {/* Additional Notes */}
+          {employee.notes && (
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <h2 className="text-xl font-bold text-gray-900 mb-4">{t('profile.notes')}</h2>
+              <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+                <p className="text-gray-700">{employee.notes}</p>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Emergency Banner */}
+      <div className="mt-6 bg-red-600 text-white p-6 rounded-xl shadow-lg">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-bold mb-1">🚨 {t('profile.emergencyOnly')}</h3>
+            <p className="text-red-100">
+              {t('profile.emergencyNotice', { number: emergencyNumber })}
+            </p>
+          </div>
+          <div className="text-right">
+            <a href={`tel:${emergencyNumber}`} className="block text-2xl font-bold">{emergencyNumber}</a>
+            <div className="text-sm text-red-200">{t('profile.emergencyServices')}</div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default EmergencyProfile;
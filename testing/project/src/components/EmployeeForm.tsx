@@ -1,49 +1,150 @@
 import React, { useState, useEffect } from 'react';
-import { useEmployee, Employee } from '../context/EmployeeContext';
-import { X, Plus, Trash2, Save, AlertCircle } from 'lucide-react';
+import axios from 'axios';
+import { useEmployee, Employee, BadgeMode } from '../context/EmployeeContext';
+import { SelfServiceChanges, pickSelfServiceChanges } from '../utils/selfService';
+import { Site } from '../utils/sites';
+import {
+  ALLERGEN_NAMES,
+  ALLERGY_REACTIONS,
+  ALLERGY_REACTION_TYPES,
+  ALLERGY_SEVERITIES,
+  AllergyReaction,
+  AllergySeverity
+} from '../utils/allergies';
+import {
+  MEDICATION_CLASSES,
+  MEDICATION_NAMES,
+  classesOf,
+  describeMedicationWarning,
+  isBloodThinner,
+  medicationWarnings
+} from '../utils/medications';
+import VersionHistory from './VersionHistory';
+import { X, Plus, Trash2, Save, AlertCircle, AlertTriangle, Camera, Send } from 'lucide-react';
 
 interface EmployeeFormProps {
   employee?: Employee | null;
   onClose: () => void;
   onSuccess: () => void;
+  // Self-service mode: the employee proposes changes to their own medical
+  // details for HR to approve, and cannot touch identity, site or badge
+  onSubmitChanges?: (changes: SelfServiceChanges) => Promise<void>;
 }
 
-const EmployeeForm: React.FC<EmployeeFormProps> = ({ employee, onClose, onSuccess }) => {
-  const { createEmployee, updateEmployee, loading, error } = useEmployee();
+// Selects hold '' until a reaction or severity is chosen
+interface AllergyFormValue {
+  substance: string;
+  reaction: AllergyReaction | '';
+  severity: AllergySeverity | '';
+  carriesEpinephrine: boolean;
+}
+
+const EMPTY_ALLERGY: AllergyFormValue = { substance: '', reaction: '', severity: '', carriesEpinephrine: false };
+
+const SEVERITY_LABELS: Record<AllergySeverity, string> = {
+  mild: 'Mild',
+  moderate: 'Moderate',
+  anaphylaxis: 'Anaphylaxis'
+};
+
+const EmployeeForm: React.FC<EmployeeFormProps> = ({ employee, onClose, onSuccess, onSubmitChanges }) => {
+  const { createEmployee, updateEmployee, fetchPhoto, uploadPhoto, removePhoto, loading, error } = useEmployee();
   const [formData, setFormData] = useState({
     employeeId: '',
     name: '',
+    site: '',
+    badgeMode: 'url' as BadgeMode,
     dob: '',
     bloodGroup: '',
-    allergies: [''],
+    allergies: [EMPTY_ALLERGY],
     medications: [{ name: '', dosage: '', frequency: '' }],
-    emergencyContacts: [{ name: '', phone: '', relationship: '' }],
+    emergencyContacts: [{ name: '', phone: '', relationship: '', email: '', notifyOnScan: false }],
     physician: { name: '', phone: '', specialty: '' },
     insurance: { provider: '', memberId: '', groupNumber: '' },
     medicalConditions: [''],
-    notes: ''
+    notes: '',
+    scanNotifications: { enabled: false, notifyEmployee: false, email: '', phone: '' }
   });
 
   const [formError, setFormError] = useState('');
+  // The photo is uploaded separately once the record is saved
+  const [photoFile, setPhotoFile] = useState<File | null>(null);
+  const [photoPreview, setPhotoPreview] = useState<string | null>(null);
+  const [photoRemoved, setPhotoRemoved] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  // Registered sites the user may place employees at
+  const [sites, setSites] = useState<Site[]>([]);
+  const selfService = !!onSubmitChanges;
+  const busy = selfService ? submitting : loading;
+
+  useEffect(() => {
+    if (selfService) return;
+
+    axios.get('/sites')
+      .then(response => setSites(response.data.data))
+      .catch(err => console.error('Sites load error:', err));
+  }, [selfService]);
+
+  useEffect(() => {
+    if (selfService || !employee?.photo?.updatedAt) return;
+
+    let objectUrl: string | null = null;
+    fetchPhoto(employee._id)
+      .then(blob => {
+        objectUrl = URL.createObjectURL(blob);
+        setPhotoPreview(objectUrl);
+      })
+      .catch(err => console.error('Photo load error:', err));
+
+    return () => {
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [employee, fetchPhoto, selfService]);
 
   useEffect(() => {
     if (employee) {
       setFormData({
         employeeId: employee.employeeId || '',
         name: employee.name || '',
+        site: employee.site || '',
+        badgeMode: employee.badgeMode || 'url',
         dob: employee.dob ? employee.dob.split('T')[0] : '',
         bloodGroup: employee.bloodGroup || '',
-        allergies: employee.allergies?.length > 0 ? employee.allergies : [''],
-        medications: employee.medications?.length > 0 ? employee.medications : [{ name: '', dosage: '', frequency: '' }],
-        emergencyContacts: employee.emergencyContacts?.length > 0 ? employee.emergencyContacts : [{ name: '', phone: '', relationship: '' }],
+        allergies: employee.allergies?.length > 0
+          ? employee.allergies.map(allergy => ({
+            substance: allergy.substance,
+            reaction: allergy.reaction || '',
+            severity: allergy.severity || '',
+            carriesEpinephrine: !!allergy.carriesEpinephrine
+          }))
+          : [EMPTY_ALLERGY],
+        // The stored code is left behind: the server derives it again from the name
+        medications: employee.medications?.length > 0
+          ? employee.medications.map(({ name, dosage, frequency }) => ({ name, dosage: dosage || '', frequency: frequency || '' }))
+          : [{ name: '', dosage: '', frequency: '' }],
+        emergencyContacts: employee.emergencyContacts?.length > 0
+          ? employee.emergencyContacts.map(contact => ({ ...contact, email: contact.email || '', notifyOnScan: !!contact.notifyOnScan }))
+          : [{ name: '', phone: '', relationship: '', email: '', notifyOnScan: false }],
         physician: employee.physician || { name: '', phone: '', specialty: '' },
         insurance: employee.insurance || { provider: '', memberId: '', groupNumber: '' },
         medicalConditions: employee.medicalConditions?.length > 0 ? employee.medicalConditions : [''],
-        notes: employee.notes || ''
+        notes: employee.notes || '',
+        scanNotifications: {
+          enabled: !!employee.scanNotifications?.enabled,
+          notifyEmployee: !!employee.scanNotifications?.notifyEmployee,
+          email: employee.scanNotifications?.email || '',
+          phone: employee.scanNotifications?.phone || ''
+        }
       });
     }
   }, [employee]);
 
+  // Allergy conflicts and dangerous combinations, as entered so far
+  const warnings = medicationWarnings(
+    formData.allergies.map(allergy => ({ substance: allergy.substance })),
+    formData.medications
+  );
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setFormError('');
@@ -69,20 +170,63 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({ employee, onClose, onSucces
       return;
     }
 
+    const { scanNotifications } = formData;
+    if (scanNotifications.enabled) {
+      if (scanNotifications.notifyEmployee && !scanNotifications.email && !scanNotifications.phone) {
+        setFormError('Enter an email or phone number to notify the employee');
+        return;
+      }
+
+      if (!scanNotifications.notifyEmployee && !formData.emergencyContacts.some(contact => contact.notifyOnScan)) {
+        setFormError('Choose at least one person to notify when the profile is scanned');
+        return;
+      }
+    }
+
+    if (warnings.length > 0 && !window.confirm(
+      `Check these medications before saving:\n\n${warnings.map(describeMedicationWarning).join('\n')}\n\nSave anyway?`
+    )) {
+      return;
+    }
+
     // Clean up arrays (remove empty entries)
     const cleanedData = {
       ...formData,
-      allergies: formData.allergies.filter(item => item.trim() !== ''),
+      allergies: formData.allergies
+        .filter(allergy => allergy.substance.trim() !== '')
+        .map(allergy => ({
+          substance: allergy.substance.trim(),
+          reaction: allergy.reaction || undefined,
+          severity: allergy.severity || undefined,
+          carriesEpinephrine: allergy.carriesEpinephrine
+        })),
       medicalConditions: formData.medicalConditions.filter(item => item.trim() !== ''),
       medications: formData.medications.filter(med => med.name.trim() !== ''),
       emergencyContacts: formData.emergencyContacts.filter(contact => contact.name.trim() !== '' && contact.phone.trim() !== '')
     };
 
+    if (onSubmitChanges) {
+      setSubmitting(true);
+      try {
+        await onSubmitChanges(pickSelfServiceChanges(cleanedData));
+        onSuccess();
+      } catch (err) {
+        setFormError(err instanceof Error ? err.message : 'An error occurred');
+      } finally {
+        setSubmitting(false);
+      }
+      return;
+    }
+
     try {
-      if (employee) {
-        await updateEmployee(employee._id, cleanedData);
-      } else {
-        await createEmployee(cleanedData as any);
+      const saved = employee
+        ? await updateEmployee(employee._id, cleanedData)
+        : await createEmployee(cleanedData as any);
+
+      if (photoFile) {
+        await uploadPhoto(saved._id, photoFile);
+      } else if (photoRemoved && employee?.photo?.updatedAt) {
+        await removePhoto(saved._id);
       }
       onSuccess();
     } catch (err) {
@@ -90,6 +234,27 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({ employee, onClose, onSucces
     }
   };
 
+  const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (!['image/jpeg', 'image/png'].includes(file.type) || file.size > 2 * 1024 * 1024) {
+      setFormError('Photos must be JPEG or PNG images of 2 MB or less');
+      return;
+    }
+
+    setFormError('');
+    setPhotoFile(file);
+    setPhotoRemoved(false);
+    setPhotoPreview(URL.createObjectURL(file));
+  };
+
+  const handlePhotoRemove = () => {
+    setPhotoFile(null);
+    setPhotoRemoved(true);
+    setPhotoPreview(null);
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
@@ -102,7 +267,7 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({ employee, onClose, onSucces
     }));
   };
 
-  const handleObjectArrayChange = (field: string, index: number, key: string, value: string) => {
+  const handleObjectArrayChange = (field: string, index: number, key: string, value: string | boolean) => {
     setFormData(prev => ({
       ...prev,
       [field]: (prev[field as keyof typeof prev] as any[]).map((item, i) => 
@@ -111,7 +276,7 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({ employee, onClose, onSucces
     }));
   };
 
-  const handleObjectChange = (field: string, key: string, value: string) => {
+  const handleObjectChange = (field: string, key: string, value: string | boolean) => {
     setFormData(prev => ({
       ...prev,
       [field]: { ...prev[field as keyof typeof prev] as any, [key]: value }
@@ -136,7 +301,7 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({ employee, onClose, onSucces
     <div className="p-6">
       <div className="flex items-center justify-between mb-6">
         <h2 className="text-2xl font-bold text-gray-900">
-          {employee ? 'Edit Employee' : 'Add New Employee'}
+          {selfService ? 'Update My Medical Profile' : employee ? 'Edit Employee' : 'Add New Employee'}
         </h2>
         <button
           onClick={onClose}
@@ -146,12 +311,19 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({ employee, onClose, onSucces
         </button>
       </div>
 
-      {(formError || error) && (
+      {selfService && (
+        <p className="mb-6 text-sm text-gray-600">
+          Your changes go to HR for approval and appear on your emergency profile once approved.
+          Contact HR to correct your name, employee ID or date of birth.
+        </p>
+      )}
+
+      {(formError || (!selfService && error)) && (
         <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
           <AlertCircle className="h-5 w-5 text-red-600 mt-0.5 flex-shrink-0" />
           <div>
             <p className="text-red-800 font-medium">Error</p>
-            <p className="text-red-700 text-sm mt-1">{formError || error}</p>
+            <p className="text-red-700 text-sm mt-1">{formError || (!selfService && error)}</p>
           </div>
         </div>
       )}
@@ -169,9 +341,10 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({ employee, onClose, onSucces
                 type="text"
                 name="employeeId"
                 required
+                readOnly={selfService}
                 value={formData.employeeId}
                 onChange={handleInputChange}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 read-only:bg-gray-100 read-only:text-gray-600"
                 placeholder="EMP001"
               />
             </div>
@@ -184,9 +357,10 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({ employee, onClose, onSucces
                 type="text"
                 name="name"
                 required
+                readOnly={selfService}
                 value={formData.name}
                 onChange={handleInputChange}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 read-only:bg-gray-100 read-only:text-gray-600"
                 placeholder="John Doe"
               />
             </div>
@@ -199,9 +373,10 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({ employee, onClose, onSucces
                 type="date"
                 name="dob"
                 required
+                readOnly={selfService}
                 value={formData.dob}
                 onChange={handleInputChange}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 read-only:bg-gray-100 read-only:text-gray-600"
               />
             </div>
 
@@ -227,6 +402,81 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({ employee, onClose, onSucces
                 <option value="O-">O-</option>
               </select>
             </div>
+
+            {!selfService && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Site
+                  </label>
+                  <select
+                    name="site"
+                    value={formData.site}
+                    onChange={handleInputChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">No site</option>
+                    {sites.map(site => (
+                      <option key={site.code} value={site.code}>
+                        {site.code} · {site.name} ({site.organization.name})
+                      </option>
+                    ))}
+                    {/* Records from before the site was registered keep their code */}
+                    {formData.site && !sites.some(site => site.code === formData.site) && (
+                      <option value={formData.site}>{formData.site}</option>
+                    )}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">Selects the organisation, badge template and emergency number</p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Badge QR Code
+                  </label>
+                  <select
+                    name="badgeMode"
+                    value={formData.badgeMode}
+                    onChange={handleInputChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="url">Link to the online profile</option>
+                    <option value="payload">Signed emergency summary</option>
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {formData.badgeMode === 'payload'
+                      ? 'Readable without a connection. Reprint the badge after medical details change.'
+                      : 'Always shows the current record; needs a connection to scan.'}
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Badge Photo
+                  </label>
+                  <div className="flex items-center space-x-3">
+                    <div className="w-16 h-20 bg-gray-200 rounded flex items-center justify-center overflow-hidden flex-shrink-0">
+                      {photoPreview ? (
+                        <img src={photoPreview} alt="Badge" className="w-full h-full object-cover" />
+                      ) : (
+                        <Camera className="h-6 w-6 text-gray-400" />
+                      )}
+                    </div>
+                    <div className="space-y-1">
+                      <label className="inline-block px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-white cursor-pointer">
+                        {photoPreview ? 'Replace' : 'Upload'}
+                        <input type="file" accept="image/jpeg,image/png" onChange={handlePhotoChange} className="hidden" />
+                      </label>
+                      {photoPreview && (
+                        <button type="button" onClick={handlePhotoRemove} className="block text-sm text-red-600 hover:text-red-700">
+                          Remove
+                        </button>
+                      )}
+                      <p className="text-xs text-gray-500">JPEG or PNG, up to 2 MB</p>
+                    </div>
+                  </div>
+                </div>
+              </>
+            )}
           </div>
         </div>
 
@@ -237,27 +487,67 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({ employee, onClose, onSucces
           {/* Allergies */}
           <div className="mb-4">
             <label className="block text-sm font-medium text-gray-700 mb-2">Allergies</label>
+            <p className="text-xs text-gray-500 mb-2">
+              Anaphylaxis-level allergies are highlighted at the top of the profile and shown on anonymous scans.
+            </p>
             {formData.allergies.map((allergy, index) => (
-              <div key={index} className="flex items-center space-x-2 mb-2">
+              <div key={index} className="grid grid-cols-1 md:grid-cols-4 gap-2 mb-2 p-3 border border-gray-200 rounded-lg">
                 <input
                   type="text"
-                  value={allergy}
-                  onChange={(e) => handleArrayChange('allergies', index, e.target.value)}
-                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  placeholder="e.g., Penicillin"
+                  list="allergen-names"
+                  value={allergy.substance}
+                  onChange={(e) => handleObjectArrayChange('allergies', index, 'substance', e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="Substance, e.g., Penicillin"
                 />
-                <button
-                  type="button"
-                  onClick={() => removeArrayItem('allergies', index)}
-                  className="p-2 text-red-600 hover:bg-red-100 rounded-lg"
+                <select
+                  value={allergy.reaction}
+                  onChange={(e) => handleObjectArrayChange('allergies', index, 'reaction', e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                 >
-                  <Trash2 className="h-4 w-4" />
-                </button>
+                  <option value="">Reaction (unknown)</option>
+                  {ALLERGY_REACTION_TYPES.map(reaction => (
+                    <option key={reaction} value={reaction}>{ALLERGY_REACTIONS[reaction]}</option>
+                  ))}
+                </select>
+                <select
+                  value={allergy.severity}
+                  onChange={(e) => handleObjectArrayChange('allergies', index, 'severity', e.target.value)}
+                  className={`px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                    allergy.severity === 'anaphylaxis' ? 'border-red-500 text-red-700 font-semibold' : 'border-gray-300'
+                  }`}
+                >
+                  <option value="">Severity (unknown)</option>
+                  {ALLERGY_SEVERITIES.map(severity => (
+                    <option key={severity} value={severity}>{SEVERITY_LABELS[severity]}</option>
+                  ))}
+                </select>
+                <div className="flex items-center justify-between space-x-2">
+                  <label className="flex items-center space-x-1 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={allergy.carriesEpinephrine}
+                      onChange={(e) => handleObjectArrayChange('allergies', index, 'carriesEpinephrine', e.target.checked)}
+                      className="rounded text-red-600 focus:ring-red-500"
+                    />
+                    <span>Carries EpiPen</span>
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => removeArrayItem('allergies', index)}
+                    className="p-2 text-red-600 hover:bg-red-100 rounded-lg"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
               </div>
             ))}
+            <datalist id="allergen-names">
+              {ALLERGEN_NAMES.map(name => <option key={name} value={name} />)}
+            </datalist>
             <button
               type="button"
-              onClick={() => addArrayItem('allergies', '')}
+              onClick={() => addArrayItem('allergies', EMPTY_ALLERGY)}
               className="flex items-center space-x-2 text-blue-600 hover:text-blue-800"
             >
               <Plus className="h-4 w-4" />
@@ -303,6 +593,7 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({ employee, onClose, onSucces
               <div key={index} className="grid grid-cols-1 md:grid-cols-3 gap-2 mb-2 p-3 border border-gray-200 rounded-lg">
                 <input
                   type="text"
+                  list="medication-names"
                   value={medication.name}
                   onChange={(e) => handleObjectArrayChange('medications', index, 'name', e.target.value)}
                   className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
@@ -331,8 +622,32 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({ employee, onClose, onSucces
                     <Trash2 className="h-4 w-4" />
                   </button>
                 </div>
+                {classesOf(medication).length > 0 && (
+                  <p className={`md:col-span-3 text-xs ${isBloodThinner(medication) ? 'text-red-700 font-semibold' : 'text-gray-500'}`}>
+                    {classesOf(medication).map(name => MEDICATION_CLASSES[name].name).join(', ')}
+                    {isBloodThinner(medication) && ' — blood thinner'}
+                  </p>
+                )}
               </div>
             ))}
+            <datalist id="medication-names">
+              {MEDICATION_NAMES.map(name => <option key={name} value={name} />)}
+            </datalist>
+            {warnings.length > 0 && (
+              <div className="mb-2 p-3 bg-amber-50 border border-amber-300 rounded-lg">
+                <div className="flex items-center space-x-2 mb-1 text-amber-800 font-semibold text-sm">
+                  <AlertTriangle className="h-4 w-4" />
+                  <span>Medication warnings</span>
+                </div>
+                <ul className="space-y-1 text-sm">
+                  {warnings.map((warning, index) => (
+                    <li key={index} className={warning.severity === 'major' ? 'text-red-700' : 'text-amber-800'}>
+                      {describeMedicationWarning(warning)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
             <button
               type="button"
               onClick={() => addArrayItem('medications', { name: '', dosage: '', frequency: '' })}
@@ -382,11 +697,29 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({ employee, onClose, onSucces
                   <Trash2 className="h-4 w-4" />
                 </button>
               </div>
+              <input
+                type="email"
+                value={contact.email}
+                onChange={(e) => handleObjectArrayChange('emergencyContacts', index, 'email', e.target.value)}
+                className="md:col-span-2 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Email (optional)"
+              />
+              {formData.scanNotifications.enabled && (
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={contact.notifyOnScan}
+                    onChange={(e) => handleObjectArrayChange('emergencyContacts', index, 'notifyOnScan', e.target.checked)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>Notify on scan</span>
+                </label>
+              )}
             </div>
           ))}
           <button
             type="button"
-            onClick={() => addArrayItem('emergencyContacts', { name: '', phone: '', relationship: '' })}
+            onClick={() => addArrayItem('emergencyContacts', { name: '', phone: '', relationship: '', email: '', notifyOnScan: false })}
             className="flex items-center space-x-2 text-blue-600 hover:text-blue-800"
           >
             <Plus className="h-4 w-4" />
@@ -394,6 +727,54 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({ employee, onClose, onSucces
           </button>
         </div>
 
+        {/* Scan Notifications */}
+        <div className="bg-blue-50 p-4 rounded-lg">
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">Scan Notifications</h3>
+          <label className="flex items-center space-x-2 text-sm text-gray-700 mb-3">
+            <input
+              type="checkbox"
+              checked={formData.scanNotifications.enabled}
+              onChange={(e) => handleObjectChange('scanNotifications', 'enabled', e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>Send an alert with time and approximate location whenever this profile is scanned</span>
+          </label>
+          {formData.scanNotifications.enabled && (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-600">
+                Tick "Notify on scan" on each emergency contact who should be alerted.
+              </p>
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={formData.scanNotifications.notifyEmployee}
+                  onChange={(e) => handleObjectChange('scanNotifications', 'notifyEmployee', e.target.checked)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>Also notify the employee</span>
+              </label>
+              {formData.scanNotifications.notifyEmployee && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  <input
+                    type="email"
+                    value={formData.scanNotifications.email}
+                    onChange={(e) => handleObjectChange('scanNotifications', 'email', e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="Employee email"
+                  />
+                  <input
+                    type="tel"
+                    value={formData.scanNotifications.phone}
+                    onChange={(e) => handleObjectChange('scanNotifications', 'phone', e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="Employee mobile for SMS"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
         {/* Physician Information */}
         <div className="bg-green-50 p-4 rounded-lg">
           <h3 className="text-lg font-semibold text-gray-900 mb-4">Primary Physician *</h3>
@@ -478,13 +859,18 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({ employee, onClose, onSucces
           </button>
           <button
             type="submit"
-            disabled={loading}
+            disabled={busy}
             className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
           >
-            {loading ? (
+            {busy ? (
               <>
                 <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                <span>Saving...</span>
+                <span>{selfService ? 'Submitting...' : 'Saving...'}</span>
+              </>
+            ) : selfService ? (
+              <>
+                <Send className="h-4 w-4" />
+                <span>Submit for Approval</span>
               </>
             ) : (
               <>
@@ -495,6 +881,12 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({ employee, onClose, onSucces
           </button>
         </div>
       </form>
+
+      {employee && !selfService && (
+        <div className="mt-6">
+          <VersionHistory employeeId={employee._id} onRestored={onSuccess} />
+        </div>
+      )}
     </div>
   );
 };
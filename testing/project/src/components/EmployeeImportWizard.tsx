@@ -0,0 +1,372 @@
+import React, { useState } from 'react';
+import axios from 'axios';
+import { getErrorMessage } from '../utils/apiError';
+import { downloadCsv } from '../utils/csv';
+import {
+  IMPORT_FIELDS,
+  ColumnMapping,
+  ImportedEmployee,
+  buildEmployeeRecord,
+  guessMapping,
+  readEmployeeJson,
+  readSpreadsheet
+} from '../utils/employeeImport';
+import { X, Upload, AlertCircle, CheckCircle, Download, ArrowLeft } from 'lucide-react';
+
+interface EmployeeImportWizardProps {
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+interface RowError {
+  field: string;
+  message: string;
+}
+
+interface PreviewRow {
+  index: number;
+  employeeId: string;
+  valid: boolean;
+  errors: RowError[];
+}
+
+interface ImportResult {
+  created: { index: number; employeeId: string }[];
+  rejected: { index: number; employeeId: string; errors: RowError[] }[];
+}
+
+type Step = 'upload' | 'map' | 'preview' | 'done';
+
+const MAX_ROWS = 2000;
+
+const formatErrors = (errors: RowError[]) =>
+  errors.map(error => (error.field ? `${error.field}: ${error.message}` : error.message)).join('; ');
+
+const EmployeeImportWizard: React.FC<EmployeeImportWizardProps> = ({ onClose, onSuccess }) => {
+  const [step, setStep] = useState<Step>('upload');
+  // JSON exports skip column mapping
+  const [isJson, setIsJson] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [header, setHeader] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mappings, setMappings] = useState<ColumnMapping[]>([]);
+  const [records, setRecords] = useState<ImportedEmployee[]>([]);
+  const [preview, setPreview] = useState<PreviewRow[]>([]);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Spreadsheet row number (row 1 is the header), or entry number in a JSON export
+  const rowNumber = (index: number) => (isJson ? index + 1 : index + 2);
+
+  const runPreview = async (builtRecords: ImportedEmployee[]) => {
+    try {
+      setBusy(true);
+      setError(null);
+      const response = await axios.post('/employees/import/preview', { employees: builtRecords });
+      setRecords(builtRecords);
+      setPreview(response.data.data);
+      setStep('preview');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to validate rows'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const loadJsonExport = async (file: File) => {
+    const employees = await readEmployeeJson(file);
+    if (employees.length === 0 || employees.length > MAX_ROWS) {
+      setError(`The file must contain between 1 and ${MAX_ROWS} employees`);
+      return;
+    }
+
+    setIsJson(true);
+    setFileName(file.name);
+    setHeader(['Employee ID', 'Name']);
+    setRows(employees.map(employee => [employee.employeeId || '', employee.name || '']));
+    await runPreview(employees);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setError(null);
+      if (/\.json$/i.test(file.name)) {
+        await loadJsonExport(file);
+        return;
+      }
+
+      const [headerRow, ...dataRows] = await readSpreadsheet(file);
+
+      if (!headerRow || dataRows.length === 0) {
+        setError('The file needs a header row and at least one employee');
+        return;
+      }
+      if (dataRows.length > MAX_ROWS) {
+        setError(`Files are limited to ${MAX_ROWS} employees; split it and import each part`);
+        return;
+      }
+
+      setIsJson(false);
+      setFileName(file.name);
+      setHeader(headerRow);
+      setRows(dataRows);
+      setMappings(headerRow.map(guessMapping));
+      setStep('map');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the file');
+    }
+  };
+
+  const updateMapping = (column: number, changes: Partial<ColumnMapping>) => {
+    setMappings(prev => prev.map((mapping, i) => (i === column ? { ...mapping, ...changes } : mapping)));
+  };
+
+  const handleValidate = () => runPreview(rows.map(row => buildEmployeeRecord(row, mappings)));
+
+  const handleImport = async () => {
+    try {
+      setBusy(true);
+      setError(null);
+      const response = await axios.post('/employees/import', { employees: records });
+      setResult(response.data.data);
+      setStep('done');
+      onSuccess();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Import failed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const downloadErrorReport = (rejected: { index: number; errors: RowError[] }[]) => {
+    downloadCsv(
+      [
+        ['Row', ...header, 'Errors'],
+        ...rejected.map(({ index, errors }) => [String(rowNumber(index)), ...rows[index], formatErrors(errors)])
+      ],
+      `${fileName.replace(/\.[^.]+$/, '')}-errors.csv`
+    );
+  };
+
+  const validCount = preview.filter(row => row.valid).length;
+  const invalidRows = preview.filter(row => !row.valid);
+
+  return (
+    <div className="p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Import Employees</h2>
+          {fileName && <p className="text-sm text-gray-600">{fileName} · {rows.length} rows</p>}
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <X className="h-6 w-6" />
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+          <AlertCircle className="h-5 w-5 text-red-600 mt-0.5 flex-shrink-0" />
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {step === 'upload' && (
+        <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-xl p-12 cursor-pointer hover:border-blue-400 hover:bg-blue-50 transition-colors">
+          <Upload className="h-12 w-12 text-gray-400 mb-4" />
+          <span className="text-gray-900 font-medium">Choose a CSV, Excel (.xlsx) or SafeScan JSON export file</span>
+          <span className="text-sm text-gray-600 mt-1">
+            One employee per row, with a header row. Repeat columns such as "Allergy 1", "Allergy 2 Severity" or "Contact 2 Phone" as needed.
+          </span>
+          <input type="file" accept=".csv,.xlsx,.json" onChange={handleFileChange} className="hidden" />
+        </label>
+      )}
+
+      {step === 'map' && (
+        <>
+          <p className="text-gray-600 mb-4">
+            Match each column to an employee field. Numbered fields group columns into the same medication or contact.
+          </p>
+          <div className="overflow-x-auto border border-gray-200 rounded-lg mb-6">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b bg-gray-50">
+                  <th className="px-4 py-2">Column</th>
+                  <th className="px-4 py-2">First row</th>
+                  <th className="px-4 py-2">Employee field</th>
+                  <th className="px-4 py-2">No.</th>
+                </tr>
+              </thead>
+              <tbody>
+                {header.map((column, index) => {
+                  const field = IMPORT_FIELDS.find(f => f.key === mappings[index].field);
+                  return (
+                    <tr key={index} className="border-b last:border-0">
+                      <td className="px-4 py-2 font-medium text-gray-900">{column || `Column ${index + 1}`}</td>
+                      <td className="px-4 py-2 text-gray-500 max-w-xs truncate">{rows[0][index]}</td>
+                      <td className="px-4 py-2">
+                        <select
+                          value={mappings[index].field}
+                          onChange={(e) => updateMapping(index, { field: e.target.value })}
+                          className="w-full px-3 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="">Ignore column</option>
+                          {IMPORT_FIELDS.map(f => (
+                            <option key={f.key} value={f.key}>{f.label}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-4 py-2">
+                        {field?.kind === 'group' && (
+                          <input
+                            type="number"
+                            min={1}
+                            value={mappings[index].slot}
+                            onChange={(e) => updateMapping(index, { slot: Math.max(Number(e.target.value), 1) })}
+                            className="w-16 px-2 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex justify-between">
+            <button
+              onClick={() => setStep('upload')}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors flex items-center space-x-2"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              <span>Choose another file</span>
+            </button>
+            <button
+              onClick={handleValidate}
+              disabled={busy}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              {busy ? 'Validating...' : 'Validate Rows'}
+            </button>
+          </div>
+        </>
+      )}
+
+      {step === 'preview' && (
+        <>
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+              <p className="text-sm text-green-800">Ready to import</p>
+              <p className="text-2xl font-bold text-green-900">{validCount}</p>
+            </div>
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <p className="text-sm text-red-800">Will be rejected</p>
+              <p className="text-2xl font-bold text-red-900">{invalidRows.length}</p>
+            </div>
+          </div>
+          <div className="overflow-auto max-h-96 border border-gray-200 rounded-lg mb-6">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b bg-gray-50">
+                  <th className="px-4 py-2">Row</th>
+                  <th className="px-4 py-2">Employee ID</th>
+                  <th className="px-4 py-2">Name</th>
+                  <th className="px-4 py-2">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.map(row => (
+                  <tr key={row.index} className="border-b last:border-0 align-top">
+                    <td className="px-4 py-2 text-gray-500">{rowNumber(row.index)}</td>
+                    <td className="px-4 py-2 text-gray-900">{row.employeeId || '—'}</td>
+                    <td className="px-4 py-2 text-gray-900">{records[row.index]?.name || '—'}</td>
+                    <td className="px-4 py-2">
+                      {row.valid ? (
+                        <span className="flex items-center space-x-1 text-green-700">
+                          <CheckCircle className="h-4 w-4" />
+                          <span>Valid</span>
+                        </span>
+                      ) : (
+                        <ul className="text-red-700 space-y-0.5">
+                          {row.errors.map((rowError, i) => (
+                            <li key={i}>{rowError.message}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex justify-between">
+            <div className="flex space-x-3">
+              <button
+                onClick={() => setStep(isJson ? 'upload' : 'map')}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors flex items-center space-x-2"
+              >
+                <ArrowLeft className="h-4 w-4" />
+                <span>{isJson ? 'Choose another file' : 'Adjust mapping'}</span>
+              </button>
+              {invalidRows.length > 0 && (
+                <button
+                  onClick={() => downloadErrorReport(invalidRows)}
+                  className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors flex items-center space-x-2"
+                >
+                  <Download className="h-4 w-4" />
+                  <span>Error report</span>
+                </button>
+              )}
+            </div>
+            <button
+              onClick={handleImport}
+              disabled={busy || validCount === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              {busy ? 'Importing...' : `Import ${validCount} Employee${validCount === 1 ? '' : 's'}`}
+            </button>
+          </div>
+        </>
+      )}
+
+      {step === 'done' && result && (
+        <div className="text-center py-8">
+          <CheckCircle className="h-16 w-16 text-green-600 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">
+            Imported {result.created.length} employee{result.created.length === 1 ? '' : 's'}
+          </h3>
+          {result.rejected.length > 0 && (
+            <p className="text-gray-600 mb-6">
+              {result.rejected.length} row{result.rejected.length === 1 ? ' was' : 's were'} rejected. Download the error report, fix the rows and import them again.
+            </p>
+          )}
+          <div className="flex justify-center space-x-3">
+            {result.rejected.length > 0 && (
+              <button
+                onClick={() => downloadErrorReport(result.rejected)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors flex items-center space-x-2"
+              >
+                <Download className="h-4 w-4" />
+                <span>Download Error Report</span>
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EmployeeImportWizard;
@@ -1,5 +1,14 @@
 import React, { useState } from 'react';
-import { Employee, useEmployee } from '../context/EmployeeContext';
+import { Link } from 'react-router-dom';
+import axios from 'axios';
+import { BadgePaper, DownloadedFile, Employee, ExportFormat, useEmployee } from '../context/EmployeeContext';
+import { useAuth } from '../context/AuthContext';
+import { useLanguage } from '../context/LanguageContext';
+import { AUDIT_ROLES } from '../utils/roles';
+import { saveFile } from '../utils/download';
+import { getErrorMessage } from '../utils/apiError';
+import { criticalAllergiesOf } from '../utils/allergies';
+import QRDownloadDialog from './QRDownloadDialog';
 import { 
   Edit, 
   Trash2, 
@@ -9,61 +18,150 @@ import {
   Heart, 
   AlertTriangle,
   Search,
-  Filter
+  Filter,
+  RotateCcw,
+  History,
+  ChevronDown,
+  CreditCard,
+  FileJson,
+  UserPlus
 } from 'lucide-react';
 
 interface EmployeeListProps {
   employees: Employee[];
   onEditEmployee: (employee: Employee) => void;
   onRefresh: () => void;
+  readOnly?: boolean;
 }
 
 const EmployeeList: React.FC<EmployeeListProps> = ({ 
   employees, 
   onEditEmployee, 
-  onRefresh 
+  onRefresh,
+  readOnly = false
 }) => {
-  const { deleteEmployee, generateQRCode, loading } = useEmployee();
+  const {
+    deleteEmployee,
+    reissueBadge,
+    exportEmployees,
+    downloadBadge,
+    downloadFhirBundle,
+    downloadBadgeSheet,
+    loading
+  } = useEmployee();
+  const { hasRole } = useAuth();
+  const { formatDate } = useLanguage();
+  const canAudit = hasRole(...AUDIT_ROLES);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterBloodGroup, setFilterBloodGroup] = useState('');
   const [deletingId, setDeletingId] = useState<string | null>(null);
-  const [generatingQRId, setGeneratingQRId] = useState<string | null>(null);
+  const [qrEmployee, setQrEmployee] = useState<Employee | null>(null);
+  const [reissuingId, setReissuingId] = useState<string | null>(null);
+  const [printingBadgeId, setPrintingBadgeId] = useState<string | null>(null);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [grantingId, setGrantingId] = useState<string | null>(null);
+  const [accessGranted, setAccessGranted] = useState<{ name: string; email: string } | null>(null);
+
+  // Exports and badge sheets cover what the filters currently show; the
+  // server applies the same filters
+  const runExport = async (download: () => Promise<DownloadedFile>) => {
+    setShowExportMenu(false);
+    setExporting(true);
+    setExportError(null);
+    try {
+      saveFile(await download());
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : 'Export failed');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const currentFilters = () => ({
+    search: searchTerm || undefined,
+    bloodGroup: filterBloodGroup || undefined
+  });
+
+  const handleExport = (format: ExportFormat) => runExport(() => exportEmployees(format, currentFilters()));
+
+  const handlePrintBadges = (paper: BadgePaper) => runExport(() => downloadBadgeSheet(paper, currentFilters()));
+
+  // One record, for the occupational-health provider's EHR
+  const handleExportFhir = (employee: Employee) => runExport(() => downloadFhirBundle(employee._id));
+
+  const handlePrintBadge = async (employee: Employee) => {
+    setPrintingBadgeId(employee._id);
+    setExportError(null);
+    try {
+      saveFile(await downloadBadge(employee._id));
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : 'Failed to generate badge');
+    } finally {
+      setPrintingBadgeId(null);
+    }
+  };
 
   const handleDelete = async (id: string) => {
-    if (window.confirm('Are you sure you want to delete this employee? This action cannot be undone.')) {
+    if (window.confirm('Archive this employee? They leave the directory and their badge stops working. The record can be restored from Archived Employees until the retention period ends, then it is erased for good.')) {
       setDeletingId(id);
       try {
         await deleteEmployee(id);
         onRefresh();
       } catch (error) {
-        console.error('Delete error:', error);
+        console.error('Archive error:', error);
       } finally {
         setDeletingId(null);
       }
     }
   };
 
-  const handleGenerateQR = async (employee: Employee) => {
-    setGeneratingQRId(employee._id);
+  const downloadQRCode = (employee: Employee, qrCodeDataUrl: string) => {
+    const link = document.createElement('a');
+    link.href = qrCodeDataUrl;
+    link.download = `${employee.name.replace(/\s+/g, '_')}_QR_Code.png`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const handleReissueBadge = async (employee: Employee) => {
+    if (!window.confirm(`Reissue ${employee.name}'s badge? The current badge will stop working immediately and a new QR code will be downloaded for printing.`)) {
+      return;
+    }
+
+    setReissuingId(employee._id);
     try {
-      const qrCodeDataUrl = await generateQRCode(employee._id);
-      
-      // Create download link
-      const link = document.createElement('a');
-      link.href = qrCodeDataUrl;
-      link.download = `${employee.name.replace(/\s+/g, '_')}_QR_Code.png`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+      const qrCodeDataUrl = await reissueBadge(employee._id);
+      downloadQRCode(employee, qrCodeDataUrl);
     } catch (error) {
-      console.error('QR generation error:', error);
+      console.error('Badge reissue error:', error);
     } finally {
-      setGeneratingQRId(null);
+      setReissuingId(null);
     }
   };
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US');
+  // Creates the employee's self-service login; the sign-in link goes only to
+  // their email, so nobody else can sign in as them
+  const handleGrantAccess = async (employee: Employee) => {
+    const email = window.prompt(
+      `Email address for ${employee.name}'s self-service login:`,
+      employee.scanNotifications?.email || ''
+    );
+    if (!email) return;
+
+    setGrantingId(employee._id);
+    setExportError(null);
+    setAccessGranted(null);
+    try {
+      const response = await axios.post('/self-service/accounts', { employee: employee._id, email: email.trim() });
+      setAccessGranted({ name: employee.name, email: response.data.data.email });
+    } catch (error) {
+      setExportError(getErrorMessage(error, 'Failed to create self-service access'));
+    } finally {
+      setGrantingId(null);
+    }
   };
 
   const calculateAge = (dob: string) => {
@@ -128,8 +226,62 @@ const EmployeeList: React.FC<EmployeeListProps> = ({
             ))}
           </select>
         </div>
+
+        <div className="relative">
+          <button
+            onClick={() => setShowExportMenu(prev => !prev)}
+            disabled={exporting || filteredEmployees.length === 0}
+            className="w-full sm:w-auto px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50 transition-colors flex items-center justify-center space-x-2"
+          >
+            <Download className="h-4 w-4" />
+            <span>{exporting ? 'Exporting...' : 'Export'}</span>
+            <ChevronDown className="h-4 w-4" />
+          </button>
+          {showExportMenu && (
+            <div className="absolute right-0 mt-2 w-56 bg-white border border-gray-200 rounded-lg shadow-lg z-10">
+              <button onClick={() => handleExport('csv')} className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50">
+                CSV spreadsheet
+              </button>
+              <button onClick={() => handleExport('json')} className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50">
+                JSON (re-importable)
+              </button>
+              <button onClick={() => handleExport('pdf')} className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50">
+                PDF roster for printing
+              </button>
+              {!readOnly && (
+                <>
+                  <div className="border-t border-gray-100 px-4 pt-2 pb-1 text-xs font-medium text-gray-500">
+                    Badges (double-sided, with crop marks)
+                  </div>
+                  <button onClick={() => handlePrintBadges('a4')} className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50">
+                    Badge sheets, A4
+                  </button>
+                  <button onClick={() => handlePrintBadges('letter')} className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50">
+                    Badge sheets, Letter
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+        </div>
       </div>
 
+      {exportError && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 flex items-center space-x-2">
+          <AlertTriangle className="h-4 w-4 text-red-600 flex-shrink-0" />
+          <p className="text-red-700 text-sm">{exportError}</p>
+        </div>
+      )}
+
+      {accessGranted && (
+        <div className="mb-4 bg-green-50 border border-green-200 rounded-lg p-3">
+          <p className="text-sm text-green-800 font-medium">
+            Self-service access created. A sign-in link was emailed to {accessGranted.name} at {accessGranted.email}; if it
+            does not arrive, they can request a new one from the login page.
+          </p>
+        </div>
+      )}
+
       {/* Results count */}
       <div className="mb-4">
         <p className="text-sm text-gray-600">
@@ -146,7 +298,10 @@ const EmployeeList: React.FC<EmployeeListProps> = ({
                 <div className="flex items-center space-x-4 mb-3">
                   <div>
                     <h3 className="text-lg font-semibold text-gray-900">{employee.name}</h3>
-                    <p className="text-sm text-gray-600">ID: {employee.employeeId}</p>
+                    <p className="text-sm text-gray-600">
+                      ID: {employee.employeeId}
+                      {employee.site && <span> · Site: {employee.site}</span>}
+                    </p>
                   </div>
                   <div className="bg-red-600 text-white px-3 py-1 rounded-full text-sm font-medium">
                     {employee.bloodGroup}
@@ -173,6 +328,12 @@ const EmployeeList: React.FC<EmployeeListProps> = ({
                       <span>{employee.allergies.length} allerg{employee.allergies.length === 1 ? 'y' : 'ies'}</span>
                     </div>
                   )}
+                  {criticalAllergiesOf(employee.allergies).length > 0 && (
+                    <div className="flex items-center space-x-1 bg-red-600 text-white px-2 py-1 rounded-full text-xs font-semibold">
+                      <AlertTriangle className="h-3 w-3" />
+                      <span>Anaphylaxis risk</span>
+                    </div>
+                  )}
                   {employee.medications && employee.medications.length > 0 && (
                     <div className="flex items-center space-x-1 bg-blue-100 text-blue-800 px-2 py-1 rounded-full text-xs">
                       <Heart className="h-3 w-3" />
@@ -190,39 +351,96 @@ const EmployeeList: React.FC<EmployeeListProps> = ({
 
               {/* Actions */}
               <div className="flex items-center space-x-2 ml-4">
-                <button
-                  onClick={() => handleGenerateQR(employee)}
-                  disabled={generatingQRId === employee._id}
-                  className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50"
-                  title="Download QR Code"
-                >
-                  {generatingQRId === employee._id ? (
-                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
-                  ) : (
-                    <QrCode className="h-4 w-4" />
-                  )}
-                </button>
-
-                <button
-                  onClick={() => onEditEmployee(employee)}
-                  className="p-2 text-gray-600 hover:bg-gray-50 rounded-lg transition-colors"
-                  title="Edit Employee"
-                >
-                  <Edit className="h-4 w-4" />
-                </button>
-
-                <button
-                  onClick={() => handleDelete(employee._id)}
-                  disabled={deletingId === employee._id}
-                  className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
-                  title="Delete Employee"
-                >
-                  {deletingId === employee._id ? (
-                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-red-600"></div>
-                  ) : (
-                    <Trash2 className="h-4 w-4" />
-                  )}
-                </button>
+                {canAudit && (
+                  <Link
+                    to={`/admin/scans?employee=${employee._id}`}
+                    className="p-2 text-purple-600 hover:bg-purple-50 rounded-lg transition-colors"
+                    title="Scan History"
+                  >
+                    <History className="h-4 w-4" />
+                  </Link>
+                )}
+
+                {!readOnly && (
+                  <>
+                    <button
+                      onClick={() => setQrEmployee(employee)}
+                      className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                      title="Download QR Code"
+                    >
+                      <QrCode className="h-4 w-4" />
+                    </button>
+
+                    <button
+                      onClick={() => handlePrintBadge(employee)}
+                      disabled={printingBadgeId === employee._id}
+                      className="p-2 text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors disabled:opacity-50"
+                      title="Print Badge (PDF)"
+                    >
+                      {printingBadgeId === employee._id ? (
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-indigo-600"></div>
+                      ) : (
+                        <CreditCard className="h-4 w-4" />
+                      )}
+                    </button>
+
+                    <button
+                      onClick={() => handleExportFhir(employee)}
+                      disabled={exporting}
+                      className="p-2 text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors disabled:opacity-50"
+                      title="Export FHIR Bundle"
+                    >
+                      <FileJson className="h-4 w-4" />
+                    </button>
+
+                    <button
+                      onClick={() => handleReissueBadge(employee)}
+                      disabled={reissuingId === employee._id}
+                      className="p-2 text-orange-600 hover:bg-orange-50 rounded-lg transition-colors disabled:opacity-50"
+                      title="Reissue Badge"
+                    >
+                      {reissuingId === employee._id ? (
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-orange-600"></div>
+                      ) : (
+                        <RotateCcw className="h-4 w-4" />
+                      )}
+                    </button>
+
+                    <button
+                      onClick={() => handleGrantAccess(employee)}
+                      disabled={grantingId === employee._id}
+                      className="p-2 text-teal-600 hover:bg-teal-50 rounded-lg transition-colors disabled:opacity-50"
+                      title="Give Self-service Access"
+                    >
+                      {grantingId === employee._id ? (
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-teal-600"></div>
+                      ) : (
+                        <UserPlus className="h-4 w-4" />
+                      )}
+                    </button>
+
+                    <button
+                      onClick={() => onEditEmployee(employee)}
+                      className="p-2 text-gray-600 hover:bg-gray-50 rounded-lg transition-colors"
+                      title="Edit Employee"
+                    >
+                      <Edit className="h-4 w-4" />
+                    </button>
+
+                    <button
+                      onClick={() => handleDelete(employee._id)}
+                      disabled={deletingId === employee._id}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                      title="Archive Employee"
+                    >
+                      {deletingId === employee._id ? (
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-red-600"></div>
+                      ) : (
+                        <Trash2 className="h-4 w-4" />
+                      )}
+                    </button>
+                  </>
+                )}
               </div>
             </div>
           </div>
@@ -236,6 +454,10 @@ const EmployeeList: React.FC<EmployeeListProps> = ({
           <p className="text-gray-600">Try adjusting your search terms or filters.</p>
         </div>
       )}
+
+      {qrEmployee && (
+        <QRDownloadDialog employee={qrEmployee} onClose={() => setQrEmployee(null)} />
+      )}
     </div>
   );
 };
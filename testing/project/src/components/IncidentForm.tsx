@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import axios from 'axios';
+import { getErrorMessage } from '../utils/apiError';
+import { IncidentInput, IncidentVitals, VITAL_FIELDS, VitalField } from '../utils/incidents';
+import { X, AlertCircle, Loader2 } from 'lucide-react';
+
+interface IncidentFormProps {
+  employeeId: string;
+  employeeName?: string;
+  // The scan that brought the responder here, linked to the incident
+  scanId?: string;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+// datetime-local inputs work in local time without a zone
+const toLocalInput = (date: Date) =>
+  new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : undefined);
+
+const IncidentForm: React.FC<IncidentFormProps> = ({ employeeId, employeeName, scanId, onClose, onSaved }) => {
+  const [occurredAt, setOccurredAt] = useState(() => toLocalInput(new Date()));
+  const [location, setLocation] = useState('');
+  const [vitals, setVitals] = useState<Partial<Record<VitalField, string>>>({});
+  const [actionsTaken, setActionsTaken] = useState('');
+  const [hospital, setHospital] = useState('');
+  const [handedOverAt, setHandedOverAt] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    const readings: IncidentVitals = {};
+    VITAL_FIELDS.forEach(({ field }) => {
+      if (vitals[field]) readings[field] = Number(vitals[field]);
+    });
+
+    const incident: IncidentInput = {
+      employee: employeeId,
+      scanEvent: scanId,
+      occurredAt: fromLocalInput(occurredAt) || new Date().toISOString(),
+      location: location.trim() || undefined,
+      vitals: Object.keys(readings).length > 0 ? [readings] : [],
+      actionsTaken: actionsTaken.trim() || undefined,
+      handover: hospital.trim()
+        ? { hospital: hospital.trim(), handedOverAt: fromLocalInput(handedOverAt) }
+        : undefined
+    };
+
+    try {
+      await axios.post('/incidents', incident);
+      onSaved();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to record incident'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Record Incident</h2>
+            {employeeName && <p className="text-sm text-gray-600">{employeeName}</p>}
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 flex items-start space-x-2">
+            <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0" />
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">When</label>
+              <input
+                type="datetime-local"
+                value={occurredAt}
+                max={toLocalInput(new Date())}
+                onChange={(e) => setOccurredAt(e.target.value)}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Where</label>
+              <input
+                type="text"
+                value={location}
+                onChange={(e) => setLocation(e.target.value)}
+                maxLength={200}
+                placeholder="e.g. Loading bay 3, north warehouse"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Vitals</h3>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {VITAL_FIELDS.map(({ field, label, unit, min, max, step }) => (
+                <div key={field}>
+                  <label className="block text-xs text-gray-600 mb-1">{label} ({unit})</label>
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    min={min}
+                    max={max}
+                    step={step || 1}
+                    value={vitals[field] || ''}
+                    onChange={(e) => setVitals(prev => ({ ...prev, [field]: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Actions taken</label>
+            <textarea
+              value={actionsTaken}
+              onChange={(e) => setActionsTaken(e.target.value)}
+              maxLength={2000}
+              rows={4}
+              placeholder="Treatment given, medication administered, observations"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Handed over to (hospital)</label>
+              <input
+                type="text"
+                value={hospital}
+                onChange={(e) => setHospital(e.target.value)}
+                maxLength={120}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Handover time</label>
+              <input
+                type="datetime-local"
+                value={handedOverAt}
+                max={toLocalInput(new Date())}
+                onChange={(e) => setHandedOverAt(e.target.value)}
+                disabled={!hospital.trim()}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 disabled:bg-gray-100"
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center space-x-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors"
+            >
+              {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+              <span>{saving ? 'Saving...' : 'Save incident'}</span>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default IncidentForm;
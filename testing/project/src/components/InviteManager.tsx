@@ -0,0 +1,216 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import axios from 'axios';
+import { ROLE_LABELS, STAFF_ROLES, UserRole } from '../utils/roles';
+import { getErrorMessage } from '../utils/apiError';
+import { useLanguage } from '../context/LanguageContext';
+import { AlertCircle, Copy, Mail, Send, XCircle } from 'lucide-react';
+
+type InviteStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+interface Invite {
+  _id: string;
+  email: string;
+  role: UserRole;
+  status: InviteStatus;
+  expiresAt: string;
+  createdAt: string;
+  createdBy?: { username: string };
+}
+
+const STATUS_STYLES: Record<InviteStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  accepted: 'bg-green-100 text-green-800',
+  revoked: 'bg-gray-100 text-gray-700',
+  expired: 'bg-red-100 text-red-800'
+};
+
+const InviteManager: React.FC = () => {
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [createdLink, setCreatedLink] = useState<string | null>(null);
+  const [formData, setFormData] = useState({
+    email: '',
+    role: 'responder' as UserRole,
+    expiresInDays: 7
+  });
+  const { formatDate } = useLanguage();
+
+  const fetchInvites = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await axios.get('/invites');
+      setInvites(response.data.data);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to fetch invitations'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchInvites();
+  }, [fetchInvites]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    setCreatedLink(null);
+
+    try {
+      const response = await axios.post('/invites', formData);
+      setCreatedLink(response.data.data.acceptUrl);
+      setInvites(prev => [response.data.data.invite, ...prev]);
+      setFormData(prev => ({ ...prev, email: '' }));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to create invitation'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    if (!window.confirm('Revoke this invitation? The link will stop working immediately.')) return;
+
+    try {
+      const response = await axios.delete(`/invites/${id}`);
+      setInvites(prev => prev.map(invite => invite._id === id ? { ...invite, ...response.data.data } : invite));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to revoke invitation'));
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm mb-8">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center space-x-2">
+        <Mail className="h-5 w-5 text-green-600" />
+        <h2 className="text-lg font-semibold text-gray-900">Invitations</h2>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-start space-x-2">
+            <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0" />
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <input
+            type="email"
+            required
+            value={formData.email}
+            onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
+            className="md:col-span-2 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+            placeholder="new.user@company.com"
+          />
+          <select
+            value={formData.role}
+            onChange={(e) => setFormData(prev => ({ ...prev, role: e.target.value as UserRole }))}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+          >
+            {STAFF_ROLES.map(role => (
+              <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+            ))}
+          </select>
+          <div className="flex items-center space-x-2">
+            <select
+              value={formData.expiresInDays}
+              onChange={(e) => setFormData(prev => ({ ...prev, expiresInDays: Number(e.target.value) }))}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+              title="Invitation expiry"
+            >
+              {[1, 3, 7, 14, 30].map(days => (
+                <option key={days} value={days}>{days} day{days === 1 ? '' : 's'}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors flex items-center space-x-1"
+            >
+              <Send className="h-4 w-4" />
+              <span>Invite</span>
+            </button>
+          </div>
+        </form>
+
+        {createdLink && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-3">
+            <p className="text-sm text-green-800 font-medium mb-2">
+              Invitation created. Share this one-time link with the invitee:
+            </p>
+            <div className="flex items-center space-x-2">
+              <input
+                readOnly
+                value={createdLink}
+                className="flex-1 px-3 py-2 border border-green-200 rounded-lg bg-white text-sm text-gray-700"
+              />
+              <button
+                type="button"
+                onClick={() => navigator.clipboard.writeText(createdLink)}
+                className="p-2 text-green-700 hover:bg-green-100 rounded-lg"
+                title="Copy link"
+              >
+                <Copy className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-green-600"></div>
+            <span className="ml-3 text-gray-600">Loading invitations...</span>
+          </div>
+        ) : invites.length === 0 ? (
+          <p className="text-sm text-gray-500 italic">No invitations sent yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-2 pr-4">Email</th>
+                  <th className="py-2 pr-4">Role</th>
+                  <th className="py-2 pr-4">Status</th>
+                  <th className="py-2 pr-4">Expires</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {invites.map(invite => (
+                  <tr key={invite._id} className="border-b last:border-0">
+                    <td className="py-2 pr-4 text-gray-900">{invite.email}</td>
+                    <td className="py-2 pr-4 text-gray-600">{ROLE_LABELS[invite.role]}</td>
+                    <td className="py-2 pr-4">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[invite.status]}`}>
+                        {invite.status}
+                      </span>
+                    </td>
+                    <td className="py-2 pr-4 text-gray-600">{formatDate(invite.expiresAt)}</td>
+                    <td className="py-2 text-right">
+                      {invite.status === 'pending' && (
+                        <button
+                          onClick={() => handleRevoke(invite._id)}
+                          className="p-1 text-red-600 hover:bg-red-50 rounded-lg"
+                          title="Revoke invitation"
+                        >
+                          <XCircle className="h-4 w-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InviteManager;
@@ -0,0 +1,30 @@
+import React from 'react';
+import { useLanguage } from '../context/LanguageContext';
+import { LANGUAGES, isLanguage } from '../locales';
+import { Languages } from 'lucide-react';
+
+// Lets whoever is holding the device read the scanner and profile in their
+// own language; the choice is remembered on the device
+const LanguageSwitcher: React.FC = () => {
+  const { language, setLanguage, t } = useLanguage();
+
+  return (
+    <label className="flex items-center space-x-2 text-sm text-gray-600">
+      <Languages className="h-4 w-4" />
+      <span className="sr-only">{t('language.label')}</span>
+      <select
+        value={language}
+        onChange={(e) => {
+          if (isLanguage(e.target.value)) setLanguage(e.target.value);
+        }}
+        className="px-2 py-1 border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        {LANGUAGES.map(({ code, label }) => (
+          <option key={code} value={code} lang={code}>{label}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default LanguageSwitcher;
@@ -0,0 +1,228 @@
+import React, { useEffect, useState } from 'react';
+import { Html5Qrcode } from 'html5-qrcode';
+import { useAuth } from '../context/AuthContext';
+import { EmployeeMatch, useEmployee } from '../context/EmployeeContext';
+import { useOffline } from '../context/OfflineContext';
+import { useLanguage } from '../context/LanguageContext';
+import { NetworkError } from '../utils/apiError';
+import { ImageUp, KeyRound, Search, AlertCircle, Loader2 } from 'lucide-react';
+
+interface ManualLookupProps {
+  // Receives text in the same form a camera scan produces
+  onResult: (decodedText: string) => void;
+}
+
+type LookupMode = 'photo' | 'code' | 'search';
+
+const FILE_DECODER_ID = 'qr-file-decoder';
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 300;
+
+// Same rules as the server: case, spaces and dashes do not matter, and the
+// easily confused O/0 and I/L/1 are read as digits
+const normalizeBadgeCode = (input: string) =>
+  input.toUpperCase().replace(/[\s-]/g, '').replace(/O/g, '0').replace(/[IL]/g, '1');
+
+// Ways to reach a profile when the camera cannot read the badge. Every path
+// ends in a badge or record URL, so the scanner handles it like a scan.
+const ManualLookup: React.FC<ManualLookupProps> = ({ onResult }) => {
+  const { user } = useAuth();
+  const { resolveBadgeCode, lookupEmployees } = useEmployee();
+  const { isOnline, findProfile } = useOffline();
+  const { t } = useLanguage();
+  const [mode, setMode] = useState<LookupMode>('photo');
+  const [code, setCode] = useState('');
+  const [query, setQuery] = useState('');
+  const [matches, setMatches] = useState<EmployeeMatch[]>([]);
+  // The query the current matches are for
+  const [searched, setSearched] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const badgeUrl = (token: string) => `${window.location.origin}/badge/${token}`;
+
+  useEffect(() => {
+    if (mode !== 'search' || query.trim().length < 2 || !isOnline) {
+      setMatches([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const results = await lookupEmployees(query.trim());
+        if (!cancelled) {
+          setMatches(results);
+          setSearched(query.trim());
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : t('lookup.searchFailed'));
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [mode, query, isOnline, lookupEmployees, t]);
+
+  const switchMode = (next: LookupMode) => {
+    setMode(next);
+    setError(null);
+  };
+
+  const handlePhoto = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setBusy(true);
+    setError(null);
+    const decoder = new Html5Qrcode(FILE_DECODER_ID);
+    try {
+      onResult(await decoder.scanFile(file, false));
+    } catch {
+      setError(t('lookup.noQrInPhoto'));
+    } finally {
+      decoder.clear();
+      setBusy(false);
+    }
+  };
+
+  const handleCodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const normalized = normalizeBadgeCode(code);
+    if (normalized.length !== 8) {
+      setError(t('lookup.codeLength'));
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    try {
+      onResult(badgeUrl(await resolveBadgeCode(normalized)));
+    } catch (err) {
+      if (!(err instanceof NetworkError)) {
+        setError(err instanceof Error ? err.message : t('lookup.codeFailed'));
+        return;
+      }
+      const cached = await findProfile({ code: normalized }).catch(() => null);
+      if (cached?.profile.badgeToken) {
+        onResult(badgeUrl(cached.profile.badgeToken));
+      } else {
+        setError(t('lookup.codeNotCached'));
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const tabClass = (tab: LookupMode) =>
+    `flex-1 flex items-center justify-center space-x-1 px-3 py-2 text-sm font-medium rounded-lg transition-colors ${
+      mode === tab ? 'bg-red-600 text-white' : 'text-gray-600 hover:bg-gray-100'
+    }`;
+
+  return (
+    <div className="w-full max-w-md mx-auto mt-6 bg-white rounded-xl shadow-lg p-6">
+      <h3 className="font-semibold text-gray-900 mb-3">{t('lookup.title')}</h3>
+
+      <div className="flex space-x-1 mb-4">
+        <button type="button" onClick={() => switchMode('photo')} className={tabClass('photo')}>
+          <ImageUp className="h-4 w-4" />
+          <span>{t('lookup.photo')}</span>
+        </button>
+        <button type="button" onClick={() => switchMode('code')} className={tabClass('code')}>
+          <KeyRound className="h-4 w-4" />
+          <span>{t('lookup.code')}</span>
+        </button>
+        {user && (
+          <button type="button" onClick={() => switchMode('search')} className={tabClass('search')}>
+            <Search className="h-4 w-4" />
+            <span>{t('lookup.search')}</span>
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 flex items-start space-x-2">
+          <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0" />
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {mode === 'photo' && (
+        <div>
+          <label className={`flex items-center justify-center space-x-2 w-full px-4 py-3 border-2 border-dashed border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 cursor-pointer ${busy ? 'opacity-50 pointer-events-none' : ''}`}>
+            {busy ? <Loader2 className="h-5 w-5 animate-spin" /> : <ImageUp className="h-5 w-5" />}
+            <span>{busy ? t('lookup.readingPhoto') : t('lookup.choosePhoto')}</span>
+            <input type="file" accept="image/*" capture="environment" onChange={handlePhoto} className="hidden" />
+          </label>
+        </div>
+      )}
+
+      {mode === 'code' && (
+        <form onSubmit={handleCodeSubmit} className="flex space-x-2">
+          <input
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="XXXX-XXXX"
+            autoCapitalize="characters"
+            autoComplete="off"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg font-mono uppercase focus:outline-none focus:ring-2 focus:ring-red-500"
+          />
+          <button
+            type="submit"
+            disabled={busy || !code.trim()}
+            className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors"
+          >
+            {busy ? t('lookup.lookingUp') : t('lookup.open')}
+          </button>
+        </form>
+      )}
+
+      {mode === 'search' && user && (
+        <div>
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t('lookup.searchPlaceholder')}
+            disabled={!isOnline}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 disabled:bg-gray-100"
+          />
+          {!isOnline && (
+            <p className="text-sm text-gray-500 mt-2">{t('lookup.searchOffline')}</p>
+          )}
+          {matches.length > 0 && (
+            <ul className="mt-3 divide-y border border-gray-200 rounded-lg">
+              {matches.map(match => (
+                <li key={match._id}>
+                  <button
+                    type="button"
+                    onClick={() => onResult(`${window.location.origin}/employee/${match._id}`)}
+                    className="w-full text-left px-3 py-2 hover:bg-gray-50"
+                  >
+                    <div className="font-medium text-gray-900">{match.name}</div>
+                    <div className="text-sm text-gray-500">
+                      {match.employeeId}{match.site ? ` · ${match.site}` : ''}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {searched === query.trim() && matches.length === 0 && !error && (
+            <p className="text-sm text-gray-500 mt-2">{t('lookup.noMatches')}</p>
+          )}
+        </div>
+      )}
+
+      <div id={FILE_DECODER_ID} className="hidden" />
+    </div>
+  );
+};
+
+export default ManualLookup;
@@ -1,19 +1,24 @@
 import React from 'react';
 import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
-import { Heart, QrCode, Settings, LogOut, LogIn } from 'lucide-react';
+import { useLanguage } from '../context/LanguageContext';
+import { Heart, QrCode, Settings, LogOut, LogIn, UserCircle } from 'lucide-react';
+import { DASHBOARD_ROLES, ROLE_LABELS } from '../utils/roles';
 
 const Navbar: React.FC = () => {
-  const { user, logout } = useAuth();
+  const { user, logout, hasRole } = useAuth();
+  const { t } = useLanguage();
   const navigate = useNavigate();
   const location = useLocation();
 
-  const handleLogout = () => {
-    logout();
+  const handleLogout = async () => {
+    await logout();
     navigate('/');
   };
 
   const isActive = (path: string) => location.pathname === path;
+  const canOpenDashboard = hasRole(...DASHBOARD_ROLES);
+  const isSelfService = hasRole('employee');
 
   return (
     <nav className="bg-white shadow-lg border-b border-red-100">
@@ -39,10 +44,10 @@ const Navbar: React.FC = () => {
               }`}
             >
               <QrCode className="h-5 w-5" />
-              <span>Scan QR Code</span>
+              <span>{t('nav.scan')}</span>
             </Link>
 
-            {user && (
+            {canOpenDashboard && (
               <Link
                 to="/admin"
                 className={`flex items-center space-x-2 px-4 py-2 rounded-lg transition-colors ${
@@ -52,7 +57,21 @@ const Navbar: React.FC = () => {
                 }`}
               >
                 <Settings className="h-5 w-5" />
-                <span>Admin Panel</span>
+                <span>{t('nav.admin')}</span>
+              </Link>
+            )}
+
+            {isSelfService && (
+              <Link
+                to="/my-profile"
+                className={`flex items-center space-x-2 px-4 py-2 rounded-lg transition-colors ${
+                  isActive('/my-profile')
+                    ? 'bg-blue-100 text-blue-700'
+                    : 'text-gray-700 hover:bg-blue-50 hover:text-blue-600'
+                }`}
+              >
+                <UserCircle className="h-5 w-5" />
+                <span>{t('nav.myProfile')}</span>
               </Link>
             )}
           </div>
@@ -60,15 +79,18 @@ const Navbar: React.FC = () => {
           <div className="flex items-center space-x-4">
             {user ? (
               <div className="flex items-center space-x-4">
-                <span className="text-gray-700 font-medium">
-                  Welcome, {user.username}
-                </span>
+                <div className="text-right">
+                  <span className="text-gray-700 font-medium block">
+                    {t('nav.welcome', { name: user.username })}
+                  </span>
+                  <span className="text-xs text-gray-500">{ROLE_LABELS[user.role]}</span>
+                </div>
                 <button
                   onClick={handleLogout}
                   className="flex items-center space-x-2 px-4 py-2 text-gray-700 hover:bg-red-50 hover:text-red-600 rounded-lg transition-colors"
                 >
                   <LogOut className="h-4 w-4" />
-                  <span>Logout</span>
+                  <span>{t('nav.logout')}</span>
                 </button>
               </div>
             ) : (
@@ -77,7 +99,7 @@ const Navbar: React.FC = () => {
                 className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
               >
                 <LogIn className="h-4 w-4" />
-                <span>Login</span>
+                <span>{t('nav.login')}</span>
               </Link>
             )}
           </div>
@@ -96,10 +118,10 @@ const Navbar: React.FC = () => {
             }`}
           >
             <QrCode className="h-5 w-5" />
-            <span>Scan QR Code</span>
+            <span>{t('nav.scan')}</span>
           </Link>
 
-          {user && (
+          {canOpenDashboard && (
             <Link
               to="/admin"
               className={`flex items-center space-x-2 px-3 py-2 rounded-lg transition-colors ${
@@ -109,7 +131,21 @@ const Navbar: React.FC = () => {
               }`}
             >
               <Settings className="h-5 w-5" />
-              <span>Admin Panel</span>
+              <span>{t('nav.admin')}</span>
+            </Link>
+          )}
+
+          {isSelfService && (
+            <Link
+              to="/my-profile"
+              className={`flex items-center space-x-2 px-3 py-2 rounded-lg transition-colors ${
+                isActive('/my-profile')
+                  ? 'bg-blue-100 text-blue-700'
+                  : 'text-gray-700 hover:bg-blue-50 hover:text-blue-600'
+              }`}
+            >
+              <UserCircle className="h-5 w-5" />
+              <span>{t('nav.myProfile')}</span>
             </Link>
           )}
         </div>
@@ -0,0 +1,84 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { useOffline } from '../context/OfflineContext';
+import { useLanguage } from '../context/LanguageContext';
+import { formatCacheAge, isOfflineCacheExpired } from '../utils/offlineCache';
+import { Wifi, WifiOff, RefreshCw, Database, AlertCircle } from 'lucide-react';
+
+// Connection state and the device's offline cache, shown above the scanner
+const OfflineStatus: React.FC = () => {
+  const { user } = useAuth();
+  const { isOnline, supported, enabled, setEnabled, info, syncing, syncError, syncNow } = useOffline();
+  const { t, locale } = useLanguage();
+  const expired = info ? isOfflineCacheExpired(info) : false;
+
+  return (
+    <div className="max-w-md mx-auto mb-6 bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        {isOnline ? (
+          <span className="flex items-center space-x-2 text-green-700 font-medium">
+            <Wifi className="h-5 w-5" />
+            <span>{t('offline.online')}</span>
+          </span>
+        ) : (
+          <span className="flex items-center space-x-2 text-amber-700 font-medium">
+            <WifiOff className="h-5 w-5" />
+            <span>{info && !expired ? t('offline.offlineCached') : t('offline.offline')}</span>
+          </span>
+        )}
+        {user && supported && enabled && (
+          <button
+            onClick={syncNow}
+            disabled={!isOnline || syncing}
+            className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 ${syncing ? 'animate-spin' : ''}`} />
+            <span>{syncing ? t('offline.syncing') : t('offline.syncNow')}</span>
+          </button>
+        )}
+      </div>
+
+      {!user ? (
+        <p className="text-sm text-gray-600">
+          <Link to="/login" className="text-blue-600 hover:text-blue-800">{t('offline.signIn')}</Link>{t('offline.signInHint')}
+        </p>
+      ) : !supported ? (
+        <p className="text-sm text-gray-600">{t('offline.unsupported')}</p>
+      ) : (
+        <>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={enabled}
+              onChange={(e) => setEnabled(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            <span>{t('offline.keepProfiles')}</span>
+          </label>
+
+          {enabled && info && (
+            <div className={`flex items-start space-x-2 text-sm ${expired ? 'text-red-700' : 'text-gray-600'}`}>
+              <Database className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>
+                {info.sites.length === 0
+                  ? t('offline.noSites')
+                  : t('offline.summary', { count: info.count, sites: info.sites.join(', '), age: formatCacheAge(info.syncedAt, locale) })}
+                {expired && ` · ${t('offline.expired')}`}
+              </span>
+            </div>
+          )}
+
+          {enabled && syncError && (
+            <div className="flex items-start space-x-2 text-sm text-red-700">
+              <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>{syncError}</span>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default OfflineStatus;
@@ -1,5 +1,6 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { Html5QrcodeScanner } from 'html5-qrcode';
+import { useLanguage } from '../context/LanguageContext';
 import { QrCode, Camera, AlertCircle } from 'lucide-react';
 
 interface QRCodeScannerProps {
@@ -11,14 +12,26 @@ const QRCodeScanner: React.FC<QRCodeScannerProps> = ({
   onScanSuccess, 
   onScanError 
 }) => {
+  const { t } = useLanguage();
   const scannerRef = useRef<HTMLDivElement>(null);
   const [scanner, setScanner] = useState<Html5QrcodeScanner | null>(null);
   const [isScanning, setIsScanning] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [cameraError, setCameraError] = useState(false);
+  // Bumped by Retry to set the scanner up again without reloading the page
+  const [attempt, setAttempt] = useState(0);
+
+  const handleCameraError = () => {
+    setCameraError(true);
+  };
 
   useEffect(() => {
     if (!scannerRef.current) return;
 
+    if (!navigator.mediaDevices?.getUserMedia) {
+      handleCameraError();
+      return;
+    }
+
     const qrScanner = new Html5QrcodeScanner(
       'qr-scanner',
       {
@@ -53,23 +66,24 @@ const QRCodeScanner: React.FC<QRCodeScannerProps> = ({
         console.error('Error clearing scanner:', error);
       }
     };
-  }, [onScanSuccess, onScanError]);
+  }, [onScanSuccess, onScanError, attempt]);
 
-  const handleCameraError = () => {
-    setError('Unable to access camera. Please ensure camera permissions are granted.');
+  const handleRetry = () => {
+    setCameraError(false);
+    setAttempt(current => current + 1);
   };
 
-  if (error) {
+  if (cameraError) {
     return (
       <div className="flex flex-col items-center justify-center p-8 bg-white rounded-xl shadow-lg">
         <AlertCircle className="h-16 w-16 text-red-500 mb-4" />
-        <h3 className="text-lg font-semibold text-gray-900 mb-2">Camera Access Required</h3>
-        <p className="text-gray-600 text-center max-w-md">{error}</p>
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">{t('camera.requiredTitle')}</h3>
+        <p className="text-gray-600 text-center max-w-md">{t('camera.error')}</p>
         <button
-          onClick={() => window.location.reload()}
+          onClick={handleRetry}
           className="mt-4 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
         >
-          Retry
+          {t('camera.retry')}
         </button>
       </div>
     );
@@ -85,11 +99,11 @@ const QRCodeScanner: React.FC<QRCodeScannerProps> = ({
         </div>
         
         <h2 className="text-xl font-semibold text-center text-gray-900 mb-2">
-          Scan Emergency QR Code
+          {t('camera.title')}
         </h2>
         
         <p className="text-gray-600 text-center mb-6">
-          Point your camera at the QR code on the employee's ID
+          {t('camera.hint')}
         </p>
 
         <div id="qr-scanner" ref={scannerRef} className="w-full" />
@@ -97,18 +111,18 @@ const QRCodeScanner: React.FC<QRCodeScannerProps> = ({
         {isScanning && (
           <div className="flex items-center justify-center mt-4">
             <Camera className="h-5 w-5 text-blue-600 mr-2" />
-            <span className="text-blue-600 font-medium">Camera is ready</span>
+            <span className="text-blue-600 font-medium">{t('camera.ready')}</span>
           </div>
         )}
       </div>
 
       <div className="mt-6 p-4 bg-blue-50 rounded-lg">
-        <h4 className="font-semibold text-blue-900 mb-2">Instructions:</h4>
+        <h4 className="font-semibold text-blue-900 mb-2">{t('camera.instructions')}</h4>
         <ul className="text-sm text-blue-800 space-y-1">
-          <li>• Hold your device steady</li>
-          <li>• Ensure the QR code is well-lit</li>
-          <li>• Keep the QR code within the scanning area</li>
-          <li>• You'll be redirected automatically after scanning</li>
+          <li>• {t('camera.instructionSteady')}</li>
+          <li>• {t('camera.instructionLight')}</li>
+          <li>• {t('camera.instructionArea')}</li>
+          <li>• {t('camera.instructionRedirect')}</li>
         </ul>
       </div>
     </div>
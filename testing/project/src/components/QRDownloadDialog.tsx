@@ -0,0 +1,248 @@
+import React, { useEffect, useState } from 'react';
+import { Employee, QRCodeOptions, QRErrorCorrection, QRFormat, useEmployee } from '../context/EmployeeContext';
+import { saveFile } from '../utils/download';
+import { X, Download, AlertCircle } from 'lucide-react';
+
+interface QRDownloadDialogProps {
+  employee: Employee;
+  onClose: () => void;
+}
+
+const FORMATS: { value: QRFormat; label: string }[] = [
+  { value: 'png', label: 'PNG image' },
+  { value: 'svg', label: 'SVG (vector)' },
+  { value: 'pdf', label: 'PDF (vector)' },
+  { value: 'eps', label: 'EPS (vector)' }
+];
+
+const ERROR_CORRECTION: { value: QRErrorCorrection; label: string }[] = [
+  { value: 'L', label: 'L (7%)' },
+  { value: 'M', label: 'M (15%)' },
+  { value: 'Q', label: 'Q (25%)' },
+  { value: 'H', label: 'H (30%)' }
+];
+
+// Printed on the badge as XXXX-XXXX
+const formatBadgeCode = (code: string) => `${code.slice(0, 4)}-${code.slice(4)}`;
+
+const DEFAULT_OPTIONS: QRCodeOptions = {
+  format: 'png',
+  size: 1200,
+  errorCorrection: 'M',
+  margin: 4,
+  dark: '#000000',
+  light: '#ffffff',
+  logo: false
+};
+
+// Preview refreshes once the options stop changing
+const PREVIEW_DELAY_MS = 300;
+
+const QRDownloadDialog: React.FC<QRDownloadDialogProps> = ({ employee, onClose }) => {
+  const { downloadQRCode } = useEmployee();
+  const [options, setOptions] = useState<QRCodeOptions>(DEFAULT_OPTIONS);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { errorCorrection, margin, dark, light, logo } = options;
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    const timer = setTimeout(async () => {
+      try {
+        const { blob } = await downloadQRCode(employee._id, {
+          format: 'png',
+          size: 256,
+          errorCorrection,
+          margin,
+          dark,
+          light,
+          logo
+        });
+        objectUrl = URL.createObjectURL(blob);
+        setPreviewUrl(objectUrl);
+        setError(null);
+      } catch (err) {
+        setPreviewUrl(null);
+        setError(err instanceof Error ? err.message : 'Failed to generate QR code');
+      }
+    }, PREVIEW_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [employee._id, downloadQRCode, errorCorrection, margin, dark, light, logo]);
+
+  const updateOption = <K extends keyof QRCodeOptions>(key: K, value: QRCodeOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  // A logo covers part of the symbol, so it needs the highest error correction
+  const handleLogoChange = (checked: boolean) => {
+    setOptions(prev => ({ ...prev, logo: checked, errorCorrection: checked ? 'H' : prev.errorCorrection }));
+  };
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    setError(null);
+    try {
+      saveFile(await downloadQRCode(employee._id, options));
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate QR code');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Download QR Code</h2>
+            <p className="text-sm text-gray-600">
+              {employee.name} · {employee.employeeId}
+              {employee.badge?.shortCode && <> · Code {formatBadgeCode(employee.badge.shortCode)}</>}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+            <AlertCircle className="h-5 w-5 text-red-600 mt-0.5 flex-shrink-0" />
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Format</label>
+              <select
+                value={options.format}
+                onChange={(e) => updateOption('format', e.target.value as QRFormat)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {FORMATS.map(format => (
+                  <option key={format.value} value={format.value}>{format.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Size ({options.format === 'png' ? 'pixels' : 'points'})
+              </label>
+              <input
+                type="number"
+                min={128}
+                max={4096}
+                step={8}
+                value={options.size}
+                onChange={(e) => updateOption('size', Number(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Error correction</label>
+                <select
+                  value={options.errorCorrection}
+                  onChange={(e) => updateOption('errorCorrection', e.target.value as QRErrorCorrection)}
+                  disabled={options.logo}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                >
+                  {ERROR_CORRECTION.map(level => (
+                    <option key={level.value} value={level.value}>{level.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Quiet zone (modules)</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={16}
+                  value={options.margin}
+                  onChange={(e) => updateOption('margin', Number(e.target.value))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Foreground</label>
+                <input
+                  type="color"
+                  value={options.dark}
+                  onChange={(e) => updateOption('dark', e.target.value)}
+                  className="h-10 w-full border border-gray-300 rounded-lg"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Background</label>
+                <input
+                  type="color"
+                  value={options.light}
+                  onChange={(e) => updateOption('light', e.target.value)}
+                  className="h-10 w-full border border-gray-300 rounded-lg"
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={options.logo}
+                onChange={(e) => handleLogoChange(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              <span>Overlay company logo (uses error correction H)</span>
+            </label>
+          </div>
+
+          <div className="flex flex-col items-center">
+            <div className="w-56 h-56 border border-gray-200 rounded-lg flex items-center justify-center bg-gray-50">
+              {previewUrl ? (
+                <img src={previewUrl} alt="QR code preview" className="w-full h-full object-contain" />
+              ) : (
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              )}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">Test the printed code with a phone before a large print run.</p>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={downloading}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors flex items-center space-x-2"
+          >
+            <Download className="h-4 w-4" />
+            <span>{downloading ? 'Generating...' : 'Download'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QRDownloadDialog;
@@ -0,0 +1,127 @@
+import React from 'react';
+import { TRIAGE_COLOURS, TriageColour, TriageSession } from '../utils/triageSession';
+import { AlertTriangle, Download, ExternalLink, Trash2, Users } from 'lucide-react';
+
+interface TriagePanelProps {
+  session: TriageSession;
+  onTag: (key: string, triage: TriageColour) => void;
+  onRemove: (key: string) => void;
+  onExport: () => void;
+  onEnd: () => void;
+}
+
+// The people scanned so far in a triage session, newest first
+const TriagePanel: React.FC<TriagePanelProps> = ({ session, onTag, onRemove, onExport, onEnd }) => {
+  const entries = [...session.entries].reverse();
+  const untagged = session.entries.filter(entry => !entry.triage).length;
+
+  return (
+    <div className="w-full max-w-md mx-auto mt-6 bg-white rounded-xl shadow-lg p-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="flex items-center space-x-2 font-semibold text-gray-900">
+          <Users className="h-5 w-5 text-red-600" />
+          <span>Triage session · {session.entries.length} scanned</span>
+        </h3>
+        <span className="text-xs text-gray-500">
+          Started {new Date(session.startedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4 text-xs">
+        {TRIAGE_COLOURS.map(option => (
+          <span key={option.value} className={`px-2 py-1 rounded-full font-medium ${option.className}`}>
+            {option.label}: {session.entries.filter(entry => entry.triage === option.value).length}
+          </span>
+        ))}
+        <span className="px-2 py-1 rounded-full font-medium bg-gray-100 text-gray-700">Untagged: {untagged}</span>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">Scan a badge to add the person to this session. The camera stays open between scans.</p>
+      ) : (
+        <ul className="divide-y border border-gray-200 rounded-lg mb-4">
+          {entries.map(entry => (
+            <li key={entry.key} className="p-3">
+              <div className="flex items-start justify-between">
+                <div>
+                  <div className="font-medium text-gray-900">{entry.name}</div>
+                  <div className="text-xs text-gray-500">
+                    {new Date(entry.scannedAt).toLocaleTimeString()}
+                    {entry.employeeId && ` · ${entry.employeeId}`}
+                    {entry.source === 'offline' && ' · offline copy'}
+                    {entry.source === 'card' && ' · read from badge'}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-1">
+                  {entry.recordId && (
+                    <a
+                      href={`/employee/${entry.recordId}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      title="Open full profile"
+                      className="p-1 text-gray-400 hover:text-blue-600"
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                    </a>
+                  )}
+                  <button
+                    onClick={() => onRemove(entry.key)}
+                    title="Remove from session"
+                    className="p-1 text-gray-400 hover:text-red-600"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-1 mt-2">
+                <span className="px-2 py-0.5 rounded bg-red-100 text-red-800 text-xs font-semibold">
+                  {entry.bloodGroup || 'Blood group unknown'}
+                </span>
+                {entry.criticalAllergies.map(allergy => (
+                  <span key={allergy} className="flex items-center px-2 py-0.5 rounded bg-orange-100 text-orange-800 text-xs font-semibold">
+                    <AlertTriangle className="h-3 w-3 mr-1" />
+                    {allergy}
+                  </span>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-4 gap-1 mt-2">
+                {TRIAGE_COLOURS.map(option => (
+                  <button
+                    key={option.value}
+                    onClick={() => onTag(entry.key, option.value)}
+                    className={`px-1 py-1 rounded text-xs font-medium transition-opacity ${option.className} ${
+                      entry.triage === option.value ? 'ring-2 ring-offset-1 ring-gray-900' : entry.triage ? 'opacity-30' : 'opacity-70'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex space-x-2">
+        <button
+          onClick={onExport}
+          disabled={entries.length === 0}
+          className="flex-1 flex items-center justify-center space-x-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors"
+        >
+          <Download className="h-4 w-4" />
+          <span>Export report</span>
+        </button>
+        <button
+          onClick={onEnd}
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          End session
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TriagePanel;
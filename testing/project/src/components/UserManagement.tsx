@@ -0,0 +1,182 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import axios from 'axios';
+import { useAuth } from '../context/AuthContext';
+import { ROLE_LABELS, STAFF_ROLES, UserRole } from '../utils/roles';
+import { getErrorMessage } from '../utils/apiError';
+import { Organization } from '../utils/sites';
+import { AlertCircle, Shield } from 'lucide-react';
+
+interface ManagedUser {
+  id: string;
+  username: string;
+  email: string;
+  role: UserRole;
+  organization: string | null;
+  assignedSites: string[];
+  // Set on self-service accounts, which keep the employee role
+  employee?: string;
+  createdAt: string;
+}
+
+const UserManagement: React.FC = () => {
+  const { user: currentUser } = useAuth();
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [usersResponse, organizationsResponse] = await Promise.all([
+        axios.get('/users'),
+        axios.get('/organizations')
+      ]);
+      setUsers(usersResponse.data.data);
+      setOrganizations(organizationsResponse.data.data);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to fetch users'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  const handleRoleChange = async (id: string, role: UserRole) => {
+    setUpdatingId(id);
+    setError(null);
+    try {
+      const response = await axios.patch(`/users/${id}/role`, { role });
+      setUsers(prev => prev.map(u => u.id === id ? response.data.data : u));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update role'));
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleOrganizationChange = async (id: string, organization: string) => {
+    setUpdatingId(id);
+    setError(null);
+    try {
+      const response = await axios.patch(`/users/${id}/organization`, { organization: organization || null });
+      setUsers(prev => prev.map(u => u.id === id ? response.data.data : u));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update organisation'));
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  // Only super-admins outside any organisation move accounts between them
+  const canMoveAccounts = !users.find(u => u.id === currentUser?.id)?.organization;
+
+  // Sites are typed as a comma-separated list and saved when the field loses focus
+  const handleSitesChange = async (managedUser: ManagedUser, value: string) => {
+    const sites = [...new Set(value.split(',').map(site => site.trim().toUpperCase()).filter(Boolean))];
+    if (sites.join(',') === managedUser.assignedSites.join(',')) return;
+
+    setUpdatingId(managedUser.id);
+    setError(null);
+    try {
+      const response = await axios.patch(`/users/${managedUser.id}/sites`, { sites });
+      setUsers(prev => prev.map(u => u.id === managedUser.id ? response.data.data : u));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update sites'));
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm mb-8">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center space-x-2">
+        <Shield className="h-5 w-5 text-blue-600" />
+        <h2 className="text-lg font-semibold text-gray-900">User Accounts &amp; Roles</h2>
+      </div>
+
+      {error && (
+        <div className="mx-6 mt-4 bg-red-50 border border-red-200 rounded-lg p-3 flex items-start space-x-2">
+          <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0" />
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          <span className="ml-3 text-gray-600">Loading users...</span>
+        </div>
+      ) : (
+        <div className="p-6 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-2 pr-4">Username</th>
+                <th className="py-2 pr-4">Email</th>
+                <th className="py-2 pr-4">Role</th>
+                <th className="py-2 pr-4">Organisation</th>
+                <th className="py-2" title="The user's directory shows only these sites, and their profiles may be cached on the user's device for offline scanning">Sites</th>
+              </tr>
+            </thead>
+            <tbody>
+              {users.map(u => (
+                <tr key={u.id} className="border-b last:border-0">
+                  <td className="py-2 pr-4 font-medium text-gray-900">{u.username}</td>
+                  <td className="py-2 pr-4 text-gray-600">{u.email}</td>
+                  <td className="py-2 pr-4">
+                    {u.employee ? (
+                      <span className="text-gray-600">{ROLE_LABELS[u.role]}</span>
+                    ) : (
+                      <select
+                        value={u.role}
+                        disabled={updatingId === u.id || u.id === currentUser?.id}
+                        onChange={(e) => handleRoleChange(u.id, e.target.value as UserRole)}
+                        className="px-2 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                      >
+                        {STAFF_ROLES.map(role => (
+                          <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                        ))}
+                      </select>
+                    )}
+                  </td>
+                  <td className="py-2 pr-4">
+                    <select
+                      value={u.organization || ''}
+                      disabled={!canMoveAccounts || !!u.employee || updatingId === u.id}
+                      onChange={(e) => handleOrganizationChange(u.id, e.target.value)}
+                      className="px-2 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                    >
+                      <option value="">All organisations</option>
+                      {organizations.map(organization => (
+                        <option key={organization._id} value={organization._id}>{organization.name}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-2">
+                    <input
+                      key={u.assignedSites.join(',')}
+                      type="text"
+                      defaultValue={u.assignedSites.join(', ')}
+                      placeholder="All sites"
+                      disabled={updatingId === u.id}
+                      onBlur={(e) => handleSitesChange(u, e.target.value)}
+                      className="w-48 px-2 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UserManagement;
@@ -0,0 +1,227 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import axios from 'axios';
+import { getErrorMessage } from '../utils/apiError';
+import {
+  EmployeeVersion,
+  EmployeeVersionDetail,
+  RECORD_FIELD_LABELS,
+  VERSION_SOURCE_LABELS,
+  formatFieldValue
+} from '../utils/employeeVersions';
+import { AlertCircle, ChevronDown, ChevronRight, Eye, History, RotateCcw, X } from 'lucide-react';
+
+interface VersionHistoryProps {
+  employeeId: string;
+  onRestored: () => void;
+}
+
+// datetime-local inputs work in local time without a zone
+const fromLocalInput = (value: string) => new Date(value).toISOString();
+
+const VersionHistory: React.FC<VersionHistoryProps> = ({ employeeId, onRestored }) => {
+  const [open, setOpen] = useState(false);
+  const [versions, setVersions] = useState<EmployeeVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [viewing, setViewing] = useState<EmployeeVersionDetail | null>(null);
+  const [restoringVersion, setRestoringVersion] = useState<number | null>(null);
+  const [asOf, setAsOf] = useState('');
+
+  const fetchVersions = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await axios.get(`/employees/${employeeId}/versions`);
+      setVersions(response.data.data);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load version history'));
+    } finally {
+      setLoading(false);
+    }
+  }, [employeeId]);
+
+  useEffect(() => {
+    if (open) fetchVersions();
+  }, [open, fetchVersions]);
+
+  const viewVersion = async (version: number) => {
+    try {
+      setError(null);
+      const response = await axios.get(`/employees/${employeeId}/versions/${version}`);
+      setViewing(response.data.data);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load version'));
+    }
+  };
+
+  // Answers "what did the record show at this time?"
+  const viewAsOf = async () => {
+    if (!asOf) return;
+
+    try {
+      setError(null);
+      const response = await axios.get(`/employees/${employeeId}/versions`, {
+        params: { at: fromLocalInput(asOf) }
+      });
+      const [inEffect] = response.data.data as EmployeeVersion[];
+      if (!inEffect) {
+        setViewing(null);
+        setError('The record has no recorded version from that time');
+        return;
+      }
+      await viewVersion(inEffect.version);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load version'));
+    }
+  };
+
+  const handleRestore = async (version: number) => {
+    if (!window.confirm(`Restore version ${version}? The current record is kept in the history and can be restored again.`)) {
+      return;
+    }
+
+    setRestoringVersion(version);
+    try {
+      await axios.post(`/employees/${employeeId}/versions/${version}/restore`);
+      onRestored();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to restore version'));
+    } finally {
+      setRestoringVersion(null);
+    }
+  };
+
+  const latestVersion = versions[0]?.version;
+
+  return (
+    <div className="bg-gray-50 p-4 rounded-lg">
+      <button
+        type="button"
+        onClick={() => setOpen(prev => !prev)}
+        className="flex items-center space-x-2 text-lg font-semibold text-gray-900"
+      >
+        {open ? <ChevronDown className="h-5 w-5" /> : <ChevronRight className="h-5 w-5" />}
+        <History className="h-5 w-5 text-gray-600" />
+        <span>Version History</span>
+      </button>
+
+      {open && (
+        <div className="mt-4 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-start space-x-2">
+              <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0" />
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+          )}
+
+          <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+            <label className="text-sm text-gray-700">Show the record as it was on</label>
+            <input
+              type="datetime-local"
+              value={asOf}
+              onChange={(e) => setAsOf(e.target.value)}
+              className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="button"
+              onClick={viewAsOf}
+              disabled={!asOf}
+              className="px-3 py-1.5 text-sm bg-white border border-gray-300 rounded-lg hover:bg-gray-100 disabled:opacity-50"
+            >
+              Show
+            </button>
+          </div>
+
+          {viewing && (
+            <div className="bg-white border border-blue-200 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-2">
+                <p className="font-medium text-gray-900">
+                  Version {viewing.version} · {new Date(viewing.createdAt).toLocaleString()}
+                </p>
+                <button
+                  type="button"
+                  onClick={() => setViewing(null)}
+                  className="p-1 text-gray-400 hover:text-gray-600"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+              <dl className="grid grid-cols-1 md:grid-cols-3 gap-x-4 gap-y-1 text-sm">
+                {Object.keys(RECORD_FIELD_LABELS).map(field => (
+                  <React.Fragment key={field}>
+                    <dt className="text-gray-600">{RECORD_FIELD_LABELS[field]}</dt>
+                    <dd className="md:col-span-2 text-gray-900">{formatFieldValue(field, viewing.snapshot[field])}</dd>
+                  </React.Fragment>
+                ))}
+              </dl>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center py-4">
+              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
+              <span className="ml-3 text-sm text-gray-600">Loading history...</span>
+            </div>
+          ) : versions.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">No changes have been recorded for this employee yet.</p>
+          ) : (
+            <ol className="space-y-3">
+              {versions.map(version => (
+                <li key={version._id} className="bg-white border border-gray-200 rounded-lg p-3">
+                  <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                    <div className="text-sm">
+                      <span className="font-medium text-gray-900">Version {version.version}</span>
+                      <span className="text-gray-500">
+                        {' · '}{new Date(version.createdAt).toLocaleString()}
+                        {' · '}{VERSION_SOURCE_LABELS[version.source]}
+                        {version.restoredFrom && ` from version ${version.restoredFrom}`}
+                        {version.author && ` by ${version.author.username}`}
+                      </span>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <button
+                        type="button"
+                        onClick={() => viewVersion(version.version)}
+                        className="flex items-center space-x-1 px-2 py-1 text-sm text-blue-700 hover:bg-blue-50 rounded-lg"
+                      >
+                        <Eye className="h-4 w-4" />
+                        <span>View</span>
+                      </button>
+                      {version.version !== latestVersion && (
+                        <button
+                          type="button"
+                          onClick={() => handleRestore(version.version)}
+                          disabled={restoringVersion !== null}
+                          className="flex items-center space-x-1 px-2 py-1 text-sm text-orange-700 hover:bg-orange-50 rounded-lg disabled:opacity-50"
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                          <span>{restoringVersion === version.version ? 'Restoring...' : 'Restore'}</span>
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {version.changes.length > 0 && (
+                    <table className="w-full text-sm mt-2">
+                      <tbody>
+                        {version.changes.map(change => (
+                          <tr key={change.field} className="align-top">
+                            <td className="py-0.5 pr-4 text-gray-600 w-40">{RECORD_FIELD_LABELS[change.field] || change.field}</td>
+                            <td className="py-0.5 pr-2 text-gray-500 line-through">{formatFieldValue(change.field, change.from)}</td>
+                            <td className="py-0.5 text-gray-900">{formatFieldValue(change.field, change.to)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VersionHistory;
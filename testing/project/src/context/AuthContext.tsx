@@ -1,19 +1,26 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import axios from 'axios';
+import { UserRole, normalizeRole } from '../utils/roles';
+import { clearOfflineCache, clearOfflineProfiles, isOfflineCacheSupported, uploadOfflineScans } from '../utils/offlineCache';
+import { clearTriageSession } from '../utils/triageSession';
+import { getErrorMessage } from '../utils/apiError';
 
 interface User {
   id: string;
   username: string;
   email: string;
-  role: string;
+  role: UserRole;
 }
 
 interface AuthContextType {
   user: User | null;
   token: string | null;
-  login: (email: string, password: string) => Promise<void>;
-  register: (username: string, email: string, password: string) => Promise<void>;
-  logout: () => void;
+  login: (email: string, password: string) => Promise<User>;
+  requestLoginLink: (email: string) => Promise<string>;
+  loginWithLink: (linkToken: string) => Promise<User>;
+  register: (username: string, email: string, password: string, inviteToken?: string) => Promise<User>;
+  logout: () => Promise<void>;
+  hasRole: (...roles: UserRole[]) => boolean;
   loading: boolean;
 }
 
@@ -33,8 +40,10 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     const storedUser = localStorage.getItem('user');
 
     if (storedToken && storedUser) {
+      const parsedUser: User = JSON.parse(storedUser);
       setToken(storedToken);
-      setUser(JSON.parse(storedUser));
+      // Sessions saved before roles existed may still carry 'admin'
+      setUser({ ...parsedUser, role: normalizeRole(parsedUser.role) });
       axios.defaults.headers.common['Authorization'] = `Bearer ${storedToken}`;
     }
     setLoading(false);
@@ -52,15 +61,44 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       localStorage.setItem('user', JSON.stringify(userData));
       
       axios.defaults.headers.common['Authorization'] = `Bearer ${authToken}`;
+      return userData;
     } catch (error: any) {
       const message = error.response?.data?.message || 'Login failed';
       throw new Error(message);
     }
   };
 
-  const register = async (username: string, email: string, password: string) => {
+  // Self-service employees can sign in by a one-time link sent to their email
+  const requestLoginLink = async (email: string) => {
     try {
-      const response = await axios.post('/auth/register', { username, email, password });
+      const response = await axios.post('/auth/login-link', { email });
+      return response.data.message as string;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Could not send a sign-in link'));
+    }
+  };
+
+  const loginWithLink = async (linkToken: string) => {
+    try {
+      const response = await axios.post('/auth/login-link/verify', { token: linkToken });
+      const { token: authToken, user: userData } = response.data;
+
+      setToken(authToken);
+      setUser(userData);
+
+      localStorage.setItem('token', authToken);
+      localStorage.setItem('user', JSON.stringify(userData));
+
+      axios.defaults.headers.common['Authorization'] = `Bearer ${authToken}`;
+      return userData;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Sign-in link failed'));
+    }
+  };
+
+  const register = async (username: string, email: string, password: string, inviteToken?: string) => {
+    try {
+      const response = await axios.post('/auth/register', { username, email, password, inviteToken });
       const { token: authToken, user: userData } = response.data;
 
       setToken(authToken);
@@ -70,26 +108,50 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       localStorage.setItem('user', JSON.stringify(userData));
       
       axios.defaults.headers.common['Authorization'] = `Bearer ${authToken}`;
+      return userData;
     } catch (error: any) {
       const message = error.response?.data?.message || 'Registration failed';
       throw new Error(message);
     }
   };
 
-  const logout = () => {
+  // Cached medical profiles must not stay on a device nobody is signed in to.
+  // Views made offline go to the scan log first, while this session can still
+  // sign for them; if they cannot, they stay queued and only profiles go.
+  const clearOfflineData = async () => {
+    if (!isOfflineCacheSupported()) return;
+
+    const uploaded = navigator.onLine && await uploadOfflineScans().then(
+      () => true,
+      error => {
+        console.error('Failed to upload offline scans:', error);
+        return false;
+      }
+    );
+    await (uploaded ? clearOfflineCache() : clearOfflineProfiles());
+  };
+
+  const logout = async () => {
+    await clearOfflineData().catch(error => console.error('Failed to clear offline cache:', error));
     setUser(null);
     setToken(null);
     localStorage.removeItem('token');
     localStorage.removeItem('user');
     delete axios.defaults.headers.common['Authorization'];
+    clearTriageSession();
   };
 
+  const hasRole = (...roles: UserRole[]) => !!user && roles.includes(user.role);
+
   const value: AuthContextType = {
     user,
     token,
     login,
+    requestLoginLink,
+    loginWithLink,
     register,
     logout,
+    hasRole,
     loading
   };
 
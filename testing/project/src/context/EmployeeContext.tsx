@@ -1,5 +1,9 @@
 import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
 import axios from 'axios';
+import { ArchivedRecordError, getErrorMessage, isNetworkError, NetworkError } from '../utils/apiError';
+import { SiteSettings } from '../utils/sites';
+import { Allergy } from '../utils/allergies';
+import { Medication } from '../utils/medications';
 
 const API_BASE_URL = "/api";
 axios.defaults.baseURL = API_BASE_URL;
@@ -8,12 +12,15 @@ interface EmergencyContact {
   name: string;
   phone: string;
   relationship: string;
+  email?: string;
+  notifyOnScan?: boolean;
 }
 
-interface Medication {
-  name: string;
-  dosage?: string;
-  frequency?: string;
+export interface ScanNotificationSettings {
+  enabled: boolean;
+  notifyEmployee: boolean;
+  email?: string;
+  phone?: string;
 }
 
 interface Physician {
@@ -28,23 +35,97 @@ interface Insurance {
   groupNumber?: string;
 }
 
+export type DisclosureTier = 'public' | 'full';
+
+export type BadgeStatus = 'active' | 'revoked' | 'invalid' | 'unknown' | 'archived';
+
+export type ExportFormat = 'csv' | 'json' | 'pdf';
+
+export type BadgePaper = 'a4' | 'letter';
+
+// What the badge QR encodes: a profile link, or a signed emergency summary
+export type BadgeMode = 'url' | 'payload';
+
+export type QRFormat = 'png' | 'svg' | 'pdf' | 'eps';
+
+export type QRErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+// size is pixels for PNG and points for the vector formats; margin is the
+// quiet zone in modules
+export interface QRCodeOptions {
+  format: QRFormat;
+  size: number;
+  errorCorrection: QRErrorCorrection;
+  margin: number;
+  dark: string;
+  light: string;
+  logo: boolean;
+}
+
+export interface DownloadedFile {
+  blob: Blob;
+  filename: string;
+}
+
+export interface EmployeeFilters {
+  search?: string;
+  bloodGroup?: string;
+}
+
+// A search hit for a responder who cannot scan the badge
+export interface EmployeeMatch {
+  _id: string;
+  name: string;
+  employeeId: string;
+  site?: string;
+}
+
+export interface ScanLocation {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+}
+
 export interface Employee {
   _id: string;
   employeeId: string;
   name: string;
+  site?: string;
+  photo?: {
+    contentType?: string;
+    updatedAt?: string;
+  };
   dob: string;
   age: number;
   bloodGroup: string;
-  allergies: string[];
+  allergies: Allergy[];
   medications: Medication[];
   emergencyContacts: EmergencyContact[];
   physician: Physician;
   insurance: Insurance;
   qrCodeUrl?: string;
+  badgeMode?: BadgeMode;
+  badge?: {
+    shortCode?: string;
+    issuedAt?: string;
+  };
   medicalConditions?: string[];
   notes?: string;
+  scanNotifications?: ScanNotificationSettings;
   createdAt?: string;
   updatedAt?: string;
+  // Only on records listed in the archive
+  archivedAt?: string;
+  purgeAfter?: string;
+  // Set on profiles fetched through the public scan endpoint, which carry
+  // the record id as `id`
+  id?: string;
+  disclosureTier?: DisclosureTier;
+  withheldSections?: string[];
+  scanId?: string;
+  siteSettings?: SiteSettings;
+  // The scan triggered notifications, so the scanner's location is wanted
+  requestLocation?: boolean;
 }
 
 interface EmployeeContextType {
@@ -52,10 +133,24 @@ interface EmployeeContextType {
   currentEmployee: Employee | null;
   fetchEmployees: () => Promise<void>;
   fetchEmployee: (id: string) => Promise<Employee>;
+  fetchEmployeeByBadge: (token: string) => Promise<Employee>;
+  checkBadgeStatus: (token: string) => Promise<BadgeStatus>;
+  resolveBadgeCode: (code: string) => Promise<string>;
+  lookupEmployees: (query: string) => Promise<EmployeeMatch[]>;
+  reissueBadge: (id: string) => Promise<string>;
+  reportScanLocation: (scanId: string, coords: ScanLocation) => Promise<void>;
+  exportEmployees: (format: ExportFormat, filters: EmployeeFilters) => Promise<DownloadedFile>;
+  downloadBadge: (id: string) => Promise<DownloadedFile>;
+  downloadFhirBundle: (id: string) => Promise<DownloadedFile>;
+  downloadBadgeSheet: (paper: BadgePaper, filters: EmployeeFilters) => Promise<DownloadedFile>;
+  fetchPhoto: (id: string) => Promise<Blob>;
+  uploadPhoto: (id: string, photo: File) => Promise<void>;
+  removePhoto: (id: string) => Promise<void>;
   createEmployee: (employee: Omit<Employee, '_id'>) => Promise<Employee>;
   updateEmployee: (id: string, employee: Partial<Employee>) => Promise<Employee>;
   deleteEmployee: (id: string) => Promise<void>;
   generateQRCode: (id: string) => Promise<string>;
+  downloadQRCode: (id: string, options: QRCodeOptions) => Promise<DownloadedFile>;
   loading: boolean;
   error: string | null;
   clearError: () => void;
@@ -63,6 +158,28 @@ interface EmployeeContextType {
 
 const EmployeeContext = createContext<EmployeeContextType | undefined>(undefined);
 
+// GETs a generated file; the server names it in Content-Disposition
+const downloadFile = async (
+  url: string,
+  params: object,
+  fallbackFilename: string,
+  failureMessage: string
+): Promise<DownloadedFile> => {
+  try {
+    const response = await axios.get(url, { params, responseType: 'blob' });
+    const disposition: string = response.headers['content-disposition'] || '';
+    const filename = disposition.match(/filename="(.+)"/)?.[1] || fallbackFilename;
+    return { blob: response.data as Blob, filename };
+  } catch (error) {
+    // Error bodies arrive as blobs too
+    if (axios.isAxiosError(error) && error.response?.data instanceof Blob) {
+      const body = JSON.parse(await error.response.data.text());
+      throw new Error(body.message || failureMessage);
+    }
+    throw new Error(getErrorMessage(error, failureMessage));
+  }
+};
+
 export const EmployeeProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [currentEmployee, setCurrentEmployee] = useState<Employee | null>(null);
@@ -104,7 +221,8 @@ export const EmployeeProvider: React.FC<{ children: ReactNode }> = ({ children }
     }
   }, []); // ✅ Empty dependency array - this function doesn't depend on any state
 
-  const fetchEmployee = useCallback(async (id: string): Promise<Employee> => {
+  // Shared by id and badge lookups, which return the same disclosed profile
+  const fetchProfile = useCallback(async (path: string): Promise<Employee> => {
     // Cancel previous request if still pending
     if (currentRequest) {
       currentRequest.abort();
@@ -116,7 +234,7 @@ export const EmployeeProvider: React.FC<{ children: ReactNode }> = ({ children }
     try {
       setLoading(true);
       setError(null);
-      const response = await axios.get(`/employees/${id}`, {
+      const response = await axios.get(path, {
         signal: controller.signal
       });
       const employee = response.data.data;
@@ -126,6 +244,13 @@ export const EmployeeProvider: React.FC<{ children: ReactNode }> = ({ children }
       if (error.name === 'AbortError') {
         throw new Error('Request cancelled');
       }
+      // Left to the caller, which may have an offline copy to fall back on
+      if (isNetworkError(error)) {
+        throw new NetworkError('No connection to the server');
+      }
+      if (error.response?.data?.data?.status === 'archived') {
+        throw new ArchivedRecordError(error.response.data.message);
+      }
       const errorMessage = error.response?.data?.message || 'Failed to fetch employee';
       setError(errorMessage);
       throw new Error(errorMessage);
@@ -135,6 +260,102 @@ export const EmployeeProvider: React.FC<{ children: ReactNode }> = ({ children }
     }
   }, []); // ✅ Empty dependency array
 
+  const fetchEmployee = useCallback((id: string) => fetchProfile(`/employees/${id}`), [fetchProfile]);
+
+  const fetchEmployeeByBadge = useCallback((token: string) => fetchProfile(`/badges/${token}`), [fetchProfile]);
+
+  // Status checks report revoked or unknown badges rather than throwing
+  const checkBadgeStatus = useCallback(async (token: string): Promise<BadgeStatus> => {
+    try {
+      const response = await axios.get(`/badges/${token}/status`);
+      return response.data.data.status;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.data?.data?.status) {
+        return error.response.data.data.status;
+      }
+      if (isNetworkError(error)) {
+        throw new NetworkError('No connection to the server');
+      }
+      throw new Error(getErrorMessage(error, 'Failed to check badge'));
+    }
+  }, []);
+
+  // Turns a typed badge short code into the token its QR code carries
+  const resolveBadgeCode = useCallback(async (code: string): Promise<string> => {
+    try {
+      const response = await axios.get(`/badges/code/${encodeURIComponent(code)}`);
+      return response.data.data.token;
+    } catch (error) {
+      if (isNetworkError(error)) {
+        throw new NetworkError('No connection to the server');
+      }
+      throw new Error(getErrorMessage(error, 'Failed to look up badge code'));
+    }
+  }, []);
+
+  const lookupEmployees = useCallback(async (query: string): Promise<EmployeeMatch[]> => {
+    try {
+      const response = await axios.get('/employees/lookup', { params: { q: query } });
+      return response.data.data;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Search failed'));
+    }
+  }, []);
+
+  // Best effort: a failed location report must not disturb the emergency view
+  const reportScanLocation = useCallback(async (scanId: string, coords: ScanLocation) => {
+    try {
+      await axios.post(`/scan-events/${scanId}/location`, coords);
+    } catch (error) {
+      console.error('Failed to report scan location:', getErrorMessage(error, 'Unknown error'));
+    }
+  }, []);
+
+  const exportEmployees = useCallback((format: ExportFormat, filters: EmployeeFilters) =>
+    downloadFile('/employees/export', { format, ...filters }, `employees.${format}`, 'Export failed'), []);
+
+  const downloadQRCode = useCallback((id: string, options: QRCodeOptions) =>
+    downloadFile(`/employees/${id}/qr`, options, `qr.${options.format}`, 'Failed to generate QR code'), []);
+
+  const downloadBadge = useCallback((id: string) =>
+    downloadFile(`/employees/badges/${id}`, {}, 'badge.pdf', 'Failed to generate badge'), []);
+
+  const downloadFhirBundle = useCallback((id: string) =>
+    downloadFile(`/employees/fhir/${id}`, {}, 'employee.fhir.json', 'FHIR export failed'), []);
+
+  const downloadBadgeSheet = useCallback((paper: BadgePaper, filters: EmployeeFilters) =>
+    downloadFile('/employees/badges/sheet', { paper, ...filters }, 'badges.pdf', 'Failed to generate badges'), []);
+
+  const fetchPhoto = useCallback(async (id: string): Promise<Blob> => {
+    try {
+      const response = await axios.get(`/employees/${id}/photo`, { responseType: 'blob' });
+      return response.data;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to load photo'));
+    }
+  }, []);
+
+  const uploadPhoto = useCallback(async (id: string, photo: File) => {
+    try {
+      const formData = new FormData();
+      formData.append('photo', photo);
+      const response = await axios.put(`/employees/${id}/photo`, formData);
+      const updated = response.data.data.photo;
+      setEmployees(prev => prev.map(emp => emp._id === id ? { ...emp, photo: updated } : emp));
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to upload photo'));
+    }
+  }, []);
+
+  const removePhoto = useCallback(async (id: string) => {
+    try {
+      await axios.delete(`/employees/${id}/photo`);
+      setEmployees(prev => prev.map(emp => emp._id === id ? { ...emp, photo: undefined } : emp));
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Failed to remove photo'));
+    }
+  }, []);
+
   const createEmployee = useCallback(async (employeeData: Omit<Employee, '_id'>): Promise<Employee> => {
     try {
       setLoading(true);
@@ -216,16 +437,45 @@ export const EmployeeProvider: React.FC<{ children: ReactNode }> = ({ children }
     }
   }, []); // ✅ Empty dependency array
 
+  const reissueBadge = useCallback(async (id: string): Promise<string> => {
+    try {
+      setError(null);
+      const response = await axios.post(`/employees/${id}/badge/reissue`);
+      const { qrCodeDataUrl, qrCodeUrl, badge } = response.data.data;
+
+      setEmployees(prev => prev.map(emp => emp._id === id ? { ...emp, qrCodeUrl, badge } : emp));
+      return qrCodeDataUrl;
+    } catch (error) {
+      const errorMessage = getErrorMessage(error, 'Failed to reissue badge');
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    }
+  }, []);
+
   // ✅ Memoize the context value to prevent unnecessary re-renders
   const value: EmployeeContextType = React.useMemo(() => ({
     employees,
     currentEmployee,
     fetchEmployees,
     fetchEmployee,
+    fetchEmployeeByBadge,
+    checkBadgeStatus,
+    resolveBadgeCode,
+    lookupEmployees,
+    reissueBadge,
+    reportScanLocation,
+    exportEmployees,
+    downloadBadge,
+    downloadFhirBundle,
+    downloadBadgeSheet,
+    fetchPhoto,
+    uploadPhoto,
+    removePhoto,
     createEmployee,
     updateEmployee,
     deleteEmployee,
     generateQRCode,
+    downloadQRCode,
     loading,
     error,
     clearError
@@ -234,10 +484,24 @@ export const EmployeeProvider: React.FC<{ children: ReactNode }> = ({ children }
     currentEmployee,
     fetchEmployees,
     fetchEmployee,
+    fetchEmployeeByBadge,
+    checkBadgeStatus,
+    resolveBadgeCode,
+    lookupEmployees,
+    reissueBadge,
+    reportScanLocation,
+    exportEmployees,
+    downloadBadge,
+    downloadFhirBundle,
+    downloadBadgeSheet,
+    fetchPhoto,
+    uploadPhoto,
+    removePhoto,
     createEmployee,
     updateEmployee,
     deleteEmployee,
     generateQRCode,
+    downloadQRCode,
     loading,
     error,
     clearError
@@ -0,0 +1,85 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { Language, MessageKey, MESSAGES, isLanguage } from '../locales';
+
+interface LanguageContextType {
+  language: Language;
+  setLanguage: (language: Language) => void;
+  // BCP 47 tag for dates and numbers, e.g. "en-IN" for English in India
+  locale: string;
+  t: (key: MessageKey, params?: Record<string, string | number>) => string;
+  formatDate: (value: string | Date, options?: Intl.DateTimeFormatOptions) => string;
+  formatDateTime: (value: string | Date) => string;
+}
+
+const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
+
+const LANGUAGE_STORAGE_KEY = 'language';
+
+const primarySubtag = (tag: string) => tag.split('-')[0].toLowerCase();
+
+// A choice made on this device wins; otherwise the first browser language we
+// have a bundle for
+const detectLanguage = (): Language => {
+  const stored = localStorage.getItem(LANGUAGE_STORAGE_KEY);
+  if (isLanguage(stored)) return stored;
+
+  const browserLanguages = navigator.languages?.length ? navigator.languages : [navigator.language];
+  return browserLanguages.map(primarySubtag).find(isLanguage) || 'en';
+};
+
+// Keep the browser's regional conventions when they are for the chosen language
+const localeFor = (language: Language) => {
+  const browserLanguages = navigator.languages?.length ? navigator.languages : [navigator.language];
+  return browserLanguages.find(tag => primarySubtag(tag) === language) || language;
+};
+
+export const LanguageProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [language, setLanguageState] = useState<Language>(detectLanguage);
+  const locale = localeFor(language);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const setLanguage = useCallback((next: Language) => {
+    localStorage.setItem(LANGUAGE_STORAGE_KEY, next);
+    setLanguageState(next);
+  }, []);
+
+  const t = useCallback((key: MessageKey, params?: Record<string, string | number>) => {
+    const message = MESSAGES[language][key];
+    if (!params) return message;
+    return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      name in params ? String(params[name]) : placeholder
+    );
+  }, [language]);
+
+  const formatDate = useCallback((value: string | Date, options?: Intl.DateTimeFormatOptions) =>
+    new Date(value).toLocaleDateString(locale, options), [locale]);
+
+  const formatDateTime = useCallback((value: string | Date) =>
+    new Date(value).toLocaleString(locale), [locale]);
+
+  const value: LanguageContextType = {
+    language,
+    setLanguage,
+    locale,
+    t,
+    formatDate,
+    formatDateTime
+  };
+
+  return (
+    <LanguageContext.Provider value={value}>
+      {children}
+    </LanguageContext.Provider>
+  );
+};
+
+export const useLanguage = () => {
+  const context = useContext(LanguageContext);
+  if (context === undefined) {
+    throw new Error('useLanguage must be used within a LanguageProvider');
+  }
+  return context;
+};
@@ -0,0 +1,160 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import axios from 'axios';
+import { useAuth } from './AuthContext';
+import { getErrorMessage } from '../utils/apiError';
+import {
+  OfflineCacheInfo,
+  OfflineLookup,
+  OfflineProfile,
+  OfflineScan,
+  clearOfflineCache,
+  clearOfflineProfiles,
+  findOfflineProfile,
+  getOfflineCacheInfo,
+  isOfflineCacheSupported,
+  queueOfflineScans,
+  saveOfflineBundle,
+  uploadOfflineScans
+} from '../utils/offlineCache';
+
+interface OfflineContextType {
+  isOnline: boolean;
+  supported: boolean;
+  enabled: boolean;
+  setEnabled: (enabled: boolean) => Promise<void>;
+  info: OfflineCacheInfo | null;
+  syncing: boolean;
+  syncError: string | null;
+  syncNow: () => Promise<void>;
+  findProfile: (lookup: OfflineLookup) => Promise<{ profile: OfflineProfile; syncedAt: string } | null>;
+  recordOfflineView: (scan: OfflineScan) => Promise<void>;
+}
+
+const OfflineContext = createContext<OfflineContextType | undefined>(undefined);
+
+const ENABLED_STORAGE_KEY = 'offlineCacheEnabled';
+
+// Refresh while the app stays open, well inside the server's expiry window
+const SYNC_INTERVAL_MS = 15 * 60 * 1000;
+
+export const OfflineProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user, loading } = useAuth();
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [enabled, setEnabledState] = useState(() => localStorage.getItem(ENABLED_STORAGE_KEY) === 'true');
+  const [info, setInfo] = useState<OfflineCacheInfo | null>(null);
+  const [syncing, setSyncing] = useState(false);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const supported = isOfflineCacheSupported();
+  const userId = user?.id;
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  // No profile cached may outlive the session it was synced for. Views still
+  // queued from a signed-out session wait for that account to sign in again;
+  // another account's sign-in drops them with the rest.
+  useEffect(() => {
+    if (loading || !supported) return;
+
+    const checkOwner = async () => {
+      const current = await getOfflineCacheInfo();
+      if (current && !userId) {
+        await clearOfflineProfiles();
+        setInfo(null);
+      } else if (current && current.userId !== userId) {
+        await clearOfflineCache();
+        setInfo(null);
+      } else {
+        setInfo(current);
+      }
+    };
+
+    checkOwner().catch(err => console.error('Failed to read offline cache:', err));
+  }, [loading, supported, userId]);
+
+  const syncNow = useCallback(async () => {
+    if (!userId || !supported) return;
+
+    setSyncing(true);
+    setSyncError(null);
+    try {
+      await uploadOfflineScans();
+      const response = await axios.get('/offline/profiles');
+      setInfo(await saveOfflineBundle(userId, response.data.data));
+    } catch (err) {
+      setSyncError(getErrorMessage(err, 'Offline sync failed'));
+    } finally {
+      setSyncing(false);
+    }
+  }, [userId, supported]);
+
+  useEffect(() => {
+    if (!enabled || !isOnline || !userId) return;
+
+    syncNow();
+    const timer = setInterval(syncNow, SYNC_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [enabled, isOnline, userId, syncNow]);
+
+  const setEnabled = useCallback(async (value: boolean) => {
+    localStorage.setItem(ENABLED_STORAGE_KEY, String(value));
+    setEnabledState(value);
+
+    if (!value && supported) {
+      // Views already shown offline still belong in the scan log
+      if (navigator.onLine) {
+        await uploadOfflineScans().catch(err => console.error('Failed to upload offline scans:', err));
+      }
+      await clearOfflineCache();
+      setInfo(null);
+    }
+  }, [supported]);
+
+  const findProfile = useCallback(async (lookup: OfflineLookup) => {
+    if (!userId || !supported) return null;
+    return findOfflineProfile(userId, lookup);
+  }, [userId, supported]);
+
+  const recordOfflineView = useCallback(async (scan: OfflineScan) => {
+    try {
+      await queueOfflineScans(scan);
+    } catch (err) {
+      console.error('Failed to queue offline scan:', err);
+    }
+  }, []);
+
+  const value: OfflineContextType = {
+    isOnline,
+    supported,
+    enabled,
+    setEnabled,
+    info,
+    syncing,
+    syncError,
+    syncNow,
+    findProfile,
+    recordOfflineView
+  };
+
+  return (
+    <OfflineContext.Provider value={value}>
+      {children}
+    </OfflineContext.Provider>
+  );
+};
+
+export const useOffline = () => {
+  const context = useContext(OfflineContext);
+  if (context === undefined) {
+    throw new Error('useOffline must be used within an OfflineProvider');
+  }
+  return context;
+};
@@ -0,0 +1,177 @@
+import type { Messages } from './en';
+
+const de: Messages = {
+  'language.label': 'Sprache',
+  'common.backHome': 'Zur Startseite',
+  'common.goHome': 'Zur Startseite',
+
+  'nav.scan': 'QR-Code scannen',
+  'nav.admin': 'Verwaltung',
+  'nav.myProfile': 'Mein Profil',
+  'nav.welcome': 'Willkommen, {name}',
+  'nav.logout': 'Abmelden',
+  'nav.login': 'Anmelden',
+
+  'profile.restricted': 'Nur für berechtigte Einsatzkräfte verfügbar',
+  'profile.unknown': 'Unbekannt',
+  'profile.notAvailable': 'k. A.',
+  'profile.employeeId': 'Personalnummer: {id}',
+  'profile.age': 'Alter: {age} Jahre',
+  'profile.born': 'Geboren: {date}',
+  'profile.bloodType': 'Blutgruppe: {bloodGroup}',
+  'profile.allergies': 'Allergien',
+  'profile.severeAllergies': 'Schwere Allergien',
+  'profile.anaphylaxisRisk': 'Anaphylaxie-Risiko',
+  'profile.anaphylaxisNotice': 'Der Kontakt kann lebensbedrohlich sein. Rufen Sie beim ersten Anzeichen einer Reaktion die {number} an.',
+  'profile.carriesEpinephrine': 'Trägt einen Adrenalin-Autoinjektor bei sich',
+  'profile.reaction': 'Reaktion: {reaction}',
+  'allergy.severity.mild': 'Leicht',
+  'allergy.severity.moderate': 'Mittelschwer',
+  'allergy.severity.anaphylaxis': 'Anaphylaxie',
+  'allergy.reaction.rash': 'Ausschlag oder Juckreiz',
+  'allergy.reaction.hives': 'Nesselsucht',
+  'allergy.reaction.swelling': 'Schwellung',
+  'allergy.reaction.breathing': 'Atemnot',
+  'allergy.reaction.gastrointestinal': 'Erbrechen oder Durchfall',
+  'allergy.reaction.cardiovascular': 'Ohnmacht oder Kollaps',
+  'allergy.reaction.other': 'Sonstige',
+  'profile.noAllergies': 'Keine bekannten Allergien',
+  'profile.medications': 'Aktuelle Medikamente',
+  'profile.dosage': 'Dosierung: {dosage}',
+  'profile.frequency': 'Einnahme: {frequency}',
+  'profile.noMedications': 'Keine aktuellen Medikamente',
+  'profile.bloodThinners': 'Nimmt Blutverdünner',
+  'profile.bloodThinnersNotice': 'Blutungen können stark und schwer zu stillen sein. Fest abdrücken und den Rettungsdienst informieren.',
+  'profile.bloodThinner': 'Blutverdünner',
+  'profile.medicationWarnings': 'Medikamentenwarnungen',
+  'profile.allergyConflict': '{medication} steht im Konflikt mit der erfassten Allergie gegen {allergy}',
+  'profile.interaction': '{first} mit {second}: {effect}',
+  'medication.effect.bleeding': 'erhöhtes Blutungsrisiko',
+  'medication.effect.serotonin': 'Risiko eines Serotonin-Syndroms',
+  'medication.effect.breathing': 'Risiko einer Atemdepression',
+  'medication.effect.hypotension': 'Risiko eines starken Blutdruckabfalls',
+  'medication.effect.potassium': 'Risiko eines erhöhten Kaliumspiegels',
+  'medication.effect.hypoglycaemia': 'Risiko einer Unterzuckerung',
+  'medication.effect.epinephrine': 'Adrenalin wirkt möglicherweise schwächer',
+  'profile.conditions': 'Vorerkrankungen',
+  'profile.emergencyContacts': 'Notfallkontakte',
+  'profile.call': '{phone} anrufen',
+  'profile.noContacts': 'Keine Notfallkontakte hinterlegt',
+  'profile.physician': 'Hausarzt',
+  'profile.notes': 'Weitere Hinweise',
+  'profile.emergencyOnly': 'Nur für den Notfall',
+  'profile.emergencyNotice': 'Diese Angaben dienen der medizinischen Notfallversorgung. Verständigen Sie den Rettungsdienst ({number}), wenn sofortige ärztliche Hilfe nötig ist.',
+  'profile.emergencyServices': 'Rettungsdienst',
+
+  'section.dob': 'Geburtsdatum',
+  'section.allergies': 'vollständige Allergieliste',
+  'section.medications': 'Medikamente',
+  'section.medicalConditions': 'Vorerkrankungen',
+  'section.emergencyContacts': 'weitere Notfallkontakte',
+  'section.physician': 'Hausarzt',
+  'section.notes': 'weitere Hinweise',
+
+  'info.loading': 'Mitarbeiterdaten werden geladen...',
+  'info.loadFailed': 'Mitarbeiterdaten konnten nicht geladen werden',
+  'info.notCached': 'Keine Verbindung, und dieses Profil ist nicht im Offline-Speicher dieses Geräts.',
+  'info.archivedTitle': 'Datensatz nicht mehr aktiv',
+  'info.archivedBody': 'Dieser Ausweis gehört zu einem archivierten Mitarbeiterdatensatz, daher liegen keine Notfallinformationen vor. Behandeln Sie die Person so, als wären keine medizinischen Informationen hinterlegt.',
+  'info.notFoundTitle': 'Mitarbeiter nicht gefunden',
+  'info.notFoundBody': 'Die angeforderten Mitarbeiterdaten wurden nicht gefunden.',
+  'info.noDataTitle': 'Keine Mitarbeiterdaten',
+  'info.noDataBody': 'Mitarbeiterdaten sind derzeit nicht verfügbar.',
+  'info.recordIncident': 'Vorfall erfassen',
+  'info.incidentOffline': 'Vorfälle können erfasst werden, sobald die Verbindung wieder besteht',
+  'info.incidentRecorded': 'Vorfall erfasst.',
+  'info.offlineTitle': 'Offline-Kopie · synchronisiert {age}',
+  'info.offlineBody': 'Keine Verbindung zum Server. Dies ist das Profil mit Stand {date}; neuere Änderungen können fehlen.',
+  'info.limitedTitle': 'Eingeschränkte Notfallansicht',
+  'info.limitedBody': 'Es werden nur lebenswichtige Informationen angezeigt.',
+  'info.withheld': 'Für berechtigte Einsatzkräfte verfügbar: {sections}.',
+  'info.responderLogin': 'Anmeldung für Einsatzkräfte',
+  'info.locationNotice': 'Die Notfallkontakte dieser Person werden über Scans benachrichtigt, einschließlich Ihres ungefähren Standorts, wenn Sie dies zulassen.',
+
+  'badge.revoked': 'Dieser Ausweis wurde gesperrt. Fragen Sie nach dem aktuellen Ausweis oder wenden Sie sich an die Verwaltung.',
+  'badge.invalid': 'Dieser QR-Code ist kein gültiger Notfallausweis.',
+  'badge.unknown': 'Mit diesem Ausweis ist kein Mitarbeiterdatensatz verknüpft.',
+  'badge.archived': 'Dieser Mitarbeiterdatensatz ist nicht mehr aktiv. Behandeln Sie die Person so, als wären keine medizinischen Informationen hinterlegt.',
+
+  'scanner.title': 'Notfall-QR-Scanner',
+  'scanner.intro': 'Scannen Sie den QR-Code auf einem Mitarbeiterausweis, um sofort medizinische Notfallinformationen, Allergien, Medikamente und Notfallkontakte zu sehen.',
+  'scanner.cardUnreadable': 'Diese Notfallkarte konnte nicht gelesen werden.',
+  'scanner.cardTampered': 'Die Signaturprüfung dieser Notfallkarte ist fehlgeschlagen; sie wurde möglicherweise verändert. Verlassen Sie sich nicht darauf.',
+  'scanner.notCached': 'Keine Verbindung, und diese Person ist nicht im Offline-Speicher dieses Geräts.',
+  'scanner.lookupFailed': 'Ausweis konnte nicht nachgeschlagen werden',
+  'scanner.checkFailed': 'Ausweis konnte nicht geprüft werden',
+  'scanner.scanAnother': 'Weiteren Ausweis scannen',
+  'scanner.openFullProfile': 'Vollständiges Profil öffnen',
+  'scanner.unknownDate': 'einem unbekannten Datum',
+  'scanner.verifiedTitle': 'Vom Ausweis gelesen · Signatur geprüft',
+  'scanner.verifiedBody': 'Notfallübersicht, ausgestellt am {date}. Angaben können sich seitdem geändert haben; enthalten sind nur schwere Allergien und wichtige Medikamente.',
+  'scanner.uncheckedTitle': 'Vom Ausweis gelesen · Signatur nicht geprüft',
+  'scanner.uncheckedBody': 'Dieses Gerät hat den Prüfschlüssel noch nicht geladen. Öffnen Sie den Scanner einmal mit Verbindung, damit Ausweise offline geprüft werden können. Ausgestellt am {date}.',
+  'scanner.scanned': 'QR-Code gescannt!',
+  'scanner.redirecting': 'Weiterleitung zu den Mitarbeiterdaten...',
+  'scanner.triageTitle': 'Triage-Modus',
+  'scanner.triageHint': 'Mehrere Ausweise nacheinander scannen und jede Person einstufen.',
+  'scanner.triageStart': 'Starten',
+  'scanner.triageEnd': 'Beenden',
+  'scanner.triageEndConfirm': 'Diese Triage beenden? Die Liste wird gelöscht; exportieren Sie den Bericht vorher, falls Sie ihn brauchen.',
+  'scanner.triageDuplicate': '{name} ist bereits in dieser Triage.',
+  'scanner.triageAdded': '{name} hinzugefügt. Nächsten Ausweis scannen.',
+  'scanner.notAccepted': 'Ausweis nicht akzeptiert',
+  'scanner.stillRunning': 'Der Scanner läuft weiter; richten Sie ihn auf den SafeScan-Ausweis der Person.',
+  'scanner.emergencyOnlyTitle': 'Nur für den Notfall',
+  'scanner.emergencyOnlyBody': 'Dieses System ist ausschließlich für Rettungskräfte, medizinisches Fachpersonal und berechtigte Personen bestimmt. Die hier abgerufenen medizinischen Informationen dürfen nur zur Notfallversorgung und Behandlung verwendet werden. Unbefugte Nutzung oder Weitergabe ist streng untersagt.',
+  'scanner.tipsTitle': 'Tipps zum Scannen:',
+  'scanner.tipLighting': 'Für gute Beleuchtung sorgen',
+  'scanner.tipSteady': 'Gerät ruhig halten und den QR-Code mittig halten',
+  'scanner.tipDistance': 'Wenn das Scannen fehlschlägt, den Abstand zum QR-Code ändern',
+  'scanner.tipDamaged': 'Ein beschädigter oder spiegelnder Ausweis kann über ein Foto oder den unter dem QR-Code gedruckten Code geöffnet werden',
+  'scanner.tipAutomatic': 'Die Kamera erkennt und scannt den QR-Code automatisch',
+  'scanner.tipRedirect': 'Nach erfolgreichem Scan werden Sie sofort weitergeleitet',
+
+  'camera.error': 'Kein Zugriff auf die Kamera. Bitte Kameraberechtigung erteilen oder unten ein Foto bzw. den Ausweiscode verwenden.',
+  'camera.requiredTitle': 'Kamerazugriff erforderlich',
+  'camera.retry': 'Erneut versuchen',
+  'camera.title': 'Notfall-QR-Code scannen',
+  'camera.hint': 'Richten Sie die Kamera auf den QR-Code des Mitarbeiterausweises',
+  'camera.ready': 'Kamera ist bereit',
+  'camera.instructions': 'Anleitung:',
+  'camera.instructionSteady': 'Gerät ruhig halten',
+  'camera.instructionLight': 'Auf gute Beleuchtung des QR-Codes achten',
+  'camera.instructionArea': 'QR-Code im Scanbereich halten',
+  'camera.instructionRedirect': 'Nach dem Scan werden Sie automatisch weitergeleitet',
+
+  'lookup.title': 'Ausweis lässt sich nicht scannen?',
+  'lookup.photo': 'Foto',
+  'lookup.code': 'Ausweiscode',
+  'lookup.search': 'Suche',
+  'lookup.noQrInPhoto': 'Auf diesem Foto wurde kein QR-Code gefunden. Versuchen Sie eine schärfere Nahaufnahme des Ausweises.',
+  'lookup.codeLength': 'Ausweiscodes haben 8 Zeichen, z. B. 7K3M-Q9TX.',
+  'lookup.codeFailed': 'Ausweiscode konnte nicht nachgeschlagen werden',
+  'lookup.codeNotCached': 'Keine Verbindung, und dieser Ausweiscode ist nicht im Offline-Speicher dieses Geräts.',
+  'lookup.searchFailed': 'Suche fehlgeschlagen',
+  'lookup.readingPhoto': 'Foto wird gelesen...',
+  'lookup.choosePhoto': 'Foto des QR-Codes aufnehmen oder auswählen',
+  'lookup.lookingUp': 'Wird gesucht...',
+  'lookup.open': 'Öffnen',
+  'lookup.searchPlaceholder': 'Name oder Personalnummer',
+  'lookup.searchOffline': 'Die Suche braucht eine Verbindung. Verwenden Sie stattdessen den Ausweiscode oder ein Foto.',
+  'lookup.noMatches': 'Keine passenden Mitarbeiter.',
+
+  'offline.online': 'Online',
+  'offline.offline': 'Offline',
+  'offline.offlineCached': 'Offline · gespeicherte Profile werden verwendet',
+  'offline.syncing': 'Wird synchronisiert...',
+  'offline.syncNow': 'Jetzt synchronisieren',
+  'offline.signIn': 'Anmelden',
+  'offline.signInHint': ', um die Profile Ihrer Standorte auch ohne Empfang verfügbar zu halten.',
+  'offline.unsupported': 'Dieser Browser kann keine Profile für die Offline-Nutzung speichern.',
+  'offline.keepProfiles': 'Profile meiner zugewiesenen Standorte auf diesem Gerät speichern (verschlüsselt)',
+  'offline.noSites': 'Ihrem Konto sind keine Standorte zugewiesen, daher wird nichts gespeichert.',
+  'offline.summary': '{count} Profile für {sites} · synchronisiert {age}',
+  'offline.expired': 'abgelaufen, zum Aktualisieren verbinden'
+};
+
+export default de;
@@ -0,0 +1,181 @@
+// English is the reference bundle: every other language must translate each
+// of its keys. `{name}` placeholders are filled in by t().
+const en = {
+  'language.label': 'Language',
+  'common.backHome': 'Back to Home',
+  'common.goHome': 'Go Back Home',
+
+  'nav.scan': 'Scan QR Code',
+  'nav.admin': 'Admin Panel',
+  'nav.myProfile': 'My Profile',
+  'nav.welcome': 'Welcome, {name}',
+  'nav.logout': 'Logout',
+  'nav.login': 'Login',
+
+  'profile.restricted': 'Available to authorised responders only',
+  'profile.unknown': 'Unknown',
+  'profile.notAvailable': 'N/A',
+  'profile.employeeId': 'Employee ID: {id}',
+  'profile.age': 'Age: {age} years',
+  'profile.born': 'Born: {date}',
+  'profile.bloodType': 'Blood Type: {bloodGroup}',
+  'profile.allergies': 'Allergies',
+  'profile.severeAllergies': 'Severe Allergies',
+  'profile.anaphylaxisRisk': 'Anaphylaxis Risk',
+  'profile.anaphylaxisNotice': 'Exposure can be life-threatening. Call {number} at the first sign of a reaction.',
+  'profile.carriesEpinephrine': 'Carries an epinephrine auto-injector',
+  'profile.reaction': 'Reaction: {reaction}',
+  'allergy.severity.mild': 'Mild',
+  'allergy.severity.moderate': 'Moderate',
+  'allergy.severity.anaphylaxis': 'Anaphylaxis',
+  'allergy.reaction.rash': 'Rash or itching',
+  'allergy.reaction.hives': 'Hives',
+  'allergy.reaction.swelling': 'Swelling',
+  'allergy.reaction.breathing': 'Breathing difficulty',
+  'allergy.reaction.gastrointestinal': 'Vomiting or diarrhoea',
+  'allergy.reaction.cardiovascular': 'Fainting or collapse',
+  'allergy.reaction.other': 'Other',
+  'profile.noAllergies': 'No known allergies',
+  'profile.medications': 'Current Medications',
+  'profile.dosage': 'Dosage: {dosage}',
+  'profile.frequency': 'Frequency: {frequency}',
+  'profile.noMedications': 'No current medications',
+  'profile.bloodThinners': 'On Blood Thinners',
+  'profile.bloodThinnersNotice': 'Bleeding may be heavy and hard to stop. Apply firm pressure and tell the ambulance crew.',
+  'profile.bloodThinner': 'Blood thinner',
+  'profile.medicationWarnings': 'Medication Warnings',
+  'profile.allergyConflict': '{medication} conflicts with the recorded allergy to {allergy}',
+  'profile.interaction': '{first} with {second}: {effect}',
+  'medication.effect.bleeding': 'increased bleeding risk',
+  'medication.effect.serotonin': 'risk of serotonin syndrome',
+  'medication.effect.breathing': 'risk of breathing suppression',
+  'medication.effect.hypotension': 'risk of severe low blood pressure',
+  'medication.effect.potassium': 'risk of high potassium',
+  'medication.effect.hypoglycaemia': 'risk of low blood sugar',
+  'medication.effect.epinephrine': 'epinephrine may be less effective',
+  'profile.conditions': 'Medical Conditions',
+  'profile.emergencyContacts': 'Emergency Contacts',
+  'profile.call': 'Call {phone}',
+  'profile.noContacts': 'No emergency contacts available',
+  'profile.physician': 'Primary Physician',
+  'profile.notes': 'Additional Notes',
+  'profile.emergencyOnly': 'For Emergency Use Only',
+  'profile.emergencyNotice': 'This information is provided for emergency medical care. Contact emergency services ({number}) if immediate medical attention is required.',
+  'profile.emergencyServices': 'Emergency Services',
+
+  'section.dob': 'date of birth',
+  'section.allergies': 'full allergy list',
+  'section.medications': 'medications',
+  'section.medicalConditions': 'medical conditions',
+  'section.emergencyContacts': 'additional emergency contacts',
+  'section.physician': 'primary physician',
+  'section.notes': 'additional notes',
+
+  'info.loading': 'Loading employee information...',
+  'info.loadFailed': 'Failed to load employee data',
+  'info.notCached': 'No connection, and this profile is not in the offline cache on this device.',
+  'info.archivedTitle': 'Record No Longer Active',
+  'info.archivedBody': 'This badge belongs to an employee record that has been archived, so no emergency information is available. Treat the person as having no medical information on file.',
+  'info.notFoundTitle': 'Employee Not Found',
+  'info.notFoundBody': 'The requested employee information could not be found.',
+  'info.noDataTitle': 'No Employee Data',
+  'info.noDataBody': 'Employee information is not available at this time.',
+  'info.recordIncident': 'Record Incident',
+  'info.incidentOffline': 'Incidents can be recorded once the connection is back',
+  'info.incidentRecorded': 'Incident recorded.',
+  'info.offlineTitle': 'Offline copy · synced {age}',
+  'info.offlineBody': 'No connection to the server. This is the profile as it was on {date}; recent changes may be missing.',
+  'info.limitedTitle': 'Limited Emergency View',
+  'info.limitedBody': 'Only life-critical information is shown.',
+  'info.withheld': 'Available to authorised responders: {sections}.',
+  'info.responderLogin': 'Responder Login',
+  'info.locationNotice': "This employee's emergency contacts are notified of scans, including your approximate location if you allow it.",
+
+  'badge.revoked': 'This badge has been revoked. Ask the employee for their current badge or contact your administrator.',
+  'badge.invalid': 'This QR code is not a valid emergency badge.',
+  'badge.unknown': 'No employee record is linked to this badge.',
+  'badge.archived': 'This employee record is no longer active. Treat the person as having no medical information on file.',
+
+  'scanner.title': 'Emergency QR Scanner',
+  'scanner.intro': 'Scan the QR code on any employee ID to instantly access their emergency medical information, allergies, medications, and emergency contacts.',
+  'scanner.cardUnreadable': 'This emergency card could not be read.',
+  'scanner.cardTampered': 'This emergency card failed its signature check and may have been altered. Do not rely on it.',
+  'scanner.notCached': 'No connection, and this person is not in the offline cache on this device.',
+  'scanner.lookupFailed': 'Failed to look up this badge',
+  'scanner.checkFailed': 'Failed to check badge',
+  'scanner.scanAnother': 'Scan another badge',
+  'scanner.openFullProfile': 'Open full profile',
+  'scanner.unknownDate': 'an unknown date',
+  'scanner.verifiedTitle': 'Read from the badge · signature verified',
+  'scanner.verifiedBody': 'Emergency summary as issued on {date}. Details may have changed since; only critical allergies and key medications are included.',
+  'scanner.uncheckedTitle': 'Read from the badge · signature not checked',
+  'scanner.uncheckedBody': 'This device has not downloaded the verification key yet. Open the scanner once with a connection so badges can be verified offline. Issued on {date}.',
+  'scanner.scanned': 'QR Code Scanned!',
+  'scanner.redirecting': 'Redirecting to employee information...',
+  'scanner.triageTitle': 'Triage mode',
+  'scanner.triageHint': 'Scan many badges in a row and tag each person.',
+  'scanner.triageStart': 'Start',
+  'scanner.triageEnd': 'End',
+  'scanner.triageEndConfirm': 'End this triage session? The list will be cleared, so export the report first if you need it.',
+  'scanner.triageDuplicate': '{name} is already in this session.',
+  'scanner.triageAdded': 'Added {name}. Scan the next badge.',
+  'scanner.notAccepted': 'Badge Not Accepted',
+  'scanner.stillRunning': "The scanner is still running; point it at the employee's SafeScan badge.",
+  'scanner.emergencyOnlyTitle': 'For Emergency Use Only',
+  'scanner.emergencyOnlyBody': 'This system is designed for emergency responders, medical professionals, and authorized personnel only. The medical information accessed through this system should be used solely for emergency medical care and treatment purposes. Unauthorized use or sharing of this information is strictly prohibited.',
+  'scanner.tipsTitle': 'Scanner Tips:',
+  'scanner.tipLighting': 'Ensure adequate lighting for best results',
+  'scanner.tipSteady': 'Hold your device steady and keep the QR code centered',
+  'scanner.tipDistance': 'If scanning fails, try adjusting the distance from the QR code',
+  'scanner.tipDamaged': 'A damaged or glare-covered badge can still be read from a photo, or opened with the code printed under the QR',
+  'scanner.tipAutomatic': 'The camera will automatically detect and scan the QR code',
+  'scanner.tipRedirect': "You'll be redirected immediately after successful scanning",
+
+  'camera.error': 'Unable to access camera. Please ensure camera permissions are granted, or use a photo or the badge code below.',
+  'camera.requiredTitle': 'Camera Access Required',
+  'camera.retry': 'Retry',
+  'camera.title': 'Scan Emergency QR Code',
+  'camera.hint': "Point your camera at the QR code on the employee's ID",
+  'camera.ready': 'Camera is ready',
+  'camera.instructions': 'Instructions:',
+  'camera.instructionSteady': 'Hold your device steady',
+  'camera.instructionLight': 'Ensure the QR code is well-lit',
+  'camera.instructionArea': 'Keep the QR code within the scanning area',
+  'camera.instructionRedirect': "You'll be redirected automatically after scanning",
+
+  'lookup.title': "Can't scan the badge?",
+  'lookup.photo': 'Photo',
+  'lookup.code': 'Badge code',
+  'lookup.search': 'Search',
+  'lookup.noQrInPhoto': 'No QR code found in this photo. Try a sharper, closer shot of the badge.',
+  'lookup.codeLength': 'Badge codes have 8 characters, like 7K3M-Q9TX.',
+  'lookup.codeFailed': 'Failed to look up badge code',
+  'lookup.codeNotCached': 'No connection, and this badge code is not in the offline cache on this device.',
+  'lookup.searchFailed': 'Search failed',
+  'lookup.readingPhoto': 'Reading photo...',
+  'lookup.choosePhoto': 'Take or choose a photo of the QR code',
+  'lookup.lookingUp': 'Looking up...',
+  'lookup.open': 'Open',
+  'lookup.searchPlaceholder': 'Name or employee ID',
+  'lookup.searchOffline': 'Search needs a connection. Use the badge code or a photo instead.',
+  'lookup.noMatches': 'No matching employees.',
+
+  'offline.online': 'Online',
+  'offline.offline': 'Offline',
+  'offline.offlineCached': 'Offline · using cached profiles',
+  'offline.syncing': 'Syncing...',
+  'offline.syncNow': 'Sync now',
+  'offline.signIn': 'Sign in',
+  'offline.signInHint': " to keep your sites' profiles available without signal.",
+  'offline.unsupported': 'This browser cannot store profiles for offline use.',
+  'offline.keepProfiles': 'Keep profiles for my assigned sites on this device (encrypted)',
+  'offline.noSites': 'No sites are assigned to your account, so nothing is cached.',
+  'offline.summary': '{count} profiles for {sites} · synced {age}',
+  'offline.expired': 'expired, reconnect to refresh'
+};
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, string>;
+
+export default en;
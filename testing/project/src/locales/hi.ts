@@ -0,0 +1,177 @@
+import type { Messages } from './en';
+
+const hi: Messages = {
+  'language.label': 'भाषा',
+  'common.backHome': 'होम पर वापस',
+  'common.goHome': 'होम पर वापस जाएं',
+
+  'nav.scan': 'QR कोड स्कैन करें',
+  'nav.admin': 'एडमिन पैनल',
+  'nav.myProfile': 'मेरी प्रोफ़ाइल',
+  'nav.welcome': 'स्वागत है, {name}',
+  'nav.logout': 'लॉग आउट',
+  'nav.login': 'लॉग इन',
+
+  'profile.restricted': 'केवल अधिकृत आपातकालीन कर्मियों के लिए उपलब्ध',
+  'profile.unknown': 'अज्ञात',
+  'profile.notAvailable': 'उपलब्ध नहीं',
+  'profile.employeeId': 'कर्मचारी आईडी: {id}',
+  'profile.age': 'आयु: {age} वर्ष',
+  'profile.born': 'जन्म: {date}',
+  'profile.bloodType': 'रक्त समूह: {bloodGroup}',
+  'profile.allergies': 'एलर्जी',
+  'profile.severeAllergies': 'गंभीर एलर्जी',
+  'profile.anaphylaxisRisk': 'एनाफिलेक्सिस का खतरा',
+  'profile.anaphylaxisNotice': 'संपर्क जानलेवा हो सकता है। प्रतिक्रिया का पहला संकेत दिखते ही {number} पर कॉल करें।',
+  'profile.carriesEpinephrine': 'एपिनेफ्रीन ऑटो-इंजेक्टर साथ रखते हैं',
+  'profile.reaction': 'प्रतिक्रिया: {reaction}',
+  'allergy.severity.mild': 'हल्की',
+  'allergy.severity.moderate': 'मध्यम',
+  'allergy.severity.anaphylaxis': 'एनाफिलेक्सिस',
+  'allergy.reaction.rash': 'दाने या खुजली',
+  'allergy.reaction.hives': 'पित्ती',
+  'allergy.reaction.swelling': 'सूजन',
+  'allergy.reaction.breathing': 'सांस लेने में कठिनाई',
+  'allergy.reaction.gastrointestinal': 'उल्टी या दस्त',
+  'allergy.reaction.cardiovascular': 'बेहोशी या गिर पड़ना',
+  'allergy.reaction.other': 'अन्य',
+  'profile.noAllergies': 'कोई ज्ञात एलर्जी नहीं',
+  'profile.medications': 'वर्तमान दवाएं',
+  'profile.dosage': 'खुराक: {dosage}',
+  'profile.frequency': 'कितनी बार: {frequency}',
+  'profile.noMedications': 'कोई वर्तमान दवा नहीं',
+  'profile.bloodThinners': 'खून पतला करने वाली दवा लेते हैं',
+  'profile.bloodThinnersNotice': 'खून ज़्यादा बह सकता है और रोकना कठिन हो सकता है। ज़ोर से दबाएं और एम्बुलेंस टीम को बताएं।',
+  'profile.bloodThinner': 'खून पतला करने वाली दवा',
+  'profile.medicationWarnings': 'दवा संबंधी चेतावनियाँ',
+  'profile.allergyConflict': '{medication} दर्ज {allergy} एलर्जी से टकराती है',
+  'profile.interaction': '{first} के साथ {second}: {effect}',
+  'medication.effect.bleeding': 'खून बहने का बढ़ा हुआ ख़तरा',
+  'medication.effect.serotonin': 'सेरोटोनिन सिंड्रोम का ख़तरा',
+  'medication.effect.breathing': 'सांस धीमी होने का ख़तरा',
+  'medication.effect.hypotension': 'बहुत कम रक्तचाप का ख़तरा',
+  'medication.effect.potassium': 'पोटैशियम बढ़ने का ख़तरा',
+  'medication.effect.hypoglycaemia': 'ब्लड शुगर कम होने का ख़तरा',
+  'medication.effect.epinephrine': 'एपिनेफ़्रिन कम असर कर सकता है',
+  'profile.conditions': 'चिकित्सीय स्थितियां',
+  'profile.emergencyContacts': 'आपातकालीन संपर्क',
+  'profile.call': '{phone} पर कॉल करें',
+  'profile.noContacts': 'कोई आपातकालीन संपर्क उपलब्ध नहीं',
+  'profile.physician': 'प्राथमिक चिकित्सक',
+  'profile.notes': 'अतिरिक्त टिप्पणियां',
+  'profile.emergencyOnly': 'केवल आपातकालीन उपयोग के लिए',
+  'profile.emergencyNotice': 'यह जानकारी आपातकालीन चिकित्सा देखभाल के लिए दी गई है। तुरंत चिकित्सा सहायता की आवश्यकता हो तो आपातकालीन सेवाओं ({number}) से संपर्क करें।',
+  'profile.emergencyServices': 'आपातकालीन सेवाएं',
+
+  'section.dob': 'जन्म तिथि',
+  'section.allergies': 'पूरी एलर्जी सूची',
+  'section.medications': 'दवाएं',
+  'section.medicalConditions': 'चिकित्सीय स्थितियां',
+  'section.emergencyContacts': 'अन्य आपातकालीन संपर्क',
+  'section.physician': 'प्राथमिक चिकित्सक',
+  'section.notes': 'अतिरिक्त टिप्पणियां',
+
+  'info.loading': 'कर्मचारी की जानकारी लोड हो रही है...',
+  'info.loadFailed': 'कर्मचारी की जानकारी लोड नहीं हो सकी',
+  'info.notCached': 'कनेक्शन नहीं है, और यह प्रोफ़ाइल इस डिवाइस के ऑफ़लाइन कैश में नहीं है।',
+  'info.archivedTitle': 'रिकॉर्ड अब सक्रिय नहीं है',
+  'info.archivedBody': 'यह बैज एक संग्रहीत कर्मचारी रिकॉर्ड का है, इसलिए कोई आपातकालीन जानकारी उपलब्ध नहीं है। मान लें कि इस व्यक्ति की कोई चिकित्सा जानकारी दर्ज नहीं है।',
+  'info.notFoundTitle': 'कर्मचारी नहीं मिला',
+  'info.notFoundBody': 'मांगी गई कर्मचारी जानकारी नहीं मिल सकी।',
+  'info.noDataTitle': 'कर्मचारी की जानकारी नहीं',
+  'info.noDataBody': 'कर्मचारी की जानकारी अभी उपलब्ध नहीं है।',
+  'info.recordIncident': 'घटना दर्ज करें',
+  'info.incidentOffline': 'कनेक्शन वापस आने पर घटनाएं दर्ज की जा सकती हैं',
+  'info.incidentRecorded': 'घटना दर्ज हो गई।',
+  'info.offlineTitle': 'ऑफ़लाइन प्रति · सिंक {age}',
+  'info.offlineBody': 'सर्वर से कनेक्शन नहीं है। यह प्रोफ़ाइल {date} की स्थिति में है; हाल के बदलाव छूट सकते हैं।',
+  'info.limitedTitle': 'सीमित आपातकालीन दृश्य',
+  'info.limitedBody': 'केवल जीवन-रक्षक जानकारी दिखाई गई है।',
+  'info.withheld': 'अधिकृत आपातकालीन कर्मियों के लिए उपलब्ध: {sections}।',
+  'info.responderLogin': 'आपातकालीन कर्मी लॉग इन',
+  'info.locationNotice': 'स्कैन होने पर इस कर्मचारी के आपातकालीन संपर्कों को सूचित किया जाता है, और आप अनुमति दें तो आपकी अनुमानित लोकेशन भी भेजी जाती है।',
+
+  'badge.revoked': 'यह बैज रद्द कर दिया गया है। कर्मचारी से उनका वर्तमान बैज मांगें या अपने एडमिनिस्ट्रेटर से संपर्क करें।',
+  'badge.invalid': 'यह QR कोड मान्य आपातकालीन बैज नहीं है।',
+  'badge.unknown': 'इस बैज से कोई कर्मचारी रिकॉर्ड जुड़ा नहीं है।',
+  'badge.archived': 'यह कर्मचारी रिकॉर्ड अब सक्रिय नहीं है। मान लें कि इस व्यक्ति की कोई चिकित्सा जानकारी दर्ज नहीं है।',
+
+  'scanner.title': 'आपातकालीन QR स्कैनर',
+  'scanner.intro': 'किसी भी कर्मचारी आईडी पर QR कोड स्कैन करके तुरंत उनकी आपातकालीन चिकित्सा जानकारी, एलर्जी, दवाएं और आपातकालीन संपर्क देखें।',
+  'scanner.cardUnreadable': 'यह आपातकालीन कार्ड पढ़ा नहीं जा सका।',
+  'scanner.cardTampered': 'यह आपातकालीन कार्ड हस्ताक्षर जांच में विफल रहा और इसमें बदलाव किया गया हो सकता है। इस पर भरोसा न करें।',
+  'scanner.notCached': 'कनेक्शन नहीं है, और यह व्यक्ति इस डिवाइस के ऑफ़लाइन कैश में नहीं है।',
+  'scanner.lookupFailed': 'यह बैज खोजा नहीं जा सका',
+  'scanner.checkFailed': 'बैज की जांच नहीं हो सकी',
+  'scanner.scanAnother': 'दूसरा बैज स्कैन करें',
+  'scanner.openFullProfile': 'पूरी प्रोफ़ाइल खोलें',
+  'scanner.unknownDate': 'अज्ञात तिथि',
+  'scanner.verifiedTitle': 'बैज से पढ़ा गया · हस्ताक्षर सत्यापित',
+  'scanner.verifiedBody': '{date} को जारी आपातकालीन सारांश। तब से विवरण बदल सकते हैं; केवल गंभीर एलर्जी और मुख्य दवाएं शामिल हैं।',
+  'scanner.uncheckedTitle': 'बैज से पढ़ा गया · हस्ताक्षर की जांच नहीं हुई',
+  'scanner.uncheckedBody': 'इस डिवाइस ने अभी तक सत्यापन कुंजी डाउनलोड नहीं की है। कनेक्शन के साथ एक बार स्कैनर खोलें ताकि बैज ऑफ़लाइन सत्यापित हो सकें। जारी: {date}।',
+  'scanner.scanned': 'QR कोड स्कैन हो गया!',
+  'scanner.redirecting': 'कर्मचारी की जानकारी पर ले जाया जा रहा है...',
+  'scanner.triageTitle': 'ट्राइएज मोड',
+  'scanner.triageHint': 'एक के बाद एक कई बैज स्कैन करें और हर व्यक्ति को टैग करें।',
+  'scanner.triageStart': 'शुरू करें',
+  'scanner.triageEnd': 'समाप्त करें',
+  'scanner.triageEndConfirm': 'यह ट्राइएज सत्र समाप्त करें? सूची हटा दी जाएगी, इसलिए ज़रूरत हो तो पहले रिपोर्ट एक्सपोर्ट कर लें।',
+  'scanner.triageDuplicate': '{name} पहले से इस सत्र में है।',
+  'scanner.triageAdded': '{name} जोड़ा गया। अगला बैज स्कैन करें।',
+  'scanner.notAccepted': 'बैज स्वीकार नहीं हुआ',
+  'scanner.stillRunning': 'स्कैनर अभी भी चल रहा है; इसे कर्मचारी के SafeScan बैज की ओर करें।',
+  'scanner.emergencyOnlyTitle': 'केवल आपातकालीन उपयोग के लिए',
+  'scanner.emergencyOnlyBody': 'यह प्रणाली केवल आपातकालीन कर्मियों, चिकित्सा पेशेवरों और अधिकृत व्यक्तियों के लिए है। इसके माध्यम से प्राप्त चिकित्सा जानकारी का उपयोग केवल आपातकालीन चिकित्सा देखभाल और उपचार के लिए किया जाना चाहिए। इस जानकारी का अनधिकृत उपयोग या साझा करना सख्त वर्जित है।',
+  'scanner.tipsTitle': 'स्कैनिंग सुझाव:',
+  'scanner.tipLighting': 'अच्छे परिणाम के लिए पर्याप्त रोशनी रखें',
+  'scanner.tipSteady': 'डिवाइस स्थिर रखें और QR कोड को बीच में रखें',
+  'scanner.tipDistance': 'स्कैन न हो तो QR कोड से दूरी बदलकर देखें',
+  'scanner.tipDamaged': 'क्षतिग्रस्त या चमक वाले बैज को फ़ोटो से, या QR के नीचे छपे कोड से खोला जा सकता है',
+  'scanner.tipAutomatic': 'कैमरा QR कोड को अपने आप पहचानकर स्कैन करेगा',
+  'scanner.tipRedirect': 'सफल स्कैन के तुरंत बाद आपको आगे ले जाया जाएगा',
+
+  'camera.error': 'कैमरा उपलब्ध नहीं है। कृपया कैमरा अनुमति दें, या नीचे फ़ोटो या बैज कोड का उपयोग करें।',
+  'camera.requiredTitle': 'कैमरा अनुमति आवश्यक',
+  'camera.retry': 'फिर से कोशिश करें',
+  'camera.title': 'आपातकालीन QR कोड स्कैन करें',
+  'camera.hint': 'कैमरे को कर्मचारी की आईडी पर लगे QR कोड की ओर करें',
+  'camera.ready': 'कैमरा तैयार है',
+  'camera.instructions': 'निर्देश:',
+  'camera.instructionSteady': 'डिवाइस स्थिर रखें',
+  'camera.instructionLight': 'QR कोड पर पर्याप्त रोशनी हो',
+  'camera.instructionArea': 'QR कोड को स्कैनिंग क्षेत्र के अंदर रखें',
+  'camera.instructionRedirect': 'स्कैन के बाद आपको अपने आप आगे ले जाया जाएगा',
+
+  'lookup.title': 'बैज स्कैन नहीं हो रहा?',
+  'lookup.photo': 'फ़ोटो',
+  'lookup.code': 'बैज कोड',
+  'lookup.search': 'खोजें',
+  'lookup.noQrInPhoto': 'इस फ़ोटो में कोई QR कोड नहीं मिला। बैज की अधिक साफ़ और पास से फ़ोटो लें।',
+  'lookup.codeLength': 'बैज कोड में 8 अक्षर होते हैं, जैसे 7K3M-Q9TX।',
+  'lookup.codeFailed': 'बैज कोड खोजा नहीं जा सका',
+  'lookup.codeNotCached': 'कनेक्शन नहीं है, और यह बैज कोड इस डिवाइस के ऑफ़लाइन कैश में नहीं है।',
+  'lookup.searchFailed': 'खोज विफल रही',
+  'lookup.readingPhoto': 'फ़ोटो पढ़ी जा रही है...',
+  'lookup.choosePhoto': 'QR कोड की फ़ोटो लें या चुनें',
+  'lookup.lookingUp': 'खोजा जा रहा है...',
+  'lookup.open': 'खोलें',
+  'lookup.searchPlaceholder': 'नाम या कर्मचारी आईडी',
+  'lookup.searchOffline': 'खोज के लिए कनेक्शन चाहिए। इसके बजाय बैज कोड या फ़ोटो का उपयोग करें।',
+  'lookup.noMatches': 'कोई मिलता-जुलता कर्मचारी नहीं।',
+
+  'offline.online': 'ऑनलाइन',
+  'offline.offline': 'ऑफ़लाइन',
+  'offline.offlineCached': 'ऑफ़लाइन · सहेजी गई प्रोफ़ाइल का उपयोग',
+  'offline.syncing': 'सिंक हो रहा है...',
+  'offline.syncNow': 'अभी सिंक करें',
+  'offline.signIn': 'साइन इन करें',
+  'offline.signInHint': ' ताकि आपकी साइटों की प्रोफ़ाइल बिना सिग्नल के भी उपलब्ध रहें।',
+  'offline.unsupported': 'यह ब्राउज़र ऑफ़लाइन उपयोग के लिए प्रोफ़ाइल सहेज नहीं सकता।',
+  'offline.keepProfiles': 'मेरी निर्धारित साइटों की प्रोफ़ाइल इस डिवाइस पर रखें (एन्क्रिप्टेड)',
+  'offline.noSites': 'आपके खाते को कोई साइट नहीं दी गई है, इसलिए कुछ भी सहेजा नहीं गया।',
+  'offline.summary': '{sites} की {count} प्रोफ़ाइल · सिंक {age}',
+  'offline.expired': 'समय सीमा समाप्त, रीफ़्रेश करने के लिए कनेक्ट करें'
+};
+
+export default hi;
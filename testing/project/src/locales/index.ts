@@ -0,0 +1,19 @@
+import en, { MessageKey, Messages } from './en';
+import de from './de';
+import hi from './hi';
+
+export type { MessageKey, Messages };
+
+export type Language = 'en' | 'de' | 'hi';
+
+// Labels are in each language's own script so readers can find theirs
+export const LANGUAGES: { code: Language; label: string }[] = [
+  { code: 'en', label: 'English' },
+  { code: 'de', label: 'Deutsch' },
+  { code: 'hi', label: 'हिन्दी' }
+];
+
+export const MESSAGES: Record<Language, Messages> = { en, de, hi };
+
+export const isLanguage = (value: string | null | undefined): value is Language =>
+  !!value && value in MESSAGES;
@@ -0,0 +1,85 @@
+import type { Language } from '.';
+
+// Common allergens, conditions and medications in every supported language,
+// so a responder can read a record entered in another one. Records are free
+// text, so only exact (case-insensitive) matches are translated.
+const MEDICAL_TERMS: Record<Language, string>[] = [
+  // Allergens
+  { en: 'Penicillin', de: 'Penicillin', hi: 'पेनिसिलिन' },
+  { en: 'Amoxicillin', de: 'Amoxicillin', hi: 'एमोक्सिसिलिन' },
+  { en: 'Sulfa drugs', de: 'Sulfonamide', hi: 'सल्फा दवाएं' },
+  { en: 'Aspirin', de: 'Aspirin', hi: 'एस्पिरिन' },
+  { en: 'Ibuprofen', de: 'Ibuprofen', hi: 'आइबुप्रोफ़ेन' },
+  { en: 'Codeine', de: 'Codein', hi: 'कोडीन' },
+  { en: 'Morphine', de: 'Morphin', hi: 'मॉर्फिन' },
+  { en: 'Iodine', de: 'Jod', hi: 'आयोडीन' },
+  { en: 'Latex', de: 'Latex', hi: 'लेटेक्स' },
+  { en: 'Peanuts', de: 'Erdnüsse', hi: 'मूंगफली' },
+  { en: 'Tree nuts', de: 'Schalenfrüchte', hi: 'मेवे' },
+  { en: 'Shellfish', de: 'Schalentiere', hi: 'शेलफ़िश' },
+  { en: 'Fish', de: 'Fisch', hi: 'मछली' },
+  { en: 'Eggs', de: 'Eier', hi: 'अंडे' },
+  { en: 'Milk', de: 'Milch', hi: 'दूध' },
+  { en: 'Soy', de: 'Soja', hi: 'सोया' },
+  { en: 'Wheat', de: 'Weizen', hi: 'गेहूं' },
+  { en: 'Gluten', de: 'Gluten', hi: 'ग्लूटेन' },
+  { en: 'Bee stings', de: 'Bienenstiche', hi: 'मधुमक्खी का डंक' },
+  { en: 'Wasp stings', de: 'Wespenstiche', hi: 'ततैया का डंक' },
+  { en: 'Peanut', de: 'Erdnuss', hi: 'मूंगफली' },
+  { en: 'Egg', de: 'Ei', hi: 'अंडा' },
+  { en: 'Molluscs', de: 'Weichtiere', hi: 'मोलस्क' },
+  { en: 'Sesame', de: 'Sesam', hi: 'तिल' },
+  { en: 'Mustard', de: 'Senf', hi: 'सरसों' },
+  { en: 'Celery', de: 'Sellerie', hi: 'सेलेरी' },
+  { en: 'Lupin', de: 'Lupine', hi: 'ल्यूपिन' },
+  { en: 'Cephalosporins', de: 'Cephalosporine', hi: 'सेफलोस्पोरिन' },
+  { en: 'Sulfonamide antibiotics', de: 'Sulfonamid-Antibiotika', hi: 'सल्फोनामाइड एंटीबायोटिक्स' },
+  { en: 'NSAIDs', de: 'NSAR', hi: 'एनएसएआईडी' },
+  { en: 'Opioids', de: 'Opioide', hi: 'ओपिओइड' },
+  { en: 'Iodinated contrast', de: 'Jodhaltiges Kontrastmittel', hi: 'आयोडीन युक्त कंट्रास्ट' },
+  { en: 'Pollen', de: 'Pollen', hi: 'पराग' },
+  { en: 'House dust mite', de: 'Hausstaubmilbe', hi: 'घर की धूल के कण' },
+  { en: 'Animal dander', de: 'Tierhaare', hi: 'जानवरों की रूसी' },
+  { en: 'Nickel', de: 'Nickel', hi: 'निकल' },
+
+  // Conditions
+  { en: 'Anaphylaxis', de: 'Anaphylaxie', hi: 'एनाफिलेक्सिस' },
+  { en: 'Asthma', de: 'Asthma', hi: 'दमा' },
+  { en: 'COPD', de: 'COPD', hi: 'सीओपीडी' },
+  { en: 'Diabetes', de: 'Diabetes', hi: 'मधुमेह' },
+  { en: 'Type 1 diabetes', de: 'Typ-1-Diabetes', hi: 'टाइप 1 मधुमेह' },
+  { en: 'Type 2 diabetes', de: 'Typ-2-Diabetes', hi: 'टाइप 2 मधुमेह' },
+  { en: 'Epilepsy', de: 'Epilepsie', hi: 'मिर्गी' },
+  { en: 'Hypertension', de: 'Bluthochdruck', hi: 'उच्च रक्तचाप' },
+  { en: 'Heart disease', de: 'Herzerkrankung', hi: 'हृदय रोग' },
+  { en: 'Coronary artery disease', de: 'Koronare Herzkrankheit', hi: 'कोरोनरी धमनी रोग' },
+  { en: 'Atrial fibrillation', de: 'Vorhofflimmern', hi: 'एट्रियल फ़िब्रिलेशन' },
+  { en: 'Pacemaker', de: 'Herzschrittmacher', hi: 'पेसमेकर' },
+  { en: 'Stroke', de: 'Schlaganfall', hi: 'स्ट्रोक' },
+  { en: 'Kidney disease', de: 'Nierenerkrankung', hi: 'गुर्दे की बीमारी' },
+  { en: 'Hemophilia', de: 'Hämophilie', hi: 'हीमोफ़ीलिया' },
+  { en: 'Sickle cell disease', de: 'Sichelzellkrankheit', hi: 'सिकल सेल रोग' },
+  { en: 'Pregnancy', de: 'Schwangerschaft', hi: 'गर्भावस्था' },
+
+  // Medications
+  { en: 'Insulin', de: 'Insulin', hi: 'इंसुलिन' },
+  { en: 'Metformin', de: 'Metformin', hi: 'मेटफ़ॉर्मिन' },
+  { en: 'Warfarin', de: 'Warfarin', hi: 'वारफ़रिन' },
+  { en: 'Nitroglycerin', de: 'Nitroglycerin', hi: 'नाइट्रोग्लिसरीन' },
+  { en: 'Salbutamol', de: 'Salbutamol', hi: 'साल्बुटामोल' },
+  { en: 'Epinephrine auto-injector', de: 'Adrenalin-Autoinjektor', hi: 'एपिनेफ़्रिन ऑटो-इंजेक्टर' }
+];
+
+const normalize = (term: string) => term.trim().toLocaleLowerCase();
+
+// Every spelling in every language leads to its entry
+const TERM_INDEX = new Map<string, Record<Language, string>>(
+  MEDICAL_TERMS.flatMap(entry => Object.values(entry).map(spelling => [normalize(spelling), entry] as const))
+);
+
+// The term in the reader's language, or null when it is unknown or already
+// reads the same
+export const translateMedicalTerm = (term: string, language: Language): string | null => {
+  const translation = TERM_INDEX.get(normalize(term))?.[language];
+  return translation && normalize(translation) !== normalize(term) ? translation : null;
+};
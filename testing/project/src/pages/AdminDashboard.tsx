@@ -2,12 +2,25 @@ import React, { useEffect, useState } from 'react';
 import { useEmployee, Employee } from '../context/EmployeeContext';
 import EmployeeForm from '../components/EmployeeForm';
 import EmployeeList from '../components/EmployeeList';
-import { Plus, Users, QrCode, Heart } from 'lucide-react';
+import EmployeeImportWizard from '../components/EmployeeImportWizard';
+import UserManagement from '../components/UserManagement';
+import InviteManager from '../components/InviteManager';
+import ChangeRequestQueue from '../components/ChangeRequestQueue';
+import ArchivedEmployees from '../components/ArchivedEmployees';
+import { useAuth } from '../context/AuthContext';
+import { AUDIT_ROLES, EDITOR_ROLES } from '../utils/roles';
+import { Link } from 'react-router-dom';
+import { Plus, Users, QrCode, Heart, History, Upload, CreditCard, ClipboardList, Building2 } from 'lucide-react';
 
 const AdminDashboard: React.FC = () => {
   const { employees, fetchEmployees, loading } = useEmployee();
+  const { hasRole } = useAuth();
+  const canEdit = hasRole(...EDITOR_ROLES);
+  const isSuperAdmin = hasRole('super-admin');
+  const canAudit = hasRole(...AUDIT_ROLES);
   const [showForm, setShowForm] = useState(false);
   const [editingEmployee, setEditingEmployee] = useState<Employee | null>(null);
+  const [showImport, setShowImport] = useState(false);
 
   useEffect(() => {
     fetchEmployees();
@@ -51,13 +64,60 @@ const AdminDashboard: React.FC = () => {
                 </div>
               </div>
               
-              <button
-                onClick={handleAddEmployee}
-                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
-              >
-                <Plus className="h-5 w-5" />
-                <span>Add Employee</span>
-              </button>
+              <div className="flex items-center space-x-3">
+                {canAudit && (
+                  <Link
+                    to="/admin/scans"
+                    className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2"
+                  >
+                    <History className="h-5 w-5" />
+                    <span>Scan History</span>
+                  </Link>
+                )}
+                <Link
+                  to="/admin/incidents"
+                  className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2"
+                >
+                  <ClipboardList className="h-5 w-5" />
+                  <span>Incidents</span>
+                </Link>
+                {canEdit && (
+                  <Link
+                    to="/admin/badges"
+                    className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2"
+                  >
+                    <CreditCard className="h-5 w-5" />
+                    <span>Badge Designer</span>
+                  </Link>
+                )}
+                {isSuperAdmin && (
+                  <Link
+                    to="/admin/sites"
+                    className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2"
+                  >
+                    <Building2 className="h-5 w-5" />
+                    <span>Sites</span>
+                  </Link>
+                )}
+                {canEdit && (
+                  <button
+                    onClick={() => setShowImport(true)}
+                    className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2"
+                  >
+                    <Upload className="h-5 w-5" />
+                    <span>Import</span>
+                  </button>
+                )}
+                {canEdit && (
+                  <button
+                    onClick={handleAddEmployee}
+                    className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+                  >
+                    <Plus className="h-5 w-5" />
+                    <span>Add Employee</span>
+                  </button>
+                )}
+              </div>
             </div>
           </div>
         </div>
@@ -103,6 +163,15 @@ const AdminDashboard: React.FC = () => {
           </div>
         </div>
 
+        {canEdit && <ChangeRequestQueue onApproved={fetchEmployees} />}
+
+        {isSuperAdmin && (
+          <>
+            <InviteManager />
+            <UserManagement />
+          </>
+        )}
+
         {/* Employee Form Modal */}
         {showForm && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -116,6 +185,18 @@ const AdminDashboard: React.FC = () => {
           </div>
         )}
 
+        {/* Import Wizard Modal */}
+        {showImport && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+            <div className="bg-white rounded-xl shadow-xl w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+              <EmployeeImportWizard
+                onClose={() => setShowImport(false)}
+                onSuccess={fetchEmployees}
+              />
+            </div>
+          </div>
+        )}
+
         {/* Employee List */}
         <div className="bg-white rounded-xl shadow-sm">
           <div className="px-6 py-4 border-b border-gray-200">
@@ -132,9 +213,12 @@ const AdminDashboard: React.FC = () => {
               employees={employees}
               onEditEmployee={handleEditEmployee}
               onRefresh={fetchEmployees}
+              readOnly={!canEdit}
             />
           )}
         </div>
+
+        <ArchivedEmployees canRestore={canEdit} onRestored={fetchEmployees} />
       </div>
     </div>
   );
@@ -0,0 +1,387 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import axios from 'axios';
+import { Employee, useEmployee } from '../context/EmployeeContext';
+import { getErrorMessage } from '../utils/apiError';
+import { ArrowLeft, AlertCircle, CreditCard, Plus, Save, Trash2, QrCode, User } from 'lucide-react';
+
+interface BadgeTemplate {
+  _id?: string;
+  site?: string;
+  name: string;
+  organizationName: string;
+  primaryColor: string;
+  accentColor: string;
+  showPhoto: boolean;
+  frontFooter: string;
+  emergencyNumber: string;
+  backNote: string;
+}
+
+// Same defaults as the server's built-in template
+const NEW_TEMPLATE: BadgeTemplate = {
+  site: '',
+  name: '',
+  organizationName: 'SafeScan',
+  primaryColor: '#1d4ed8',
+  accentColor: '#b91c1c',
+  showPhoto: true,
+  frontFooter: 'Scan in an emergency',
+  emergencyNumber: '',
+  backNote: ''
+};
+
+const SAMPLE_EMPLOYEE = {
+  name: 'Alex Sample',
+  employeeId: 'EMP0001',
+  bloodGroup: 'O+',
+  emergencyContacts: [{ name: 'Sam Sample', relationship: 'Partner', phone: '+1 555 0100' }]
+};
+
+type PreviewEmployee = Pick<Employee, 'name' | 'employeeId' | 'bloodGroup'> & {
+  emergencyContacts: { name: string; relationship: string; phone: string }[];
+};
+
+// On-screen approximation of the printed CR80 badge (portrait, 53.98 x 85.6 mm)
+const BadgePreview: React.FC<{ template: BadgeTemplate; employee: PreviewEmployee; side: 'front' | 'back' }> = ({
+  template,
+  employee,
+  side
+}) => {
+  const contact = employee.emergencyContacts[0];
+
+  return (
+    <div className="w-[216px] h-[342px] bg-white border border-gray-300 rounded-lg shadow-sm overflow-hidden flex flex-col text-center">
+      <div
+        className="h-[42px] flex items-center justify-center px-2 text-white font-bold text-sm truncate"
+        style={{ backgroundColor: template.primaryColor }}
+      >
+        {side === 'front' ? template.organizationName : 'EMERGENCY INFORMATION'}
+      </div>
+
+      {side === 'front' ? (
+        <div className="flex-1 flex flex-col items-center px-3 pt-3 pb-2">
+          {template.showPhoto && (
+            <div className="w-[93px] h-[116px] bg-gray-200 flex items-center justify-center mb-2">
+              <User className="h-10 w-10 text-gray-400" />
+            </div>
+          )}
+          <p className="font-bold text-sm text-gray-900 truncate w-full">{employee.name}</p>
+          <p className="text-xs text-gray-600">ID {employee.employeeId}</p>
+          <div className="flex-1" />
+          <QrCode className={`${template.showPhoto ? 'h-24 w-24' : 'h-36 w-36'} text-gray-900`} />
+          {template.frontFooter && <p className="text-[9px] text-gray-600 mt-1">{template.frontFooter}</p>}
+        </div>
+      ) : (
+        <div className="flex-1 flex flex-col items-center px-3 pt-4 pb-2">
+          <p className="text-[10px] text-gray-600">BLOOD GROUP</p>
+          <p className="text-5xl font-bold leading-tight" style={{ color: template.accentColor }}>{employee.bloodGroup}</p>
+          {contact && (
+            <div className="mt-3">
+              <p className="text-[10px] text-gray-600">ICE CONTACT</p>
+              <p className="text-xs text-gray-900">{contact.name} ({contact.relationship})</p>
+              <p className="text-base font-bold text-gray-900">{contact.phone}</p>
+            </div>
+          )}
+          {template.emergencyNumber && (
+            <div
+              className="mt-3 w-full py-1 text-white text-xs font-bold"
+              style={{ backgroundColor: template.accentColor }}
+            >
+              EMERGENCY: CALL {template.emergencyNumber}
+            </div>
+          )}
+          {template.backNote && <p className="mt-3 text-[9px] text-gray-600 line-clamp-4">{template.backNote}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const BadgeDesignerPage: React.FC = () => {
+  const { employees, fetchEmployees } = useEmployee();
+  const [templates, setTemplates] = useState<BadgeTemplate[]>([]);
+  const [draft, setDraft] = useState<BadgeTemplate>(NEW_TEMPLATE);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (employees.length === 0) {
+      fetchEmployees();
+    }
+  }, [employees.length, fetchEmployees]);
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await axios.get('/badge-templates');
+      setTemplates(response.data.data);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to fetch badge templates'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const selectTemplate = (template: BadgeTemplate) => {
+    setDraft({ ...NEW_TEMPLATE, ...template, site: template.site || '' });
+    setError(null);
+    setMessage(null);
+  };
+
+  const updateDraft = (field: keyof BadgeTemplate, value: string | boolean) => {
+    setDraft(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const { _id, ...fields } = draft;
+      const response = _id
+        ? await axios.put(`/badge-templates/${_id}`, fields)
+        : await axios.post('/badge-templates', fields);
+      selectTemplate(response.data.data);
+      setMessage(response.data.message);
+      await fetchTemplates();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save badge template'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!draft._id || !window.confirm(`Delete the "${draft.name}" template? Badges for this site will use the default template.`)) {
+      return;
+    }
+
+    try {
+      await axios.delete(`/badge-templates/${draft._id}`);
+      selectTemplate(NEW_TEMPLATE);
+      await fetchTemplates();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete badge template'));
+    }
+  };
+
+  // Preview with a real employee from the template's site when there is one
+  const site = draft.site?.trim().toUpperCase();
+  const previewEmployee = employees.find(employee => (site ? employee.site === site : !employee.site)) || SAMPLE_EMPLOYEE;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <Link
+            to="/admin"
+            className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 transition-colors mb-4"
+          >
+            <ArrowLeft className="h-5 w-5" />
+            <span>Back to Dashboard</span>
+          </Link>
+          <div className="flex items-center space-x-3">
+            <div className="bg-indigo-100 p-2 rounded-lg">
+              <CreditCard className="h-8 w-8 text-indigo-600" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Badge Designer</h1>
+              <p className="text-gray-600">Templates for printed ID badges, per site. Employees without a site template use the default.</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Template list */}
+        <div className="bg-white rounded-xl shadow-sm p-4 h-fit">
+          <button
+            onClick={() => selectTemplate(NEW_TEMPLATE)}
+            className="w-full mb-3 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center justify-center space-x-2"
+          >
+            <Plus className="h-4 w-4" />
+            <span>New Template</span>
+          </button>
+          {loading ? (
+            <p className="text-sm text-gray-600">Loading templates...</p>
+          ) : templates.length === 0 ? (
+            <p className="text-sm text-gray-600">No templates yet. Badges use the built-in design.</p>
+          ) : (
+            <ul className="space-y-1">
+              {templates.map(template => (
+                <li key={template._id}>
+                  <button
+                    onClick={() => selectTemplate(template)}
+                    className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${
+                      draft._id === template._id ? 'bg-blue-50 text-blue-800' : 'text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    <span className="font-medium">{template.name}</span>
+                    <span className="block text-xs text-gray-500">{template.site ? `Site ${template.site}` : 'Default'}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Editor */}
+        <form onSubmit={handleSave} className="bg-white rounded-xl shadow-sm p-6 lg:col-span-2 space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900">{draft._id ? 'Edit Template' : 'New Template'}</h2>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center space-x-2">
+              <AlertCircle className="h-4 w-4 text-red-600 flex-shrink-0" />
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+          )}
+          {message && (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-3">
+              <p className="text-green-700 text-sm">{message}</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Template name *</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => updateDraft('name', e.target.value)}
+                required
+                maxLength={80}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Site code</label>
+              <input
+                type="text"
+                value={draft.site}
+                onChange={(e) => updateDraft('site', e.target.value)}
+                placeholder="Blank for the default template"
+                maxLength={40}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Organization name</label>
+              <input
+                type="text"
+                value={draft.organizationName}
+                onChange={(e) => updateDraft('organizationName', e.target.value)}
+                maxLength={40}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Emergency number</label>
+              <input
+                type="text"
+                value={draft.emergencyNumber}
+                onChange={(e) => updateDraft('emergencyNumber', e.target.value)}
+                placeholder="e.g. 911, 112, 999"
+                maxLength={20}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Header color</label>
+              <input
+                type="color"
+                value={draft.primaryColor}
+                onChange={(e) => updateDraft('primaryColor', e.target.value)}
+                className="h-10 w-full border border-gray-300 rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Blood group color</label>
+              <input
+                type="color"
+                value={draft.accentColor}
+                onChange={(e) => updateDraft('accentColor', e.target.value)}
+                className="h-10 w-full border border-gray-300 rounded-lg"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Front footer</label>
+            <input
+              type="text"
+              value={draft.frontFooter}
+              onChange={(e) => updateDraft('frontFooter', e.target.value)}
+              maxLength={40}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Back note</label>
+            <textarea
+              value={draft.backNote}
+              onChange={(e) => updateDraft('backNote', e.target.value)}
+              placeholder="e.g. If found, please return to reception"
+              maxLength={200}
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={draft.showPhoto}
+              onChange={(e) => updateDraft('showPhoto', e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            <span>Show employee photo on the front</span>
+          </label>
+
+          <div className="flex justify-between pt-2">
+            {draft._id ? (
+              <button
+                type="button"
+                onClick={handleDelete}
+                className="px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors flex items-center space-x-2"
+              >
+                <Trash2 className="h-4 w-4" />
+                <span>Delete</span>
+              </button>
+            ) : <span />}
+            <button
+              type="submit"
+              disabled={saving}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors flex items-center space-x-2"
+            >
+              <Save className="h-4 w-4" />
+              <span>{saving ? 'Saving...' : 'Save Template'}</span>
+            </button>
+          </div>
+        </form>
+
+        {/* Preview */}
+        <div className="bg-white rounded-xl shadow-sm p-4 h-fit">
+          <h2 className="font-semibold text-gray-900 mb-1">Preview</h2>
+          <p className="text-xs text-gray-500 mb-4">
+            {previewEmployee === SAMPLE_EMPLOYEE ? 'Sample employee' : `Using ${previewEmployee.name}`}. Print from the employee list.
+          </p>
+          <div className="flex flex-col items-center space-y-4">
+            <BadgePreview template={draft} employee={previewEmployee} side="front" />
+            <BadgePreview template={draft} employee={previewEmployee} side="back" />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BadgeDesignerPage;
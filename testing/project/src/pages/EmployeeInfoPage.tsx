@@ -1,77 +1,140 @@
 import React, { useEffect, useState } from 'react';
-import { useParams, Link } from 'react-router-dom';
+import { useParams, Link, useLocation } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
 import { useEmployee, Employee } from '../context/EmployeeContext';
+import { useOffline } from '../context/OfflineContext';
+import { useLanguage } from '../context/LanguageContext';
+import { MessageKey } from '../locales';
+import { ArchivedRecordError, NetworkError } from '../utils/apiError';
+import { formatCacheAge } from '../utils/offlineCache';
+import EmergencyProfile from '../components/EmergencyProfile';
+import IncidentForm from '../components/IncidentForm';
+import LanguageSwitcher from '../components/LanguageSwitcher';
 import { 
-  User, 
-  Phone, 
-  Heart, 
-  Pill, 
   AlertTriangle, 
-  UserCheck, 
-  Calendar,
   ArrowLeft,
-  Loader2
+  Archive,
+  CheckCircle,
+  ClipboardPlus,
+  Loader2,
+  Lock,
+  LogIn,
+  MapPin,
+  WifiOff
 } from 'lucide-react';
 
+const SECTION_LABELS: Record<string, MessageKey> = {
+  dob: 'section.dob',
+  allergies: 'section.allergies',
+  medications: 'section.medications',
+  medicalConditions: 'section.medicalConditions',
+  emergencyContacts: 'section.emergencyContacts',
+  physician: 'section.physician',
+  notes: 'section.notes'
+};
+
 const EmployeeInfoPage: React.FC = () => {
-  const { id } = useParams<{ id: string }>();
-  const { fetchEmployee, loading, error } = useEmployee();
+  // Reached either from a signed badge (/badge/:token) or by record id
+  const { id, token } = useParams<{ id?: string; token?: string }>();
+  const location = useLocation();
+  const { fetchEmployee, fetchEmployeeByBadge, reportScanLocation, loading, error } = useEmployee();
   const [employee, setEmployee] = useState<Employee | null>(null);
-  const [fetchError, setFetchError] = useState<string | null>(null);
+  // The server's message, or one of ours to show in the reader's language
+  const [fetchError, setFetchError] = useState<{ message: string } | { key: MessageKey } | null>(null);
+  const [archived, setArchived] = useState(false);
+  // When the profile came from the offline cache, the time it was synced
+  const [offlineSyncedAt, setOfflineSyncedAt] = useState<string | null>(null);
+  const { isOnline, findProfile, recordOfflineView } = useOffline();
+  const { user } = useAuth();
+  const { t, locale, formatDateTime } = useLanguage();
+  const [showIncidentForm, setShowIncidentForm] = useState(false);
+  const [incidentRecorded, setIncidentRecorded] = useState(false);
 
   useEffect(() => {
     const loadEmployee = async () => {
-      if (!id) return;
+      if (!id && !token) return;
       
       try {
-        const employeeData = await fetchEmployee(id);
+        const employeeData = token ? await fetchEmployeeByBadge(token) : await fetchEmployee(id!);
         setEmployee(employeeData);
+        setOfflineSyncedAt(null);
         setFetchError(null);
+        setArchived(false);
       } catch (err) {
-        setFetchError(err instanceof Error ? err.message : 'Failed to load employee data');
+        if (err instanceof ArchivedRecordError) {
+          setArchived(true);
+          return;
+        }
+        if (!(err instanceof NetworkError)) {
+          setFetchError(err instanceof Error ? { message: err.message } : { key: 'info.loadFailed' });
+          return;
+        }
+
+        const cached = await findProfile(token ? { token } : { id }).catch(() => null);
+        if (!cached) {
+          setFetchError({ key: 'info.notCached' });
+          return;
+        }
+
+        setEmployee(cached.profile);
+        setOfflineSyncedAt(cached.syncedAt);
+        setFetchError(null);
+        recordOfflineView({
+          employee: cached.profile.id,
+          source: token ? 'badge' : 'id',
+          viewedAt: new Date().toISOString()
+        });
       }
     };
 
     loadEmployee();
-  }, [id, fetchEmployee]);
-
-  const handleCallEmergencyContact = (phone?: string) => {
-    if (phone) {
-      window.location.href = `tel:${phone}`;
-    }
-  };
+  }, [id, token, fetchEmployee, fetchEmployeeByBadge, findProfile, recordOfflineView]);
 
-  const formatDate = (dateString?: string) => {
-    if (!dateString) return "Unknown";
-    return new Date(dateString).toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
-  };
+  // The employee's contacts are alerted about this scan; include where it
+  // happened if the browser is allowed to share its position
+  const scanId = employee?.requestLocation ? employee.scanId : undefined;
+  useEffect(() => {
+    if (!scanId || !navigator.geolocation) return;
 
-  const calculateAge = (dob?: string) => {
-    if (!dob) return "N/A";
-    const birthDate = new Date(dob);
-    if (isNaN(birthDate.getTime())) return "N/A";
-    
-    const today = new Date();
-    let age = today.getFullYear() - birthDate.getFullYear();
-    const monthDiff = today.getMonth() - birthDate.getMonth();
-    
-    if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
-      age--;
-    }
-    
-    return age;
-  };
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => {
+        reportScanLocation(scanId, {
+          latitude: coords.latitude,
+          longitude: coords.longitude,
+          accuracy: coords.accuracy
+        });
+      },
+      () => {
+        // Declined or unavailable; the alert goes out without a location
+      },
+      { timeout: 20000, maximumAge: 60000 }
+    );
+  }, [scanId, reportScanLocation]);
 
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="bg-white p-8 rounded-xl shadow-lg text-center">
           <Loader2 className="h-12 w-12 text-blue-600 animate-spin mx-auto mb-4" />
-          <p className="text-gray-600">Loading employee information...</p>
+          <p className="text-gray-600">{t('info.loading')}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (archived) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <div className="bg-white p-8 rounded-xl shadow-lg text-center max-w-md w-full">
+          <Archive className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+          <h2 className="text-xl font-bold text-gray-900 mb-2">{t('info.archivedTitle')}</h2>
+          <p className="text-gray-600 mb-6">{t('info.archivedBody')}</p>
+          <Link
+            to="/"
+            className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            {t('common.goHome')}
+          </Link>
         </div>
       </div>
     );
@@ -82,15 +145,15 @@ const EmployeeInfoPage: React.FC = () => {
       <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
         <div className="bg-white p-8 rounded-xl shadow-lg text-center max-w-md w-full">
           <AlertTriangle className="h-16 w-16 text-red-500 mx-auto mb-4" />
-          <h2 className="text-xl font-bold text-gray-900 mb-2">Employee Not Found</h2>
+          <h2 className="text-xl font-bold text-gray-900 mb-2">{t('info.notFoundTitle')}</h2>
           <p className="text-gray-600 mb-6">
-            {fetchError || error || 'The requested employee information could not be found.'}
+            {(fetchError && ('key' in fetchError ? t(fetchError.key) : fetchError.message)) || error || t('info.notFoundBody')}
           </p>
           <Link
             to="/"
             className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
           >
-            Go Back Home
+            {t('common.goHome')}
           </Link>
         </div>
       </div>
@@ -102,219 +165,117 @@ const EmployeeInfoPage: React.FC = () => {
       <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
         <div className="bg-white p-8 rounded-xl shadow-lg text-center max-w-md w-full">
           <AlertTriangle className="h-16 w-16 text-orange-500 mx-auto mb-4" />
-          <h2 className="text-xl font-bold text-gray-900 mb-2">No Employee Data</h2>
-          <p className="text-gray-600 mb-6">
-            Employee information is not available at this time.
-          </p>
+          <h2 className="text-xl font-bold text-gray-900 mb-2">{t('info.noDataTitle')}</h2>
+          <p className="text-gray-600 mb-6">{t('info.noDataBody')}</p>
           <Link
             to="/"
             className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
           >
-            Go Back Home
+            {t('common.goHome')}
           </Link>
         </div>
       </div>
     );
   }
 
+  const withheldSections = employee.withheldSections || [];
+  const isPublicTier = employee.disclosureTier === 'public';
+
   return (
     <div className="min-h-screen bg-gray-50 py-4 px-4">
       <div className="max-w-4xl mx-auto">
-        <div className="mb-6">
+        <div className="mb-6 flex items-center justify-between">
           <Link
             to="/"
             className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 transition-colors"
           >
             <ArrowLeft className="h-5 w-5" />
-            <span>Back to Home</span>
+            <span>{t('common.backHome')}</span>
           </Link>
+          <div className="flex items-center space-x-4">
+            <LanguageSwitcher />
+            {user && employee.id && (
+              <button
+                onClick={() => setShowIncidentForm(true)}
+                disabled={!isOnline}
+                title={isOnline ? undefined : t('info.incidentOffline')}
+                className="flex items-center space-x-2 bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors"
+              >
+                <ClipboardPlus className="h-5 w-5" />
+                <span>{t('info.recordIncident')}</span>
+              </button>
+            )}
+          </div>
         </div>
 
-        {/* Header */}
-        <div className="bg-white rounded-xl shadow-lg p-6 mb-6">
-          <div className="flex items-start space-x-4">
-            <div className="bg-red-100 p-3 rounded-full">
-              <User className="h-8 w-8 text-red-600" />
-            </div>
-            <div className="flex-1">
-              <h1 className="text-2xl font-bold text-gray-900 mb-1">{employee.name || "Unknown"}</h1>
-              <p className="text-gray-600">Employee ID: {employee.employeeId || "N/A"}</p>
-              <div className="flex items-center space-x-4 mt-2 text-sm text-gray-600">
-                <span className="flex items-center space-x-1">
-                  <Calendar className="h-4 w-4" />
-                  <span>Age: {calculateAge(employee.dob)} years</span>
-                </span>
-                <span>Born: {formatDate(employee.dob)}</span>
-              </div>
-            </div>
-            <div className="text-right">
-              <div className="bg-red-600 text-white px-4 py-2 rounded-lg font-semibold">
-                Blood Type: {employee.bloodGroup || "N/A"}
-              </div>
-            </div>
+        {incidentRecorded && (
+          <div className="mb-6 bg-green-50 border border-green-200 rounded-lg p-4 flex items-center space-x-3">
+            <CheckCircle className="h-5 w-5 text-green-600 flex-shrink-0" />
+            <p className="text-sm text-green-800">{t('info.incidentRecorded')}</p>
           </div>
-        </div>
+        )}
 
-        <div className="grid lg:grid-cols-2 gap-6">
-          {/* Medical Information */}
-          <div className="space-y-6">
-            {/* Allergies */}
-            <div className="bg-white rounded-xl shadow-lg p-6">
-              <div className="flex items-center space-x-3 mb-4">
-                <div className="bg-orange-100 p-2 rounded-lg">
-                  <AlertTriangle className="h-6 w-6 text-orange-600" />
-                </div>
-                <h2 className="text-xl font-bold text-gray-900">Allergies</h2>
-              </div>
-              {employee.allergies?.length ? (
-                <div className="space-y-2">
-                  {employee.allergies.map((allergy, index) => (
-                    <div key={index} className="bg-orange-50 border border-orange-200 rounded-lg p-3">
-                      <span className="font-medium text-orange-800">{allergy}</span>
-                    </div>
-                  ))}
-                </div>
-              ) : (
-                <p className="text-gray-500 italic">No known allergies</p>
-              )}
-            </div>
+        {showIncidentForm && employee.id && (
+          <IncidentForm
+            employeeId={employee.id}
+            employeeName={employee.name}
+            scanId={employee.scanId}
+            onClose={() => setShowIncidentForm(false)}
+            onSaved={() => {
+              setShowIncidentForm(false);
+              setIncidentRecorded(true);
+            }}
+          />
+        )}
 
-            {/* Medications */}
-            <div className="bg-white rounded-xl shadow-lg p-6">
-              <div className="flex items-center space-x-3 mb-4">
-                <div className="bg-blue-100 p-2 rounded-lg">
-                  <Pill className="h-6 w-6 text-blue-600" />
-                </div>
-                <h2 className="text-xl font-bold text-gray-900">Current Medications</h2>
+        <EmergencyProfile employee={employee}>
+          {offlineSyncedAt && (
+            <div className="bg-slate-800 text-white rounded-xl p-5 mb-6 flex items-start space-x-3">
+              <WifiOff className="h-6 w-6 flex-shrink-0 mt-0.5" />
+              <div>
+                <h2 className="font-bold">{t('info.offlineTitle', { age: formatCacheAge(offlineSyncedAt, locale) })}</h2>
+                <p className="text-sm text-slate-300">
+                  {t('info.offlineBody', { date: formatDateTime(offlineSyncedAt) })}
+                </p>
               </div>
-              {employee.medications?.length ? (
-                <div className="space-y-3">
-                  {employee.medications.map((medication, index) => (
-                    <div key={index} className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-                      <div className="font-semibold text-blue-900">{medication.name}</div>
-                      {medication.dosage && (
-                        <div className="text-sm text-blue-700 mt-1">Dosage: {medication.dosage}</div>
-                      )}
-                      {medication.frequency && (
-                        <div className="text-sm text-blue-700">Frequency: {medication.frequency}</div>
-                      )}
-                    </div>
-                  ))}
-                </div>
-              ) : (
-                <p className="text-gray-500 italic">No current medications</p>
-              )}
             </div>
+          )}
 
-            {/* Medical Conditions */}
-            {employee.medicalConditions?.length > 0 && (
-              <div className="bg-white rounded-xl shadow-lg p-6">
-                <div className="flex items-center space-x-3 mb-4">
-                  <div className="bg-purple-100 p-2 rounded-lg">
-                    <Heart className="h-6 w-6 text-purple-600" />
-                  </div>
-                  <h2 className="text-xl font-bold text-gray-900">Medical Conditions</h2>
+          {/* Restricted profile notice */}
+          {isPublicTier && (
+            <div className="bg-amber-50 border border-amber-300 rounded-xl p-5 mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+              <div className="flex items-start space-x-3">
+                <Lock className="h-6 w-6 text-amber-600 flex-shrink-0 mt-0.5" />
+                <div>
+                  <h2 className="font-bold text-amber-900">{t('info.limitedTitle')}</h2>
+                  <p className="text-sm text-amber-800">
+                    {t('info.limitedBody')}
+                    {withheldSections.length > 0 && (
+                      <> {t('info.withheld', {
+                        sections: withheldSections.map(section => (SECTION_LABELS[section] ? t(SECTION_LABELS[section]) : section)).join(', ')
+                      })}</>
+                    )}
+                  </p>
                 </div>
-                <div className="space-y-2">
-                  {employee.medicalConditions.map((condition, index) => (
-                    <div key={index} className="bg-purple-50 border border-purple-200 rounded-lg p-3">
-                      <span className="font-medium text-purple-800">{condition}</span>
-                    </div>
-                  ))}
-                </div>
-              </div>
-            )}
-          </div>
-
-          {/* Contact Information */}
-          <div className="space-y-6">
-            {/* Emergency Contacts */}
-            <div className="bg-white rounded-xl shadow-lg p-6">
-              <div className="flex items-center space-x-3 mb-4">
-                <div className="bg-red-100 p-2 rounded-lg">
-                  <Phone className="h-6 w-6 text-red-600" />
-                </div>
-                <h2 className="text-xl font-bold text-gray-900">Emergency Contacts</h2>
-              </div>
-              <div className="space-y-4">
-                {employee.emergencyContacts?.length ? (
-                  employee.emergencyContacts.map((contact, index) => (
-                    <div key={index} className="bg-red-50 border border-red-200 rounded-lg p-4">
-                      <div className="flex justify-between items-start mb-2">
-                        <div>
-                          <div className="font-semibold text-gray-900">{contact.name}</div>
-                          <div className="text-sm text-gray-600">{contact.relationship}</div>
-                        </div>
-                      </div>
-                      <button
-                        onClick={() => handleCallEmergencyContact(contact.phone)}
-                        className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors flex items-center space-x-2 w-full justify-center"
-                      >
-                        <Phone className="h-4 w-4" />
-                        <span>Call {contact.phone || "N/A"}</span>
-                      </button>
-                    </div>
-                  ))
-                ) : (
-                  <p className="text-gray-500 italic">No emergency contacts available</p>
-                )}
               </div>
+              <Link
+                to="/login"
+                state={{ from: location.pathname }}
+                className="bg-amber-600 text-white px-4 py-2 rounded-lg hover:bg-amber-700 transition-colors flex items-center justify-center space-x-2 whitespace-nowrap"
+              >
+                <LogIn className="h-4 w-4" />
+                <span>{t('info.responderLogin')}</span>
+              </Link>
             </div>
+          )}
 
-            {/* Physician */}
-            {employee.physician && (
-              <div className="bg-white rounded-xl shadow-lg p-6">
-                <div className="flex items-center space-x-3 mb-4">
-                  <div className="bg-green-100 p-2 rounded-lg">
-                    <UserCheck className="h-6 w-6 text-green-600" />
-                  </div>
-                  <h2 className="text-xl font-bold text-gray-900">Primary Physician</h2>
-                </div>
-                <div className="bg-green-50 border border-green-200 rounded-lg p-4">
-                  <div className="font-semibold text-gray-900 mb-1">{employee.physician.name || "Unknown"}</div>
-                  {employee.physician.specialty && (
-                    <div className="text-sm text-gray-600 mb-3">{employee.physician.specialty}</div>
-                  )}
-                  {employee.physician.phone && (
-                    <button
-                      onClick={() => handleCallEmergencyContact(employee.physician?.phone)}
-                      className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors flex items-center space-x-2 w-full justify-center"
-                    >
-                      <Phone className="h-4 w-4" />
-                      <span>Call {employee.physician.phone}</span>
-                    </button>
-                  )}
-                </div>
-              </div>
-            )}
-
-            {/* Additional Notes */}
-            {employee.notes && (
-              <div className="bg-white rounded-xl shadow-lg p-6">
-                <h2 className="text-xl font-bold text-gray-900 mb-4">Additional Notes</h2>
-                <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
-                  <p className="text-gray-700">{employee.notes}</p>
-                </div>
-              </div>
-            )}
-          </div>
-        </div>
-
-        {/* Emergency Banner */}
-        <div className="mt-6 bg-red-600 text-white p-6 rounded-xl shadow-lg">
-          <div className="flex items-center justify-between">
-            <div>
-              <h3 className="text-lg font-bold mb-1">🚨 For Emergency Use Only</h3>
-              <p className="text-red-100">
-                This information is provided for emergency medical care. Contact emergency services (911) if immediate medical attention is required.
-              </p>
+          {employee.requestLocation && (
+            <div className="flex items-center space-x-2 text-sm text-gray-600 mb-6">
+              <MapPin className="h-4 w-4 flex-shrink-0" />
+              <span>{t('info.locationNotice')}</span>
             </div>
-            <div className="text-right">
-              <div className="text-2xl font-bold">911</div>
-              <div className="text-sm text-red-200">Emergency Services</div>
-            </div>
-          </div>
-        </div>
+          )}
+        </EmergencyProfile>
       </div>
     </div>
   );
@@ -0,0 +1,330 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import axios from 'axios';
+import { useAuth } from '../context/AuthContext';
+import { useEmployee } from '../context/EmployeeContext';
+import { useLanguage } from '../context/LanguageContext';
+import { EDITOR_ROLES, ROLE_LABELS } from '../utils/roles';
+import { getErrorMessage } from '../utils/apiError';
+import { Incident, IncidentStatus, formatVitals } from '../utils/incidents';
+import { ArrowLeft, AlertCircle, ClipboardList, Filter } from 'lucide-react';
+
+interface SiteSummary {
+  site: string | null;
+  total: number;
+  open: number;
+  lastOccurredAt: string;
+}
+
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+}
+
+const PAGE_SIZE = 50;
+
+const IncidentsPage: React.FC = () => {
+  const { hasRole } = useAuth();
+  const { employees, fetchEmployees } = useEmployee();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [incidents, setIncidents] = useState<Incident[]>([]);
+  const [sites, setSites] = useState<SiteSummary[]>([]);
+  const [pagination, setPagination] = useState<Pagination>({ page: 1, limit: PAGE_SIZE, total: 0 });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { formatDateTime } = useLanguage();
+  const canEdit = hasRole(...EDITOR_ROLES);
+
+  const filters = {
+    employee: searchParams.get('employee') || '',
+    site: searchParams.get('site') || '',
+    status: searchParams.get('status') || '',
+    from: searchParams.get('from') || '',
+    to: searchParams.get('to') || ''
+  };
+  const page = Number(searchParams.get('page')) || 1;
+
+  useEffect(() => {
+    if (employees.length === 0) {
+      fetchEmployees();
+    }
+  }, [employees.length, fetchEmployees]);
+
+  const fetchIncidents = useCallback(async (params: URLSearchParams) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [incidentResponse, siteResponse] = await Promise.all([
+        axios.get('/incidents', { params: { ...Object.fromEntries(params), limit: PAGE_SIZE } }),
+        axios.get('/incidents/sites', { params: { from: params.get('from') || undefined, to: params.get('to') || undefined } })
+      ]);
+      setIncidents(incidentResponse.data.data);
+      setPagination(incidentResponse.data.pagination);
+      setSites(siteResponse.data.data);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to fetch incidents'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchIncidents(searchParams);
+  }, [searchParams, fetchIncidents]);
+
+  const updateFilter = (name: string, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) {
+      next.set(name, value);
+    } else {
+      next.delete(name);
+    }
+    next.delete('page');
+    setSearchParams(next);
+  };
+
+  const goToPage = (nextPage: number) => {
+    const next = new URLSearchParams(searchParams);
+    next.set('page', String(nextPage));
+    setSearchParams(next);
+  };
+
+  const setStatus = async (incident: Incident, status: IncidentStatus) => {
+    try {
+      const response = await axios.patch(`/incidents/${incident._id}`, { status });
+      setIncidents(prev => prev.map(item => item._id === incident._id ? response.data.data : item));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update incident'));
+    }
+  };
+
+  const totalPages = Math.max(Math.ceil(pagination.total / pagination.limit), 1);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <Link
+            to="/admin"
+            className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 transition-colors mb-4"
+          >
+            <ArrowLeft className="h-5 w-5" />
+            <span>Back to Dashboard</span>
+          </Link>
+          <div className="flex items-center space-x-3">
+            <div className="bg-orange-100 p-2 rounded-lg">
+              <ClipboardList className="h-8 w-8 text-orange-600" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Incidents</h1>
+              <p className="text-gray-600">What responders recorded after treating an employee</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Per-site overview */}
+        {sites.length > 0 && (
+          <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4 mb-6">
+            {sites.map(summary => (
+              <button
+                key={summary.site || 'none'}
+                onClick={() => updateFilter('site', summary.site && filters.site !== summary.site ? summary.site : '')}
+                className={`text-left bg-white rounded-xl shadow-sm p-4 border-2 transition-colors ${
+                  summary.site && filters.site === summary.site ? 'border-orange-500' : 'border-transparent hover:border-gray-200'
+                }`}
+              >
+                <div className="text-sm text-gray-500">{summary.site || 'No site'}</div>
+                <div className="text-2xl font-bold text-gray-900">{summary.total}</div>
+                <div className="text-xs text-gray-500">{summary.open} open</div>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Filters */}
+        <div className="bg-white rounded-xl shadow-sm p-6 mb-6">
+          <div className="flex items-center space-x-2 mb-4">
+            <Filter className="h-5 w-5 text-gray-400" />
+            <h2 className="font-semibold text-gray-900">Filters</h2>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <select
+              value={filters.employee}
+              onChange={(e) => updateFilter('employee', e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All employees</option>
+              {employees.map(employee => (
+                <option key={employee._id} value={employee._id}>
+                  {employee.name} ({employee.employeeId})
+                </option>
+              ))}
+            </select>
+            <select
+              value={filters.site}
+              onChange={(e) => updateFilter('site', e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All sites</option>
+              {sites.filter(summary => summary.site).map(summary => (
+                <option key={summary.site} value={summary.site!}>{summary.site}</option>
+              ))}
+            </select>
+            <select
+              value={filters.status}
+              onChange={(e) => updateFilter('status', e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Open and closed</option>
+              <option value="open">Open only</option>
+              <option value="closed">Closed only</option>
+            </select>
+            <input
+              type="date"
+              value={filters.from}
+              onChange={(e) => updateFilter('from', e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              title="From date"
+            />
+            <input
+              type="date"
+              value={filters.to}
+              onChange={(e) => updateFilter('to', e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              title="To date"
+            />
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+            <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0" />
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        )}
+
+        <div className="bg-white rounded-xl shadow-sm">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <p className="text-sm text-gray-600">{pagination.total} incident{pagination.total === 1 ? '' : 's'} found</p>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              <span className="ml-3 text-gray-600">Loading incidents...</span>
+            </div>
+          ) : incidents.length === 0 ? (
+            <div className="text-center py-12">
+              <ClipboardList className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-600">No incidents match these filters.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="px-6 py-3">When</th>
+                    <th className="px-6 py-3">Employee</th>
+                    <th className="px-6 py-3">Where</th>
+                    <th className="px-6 py-3">Vitals</th>
+                    <th className="px-6 py-3">Actions taken</th>
+                    <th className="px-6 py-3">Handover</th>
+                    <th className="px-6 py-3">Reported by</th>
+                    <th className="px-6 py-3">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {incidents.map(incident => (
+                    <tr key={incident._id} className="border-b last:border-0 align-top">
+                      <td className="px-6 py-3 whitespace-nowrap text-gray-900">{formatDateTime(incident.occurredAt)}</td>
+                      <td className="px-6 py-3">
+                        {incident.employee ? (
+                          <>
+                            <div className="font-medium text-gray-900">{incident.employee.name}</div>
+                            <div className="text-gray-500">{incident.employee.employeeId}</div>
+                          </>
+                        ) : (
+                          <span className="text-gray-400 italic">Deleted record</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-3 text-gray-600">
+                        {incident.site && <div className="font-medium text-gray-900">{incident.site}</div>}
+                        {incident.location || '—'}
+                      </td>
+                      <td className="px-6 py-3 text-gray-600">
+                        {incident.vitals.length === 0 ? '—' : incident.vitals.map((set, index) => (
+                          <div key={index} className="whitespace-nowrap">{formatVitals(set)}</div>
+                        ))}
+                      </td>
+                      <td className="px-6 py-3 text-gray-600 max-w-xs whitespace-pre-line">{incident.actionsTaken || '—'}</td>
+                      <td className="px-6 py-3 text-gray-600">
+                        {incident.handover?.hospital ? (
+                          <>
+                            <div>{incident.handover.hospital}</div>
+                            {incident.handover.handedOverAt && (
+                              <div className="text-xs text-gray-500">{formatDateTime(incident.handover.handedOverAt)}</div>
+                            )}
+                          </>
+                        ) : '—'}
+                      </td>
+                      <td className="px-6 py-3">
+                        {incident.reportedBy ? (
+                          <>
+                            <div className="font-medium text-gray-900">{incident.reportedBy.username}</div>
+                            <div className="text-gray-500">{ROLE_LABELS[incident.reportedBy.role] || incident.reportedBy.role}</div>
+                          </>
+                        ) : (
+                          <span className="text-gray-400 italic">Deleted user</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-3">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                          incident.status === 'open' ? 'bg-orange-100 text-orange-800' : 'bg-gray-100 text-gray-700'
+                        }`}>
+                          {incident.status}
+                        </span>
+                        {canEdit && (
+                          <button
+                            onClick={() => setStatus(incident, incident.status === 'open' ? 'closed' : 'open')}
+                            className="block mt-1 text-xs text-blue-600 hover:text-blue-800"
+                          >
+                            {incident.status === 'open' ? 'Close' : 'Reopen'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {totalPages > 1 && (
+            <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+              <button
+                onClick={() => goToPage(page - 1)}
+                disabled={page <= 1}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors"
+              >
+                Previous
+              </button>
+              <span className="text-sm text-gray-600">Page {page} of {totalPages}</span>
+              <button
+                onClick={() => goToPage(page + 1)}
+                disabled={page >= totalPages}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IncidentsPage;
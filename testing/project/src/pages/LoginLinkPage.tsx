@@ -0,0 +1,49 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { homePathForRole } from '../utils/roles';
+import { AlertTriangle } from 'lucide-react';
+
+const LoginLinkPage: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const { loginWithLink } = useAuth();
+  const [error, setError] = useState<string | null>(null);
+  // Links work once, so never send the token twice (StrictMode runs effects twice)
+  const attempted = useRef(false);
+
+  useEffect(() => {
+    if (!token || attempted.current) return;
+    attempted.current = true;
+
+    loginWithLink(token)
+      .then(signedIn => navigate(homePathForRole(signedIn.role), { replace: true }))
+      .catch(err => setError(err instanceof Error ? err.message : 'Sign-in link failed'));
+  }, [token, loginWithLink, navigate]);
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <div className="bg-white p-8 rounded-xl shadow-lg text-center max-w-md w-full">
+          <AlertTriangle className="h-16 w-16 text-red-500 mx-auto mb-4" />
+          <h2 className="text-xl font-bold text-gray-900 mb-2">Sign-in Link Unavailable</h2>
+          <p className="text-gray-600 mb-6">{error}</p>
+          <Link
+            to="/login"
+            className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Request a New Link
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center">
+      <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+    </div>
+  );
+};
+
+export default LoginLinkPage;
@@ -1,17 +1,23 @@
 import React, { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
-import { Heart, LogIn, AlertCircle } from 'lucide-react';
+import { homePathForRole } from '../utils/roles';
+import { Heart, LogIn, AlertCircle, Mail, CheckCircle } from 'lucide-react';
 
 const LoginPage: React.FC = () => {
   const navigate = useNavigate();
-  const { login } = useAuth();
+  const location = useLocation();
+  const { login, requestLoginLink } = useAuth();
+  const redirectTo = (location.state as { from?: string } | null)?.from;
   const [formData, setFormData] = useState({
     email: '',
     password: ''
   });
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
+  // Employees without a password sign in by a link sent to their email
+  const [linkMode, setLinkMode] = useState(false);
+  const [linkSent, setLinkSent] = useState<string | null>(null);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -19,8 +25,13 @@ const LoginPage: React.FC = () => {
     setLoading(true);
 
     try {
-      await login(formData.email, formData.password);
-      navigate('/admin');
+      if (linkMode) {
+        setLinkSent(await requestLoginLink(formData.email));
+        return;
+      }
+
+      const signedIn = await login(formData.email, formData.password);
+      navigate(redirectTo || homePathForRole(signedIn.role), { replace: !!redirectTo });
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Login failed');
     } finally {
@@ -50,10 +61,10 @@ const LoginPage: React.FC = () => {
           </Link>
           
           <h2 className="text-3xl font-bold text-gray-900 mb-2">
-            Admin Login
+            Sign In
           </h2>
           <p className="text-gray-600">
-            Access the admin dashboard to manage employee records
+            Staff manage employee records; employees keep their own medical profile up to date
           </p>
         </div>
 
@@ -68,6 +79,13 @@ const LoginPage: React.FC = () => {
             </div>
           )}
 
+          {linkSent && (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-4 flex items-start space-x-3">
+              <CheckCircle className="h-5 w-5 text-green-600 mt-0.5 flex-shrink-0" />
+              <p className="text-green-800 text-sm">{linkSent}</p>
+            </div>
+          )}
+
           <div className="space-y-4">
             <div>
               <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
@@ -85,21 +103,23 @@ const LoginPage: React.FC = () => {
               />
             </div>
 
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
-                Password
-              </label>
-              <input
-                id="password"
-                name="password"
-                type="password"
-                required
-                value={formData.password}
-                onChange={handleChange}
-                className="w-full px-3 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                placeholder="Enter your password"
-              />
-            </div>
+            {!linkMode && (
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+                  Password
+                </label>
+                <input
+                  id="password"
+                  name="password"
+                  type="password"
+                  required
+                  value={formData.password}
+                  onChange={handleChange}
+                  className="w-full px-3 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="Enter your password"
+                />
+              </div>
+            )}
           </div>
 
           <button
@@ -110,7 +130,12 @@ const LoginPage: React.FC = () => {
             {loading ? (
               <>
                 <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                <span>Signing In...</span>
+                <span>{linkMode ? 'Sending...' : 'Signing In...'}</span>
+              </>
+            ) : linkMode ? (
+              <>
+                <Mail className="h-4 w-4" />
+                <span>Email Me a Sign-in Link</span>
               </>
             ) : (
               <>
@@ -120,6 +145,20 @@ const LoginPage: React.FC = () => {
             )}
           </button>
 
+          <div className="text-center">
+            <button
+              type="button"
+              onClick={() => {
+                setLinkMode(prev => !prev);
+                setLinkSent(null);
+                setError('');
+              }}
+              className="text-sm font-medium text-blue-600 hover:text-blue-500"
+            >
+              {linkMode ? 'Sign in with a password instead' : 'Employee? Email me a sign-in link'}
+            </button>
+          </div>
+
           <div className="text-center">
             <p className="text-sm text-gray-600">
               Don't have an account?{' '}
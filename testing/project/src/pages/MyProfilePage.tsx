@@ -0,0 +1,242 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import axios from 'axios';
+import { Employee } from '../context/EmployeeContext';
+import EmployeeForm from '../components/EmployeeForm';
+import EmergencyProfile from '../components/EmergencyProfile';
+import { getErrorMessage } from '../utils/apiError';
+import { ChangeRequest, SelfServiceChanges } from '../utils/selfService';
+import { AlertCircle, CheckCircle, Clock, Edit, KeyRound, XCircle } from 'lucide-react';
+
+type SelfServiceProfile = Omit<Employee, '_id'> & { id: string };
+
+const formatDate = (value: string) => new Date(value).toLocaleString();
+
+const MyProfilePage: React.FC = () => {
+  const [profile, setProfile] = useState<SelfServiceProfile | null>(null);
+  const [changeRequest, setChangeRequest] = useState<ChangeRequest | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [withdrawing, setWithdrawing] = useState(false);
+  const [password, setPassword] = useState({ password: '', confirmPassword: '' });
+  const [passwordMessage, setPasswordMessage] = useState<{ ok: boolean; text: string } | null>(null);
+  const [savingPassword, setSavingPassword] = useState(false);
+
+  const loadProfile = useCallback(async () => {
+    try {
+      const response = await axios.get('/self-service/profile');
+      setProfile(response.data.data.profile);
+      setChangeRequest(response.data.data.changeRequest);
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load your profile'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProfile();
+  }, [loadProfile]);
+
+  const pending = changeRequest?.status === 'pending' ? changeRequest : null;
+
+  // The form starts from the pending changes so the employee can amend them.
+  // Memoised because the form resets whenever its employee changes.
+  const formEmployee = useMemo<Employee | null>(
+    () => profile && { ...profile, ...pending?.changes, _id: profile.id },
+    [profile, pending]
+  );
+
+  const submitChanges = async (changes: SelfServiceChanges) => {
+    try {
+      await axios.post('/self-service/change-requests', changes);
+    } catch (err) {
+      throw new Error(getErrorMessage(err, 'Failed to submit your changes'));
+    }
+  };
+
+  const handleSubmitted = async () => {
+    setShowForm(false);
+    setNotice('Your changes were sent to HR. They will appear on your emergency profile once approved.');
+    await loadProfile();
+  };
+
+  const handleWithdraw = async () => {
+    if (!window.confirm('Withdraw your pending changes?')) return;
+
+    setWithdrawing(true);
+    try {
+      await axios.delete('/self-service/change-requests/pending');
+      setNotice('Your pending changes were withdrawn.');
+      await loadProfile();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to withdraw your changes'));
+    } finally {
+      setWithdrawing(false);
+    }
+  };
+
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPasswordMessage(null);
+
+    if (password.password !== password.confirmPassword) {
+      setPasswordMessage({ ok: false, text: 'Passwords do not match' });
+      return;
+    }
+
+    setSavingPassword(true);
+    try {
+      const response = await axios.post('/self-service/password', { password: password.password });
+      setPasswordMessage({ ok: true, text: response.data.message });
+      setPassword({ password: '', confirmPassword: '' });
+    } catch (err) {
+      setPasswordMessage({ ok: false, text: getErrorMessage(err, 'Failed to save password') });
+    } finally {
+      setSavingPassword(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <div className="bg-white p-8 rounded-xl shadow-lg text-center max-w-md w-full">
+          <AlertCircle className="h-16 w-16 text-red-500 mx-auto mb-4" />
+          <h2 className="text-xl font-bold text-gray-900 mb-2">Profile Unavailable</h2>
+          <p className="text-gray-600">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">My Emergency Profile</h1>
+            <p className="text-gray-600">What responders see when they scan your badge</p>
+          </div>
+          <button
+            onClick={() => setShowForm(true)}
+            className="flex items-center justify-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Edit className="h-4 w-4" />
+            <span>{pending ? 'Edit Pending Changes' : 'Update My Details'}</span>
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+            <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0" />
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        )}
+
+        {notice && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4 flex items-start space-x-3">
+            <CheckCircle className="h-5 w-5 text-green-600 flex-shrink-0" />
+            <p className="text-green-800 text-sm">{notice}</p>
+          </div>
+        )}
+
+        {pending && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <div className="flex items-start space-x-3">
+              <Clock className="h-5 w-5 text-yellow-600 flex-shrink-0" />
+              <p className="text-yellow-800 text-sm">
+                Changes submitted {formatDate(pending.updatedAt)} are waiting for HR approval.
+                Your profile below is what responders see until then.
+              </p>
+            </div>
+            <button
+              onClick={handleWithdraw}
+              disabled={withdrawing}
+              className="px-3 py-1.5 text-sm text-yellow-800 border border-yellow-300 rounded-lg hover:bg-yellow-100 disabled:opacity-50 transition-colors"
+            >
+              {withdrawing ? 'Withdrawing...' : 'Withdraw'}
+            </button>
+          </div>
+        )}
+
+        {changeRequest?.status === 'rejected' && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+            <XCircle className="h-5 w-5 text-red-600 flex-shrink-0" />
+            <p className="text-red-800 text-sm">
+              HR did not approve your changes from {formatDate(changeRequest.createdAt)}
+              {changeRequest.reviewNote ? `: ${changeRequest.reviewNote}` : '.'}
+            </p>
+          </div>
+        )}
+
+        <EmergencyProfile employee={profile} />
+
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <div className="flex items-center space-x-2 mb-2">
+            <KeyRound className="h-5 w-5 text-gray-600" />
+            <h2 className="text-lg font-semibold text-gray-900">Password</h2>
+          </div>
+          <p className="text-sm text-gray-600 mb-4">
+            Set a password to sign in with your email instead of waiting for a sign-in link.
+          </p>
+          {passwordMessage && (
+            <p className={`text-sm mb-3 ${passwordMessage.ok ? 'text-green-700' : 'text-red-700'}`}>
+              {passwordMessage.text}
+            </p>
+          )}
+          <form onSubmit={handlePasswordSubmit} className="flex flex-col md:flex-row gap-3">
+            <input
+              type="password"
+              required
+              minLength={6}
+              value={password.password}
+              onChange={(e) => setPassword(prev => ({ ...prev, password: e.target.value }))}
+              placeholder="New password"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <input
+              type="password"
+              required
+              value={password.confirmPassword}
+              onChange={(e) => setPassword(prev => ({ ...prev, confirmPassword: e.target.value }))}
+              placeholder="Confirm password"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={savingPassword}
+              className="px-4 py-2 bg-gray-800 text-white rounded-lg hover:bg-gray-900 disabled:opacity-50 transition-colors"
+            >
+              {savingPassword ? 'Saving...' : 'Save Password'}
+            </button>
+          </form>
+        </div>
+
+        {showForm && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+            <div className="bg-white rounded-xl shadow-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+              <EmployeeForm
+                employee={formEmployee}
+                onClose={() => setShowForm(false)}
+                onSuccess={handleSubmitted}
+                onSubmitChanges={submitChanges}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MyProfilePage;
@@ -1,54 +1,371 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import QRCodeScanner from '../components/QRCodeScanner';
-import { AlertCircle, CheckCircle, ArrowLeft } from 'lucide-react';
+import OfflineStatus from '../components/OfflineStatus';
+import ManualLookup from '../components/ManualLookup';
+import EmergencyProfile from '../components/EmergencyProfile';
+import TriagePanel from '../components/TriagePanel';
+import LanguageSwitcher from '../components/LanguageSwitcher';
+import { BadgeStatus, Employee, useEmployee } from '../context/EmployeeContext';
+import { useOffline } from '../context/OfflineContext';
+import { useLanguage } from '../context/LanguageContext';
+import { MessageKey } from '../locales';
+import { NetworkError } from '../utils/apiError';
+import {
+  BadgePayload,
+  PayloadVerification,
+  parseBadgePayload,
+  refreshPayloadKeys,
+  toEmergencyProfile,
+  verifyBadgePayload
+} from '../utils/badgePayload';
+import { ScanPayload, parseScanPayload } from '../utils/scanPayload';
+import {
+  TriageColour,
+  TriageEntry,
+  TriageSession,
+  exportTriageReport,
+  loadTriageSession,
+  saveTriageSession
+} from '../utils/triageSession';
+import { criticalAllergiesOf } from '../utils/allergies';
+import { AlertCircle, CheckCircle, ArrowLeft, XCircle, ShieldCheck, ShieldAlert, QrCode, Users } from 'lucide-react';
+
+const BADGE_STATUS_MESSAGES: Record<Exclude<BadgeStatus, 'active'>, MessageKey> = {
+  revoked: 'badge.revoked',
+  invalid: 'badge.invalid',
+  unknown: 'badge.unknown',
+  archived: 'badge.archived'
+};
+
+// A badge that failed to resolve is retried only after this long, however
+// often the camera decodes it
+const TRIAGE_RETRY_DELAY_MS = 3000;
+
+const triageKey = (payload: ScanPayload) => {
+  switch (payload.kind) {
+    case 'badge':
+      return `badge:${payload.token}`;
+    case 'employee':
+      return `employee:${payload.id}`;
+    case 'card':
+      // The signature line is unique to each issued card
+      return `card:${payload.text.slice(payload.text.lastIndexOf('\n') + 1)}`;
+  }
+};
 
 const QRScannerPage: React.FC = () => {
   const navigate = useNavigate();
+  const { checkBadgeStatus, fetchEmployee, fetchEmployeeByBadge } = useEmployee();
+  const { isOnline, findProfile, recordOfflineView } = useOffline();
+  const { t } = useLanguage();
   const [scanResult, setScanResult] = useState<string | null>(null);
   const [isRedirecting, setIsRedirecting] = useState(false);
+  const [scanError, setScanError] = useState<string | null>(null);
+  // A self-contained badge, shown here rather than on a profile page
+  const [payloadView, setPayloadView] = useState<{ payload: BadgePayload; verification: PayloadVerification } | null>(null);
+  const [triage, setTriage] = useState<TriageSession | null>(loadTriageSession);
+  const [triageNotice, setTriageNotice] = useState<string | null>(null);
+  const triageRef = useRef(triage);
+  const pendingTriageKeys = useRef(new Set<string>());
+  const lastTriageFailure = useRef<{ key: string; at: number } | null>(null);
+
+  const triageActive = triage !== null;
+
+  // Scan callbacks read these through refs, like the triage session, so that
+  // a dropped connection or a language switch does not restart the camera
+  const isOnlineRef = useRef(isOnline);
+  const tRef = useRef(t);
+  useEffect(() => {
+    isOnlineRef.current = isOnline;
+    tRef.current = t;
+  }, [isOnline, t]);
+
+  // The ref lets scan callbacks see the latest session without restarting the camera
+  const updateTriage = useCallback((session: TriageSession | null) => {
+    triageRef.current = session;
+    setTriage(session);
+    saveTriageSession(session);
+  }, []);
+
+  const startTriage = () => {
+    setScanError(null);
+    updateTriage({ startedAt: new Date().toISOString(), entries: [] });
+  };
+
+  const endTriage = () => {
+    const session = triageRef.current;
+    if (session?.entries.length && !window.confirm(t('scanner.triageEndConfirm'))) {
+      return;
+    }
+    setTriageNotice(null);
+    updateTriage(null);
+  };
+
+  const tagTriageEntry = (key: string, colour: TriageColour) => {
+    const session = triageRef.current;
+    if (!session) return;
+    updateTriage({
+      ...session,
+      entries: session.entries.map(entry => entry.key === key ? { ...entry, triage: colour } : entry)
+    });
+  };
+
+  const removeTriageEntry = (key: string) => {
+    const session = triageRef.current;
+    if (!session) return;
+    updateTriage({ ...session, entries: session.entries.filter(entry => entry.key !== key) });
+  };
+
+  // Keep the verification keys current so payload badges verify offline
+  useEffect(() => {
+    if (isOnline) {
+      refreshPayloadKeys().catch(error => console.error('Failed to refresh badge payload keys:', error));
+    }
+  }, [isOnline]);
+
+  // Reads and checks a self-contained badge; throws with the reason it cannot be relied on
+  const readCard = useCallback(async (decodedText: string) => {
+    const payload = parseBadgePayload(decodedText);
+    if (!payload) {
+      throw new Error(tRef.current('scanner.cardUnreadable'));
+    }
+
+    const verification = await verifyBadgePayload(payload);
+    if (verification === 'invalid') {
+      throw new Error(tRef.current('scanner.cardTampered'));
+    }
+
+    // Revocation can only be checked with a connection
+    if (payload.ref && isOnlineRef.current) {
+      let status: BadgeStatus = 'active';
+      try {
+        status = await checkBadgeStatus(payload.ref);
+      } catch (error) {
+        console.error('Badge status check failed:', error);
+      }
+      if (status !== 'active') {
+        throw new Error(tRef.current(BADGE_STATUS_MESSAGES[status]));
+      }
+    }
+
+    return { payload, verification };
+  }, [checkBadgeStatus]);
+
+  const handlePayloadScan = useCallback(async (decodedText: string) => {
+    try {
+      setPayloadView(await readCard(decodedText));
+    } catch (error) {
+      setScanError(error instanceof Error ? error.message : tRef.current('scanner.cardUnreadable'));
+    }
+  }, [readCard]);
+
+  // Triage mode: look the person up and add them to the session instead of
+  // leaving the scanner. Offline, the device's cache stands in for the server.
+  const resolveTriageEntry = useCallback(async (payload: ScanPayload, key: string): Promise<TriageEntry> => {
+    const scannedAt = new Date().toISOString();
+
+    if (payload.kind === 'card') {
+      const { payload: card } = await readCard(payload.text);
+      return {
+        key,
+        name: card.name,
+        bloodGroup: card.bloodGroup,
+        criticalAllergies: card.allergies,
+        source: 'card',
+        scannedAt
+      };
+    }
+
+    const toEntry = (profile: Employee, source: TriageEntry['source']): TriageEntry => ({
+      key,
+      recordId: profile.id,
+      name: profile.name,
+      employeeId: profile.employeeId,
+      bloodGroup: profile.bloodGroup,
+      criticalAllergies: criticalAllergiesOf(profile.allergies).map(allergy => allergy.substance),
+      source,
+      scannedAt
+    });
+
+    try {
+      const profile = payload.kind === 'badge' ? await fetchEmployeeByBadge(payload.token) : await fetchEmployee(payload.id);
+      return toEntry(profile, 'online');
+    } catch (error) {
+      if (!(error instanceof NetworkError)) throw error;
+
+      const cached = await findProfile(payload.kind === 'badge' ? { token: payload.token } : { id: payload.id }).catch(() => null);
+      if (!cached) {
+        throw new Error(tRef.current('scanner.notCached'));
+      }
+      recordOfflineView({
+        employee: cached.profile.id,
+        source: payload.kind === 'badge' ? 'badge' : 'id',
+        viewedAt: scannedAt
+      });
+      return toEntry(cached.profile, 'offline');
+    }
+  }, [readCard, fetchEmployee, fetchEmployeeByBadge, findProfile, recordOfflineView]);
+
+  const addToTriage = useCallback(async (payload: ScanPayload) => {
+    const key = triageKey(payload);
+    const session = triageRef.current;
+    if (!session || pendingTriageKeys.current.has(key)) return;
+
+    // The camera decodes a badge in view many times a second
+    const existing = session.entries.find(entry => entry.key === key);
+    if (existing) {
+      setTriageNotice(tRef.current('scanner.triageDuplicate', { name: existing.name }));
+      return;
+    }
+    const failure = lastTriageFailure.current;
+    if (failure?.key === key && Date.now() - failure.at < TRIAGE_RETRY_DELAY_MS) return;
 
-  const handleScanSuccess = (decodedText: string) => {
+    pendingTriageKeys.current.add(key);
+    try {
+      const entry = await resolveTriageEntry(payload, key);
+      const current = triageRef.current;
+      if (!current) return;
+
+      // The same person reached through another badge or link
+      const duplicate = entry.recordId && current.entries.find(item => item.recordId === entry.recordId);
+      if (duplicate) {
+        setTriageNotice(tRef.current('scanner.triageDuplicate', { name: duplicate.name }));
+        return;
+      }
+
+      updateTriage({ ...current, entries: [...current.entries, entry] });
+      setTriageNotice(tRef.current('scanner.triageAdded', { name: entry.name }));
+    } catch (error) {
+      lastTriageFailure.current = { key, at: Date.now() };
+      setTriageNotice(null);
+      setScanError(error instanceof Error ? error.message : tRef.current('scanner.lookupFailed'));
+    } finally {
+      pendingTriageKeys.current.delete(key);
+    }
+  }, [resolveTriageEntry, updateTriage]);
+
+  const handleScanSuccess = useCallback(async (decodedText: string) => {
     console.log('QR scan successful:', decodedText);
     setScanResult(decodedText);
+
+    // Foreign codes are reported here and the camera keeps scanning
+    const parsed = parseScanPayload(decodedText);
+    if (!parsed.ok) {
+      setScanError(parsed.reason);
+      return;
+    }
+    setScanError(null);
+
+    const { payload } = parsed;
+    if (triageRef.current) {
+      await addToTriage(payload);
+      return;
+    }
+
+    if (payload.kind === 'card') {
+      await handlePayloadScan(payload.text);
+      return;
+    }
+
     setIsRedirecting(true);
 
-    // Extract employee ID from URL or use the decoded text directly
+    if (payload.kind === 'employee') {
+      setTimeout(() => {
+        navigate(`/employee/${payload.id}`);
+      }, 1000);
+      return;
+    }
+
+    // Resolve signed badges up front so revoked ones are reported here.
+    // Without a connection the profile page falls back to the offline cache.
     try {
-      const url = new URL(decodedText);
-      const pathParts = url.pathname.split('/');
-      const employeeIndex = pathParts.findIndex(part => part === 'employee');
-      
-      if (employeeIndex !== -1 && pathParts[employeeIndex + 1]) {
-        const employeeId = pathParts[employeeIndex + 1];
-        // Redirect to employee info page
-        setTimeout(() => {
-          navigate(`/employee/${employeeId}`);
-        }, 1000);
-      } else {
-        throw new Error('Invalid QR code format');
+      const status = isOnlineRef.current ? await checkBadgeStatus(payload.token) : 'active';
+      if (status !== 'active') {
+        setIsRedirecting(false);
+        setScanError(tRef.current(BADGE_STATUS_MESSAGES[status]));
+        return;
       }
-    } catch (error) {
-      console.error('Invalid QR code URL:', error);
-      // If it's not a URL, treat it as employee ID directly
       setTimeout(() => {
-        navigate(`/employee/${decodedText}`);
+        navigate(`/badge/${payload.token}`);
       }, 1000);
+    } catch (error) {
+      if (error instanceof NetworkError) {
+        navigate(`/badge/${payload.token}`);
+        return;
+      }
+      setIsRedirecting(false);
+      setScanError(error instanceof Error ? error.message : tRef.current('scanner.checkFailed'));
     }
-  };
+  }, [navigate, checkBadgeStatus, handlePayloadScan, addToTriage]);
 
-  const handleScanError = (errorMessage: string) => {
+  const handleScanError = useCallback((errorMessage: string) => {
     console.log('QR scan error:', errorMessage);
     // Most scan errors are normal (no QR code in view), so we don't show them
-  };
+  }, []);
+
+  if (payloadView) {
+    const { payload, verification } = payloadView;
+
+    return (
+      <div className="min-h-screen bg-gray-50 py-4 px-4">
+        <div className="max-w-4xl mx-auto">
+          <div className="mb-6 flex items-center justify-between">
+            <button
+              onClick={() => setPayloadView(null)}
+              className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 transition-colors"
+            >
+              <QrCode className="h-5 w-5" />
+              <span>{t('scanner.scanAnother')}</span>
+            </button>
+            <div className="flex items-center space-x-4">
+              <LanguageSwitcher />
+              {payload.ref && isOnline && (
+                <button
+                  onClick={() => navigate(`/badge/${payload.ref}`)}
+                  className="text-blue-600 hover:text-blue-800 transition-colors"
+                >
+                  {t('scanner.openFullProfile')}
+                </button>
+              )}
+            </div>
+          </div>
+
+          <EmergencyProfile employee={toEmergencyProfile(payload)}>
+            {verification === 'verified' ? (
+              <div className="bg-green-50 border border-green-300 rounded-xl p-5 mb-6 flex items-start space-x-3">
+                <ShieldCheck className="h-6 w-6 text-green-600 flex-shrink-0 mt-0.5" />
+                <div>
+                  <h2 className="font-bold text-green-900">{t('scanner.verifiedTitle')}</h2>
+                  <p className="text-sm text-green-800">
+                    {t('scanner.verifiedBody', { date: payload.issued || t('scanner.unknownDate') })}
+                  </p>
+                </div>
+              </div>
+            ) : (
+              <div className="bg-amber-50 border border-amber-300 rounded-xl p-5 mb-6 flex items-start space-x-3">
+                <ShieldAlert className="h-6 w-6 text-amber-600 flex-shrink-0 mt-0.5" />
+                <div>
+                  <h2 className="font-bold text-amber-900">{t('scanner.uncheckedTitle')}</h2>
+                  <p className="text-sm text-amber-800">
+                    {t('scanner.uncheckedBody', { date: payload.issued || t('scanner.unknownDate') })}
+                  </p>
+                </div>
+              </div>
+            )}
+          </EmergencyProfile>
+        </div>
+      </div>
+    );
+  }
 
   if (isRedirecting) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
         <div className="bg-white p-8 rounded-xl shadow-lg text-center max-w-md w-full">
           <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4" />
-          <h2 className="text-2xl font-bold text-gray-900 mb-2">QR Code Scanned!</h2>
-          <p className="text-gray-600 mb-4">Redirecting to employee information...</p>
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">{t('scanner.scanned')}</h2>
+          <p className="text-gray-600 mb-4">{t('scanner.redirecting')}</p>
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-500 mx-auto"></div>
         </div>
       </div>
@@ -58,26 +375,69 @@ const QRScannerPage: React.FC = () => {
   return (
     <div className="min-h-screen bg-gray-50 py-8 px-4">
       <div className="max-w-4xl mx-auto">
-        <div className="mb-8">
+        <div className="mb-8 flex items-center justify-between">
           <button
             onClick={() => navigate('/')}
             className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 transition-colors"
           >
             <ArrowLeft className="h-5 w-5" />
-            <span>Back to Home</span>
+            <span>{t('common.backHome')}</span>
           </button>
+          <LanguageSwitcher />
         </div>
 
         <div className="text-center mb-8">
           <h1 className="text-3xl font-bold text-gray-900 mb-4">
-            Emergency QR Scanner
+            {t('scanner.title')}
           </h1>
           <p className="text-lg text-gray-600 max-w-2xl mx-auto">
-            Scan the QR code on any employee ID to instantly access their emergency medical information, 
-            allergies, medications, and emergency contacts.
+            {t('scanner.intro')}
           </p>
         </div>
 
+        <OfflineStatus />
+
+        <div className="max-w-md mx-auto mb-6 flex items-center justify-between bg-white border border-gray-200 rounded-lg p-4">
+          <div>
+            <p className="font-medium text-gray-900">{t('scanner.triageTitle')}</p>
+            <p className="text-sm text-gray-600">{t('scanner.triageHint')}</p>
+          </div>
+          {triageActive ? (
+            <button
+              onClick={endTriage}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              {t('scanner.triageEnd')}
+            </button>
+          ) : (
+            <button
+              onClick={startTriage}
+              className="flex items-center space-x-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+            >
+              <Users className="h-4 w-4" />
+              <span>{t('scanner.triageStart')}</span>
+            </button>
+          )}
+        </div>
+
+        {triageActive && triageNotice && (
+          <div className="max-w-md mx-auto mb-6 bg-green-50 border border-green-200 rounded-lg p-4 flex items-center space-x-3">
+            <CheckCircle className="h-5 w-5 text-green-600 flex-shrink-0" />
+            <p className="text-sm text-green-800">{triageNotice}</p>
+          </div>
+        )}
+
+        {scanError && (
+          <div className="max-w-md mx-auto mb-6 bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+            <XCircle className="h-6 w-6 text-red-600 flex-shrink-0" />
+            <div>
+              <p className="font-semibold text-red-800">{t('scanner.notAccepted')}</p>
+              <p className="text-sm text-red-700">{scanError}</p>
+              <p className="text-sm text-red-700 mt-1">{t('scanner.stillRunning')}</p>
+            </div>
+          </div>
+        )}
+
         <div className="flex justify-center">
           <QRCodeScanner 
             onScanSuccess={handleScanSuccess}
@@ -85,28 +445,39 @@ const QRScannerPage: React.FC = () => {
           />
         </div>
 
+        <ManualLookup onResult={handleScanSuccess} />
+
+        {triage && (
+          <TriagePanel
+            session={triage}
+            onTag={tagTriageEntry}
+            onRemove={removeTriageEntry}
+            onExport={() => exportTriageReport(triage)}
+            onEnd={endTriage}
+          />
+        )}
+
         <div className="mt-8 bg-red-50 border border-red-200 rounded-lg p-6">
           <div className="flex items-start space-x-3">
             <AlertCircle className="h-6 w-6 text-red-600 mt-0.5 flex-shrink-0" />
             <div>
-              <h3 className="font-semibold text-red-800 mb-2">For Emergency Use Only</h3>
+              <h3 className="font-semibold text-red-800 mb-2">{t('scanner.emergencyOnlyTitle')}</h3>
               <p className="text-red-700 text-sm leading-relaxed">
-                This system is designed for emergency responders, medical professionals, and authorized personnel only. 
-                The medical information accessed through this system should be used solely for emergency medical care 
-                and treatment purposes. Unauthorized use or sharing of this information is strictly prohibited.
+                {t('scanner.emergencyOnlyBody')}
               </p>
             </div>
           </div>
         </div>
 
         <div className="mt-6 bg-blue-50 border border-blue-200 rounded-lg p-6">
-          <h3 className="font-semibold text-blue-800 mb-3">Scanner Tips:</h3>
+          <h3 className="font-semibold text-blue-800 mb-3">{t('scanner.tipsTitle')}</h3>
           <ul className="text-blue-700 text-sm space-y-2">
-            <li>• Ensure adequate lighting for best results</li>
-            <li>• Hold your device steady and keep the QR code centered</li>
-            <li>• If scanning fails, try adjusting the distance from the QR code</li>
-            <li>• The camera will automatically detect and scan the QR code</li>
-            <li>• You'll be redirected immediately after successful scanning</li>
+            <li>• {t('scanner.tipLighting')}</li>
+            <li>• {t('scanner.tipSteady')}</li>
+            <li>• {t('scanner.tipDistance')}</li>
+            <li>• {t('scanner.tipDamaged')}</li>
+            <li>• {t('scanner.tipAutomatic')}</li>
+            <li>• {t('scanner.tipRedirect')}</li>
           </ul>
         </div>
       </div>
@@ -1,7 +1,9 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
+import axios from 'axios';
 import { useAuth } from '../context/AuthContext';
-import { Heart, UserPlus, AlertCircle, CheckCircle } from 'lucide-react';
+import { homePathForRole } from '../utils/roles';
+import { Heart, UserPlus, AlertCircle, CheckCircle, Mail } from 'lucide-react';
 
 const RegisterPage: React.FC = () => {
   const navigate = useNavigate();
@@ -14,6 +16,13 @@ const RegisterPage: React.FC = () => {
   });
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
+  const [registrationOpen, setRegistrationOpen] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    axios.get('/auth/config')
+      .then(response => setRegistrationOpen(response.data.data.registrationOpen))
+      .catch(() => setRegistrationOpen(false));
+  }, []);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -32,8 +41,8 @@ const RegisterPage: React.FC = () => {
     setLoading(true);
 
     try {
-      await register(formData.username, formData.email, formData.password);
-      navigate('/admin');
+      const signedIn = await register(formData.username, formData.email, formData.password);
+      navigate(homePathForRole(signedIn.role));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Registration failed');
     } finally {
@@ -48,6 +57,34 @@ const RegisterPage: React.FC = () => {
     }));
   };
 
+  if (registrationOpen === null) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-600"></div>
+      </div>
+    );
+  }
+
+  if (!registrationOpen) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-green-50 to-white flex items-center justify-center px-4">
+        <div className="bg-white p-8 rounded-xl shadow-lg text-center max-w-md w-full">
+          <Mail className="h-16 w-16 text-green-600 mx-auto mb-4" />
+          <h2 className="text-xl font-bold text-gray-900 mb-2">Registration Is Invite-Only</h2>
+          <p className="text-gray-600 mb-6">
+            Accounts are created by invitation. Ask your administrator to send you an invite link.
+          </p>
+          <Link
+            to="/login"
+            className="bg-green-600 text-white px-6 py-2 rounded-lg hover:bg-green-700 transition-colors"
+          >
+            Go to Sign In
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-green-50 to-white flex items-center justify-center px-4">
       <div className="max-w-md w-full space-y-8">
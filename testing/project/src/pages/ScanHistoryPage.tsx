@@ -0,0 +1,294 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import axios from 'axios';
+import { useEmployee } from '../context/EmployeeContext';
+import { useLanguage } from '../context/LanguageContext';
+import { UserRole, ROLE_LABELS } from '../utils/roles';
+import { getErrorMessage } from '../utils/apiError';
+import { ArrowLeft, AlertCircle, History, Filter } from 'lucide-react';
+
+interface ScanEvent {
+  _id: string;
+  employee: { _id: string; name: string; employeeId: string } | null;
+  user?: { username: string; email: string; role: UserRole } | null;
+  ip?: string;
+  userAgent?: string;
+  disclosureTier: 'public' | 'full';
+  source: 'badge' | 'id';
+  location?: { latitude: number; longitude: number; accuracy?: number };
+  // Shown from a device's offline cache; createdAt is when it was uploaded
+  viewedOfflineAt?: string;
+  createdAt: string;
+}
+
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+}
+
+const PAGE_SIZE = 50;
+
+const ScanHistoryPage: React.FC = () => {
+  const { employees, fetchEmployees } = useEmployee();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [events, setEvents] = useState<ScanEvent[]>([]);
+  const [pagination, setPagination] = useState<Pagination>({ page: 1, limit: PAGE_SIZE, total: 0 });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { formatDateTime } = useLanguage();
+
+  const filters = {
+    employee: searchParams.get('employee') || '',
+    from: searchParams.get('from') || '',
+    to: searchParams.get('to') || '',
+    tier: searchParams.get('tier') || '',
+    authenticated: searchParams.get('authenticated') || ''
+  };
+  const page = Number(searchParams.get('page')) || 1;
+
+  useEffect(() => {
+    if (employees.length === 0) {
+      fetchEmployees();
+    }
+  }, [employees.length, fetchEmployees]);
+
+  const fetchEvents = useCallback(async (params: URLSearchParams) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await axios.get('/scan-events', {
+        params: { ...Object.fromEntries(params), limit: PAGE_SIZE }
+      });
+      setEvents(response.data.data);
+      setPagination(response.data.pagination);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to fetch scan history'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchEvents(searchParams);
+  }, [searchParams, fetchEvents]);
+
+  const updateFilter = (name: string, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) {
+      next.set(name, value);
+    } else {
+      next.delete(name);
+    }
+    next.delete('page');
+    setSearchParams(next);
+  };
+
+  const goToPage = (nextPage: number) => {
+    const next = new URLSearchParams(searchParams);
+    next.set('page', String(nextPage));
+    setSearchParams(next);
+  };
+
+  const totalPages = Math.max(Math.ceil(pagination.total / pagination.limit), 1);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <Link
+            to="/admin"
+            className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 transition-colors mb-4"
+          >
+            <ArrowLeft className="h-5 w-5" />
+            <span>Back to Dashboard</span>
+          </Link>
+          <div className="flex items-center space-x-3">
+            <div className="bg-purple-100 p-2 rounded-lg">
+              <History className="h-8 w-8 text-purple-600" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Scan History</h1>
+              <p className="text-gray-600">Every time an emergency profile was opened, by whom and from where</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Filters */}
+        <div className="bg-white rounded-xl shadow-sm p-6 mb-6">
+          <div className="flex items-center space-x-2 mb-4">
+            <Filter className="h-5 w-5 text-gray-400" />
+            <h2 className="font-semibold text-gray-900">Filters</h2>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <select
+              value={filters.employee}
+              onChange={(e) => updateFilter('employee', e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All employees</option>
+              {employees.map(employee => (
+                <option key={employee._id} value={employee._id}>
+                  {employee.name} ({employee.employeeId})
+                </option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={filters.from}
+              onChange={(e) => updateFilter('from', e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              title="From date"
+            />
+            <input
+              type="date"
+              value={filters.to}
+              onChange={(e) => updateFilter('to', e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              title="To date"
+            />
+            <select
+              value={filters.tier}
+              onChange={(e) => updateFilter('tier', e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All disclosure tiers</option>
+              <option value="public">Public (limited)</option>
+              <option value="full">Full record</option>
+            </select>
+            <select
+              value={filters.authenticated}
+              onChange={(e) => updateFilter('authenticated', e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Anonymous and signed-in</option>
+              <option value="false">Anonymous only</option>
+              <option value="true">Signed-in only</option>
+            </select>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+            <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0" />
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        )}
+
+        <div className="bg-white rounded-xl shadow-sm">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <p className="text-sm text-gray-600">{pagination.total} scan{pagination.total === 1 ? '' : 's'} found</p>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              <span className="ml-3 text-gray-600">Loading scan history...</span>
+            </div>
+          ) : events.length === 0 ? (
+            <div className="text-center py-12">
+              <History className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-600">No scans match these filters.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="px-6 py-3">When</th>
+                    <th className="px-6 py-3">Employee</th>
+                    <th className="px-6 py-3">Viewed by</th>
+                    <th className="px-6 py-3">Tier</th>
+                    <th className="px-6 py-3">Via</th>
+                    <th className="px-6 py-3">Origin</th>
+                    <th className="px-6 py-3">Device</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {events.map(event => (
+                    <tr key={event._id} className="border-b last:border-0 align-top">
+                      <td className="px-6 py-3 whitespace-nowrap text-gray-900">
+                        {formatDateTime(event.viewedOfflineAt || event.createdAt)}
+                        {event.viewedOfflineAt && (
+                          <div className="text-xs text-amber-700" title={`Uploaded ${formatDateTime(event.createdAt)}`}>
+                            Offline view
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-3">
+                        {event.employee ? (
+                          <>
+                            <div className="font-medium text-gray-900">{event.employee.name}</div>
+                            <div className="text-gray-500">{event.employee.employeeId}</div>
+                          </>
+                        ) : (
+                          <span className="text-gray-400 italic">Deleted record</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-3">
+                        {event.user ? (
+                          <>
+                            <div className="font-medium text-gray-900">{event.user.username}</div>
+                            <div className="text-gray-500">{ROLE_LABELS[event.user.role] || event.user.role}</div>
+                          </>
+                        ) : (
+                          <span className="text-gray-500">Anonymous</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-3">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                          event.disclosureTier === 'full' ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-700'
+                        }`}>
+                          {event.disclosureTier}
+                        </span>
+                      </td>
+                      <td className="px-6 py-3 text-gray-600">{event.source === 'badge' ? 'Badge QR' : 'Record link'}</td>
+                      <td className="px-6 py-3 text-gray-600 font-mono">
+                        {event.ip || '—'}
+                        {event.location && (
+                          <a
+                            href={`https://www.openstreetmap.org/?mlat=${event.location.latitude}&mlon=${event.location.longitude}#map=17/${event.location.latitude}/${event.location.longitude}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="block font-sans text-blue-600 hover:text-blue-800"
+                          >
+                            View location
+                          </a>
+                        )}
+                      </td>
+                      <td className="px-6 py-3 text-gray-500 max-w-xs truncate" title={event.userAgent}>{event.userAgent || '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {totalPages > 1 && (
+            <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+              <button
+                onClick={() => goToPage(page - 1)}
+                disabled={page <= 1}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors"
+              >
+                Previous
+              </button>
+              <span className="text-sm text-gray-600">Page {page} of {totalPages}</span>
+              <button
+                onClick={() => goToPage(page + 1)}
+                disabled={page >= totalPages}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScanHistoryPage;
@@ -0,0 +1,467 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import axios from 'axios';
+import { getErrorMessage } from '../utils/apiError';
+import {
+  COUNTRIES,
+  DEFAULT_EMERGENCY_NUMBER,
+  LocationSettings,
+  Organization,
+  PUBLIC_PROFILE_FIELDS,
+  PUBLIC_PROFILE_FIELD_LABELS,
+  Site
+} from '../utils/sites';
+import { AlertCircle, ArrowLeft, Building2, CreditCard, Edit, MapPin, Plus, Save, Trash2, X } from 'lucide-react';
+
+type EditorTarget =
+  | { kind: 'organization'; item?: Organization }
+  | { kind: 'site'; item?: Site };
+
+interface EditorValues extends LocationSettings {
+  code: string;
+  country: string;
+  organization: string;
+}
+
+const toEditorValues = (target: EditorTarget, organizations: Organization[]): EditorValues => ({
+  code: target.item?.code || '',
+  name: target.item?.name || '',
+  country: target.item?.country || '',
+  emergencyNumber: target.item?.emergencyNumber || '',
+  publicProfileFields: target.item?.publicProfileFields || [],
+  organization: target.kind === 'site' && target.item ? target.item.organization._id : organizations[0]?._id || ''
+});
+
+const countryNumber = (country?: string) => (country ? COUNTRIES[country]?.emergencyNumber : undefined);
+
+const describePolicy = (fields: string[], inherited: string) => (fields.length > 0
+  ? fields.map(field => PUBLIC_PROFILE_FIELD_LABELS[field] || field).join(', ')
+  : inherited);
+
+// Create or edit an organisation or site. Codes are natural keys that other
+// records refer to, so they are fixed once created.
+const SettingsEditor: React.FC<{
+  target: EditorTarget;
+  organizations: Organization[];
+  onClose: () => void;
+  onSaved: () => void;
+}> = ({ target, organizations, onClose, onSaved }) => {
+  const [values, setValues] = useState<EditorValues>(() => toEditorValues(target, organizations));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isNew = !target.item;
+  const noun = target.kind === 'organization' ? 'Organisation' : 'Site';
+
+  const toggleField = (field: string) => {
+    setValues(prev => ({
+      ...prev,
+      publicProfileFields: prev.publicProfileFields.includes(field)
+        ? prev.publicProfileFields.filter(item => item !== field)
+        : [...prev.publicProfileFields, field]
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    const settings = {
+      name: values.name,
+      country: values.country,
+      emergencyNumber: values.emergencyNumber,
+      publicProfileFields: values.publicProfileFields
+    };
+
+    try {
+      if (target.kind === 'organization') {
+        if (target.item) {
+          await axios.put(`/organizations/${target.item._id}`, settings);
+        } else {
+          await axios.post('/organizations', { ...settings, code: values.code });
+        }
+      } else if (target.item) {
+        await axios.put(`/sites/${target.item.code}`, settings);
+      } else {
+        await axios.post('/sites', { ...settings, code: values.code, organization: values.organization });
+      }
+      onSaved();
+    } catch (err) {
+      setError(getErrorMessage(err, `Failed to save ${noun.toLowerCase()}`));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">
+            {isNew ? `New ${noun}` : `${noun} ${target.item?.code}`}
+          </h2>
+          <button type="button" onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-start space-x-2">
+            <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0" />
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        )}
+
+        {isNew && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Code *</label>
+            <input
+              type="text"
+              required
+              value={values.code}
+              onChange={(e) => setValues(prev => ({ ...prev, code: e.target.value.toUpperCase() }))}
+              maxLength={target.kind === 'organization' ? 20 : 40}
+              pattern="[A-Za-z0-9][A-Za-z0-9-]*"
+              placeholder={target.kind === 'organization' ? 'ACME' : 'PUNE-PLANT'}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <p className="text-xs text-gray-500 mt-1">Letters, digits and dashes; cannot be changed later</p>
+          </div>
+        )}
+
+        {isNew && target.kind === 'site' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Organisation *</label>
+            <select
+              required
+              value={values.organization}
+              onChange={(e) => setValues(prev => ({ ...prev, organization: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {organizations.map(organization => (
+                <option key={organization._id} value={organization._id}>{organization.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+          <input
+            type="text"
+            required
+            value={values.name}
+            onChange={(e) => setValues(prev => ({ ...prev, name: e.target.value }))}
+            maxLength={80}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Country</label>
+          <select
+            value={values.country}
+            onChange={(e) => setValues(prev => ({ ...prev, country: e.target.value }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">{target.kind === 'site' ? "Organisation's country" : 'Not set'}</option>
+            {Object.entries(COUNTRIES).map(([code, country]) => (
+              <option key={code} value={code}>{country.name} ({country.emergencyNumber})</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Emergency number</label>
+          <input
+            type="text"
+            value={values.emergencyNumber}
+            onChange={(e) => setValues(prev => ({ ...prev, emergencyNumber: e.target.value }))}
+            maxLength={20}
+            placeholder={countryNumber(values.country) || (target.kind === 'site' ? "Organisation's number" : DEFAULT_EMERGENCY_NUMBER)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <p className="text-xs text-gray-500 mt-1">Shown with every profile scanned here; leave empty to use the country's</p>
+        </div>
+
+        <div>
+          <p className="block text-sm font-medium text-gray-700 mb-1">Shown to anonymous scans</p>
+          <div className="grid grid-cols-2 gap-2">
+            {PUBLIC_PROFILE_FIELDS.map(field => (
+              <label key={field} className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={values.publicProfileFields.includes(field)}
+                  onChange={() => toggleField(field)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>{PUBLIC_PROFILE_FIELD_LABELS[field]}</span>
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            {target.kind === 'site'
+              ? "Leave all unticked to use the organisation's policy"
+              : "Leave all unticked to use the server's default policy"}
+          </p>
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            <Save className="h-4 w-4" />
+            <span>{saving ? 'Saving...' : 'Save'}</span>
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+const SitesPage: React.FC = () => {
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [sites, setSites] = useState<Site[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<EditorTarget | null>(null);
+  const [deletingCode, setDeletingCode] = useState<string | null>(null);
+
+  const fetchAll = useCallback(async () => {
+    try {
+      setError(null);
+      const [organizationsResponse, sitesResponse] = await Promise.all([
+        axios.get('/organizations'),
+        axios.get('/sites')
+      ]);
+      setOrganizations(organizationsResponse.data.data);
+      setSites(sitesResponse.data.data);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load organisations and sites'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAll();
+  }, [fetchAll]);
+
+  const handleSaved = async () => {
+    setEditing(null);
+    await fetchAll();
+  };
+
+  const handleDeleteSite = async (site: Site) => {
+    if (!window.confirm(`Delete site ${site.code}? Only sites without employees can be deleted.`)) return;
+
+    setDeletingCode(site.code);
+    setError(null);
+    try {
+      await axios.delete(`/sites/${site.code}`);
+      setSites(prev => prev.filter(item => item.code !== site.code));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete site'));
+    } finally {
+      setDeletingCode(null);
+    }
+  };
+
+  const organizationById = new Map(organizations.map(organization => [organization._id, organization]));
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 space-y-8">
+        <div>
+          <Link to="/admin" className="inline-flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800 mb-2">
+            <ArrowLeft className="h-4 w-4" />
+            <span>Back to dashboard</span>
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900">Organisations &amp; Sites</h1>
+          <p className="text-gray-600">
+            Employees and staff accounts belong to an organisation; each site can set its own emergency number and
+            what anonymous scans show
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+            <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0" />
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        )}
+
+        <div className="bg-white rounded-xl shadow-sm">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <Building2 className="h-5 w-5 text-blue-600" />
+              <h2 className="text-lg font-semibold text-gray-900">Organisations</h2>
+            </div>
+            <button
+              onClick={() => setEditing({ kind: 'organization' })}
+              className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="h-4 w-4" />
+              <span>New Organisation</span>
+            </button>
+          </div>
+          <div className="p-6 overflow-x-auto">
+            {organizations.length === 0 ? (
+              <p className="text-sm text-gray-500 italic">No organisations yet. Create one before registering sites.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="py-2 pr-4">Code</th>
+                    <th className="py-2 pr-4">Name</th>
+                    <th className="py-2 pr-4">Country</th>
+                    <th className="py-2 pr-4">Emergency number</th>
+                    <th className="py-2 pr-4">Anonymous scans show</th>
+                    <th className="py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {organizations.map(organization => (
+                    <tr key={organization._id} className="border-b last:border-0">
+                      <td className="py-2 pr-4 font-mono text-gray-900">{organization.code}</td>
+                      <td className="py-2 pr-4 text-gray-900">{organization.name}</td>
+                      <td className="py-2 pr-4 text-gray-700">{organization.country ? COUNTRIES[organization.country]?.name : '—'}</td>
+                      <td className="py-2 pr-4 text-gray-700">
+                        {organization.emergencyNumber || countryNumber(organization.country) || DEFAULT_EMERGENCY_NUMBER}
+                      </td>
+                      <td className="py-2 pr-4 text-gray-700">{describePolicy(organization.publicProfileFields, 'Server default')}</td>
+                      <td className="py-2 text-right">
+                        <button
+                          onClick={() => setEditing({ kind: 'organization', item: organization })}
+                          className="p-2 text-gray-600 hover:bg-gray-50 rounded-lg transition-colors"
+                          title="Edit Organisation"
+                        >
+                          <Edit className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <MapPin className="h-5 w-5 text-green-600" />
+              <h2 className="text-lg font-semibold text-gray-900">Sites</h2>
+            </div>
+            <button
+              onClick={() => setEditing({ kind: 'site' })}
+              disabled={organizations.length === 0}
+              className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              <Plus className="h-4 w-4" />
+              <span>New Site</span>
+            </button>
+          </div>
+          <div className="p-6 overflow-x-auto">
+            {sites.length === 0 ? (
+              <p className="text-sm text-gray-500 italic">No sites are registered.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="py-2 pr-4">Code</th>
+                    <th className="py-2 pr-4">Name</th>
+                    <th className="py-2 pr-4">Organisation</th>
+                    <th className="py-2 pr-4">Country</th>
+                    <th className="py-2 pr-4">Emergency number</th>
+                    <th className="py-2 pr-4">Anonymous scans show</th>
+                    <th className="py-2 pr-4">Badge template</th>
+                    <th className="py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sites.map(site => {
+                    const organization = organizationById.get(site.organization._id);
+                    const country = site.country || organization?.country;
+                    return (
+                      <tr key={site.code} className="border-b last:border-0">
+                        <td className="py-2 pr-4 font-mono text-gray-900">{site.code}</td>
+                        <td className="py-2 pr-4 text-gray-900">{site.name}</td>
+                        <td className="py-2 pr-4 text-gray-700">{site.organization.name}</td>
+                        <td className="py-2 pr-4 text-gray-700">
+                          {site.country ? COUNTRIES[site.country]?.name : (
+                            <span className="text-gray-500">{country ? `${COUNTRIES[country]?.name} (organisation)` : '—'}</span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-4 text-gray-700">
+                          {site.emergencyNumber || (
+                            <span className="text-gray-500">
+                              {organization?.emergencyNumber || countryNumber(country) || DEFAULT_EMERGENCY_NUMBER}
+                              {organization?.emergencyNumber ? ' (organisation)' : countryNumber(country) ? ' (country)' : ''}
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-4 text-gray-700">{describePolicy(site.publicProfileFields, "Organisation's policy")}</td>
+                        <td className="py-2 pr-4">
+                          <Link to="/admin/badges" className="inline-flex items-center space-x-1 text-blue-600 hover:text-blue-800">
+                            <CreditCard className="h-4 w-4" />
+                            <span>{site.hasBadgeTemplate ? 'Own template' : 'Default'}</span>
+                          </Link>
+                        </td>
+                        <td className="py-2 text-right whitespace-nowrap">
+                          <button
+                            onClick={() => setEditing({ kind: 'site', item: site })}
+                            className="p-2 text-gray-600 hover:bg-gray-50 rounded-lg transition-colors"
+                            title="Edit Site"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDeleteSite(site)}
+                            disabled={deletingCode === site.code}
+                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                            title="Delete Site"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {editing && (
+        <SettingsEditor
+          target={editing}
+          organizations={organizations}
+          onClose={() => setEditing(null)}
+          onSaved={handleSaved}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SitesPage;
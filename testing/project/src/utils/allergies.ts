@@ -0,0 +1,53 @@
+// The allergen vocabulary, reactions and severities come from
+// server/config/allergens.js, bundled as is, so the form offers exactly what
+// the server codes
+import {
+  ALLERGENS,
+  ALLERGY_REACTIONS as SERVER_ALLERGY_REACTIONS,
+  ALLERGY_SEVERITIES as SERVER_ALLERGY_SEVERITIES
+} from '../../server/config/allergens.js';
+
+export type AllergySeverity = 'mild' | 'moderate' | 'anaphylaxis';
+
+export type AllergyReaction = keyof typeof SERVER_ALLERGY_REACTIONS;
+
+export interface Allergy {
+  substance: string;
+  // Vocabulary code, set by the server when the substance names a known allergen
+  code?: string;
+  reaction?: AllergyReaction;
+  severity?: AllergySeverity;
+  carriesEpinephrine?: boolean;
+}
+
+// Mildest first
+export const ALLERGY_SEVERITIES = SERVER_ALLERGY_SEVERITIES as AllergySeverity[];
+
+export const ALLERGY_REACTIONS: Record<AllergyReaction, string> = SERVER_ALLERGY_REACTIONS;
+
+export const ALLERGY_REACTION_TYPES = Object.keys(ALLERGY_REACTIONS) as AllergyReaction[];
+
+// Offered as suggestions when typing a substance; anything else may be typed
+export const ALLERGEN_NAMES = Object.values(ALLERGENS).map(allergen => allergen.name);
+
+export const isAnaphylactic = (allergy: Allergy) => allergy.severity === 'anaphylaxis';
+
+// Anaphylaxis-level allergies: shown first, and on anonymous scans
+export const criticalAllergiesOf = (allergies: Allergy[] = []) => allergies.filter(isAnaphylactic);
+
+// "Peanut (anaphylaxis, breathing difficulty, carries epinephrine)"
+export const describeAllergy = (allergy: Allergy) => {
+  const details = [
+    allergy.severity,
+    allergy.reaction && ALLERGY_REACTIONS[allergy.reaction].toLowerCase(),
+    allergy.carriesEpinephrine && 'carries epinephrine'
+  ].filter(Boolean);
+  return details.length > 0 ? `${allergy.substance} (${details.join(', ')})` : allergy.substance;
+};
+
+// Profiles cached or versioned before allergies were structured list them as
+// strings, with the severe ones repeated in criticalAllergies
+export const toAllergies = (allergies: (Allergy | string)[] = [], criticalAllergies: string[] = []): Allergy[] =>
+  allergies.map(allergy => (typeof allergy === 'string'
+    ? { substance: allergy, severity: criticalAllergies.includes(allergy) ? 'anaphylaxis' : undefined }
+    : allergy));
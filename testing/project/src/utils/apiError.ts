@@ -0,0 +1,20 @@
+import axios from 'axios';
+
+// Pull the server's `message` out of a failed request, if it sent one
+export const getErrorMessage = (error: unknown, fallback: string): string => {
+  if (axios.isAxiosError(error)) {
+    return error.response?.data?.message || fallback;
+  }
+  return fallback;
+};
+
+// The request never got an answer: no signal, or the server is unreachable
+export const isNetworkError = (error: unknown): boolean =>
+  axios.isAxiosError(error) && !error.response && error.code !== 'ERR_CANCELED';
+
+// Thrown instead of the server's message when there was no server to ask
+export class NetworkError extends Error {}
+
+// The record behind a scanned badge or link was archived; not a failure to
+// report as an error, the employee is simply no longer on file
+export class ArchivedRecordError extends Error {}
@@ -0,0 +1,136 @@
+import axios from 'axios';
+import { EmergencyProfileData } from '../components/EmergencyProfile';
+
+// Reads the self-contained badge format written by server/utils/badgePayload.js:
+// plain-text "Label: value" lines, the last one an ECDSA P-256 signature over
+// all the others.
+export const PAYLOAD_HEADER = 'SAFESCAN EMERGENCY CARD v1';
+
+const KEYS_STORAGE_KEY = 'badgePayloadKeys';
+
+export interface BadgePayload {
+  name: string;
+  bloodGroup: string;
+  allergies: string[];
+  medications: string[];
+  iceContact?: { name: string; relationship: string; phone: string };
+  issued: string;
+  // Badge token, for a revocation check when there is a connection
+  ref?: string;
+  keyId: string;
+  signature: string;
+  signedText: string;
+}
+
+// 'unverifiable' means this device has not downloaded the signing key yet
+export type PayloadVerification = 'verified' | 'invalid' | 'unverifiable';
+
+interface PayloadKey {
+  keyId: string;
+  publicKey: string;
+}
+
+export const isBadgePayload = (text: string) => text.replace(/\r\n/g, '\n').startsWith(`${PAYLOAD_HEADER}\n`);
+
+const toList = (value?: string) =>
+  !value || value === 'none recorded' ? [] : value.split(';').map(item => item.trim()).filter(Boolean);
+
+export const parseBadgePayload = (text: string): BadgePayload | null => {
+  const lines = text.replace(/\r\n/g, '\n').trimEnd().split('\n');
+  const signatureLine = lines.pop();
+  if (lines[0] !== PAYLOAD_HEADER || !signatureLine?.startsWith('Sig: ')) return null;
+
+  const [keyId, signature] = signatureLine.slice('Sig: '.length).split('.');
+  if (!keyId || !signature) return null;
+
+  const fields = new Map<string, string>();
+  lines.slice(1).forEach(line => {
+    const separator = line.indexOf(': ');
+    if (separator > 0) fields.set(line.slice(0, separator), line.slice(separator + 2));
+  });
+
+  const name = fields.get('Name');
+  const bloodGroup = fields.get('Blood group');
+  if (!name || !bloodGroup) return null;
+
+  const ice = fields.get('ICE');
+  const iceMatch = ice && ice !== 'none recorded' ? /^(.*?)(?: \(([^)]*)\))?$/.exec(ice) : null;
+
+  return {
+    name,
+    bloodGroup,
+    allergies: toList(fields.get('Allergies')),
+    medications: toList(fields.get('Medications')),
+    iceContact: iceMatch
+      ? { name: iceMatch[1], relationship: iceMatch[2] || '', phone: fields.get('ICE phone') || '' }
+      : undefined,
+    issued: fields.get('Issued') || '',
+    ref: fields.get('Ref'),
+    keyId,
+    signature,
+    signedText: lines.join('\n')
+  };
+};
+
+const readCachedKeys = (): PayloadKey[] => {
+  try {
+    return JSON.parse(localStorage.getItem(KEYS_STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+// Keys are public, so plain local storage is fine; they are kept so badges
+// can be verified with no connection
+export const refreshPayloadKeys = async () => {
+  const response = await axios.get('/badges/payload-keys');
+  const keys: PayloadKey[] = response.data.data;
+  const known = readCachedKeys().filter(cached => !keys.some(key => key.keyId === cached.keyId));
+  localStorage.setItem(KEYS_STORAGE_KEY, JSON.stringify([...keys, ...known]));
+};
+
+const fromBase64 = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')), c => c.charCodeAt(0));
+};
+
+export const verifyBadgePayload = async (payload: BadgePayload): Promise<PayloadVerification> => {
+  let key = readCachedKeys().find(cached => cached.keyId === payload.keyId);
+  if (!key && navigator.onLine) {
+    await refreshPayloadKeys().catch(() => undefined);
+    key = readCachedKeys().find(cached => cached.keyId === payload.keyId);
+  }
+  if (!key) return 'unverifiable';
+
+  try {
+    const publicKey = await crypto.subtle.importKey(
+      'spki',
+      fromBase64(key.publicKey),
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+    const valid = await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      publicKey,
+      fromBase64(payload.signature),
+      new TextEncoder().encode(payload.signedText)
+    );
+    return valid ? 'verified' : 'invalid';
+  } catch {
+    return 'invalid';
+  }
+};
+
+// Shapes the summary for the shared emergency view. It carries only the
+// public-tier fields, so it is shown as a limited profile.
+export const toEmergencyProfile = (payload: BadgePayload): EmergencyProfileData => ({
+  name: payload.name,
+  bloodGroup: payload.bloodGroup,
+  // The card lists anaphylaxis-level allergies only
+  allergies: payload.allergies.map(substance => ({ substance, severity: 'anaphylaxis' })),
+  medications: payload.medications.map(name => ({ name })),
+  emergencyContacts: payload.iceContact ? [payload.iceContact] : [],
+  disclosureTier: 'public',
+  withheldSections: []
+});
@@ -0,0 +1,11 @@
+import type { DownloadedFile } from '../context/EmployeeContext';
+
+// Hands a fetched file to the browser as a download
+export const saveFile = ({ blob, filename }: DownloadedFile) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
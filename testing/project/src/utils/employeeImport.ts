@@ -0,0 +1,252 @@
+import readXlsxFile from 'read-excel-file';
+import { parseCsv } from './csv';
+import { ALLERGY_REACTIONS, ALLERGY_REACTION_TYPES } from './allergies';
+
+type Fields = Record<string, string>;
+type ListKey = 'criticalAllergies' | 'medicalConditions';
+type GroupKey = 'allergies' | 'medications' | 'emergencyContacts';
+
+// Reaction and severity are passed on as read, for the server to validate
+export interface ImportedAllergy {
+  substance: string;
+  reaction?: string;
+  severity?: string;
+  carriesEpinephrine: boolean;
+}
+
+export interface ImportedEmployee {
+  employeeId?: string;
+  name?: string;
+  site?: string;
+  dob?: string;
+  bloodGroup?: string;
+  notes?: string;
+  allergies: ImportedAllergy[];
+  // Older spreadsheets list severe allergies in their own column; they are
+  // folded into allergies as anaphylaxis-level
+  criticalAllergies: string[];
+  medicalConditions: string[];
+  medications: Fields[];
+  emergencyContacts: Fields[];
+  physician: Fields;
+  insurance: Fields;
+}
+
+export interface ImportField {
+  key: string;
+  label: string;
+  // list: several columns and ";"-separated cells add up; group: numbered
+  // slots, e.g. contact 1 name / contact 1 phone
+  kind: 'single' | 'list' | 'group';
+}
+
+export const IMPORT_FIELDS: ImportField[] = [
+  { key: 'employeeId', label: 'Employee ID', kind: 'single' },
+  { key: 'name', label: 'Full name', kind: 'single' },
+  { key: 'site', label: 'Site', kind: 'single' },
+  { key: 'dob', label: 'Date of birth', kind: 'single' },
+  { key: 'bloodGroup', label: 'Blood group', kind: 'single' },
+  { key: 'allergies.substance', label: 'Allergy', kind: 'group' },
+  { key: 'allergies.reaction', label: 'Allergy reaction', kind: 'group' },
+  { key: 'allergies.severity', label: 'Allergy severity', kind: 'group' },
+  { key: 'allergies.carriesEpinephrine', label: 'Allergy epinephrine auto-injector', kind: 'group' },
+  { key: 'criticalAllergies', label: 'Severe allergy (older files)', kind: 'list' },
+  { key: 'medicalConditions', label: 'Medical condition', kind: 'list' },
+  { key: 'medications.name', label: 'Medication name', kind: 'group' },
+  { key: 'medications.dosage', label: 'Medication dosage', kind: 'group' },
+  { key: 'medications.frequency', label: 'Medication frequency', kind: 'group' },
+  { key: 'emergencyContacts.name', label: 'Contact name', kind: 'group' },
+  { key: 'emergencyContacts.phone', label: 'Contact phone', kind: 'group' },
+  { key: 'emergencyContacts.relationship', label: 'Contact relationship', kind: 'group' },
+  { key: 'emergencyContacts.email', label: 'Contact email', kind: 'group' },
+  { key: 'physician.name', label: 'Physician name', kind: 'single' },
+  { key: 'physician.phone', label: 'Physician phone', kind: 'single' },
+  { key: 'physician.specialty', label: 'Physician specialty', kind: 'single' },
+  { key: 'insurance.provider', label: 'Insurance provider', kind: 'single' },
+  { key: 'insurance.memberId', label: 'Insurance member ID', kind: 'single' },
+  { key: 'insurance.groupNumber', label: 'Insurance group number', kind: 'single' },
+  { key: 'notes', label: 'Notes', kind: 'single' }
+];
+
+const FIELDS_BY_KEY = new Map(IMPORT_FIELDS.map(field => [field.key, field]));
+
+// A blank field means the column is ignored
+export interface ColumnMapping {
+  field: string;
+  slot: number;
+}
+
+// Header spellings recognised when guessing the mapping, with digits and
+// punctuation removed ("Contact 2 - Phone" -> "contactphone")
+const HEADER_ALIASES: Record<string, string> = {
+  employeeid: 'employeeId',
+  staffid: 'employeeId',
+  id: 'employeeId',
+  name: 'name',
+  fullname: 'name',
+  site: 'site',
+  sitecode: 'site',
+  dob: 'dob',
+  dateofbirth: 'dob',
+  birthdate: 'dob',
+  bloodgroup: 'bloodGroup',
+  bloodtype: 'bloodGroup',
+  allergy: 'allergies.substance',
+  allergies: 'allergies.substance',
+  allergysubstance: 'allergies.substance',
+  allergyreaction: 'allergies.reaction',
+  allergyseverity: 'allergies.severity',
+  allergyepinephrine: 'allergies.carriesEpinephrine',
+  epinephrine: 'allergies.carriesEpinephrine',
+  epipen: 'allergies.carriesEpinephrine',
+  severeallergy: 'criticalAllergies',
+  severeallergies: 'criticalAllergies',
+  criticalallergies: 'criticalAllergies',
+  condition: 'medicalConditions',
+  conditions: 'medicalConditions',
+  medicalcondition: 'medicalConditions',
+  medicalconditions: 'medicalConditions',
+  medication: 'medications.name',
+  medicationname: 'medications.name',
+  medicationdosage: 'medications.dosage',
+  dosage: 'medications.dosage',
+  medicationfrequency: 'medications.frequency',
+  frequency: 'medications.frequency',
+  contact: 'emergencyContacts.name',
+  contactname: 'emergencyContacts.name',
+  emergencycontact: 'emergencyContacts.name',
+  emergencycontactname: 'emergencyContacts.name',
+  contactphone: 'emergencyContacts.phone',
+  emergencycontactphone: 'emergencyContacts.phone',
+  contactrelationship: 'emergencyContacts.relationship',
+  emergencycontactrelationship: 'emergencyContacts.relationship',
+  relationship: 'emergencyContacts.relationship',
+  contactemail: 'emergencyContacts.email',
+  emergencycontactemail: 'emergencyContacts.email',
+  physician: 'physician.name',
+  physicianname: 'physician.name',
+  doctor: 'physician.name',
+  physicianphone: 'physician.phone',
+  doctorphone: 'physician.phone',
+  physicianspecialty: 'physician.specialty',
+  insurance: 'insurance.provider',
+  insuranceprovider: 'insurance.provider',
+  insurer: 'insurance.provider',
+  memberid: 'insurance.memberId',
+  insurancememberid: 'insurance.memberId',
+  groupnumber: 'insurance.groupNumber',
+  insurancegroupnumber: 'insurance.groupNumber',
+  notes: 'notes'
+};
+
+export const guessMapping = (header: string): ColumnMapping => {
+  const normalized = header.toLowerCase().replace(/[^a-z]/g, '');
+  const slot = Number(header.match(/\d+/)?.[0]) || 1;
+  return { field: HEADER_ALIASES[normalized] || '', slot };
+};
+
+const cellToString = (cell: unknown) => {
+  if (cell instanceof Date) return cell.toISOString().split('T')[0];
+  if (cell === null || cell === undefined) return '';
+  return String(cell);
+};
+
+// First row is the header. XLSX dates come back as YYYY-MM-DD strings.
+export const readSpreadsheet = async (file: File): Promise<string[][]> => {
+  if (/\.xlsx$/i.test(file.name)) {
+    const rows = await readXlsxFile(file);
+    return rows
+      .map(row => row.map(cellToString))
+      .filter(row => row.some(cell => cell.trim() !== ''));
+  }
+
+  return parseCsv(await file.text());
+};
+
+const splitList = (value: string) => value.split(/[;\n]/).map(item => item.trim()).filter(Boolean);
+
+const YES = /^(yes|y|true|1|x)$/i;
+
+// Exports write reaction labels ("Breathing difficulty"); keys work too
+const toReaction = (value?: string) => {
+  if (!value) return undefined;
+  const text = value.trim().toLowerCase();
+  return ALLERGY_REACTION_TYPES.find(reaction => reaction === text || ALLERGY_REACTIONS[reaction].toLowerCase() === text) || value;
+};
+
+// A cell may list several substances ("Peanut; Latex") that share the slot's
+// other details
+const toAllergies = (fields: Fields, severe: string[]): ImportedAllergy[] => {
+  const substances = splitList(fields.substance || '');
+  return (substances.length > 0 ? substances : ['']).map(substance => ({
+    substance,
+    reaction: toReaction(fields.reaction),
+    severity: severe.some(name => name.toLowerCase() === substance.toLowerCase())
+      ? 'anaphylaxis'
+      : fields.severity?.trim().toLowerCase() || undefined,
+    carriesEpinephrine: YES.test(fields.carriesEpinephrine || '')
+  }));
+};
+
+const sortedSlots = (group: Map<number, Fields>) => [...group.entries()]
+  .sort(([a], [b]) => a - b)
+  .map(([, fields]) => fields);
+
+export const buildEmployeeRecord = (row: string[], mappings: ColumnMapping[]): ImportedEmployee => {
+  const record: ImportedEmployee = {
+    allergies: [],
+    criticalAllergies: [],
+    medicalConditions: [],
+    medications: [],
+    emergencyContacts: [],
+    physician: {},
+    insurance: {}
+  };
+  const slots: Record<GroupKey, Map<number, Fields>> = {
+    allergies: new Map(),
+    medications: new Map(),
+    emergencyContacts: new Map()
+  };
+
+  mappings.forEach((mapping, column) => {
+    const value = (row[column] ?? '').trim();
+    const field = FIELDS_BY_KEY.get(mapping.field);
+    if (!field || !value) return;
+
+    const [root, property] = field.key.split('.');
+
+    if (field.kind === 'list') {
+      record[root as ListKey].push(...splitList(value));
+    } else if (field.kind === 'group') {
+      const group = slots[root as GroupKey];
+      group.set(mapping.slot, { ...group.get(mapping.slot), [property]: value });
+    } else if (property) {
+      record[root as 'physician' | 'insurance'][property] = value;
+    } else if (root === 'bloodGroup') {
+      record.bloodGroup = value.toUpperCase().replace(/\s/g, '');
+    } else {
+      record[root as 'employeeId' | 'name' | 'site' | 'dob' | 'notes'] = value;
+    }
+  });
+
+  record.allergies = sortedSlots(slots.allergies).flatMap(fields => toAllergies(fields, record.criticalAllergies));
+  // A severe allergy is still an allergy, even when only listed as severe
+  const listed = new Set(record.allergies.map(allergy => allergy.substance.toLowerCase()));
+  record.criticalAllergies
+    .filter(name => !listed.has(name.toLowerCase()))
+    .forEach(substance => record.allergies.push({ substance, severity: 'anaphylaxis', carriesEpinephrine: false }));
+  record.medications = sortedSlots(slots.medications);
+  record.emergencyContacts = sortedSlots(slots.emergencyContacts);
+
+  return record;
+};
+
+// JSON exports from this system already hold records in import shape. Older
+// exports list allergies as strings; the server upgrades those.
+export const readEmployeeJson = async (file: File): Promise<ImportedEmployee[]> => {
+  const data = JSON.parse(await file.text());
+  if (data?.format !== 'safescan-employees' || !Array.isArray(data.employees)) {
+    throw new Error('This JSON file is not a SafeScan employee export');
+  }
+  return data.employees;
+};
@@ -0,0 +1,90 @@
+import { Employee } from '../context/EmployeeContext';
+import { UserRole } from './roles';
+import { Allergy, describeAllergy, toAllergies } from './allergies';
+
+export type VersionSource = 'baseline' | 'create' | 'update' | 'import' | 'self-service' | 'restore' | 'fhir';
+
+export interface FieldChange {
+  field: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface EmployeeVersion {
+  _id: string;
+  version: number;
+  author?: { _id: string; username: string; role: UserRole } | null;
+  source: VersionSource;
+  restoredFrom?: number;
+  changes: FieldChange[];
+  createdAt: string;
+}
+
+export interface EmployeeVersionDetail extends EmployeeVersion {
+  snapshot: Record<string, unknown>;
+}
+
+export const VERSION_SOURCE_LABELS: Record<VersionSource, string> = {
+  baseline: 'Before history was kept',
+  create: 'Created',
+  update: 'Edited',
+  import: 'Imported',
+  'self-service': 'Employee update (approved)',
+  restore: 'Restored',
+  fhir: 'Received as FHIR bundle'
+};
+
+// Same order as VERSIONED_FIELDS in server/utils/employeeVersions.js
+export const RECORD_FIELD_LABELS: Record<string, string> = {
+  employeeId: 'Employee ID',
+  name: 'Name',
+  site: 'Site',
+  dob: 'Date of birth',
+  bloodGroup: 'Blood group',
+  allergies: 'Allergies',
+  medications: 'Medications',
+  medicalConditions: 'Medical conditions',
+  emergencyContacts: 'Emergency contacts',
+  physician: 'Physician',
+  insurance: 'Insurance',
+  notes: 'Notes',
+  scanNotifications: 'Scan notifications',
+  badgeMode: 'Badge QR code'
+};
+
+// A readable one-line rendering of a record field, for diffs and snapshots
+export const formatFieldValue = (field: string, value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+
+  switch (field) {
+    case 'allergies':
+      return toAllergies(value as (Allergy | string)[]).map(describeAllergy).join('; ') || '—';
+    case 'medications':
+      return (value as Employee['medications'])
+        .map(med => [med.name, med.dosage, med.frequency].filter(Boolean).join(' '))
+        .join('; ') || '—';
+    case 'emergencyContacts':
+      return (value as Employee['emergencyContacts'])
+        .map(contact => `${contact.name} (${contact.relationship}) ${contact.phone}`)
+        .join('; ') || '—';
+    case 'physician': {
+      const physician = value as Employee['physician'];
+      return [physician.name, physician.specialty, physician.phone].filter(Boolean).join(', ');
+    }
+    case 'insurance': {
+      const insurance = value as Employee['insurance'];
+      return [insurance.provider, insurance.memberId, insurance.groupNumber].filter(Boolean).join(', ');
+    }
+    case 'scanNotifications': {
+      const settings = value as NonNullable<Employee['scanNotifications']>;
+      if (!settings.enabled) return 'Off';
+      return ['On', settings.notifyEmployee && 'notify employee', settings.email, settings.phone]
+        .filter(Boolean)
+        .join(', ');
+    }
+    case 'badgeMode':
+      return value === 'payload' ? 'Signed emergency summary' : 'Link to the online profile';
+    default:
+      return Array.isArray(value) ? value.join(', ') || '—' : String(value);
+  }
+};
@@ -0,0 +1,60 @@
+import { UserRole } from './roles';
+
+export type IncidentStatus = 'open' | 'closed';
+
+export interface IncidentVitals {
+  recordedAt?: string;
+  heartRate?: number;
+  respiratoryRate?: number;
+  systolic?: number;
+  diastolic?: number;
+  spo2?: number;
+  temperature?: number;
+  gcs?: number;
+}
+
+export interface Incident {
+  _id: string;
+  employee: { _id: string; name: string; employeeId: string; site?: string } | null;
+  reportedBy: { _id: string; username: string; role: UserRole } | null;
+  site?: string;
+  occurredAt: string;
+  location?: string;
+  vitals: IncidentVitals[];
+  actionsTaken?: string;
+  handover?: { hospital?: string; handedOverAt?: string };
+  status: IncidentStatus;
+  createdAt: string;
+}
+
+export type IncidentInput = Pick<Incident, 'occurredAt' | 'location' | 'vitals' | 'actionsTaken' | 'handover'> & {
+  employee: string;
+  scanEvent?: string;
+};
+
+export type VitalField = Exclude<keyof IncidentVitals, 'recordedAt'>;
+
+// Same limits as server/routes/incidents.js
+export const VITAL_FIELDS: { field: VitalField; label: string; unit: string; min: number; max: number; step?: number }[] = [
+  { field: 'heartRate', label: 'Heart rate', unit: 'bpm', min: 0, max: 300 },
+  { field: 'respiratoryRate', label: 'Resp. rate', unit: '/min', min: 0, max: 100 },
+  { field: 'systolic', label: 'BP systolic', unit: 'mmHg', min: 0, max: 300 },
+  { field: 'diastolic', label: 'BP diastolic', unit: 'mmHg', min: 0, max: 200 },
+  { field: 'spo2', label: 'SpO₂', unit: '%', min: 0, max: 100 },
+  { field: 'temperature', label: 'Temperature', unit: '°C', min: 20, max: 45, step: 0.1 },
+  { field: 'gcs', label: 'GCS', unit: '3–15', min: 3, max: 15 }
+];
+
+// One line per set, e.g. "HR 88 · BP 120/80 · SpO₂ 97%"
+export const formatVitals = (vitals: IncidentVitals) => {
+  const parts: string[] = [];
+  if (vitals.heartRate !== undefined) parts.push(`HR ${vitals.heartRate}`);
+  if (vitals.respiratoryRate !== undefined) parts.push(`RR ${vitals.respiratoryRate}`);
+  if (vitals.systolic !== undefined || vitals.diastolic !== undefined) {
+    parts.push(`BP ${vitals.systolic ?? '?'}/${vitals.diastolic ?? '?'}`);
+  }
+  if (vitals.spo2 !== undefined) parts.push(`SpO₂ ${vitals.spo2}%`);
+  if (vitals.temperature !== undefined) parts.push(`${vitals.temperature}°C`);
+  if (vitals.gcs !== undefined) parts.push(`GCS ${vitals.gcs}`);
+  return parts.join(' · ');
+};
@@ -0,0 +1,123 @@
+// The catalogue and its allergy and interaction rules come from
+// server/config/medications.js, bundled as is, so client and server never
+// disagree about a code or a blood thinner
+import {
+  ALLERGY_CONFLICTS as CATALOGUE_ALLERGY_CONFLICTS,
+  INTERACTIONS as CATALOGUE_INTERACTIONS,
+  MEDICATIONS as CATALOGUE_MEDICATIONS,
+  MEDICATION_CLASSES as CATALOGUE_CLASSES,
+  matchMedication as matchCatalogueMedication
+} from '../../server/config/medications.js';
+import { normalizeMedicalTerm } from '../../server/config/allergens.js';
+import { Allergy } from './allergies';
+
+export interface Medication {
+  name: string;
+  // Catalogue code, set by the server when the name matches a catalogue entry
+  code?: string;
+  dosage?: string;
+  frequency?: string;
+}
+
+export type MedicationClass = keyof typeof CATALOGUE_CLASSES;
+
+export const MEDICATION_CLASSES: Record<MedicationClass, { name: string; bloodThinner?: boolean }> = CATALOGUE_CLASSES;
+
+interface CatalogueEntry {
+  name: string;
+  classes: MedicationClass[];
+  synonyms: string[];
+}
+
+export const MEDICATIONS = CATALOGUE_MEDICATIONS as Record<string, CatalogueEntry>;
+
+// Offered as suggestions when typing a medication; anything else may be typed
+export const MEDICATION_NAMES = Object.values(MEDICATIONS).map(entry => entry.name);
+
+// The catalogue code for a medication as typed, by generic or brand name
+export const matchMedication = (text: string): string | null => matchCatalogueMedication(text);
+
+// Records saved before the catalogue, and rows still being typed, have no
+// code; their names are matched instead
+const codeOf = (medication: Medication) => medication.code || matchMedication(medication.name);
+
+export const classesOf = (medication: Medication): MedicationClass[] => {
+  const code = codeOf(medication);
+  return code ? MEDICATIONS[code]?.classes ?? [] : [];
+};
+
+export const isBloodThinner = (medication: Medication) =>
+  classesOf(medication).some(name => MEDICATION_CLASSES[name].bloodThinner);
+
+export const bloodThinnersOf = (medications: Medication[] = []) => medications.filter(isBloodThinner);
+
+const ALLERGY_CONFLICTS = CATALOGUE_ALLERGY_CONFLICTS as Record<string, { classes: MedicationClass[]; terms: string[] }>;
+
+const ALLERGEN_TERMS = new Map(
+  Object.entries(ALLERGY_CONFLICTS).flatMap(([code, { terms }]) =>
+    [code, ...terms].map(term => [normalizeMedicalTerm(term), code] as const))
+);
+
+export type InteractionEffect = 'bleeding' | 'serotonin' | 'breathing' | 'hypotension' | 'potassium' | 'hypoglycaemia' | 'epinephrine';
+
+export type WarningSeverity = 'major' | 'moderate';
+
+const INTERACTIONS = CATALOGUE_INTERACTIONS as {
+  classes: [MedicationClass, MedicationClass];
+  severity: WarningSeverity;
+  effect: InteractionEffect;
+}[];
+
+export const INTERACTION_EFFECTS: Record<InteractionEffect, string> = {
+  bleeding: 'Increased bleeding risk',
+  serotonin: 'Risk of serotonin syndrome',
+  breathing: 'Risk of breathing suppression',
+  hypotension: 'Risk of severe low blood pressure',
+  potassium: 'Risk of high potassium',
+  hypoglycaemia: 'Risk of low blood sugar',
+  epinephrine: 'Epinephrine may be less effective'
+};
+
+export type MedicationWarning =
+  | { kind: 'allergy'; severity: WarningSeverity; medication: string; allergy: string }
+  | { kind: 'interaction'; severity: WarningSeverity; medications: [string, string]; effect: InteractionEffect };
+
+// Medications the person is recorded as allergic to, then dangerous
+// combinations among the rest. Most severe first.
+export const medicationWarnings = (allergies: Allergy[] = [], medications: Medication[] = []): MedicationWarning[] => {
+  const listed = medications.filter(medication => medication.name.trim() !== '');
+  const warnings: MedicationWarning[] = [];
+
+  allergies.forEach(allergy => {
+    const allergen = ALLERGEN_TERMS.get(normalizeMedicalTerm(allergy.substance)) ?? (allergy.code && ALLERGY_CONFLICTS[allergy.code] ? allergy.code : null);
+    const allergicTo = matchMedication(allergy.substance);
+
+    listed.forEach(medication => {
+      const conflicts = (allergen && classesOf(medication).some(name => ALLERGY_CONFLICTS[allergen].classes.includes(name)))
+        || (allergicTo !== null && codeOf(medication) === allergicTo);
+      if (conflicts) {
+        warnings.push({ kind: 'allergy', severity: 'major', medication: medication.name, allergy: allergy.substance });
+      }
+    });
+  });
+
+  listed.forEach((first, i) => {
+    listed.slice(i + 1).forEach(second => {
+      if (codeOf(first) !== null && codeOf(first) === codeOf(second)) return;
+
+      const [a, b] = [classesOf(first), classesOf(second)];
+      const rule = INTERACTIONS.find(({ classes: [x, y] }) =>
+        (a.includes(x) && b.includes(y)) || (a.includes(y) && b.includes(x)));
+      if (rule) {
+        warnings.push({ kind: 'interaction', severity: rule.severity, medications: [first.name, second.name], effect: rule.effect });
+      }
+    });
+  });
+
+  return warnings.sort((x, y) => Number(y.severity === 'major') - Number(x.severity === 'major'));
+};
+
+// Plain-English form for the save confirmation
+export const describeMedicationWarning = (warning: MedicationWarning) => (warning.kind === 'allergy'
+  ? `${warning.medication} conflicts with the recorded allergy to ${warning.allergy}`
+  : `${warning.medications[0]} with ${warning.medications[1]}: ${INTERACTION_EFFECTS[warning.effect].toLowerCase()}`);
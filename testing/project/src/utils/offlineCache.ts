@@ -0,0 +1,225 @@
+import axios from 'axios';
+import { Employee } from '../context/EmployeeContext';
+import { Allergy, toAllergies } from './allergies';
+
+// Emergency profiles kept on the device for scanning without signal. Profiles
+// and queued scans are stored AES-GCM encrypted in IndexedDB under a
+// non-extractable key: scripts on this origin can use the key, but it can
+// never be read out and copied off the device.
+
+export interface OfflineProfile extends Employee {
+  id: string;
+  badgeToken?: string;
+  badgeCode?: string;
+}
+
+// A cache synced before allergies were structured holds them as strings
+type CachedProfile = Omit<OfflineProfile, 'allergies'> & {
+  allergies?: (Allergy | string)[];
+  criticalAllergies?: string[];
+};
+
+export interface OfflineBundle {
+  sites: string[];
+  syncedAt: string;
+  expiresAt: string;
+  profiles: OfflineProfile[];
+}
+
+// Stored in the clear so the scanner can show the cache state cheaply
+export interface OfflineCacheInfo {
+  userId: string;
+  sites: string[];
+  syncedAt: string;
+  expiresAt: string;
+  count: number;
+}
+
+export interface OfflineScan {
+  employee: string;
+  source: 'badge' | 'id';
+  viewedAt: string;
+}
+
+interface EncryptedValue {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+const DB_NAME = 'safescan-offline';
+const STORE = 'cache';
+
+const KEYS = {
+  cryptoKey: 'key',
+  info: 'info',
+  profiles: 'profiles',
+  scans: 'scans'
+};
+
+const openDb = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const runRequest = async <T,>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const getItem = <T,>(key: string) => runRequest<T | undefined>('readonly', store => store.get(key));
+
+const putItem = (key: string, value: unknown) => runRequest('readwrite', store => store.put(value, key));
+
+const getCryptoKey = async () => {
+  const existing = await getItem<CryptoKey>(KEYS.cryptoKey);
+  if (existing) return existing;
+
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+  await putItem(KEYS.cryptoKey, key);
+  return key;
+};
+
+const encrypt = async (value: unknown): Promise<EncryptedValue> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await getCryptoKey(),
+    new TextEncoder().encode(JSON.stringify(value))
+  );
+  return { iv, data };
+};
+
+const decrypt = async <T,>({ iv, data }: EncryptedValue): Promise<T> => {
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, await getCryptoKey(), data);
+  return JSON.parse(new TextDecoder().decode(plaintext));
+};
+
+export const isOfflineCacheSupported = () =>
+  typeof indexedDB !== 'undefined' && typeof crypto !== 'undefined' && !!crypto.subtle;
+
+export const isOfflineCacheExpired = (info: OfflineCacheInfo) => new Date(info.expiresAt).getTime() <= Date.now();
+
+// "now", "12 min. ago", "3 hr. ago", "2 days ago" in the reader's language
+export const formatCacheAge = (syncedAt: string, locale = 'en') => {
+  const relative = new Intl.RelativeTimeFormat(locale, { numeric: 'auto', style: 'short' });
+  const minutes = Math.floor((Date.now() - new Date(syncedAt).getTime()) / 60000);
+  if (minutes < 1) return relative.format(0, 'second');
+  if (minutes < 60) return relative.format(-minutes, 'minute');
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return relative.format(-hours, 'hour');
+  return relative.format(-Math.floor(hours / 24), 'day');
+};
+
+export const getOfflineCacheInfo = async (): Promise<OfflineCacheInfo | null> =>
+  (await getItem<OfflineCacheInfo>(KEYS.info)) || null;
+
+export const saveOfflineBundle = async (userId: string, bundle: OfflineBundle) => {
+  const info: OfflineCacheInfo = {
+    userId,
+    sites: bundle.sites,
+    syncedAt: bundle.syncedAt,
+    expiresAt: bundle.expiresAt,
+    count: bundle.profiles.length
+  };
+  await putItem(KEYS.profiles, await encrypt(bundle.profiles));
+  await putItem(KEYS.info, info);
+  return info;
+};
+
+export interface OfflineLookup {
+  token?: string;
+  code?: string;
+  id?: string;
+}
+
+const matchesLookup = (profile: CachedProfile, { token, code, id }: OfflineLookup) => {
+  if (token) return profile.badgeToken === token;
+  if (code) return profile.badgeCode === code;
+  return profile.id === id;
+};
+
+// A badge token, short code or record id, matched against the current user's
+// cache. Expired copies are never returned.
+export const findOfflineProfile = async (
+  userId: string,
+  lookup: OfflineLookup
+): Promise<{ profile: OfflineProfile; syncedAt: string } | null> => {
+  const info = await getOfflineCacheInfo();
+  if (!info || info.userId !== userId || isOfflineCacheExpired(info)) return null;
+
+  const stored = await getItem<EncryptedValue>(KEYS.profiles);
+  if (!stored) return null;
+
+  const profiles = await decrypt<CachedProfile[]>(stored);
+  const profile = profiles.find(candidate => matchesLookup(candidate, lookup));
+  if (!profile) return null;
+
+  const { criticalAllergies, ...current } = profile;
+  return {
+    profile: { ...current, allergies: toAllergies(profile.allergies, criticalAllergies) },
+    syncedAt: info.syncedAt
+  };
+};
+
+const readScans = async () => {
+  const stored = await getItem<EncryptedValue>(KEYS.scans);
+  return stored ? decrypt<OfflineScan[]>(stored) : [];
+};
+
+// Views made offline are uploaded to the scan log at the next sync
+export const queueOfflineScans = async (...scans: OfflineScan[]) => {
+  await putItem(KEYS.scans, await encrypt([...await readScans(), ...scans]));
+};
+
+export const takeOfflineScans = async () => {
+  const scans = await readScans();
+  if (scans.length > 0) {
+    await runRequest('readwrite', store => store.delete(KEYS.scans));
+  }
+  return scans;
+};
+
+// Sends queued views to the scan log as the signed-in account; they are
+// queued again if that fails, rather than lose audit entries
+export const uploadOfflineScans = async () => {
+  const scans = await takeOfflineScans();
+  if (scans.length === 0) return;
+
+  try {
+    await axios.post('/scan-events/offline', { scans });
+  } catch (err) {
+    await queueOfflineScans(...scans);
+    throw err;
+  }
+};
+
+// Drops the cached profiles but keeps any views still waiting for upload, and
+// whose they are, so only that account uploads them at its next sync
+export const clearOfflineProfiles = async () => {
+  const info = await getOfflineCacheInfo();
+  await runRequest('readwrite', store => store.delete(KEYS.profiles));
+  if (info) {
+    await putItem(KEYS.info, { ...info, count: 0, expiresAt: new Date().toISOString() });
+  }
+};
+
+// Drops the database, key included, so nothing cached can be recovered
+export const clearOfflineCache = () => new Promise<void>((resolve, reject) => {
+  if (typeof indexedDB === 'undefined') return resolve();
+
+  const request = indexedDB.deleteDatabase(DB_NAME);
+  request.onsuccess = () => resolve();
+  request.onerror = () => reject(request.error);
+  // Another tab still has it open; it is deleted once that tab lets go
+  request.onblocked = () => resolve();
+});
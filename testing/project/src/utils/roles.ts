@@ -0,0 +1,39 @@
+export type UserRole = 'super-admin' | 'hr-editor' | 'auditor' | 'responder' | 'employee';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  'super-admin': 'Super Admin',
+  'hr-editor': 'HR Editor',
+  'auditor': 'Auditor (read-only)',
+  'responder': 'Emergency Responder',
+  'employee': 'Employee (self-service)'
+};
+
+export const ALL_ROLES = Object.keys(ROLE_LABELS) as UserRole[];
+
+// Roles that act on other people's records; self-service employee accounts
+// are created from the employee list instead of by invitation
+export const STAFF_ROLES = ALL_ROLES.filter(role => role !== 'employee');
+
+// Roles that can open the admin dashboard and read full records
+export const DASHBOARD_ROLES: UserRole[] = ['super-admin', 'hr-editor', 'auditor'];
+
+// Roles that can create, edit and delete employee records
+export const EDITOR_ROLES: UserRole[] = ['super-admin', 'hr-editor'];
+
+// Roles that can review the scan access audit log
+export const AUDIT_ROLES: UserRole[] = ['super-admin', 'auditor'];
+
+// Accounts stored before role-based access control used these values
+const LEGACY_ROLES: Record<string, UserRole> = {
+  admin: 'super-admin',
+  user: 'responder'
+};
+
+export const normalizeRole = (role: string): UserRole =>
+  LEGACY_ROLES[role] || (role as UserRole);
+
+// Where a user lands after signing in
+export const homePathForRole = (role: UserRole) => {
+  if (DASHBOARD_ROLES.includes(role)) return '/admin';
+  return role === 'employee' ? '/my-profile' : '/scan';
+};
@@ -0,0 +1,91 @@
+import { isBadgePayload } from './badgePayload';
+
+// Everything a SafeScan badge QR code can hold. Links are matched on their
+// path alone, so badges printed for another host or a base path such as
+// https://intranet.example.com/safescan/badge/<token> still resolve here.
+export type ScanPayload =
+  | { kind: 'badge'; token: string }
+  | { kind: 'employee'; id: string }
+  | { kind: 'card'; text: string };
+
+export type ScanParseResult =
+  | { ok: true; payload: ScanPayload }
+  | { ok: false; reason: string };
+
+// `<tokenId>.<signature>`, both base64url; see server/utils/badgeToken.js
+const BADGE_TOKEN_PATTERN = /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]{22}$/;
+
+// Record links predate badge tokens and carry the database id
+const EMPLOYEE_ID_PATTERN = /^[a-f0-9]{24}$/i;
+
+const NOT_A_BADGE = 'This QR code is not a SafeScan emergency badge.';
+
+// Explains what was scanned instead, so responders know to look for another code
+const describeForeignCode = (text: string) => {
+  if (/^WIFI:/i.test(text)) return 'This is a Wi-Fi network QR code, not an emergency badge.';
+  if (/^BEGIN:VCARD/i.test(text) || /^MECARD:/i.test(text)) return 'This is a contact card QR code, not an emergency badge.';
+  if (/^(tel|sms|smsto|mailto|geo):/i.test(text)) return 'This QR code opens a phone, message, email or map app. It is not an emergency badge.';
+  if (/^\d{8,14}$/.test(text)) return 'This looks like a product barcode, not an emergency badge.';
+  if (/^https?:\/\//i.test(text)) return 'This QR code links to another website, not to a SafeScan badge.';
+  return NOT_A_BADGE;
+};
+
+// Reads the path of an absolute or site-relative link, including hash routes
+const linkSegments = (text: string): string[] | null => {
+  let url: URL;
+  try {
+    url = new URL(text, window.location.origin);
+  } catch {
+    return null;
+  }
+  if (!/^https?:$/.test(url.protocol)) return null;
+
+  const path = url.hash.startsWith('#/') ? url.hash.slice(1) : url.pathname;
+  return path.split('/').filter(Boolean).map(segment => {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      return segment;
+    }
+  });
+};
+
+// The segment after the last `badge` or `employee` decides what the link is,
+// so anything in front of it is treated as a base path
+const fromSegments = (segments: string[]): ScanParseResult | null => {
+  for (let i = segments.length - 2; i >= 0; i--) {
+    const type = segments[i].toLowerCase();
+    const value = segments[i + 1];
+
+    if (type === 'badge') {
+      return BADGE_TOKEN_PATTERN.test(value)
+        ? { ok: true, payload: { kind: 'badge', token: value } }
+        : { ok: false, reason: 'This badge link is damaged or incomplete. Try scanning it again, or enter the badge code.' };
+    }
+    if (type === 'employee') {
+      return EMPLOYEE_ID_PATTERN.test(value)
+        ? { ok: true, payload: { kind: 'employee', id: value } }
+        : { ok: false, reason: 'This employee link is damaged or incomplete. Try scanning it again, or enter the badge code.' };
+    }
+  }
+  return null;
+};
+
+export const parseScanPayload = (decodedText: string): ScanParseResult => {
+  const text = decodedText.trim();
+  if (!text) return { ok: false, reason: 'The QR code was empty.' };
+
+  if (isBadgePayload(text)) return { ok: true, payload: { kind: 'card', text } };
+
+  // Bare values, as typed or printed by older tools
+  if (BADGE_TOKEN_PATTERN.test(text)) return { ok: true, payload: { kind: 'badge', token: text } };
+  if (EMPLOYEE_ID_PATTERN.test(text)) return { ok: true, payload: { kind: 'employee', id: text } };
+
+  if (/^https?:\/\//i.test(text) || text.startsWith('/')) {
+    const segments = linkSegments(text);
+    const result = segments && fromSegments(segments);
+    if (result) return result;
+  }
+
+  return { ok: false, reason: describeForeignCode(text) };
+};
@@ -0,0 +1,44 @@
+import { Employee } from '../context/EmployeeContext';
+
+// Same list as server/routes/selfService.js
+export const SELF_SERVICE_FIELDS = [
+  'bloodGroup',
+  'allergies',
+  'medications',
+  'medicalConditions',
+  'emergencyContacts',
+  'physician',
+  'insurance',
+  'notes',
+  'scanNotifications'
+] as const;
+
+export type SelfServiceField = typeof SELF_SERVICE_FIELDS[number];
+
+export type SelfServiceChanges = Partial<Pick<Employee, SelfServiceField>>;
+
+export type ChangeRequestStatus = 'pending' | 'approved' | 'rejected' | 'withdrawn';
+
+export interface ChangeRequest {
+  _id: string;
+  changes: SelfServiceChanges;
+  status: ChangeRequestStatus;
+  reviewedAt?: string;
+  reviewNote?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// As listed in HR's approval queue, with the values the changes replace
+export interface QueuedChangeRequest extends ChangeRequest {
+  employee: { _id: string; name: string; employeeId: string; site?: string } | null;
+  requestedBy: { _id: string; username: string; email: string } | null;
+  current: SelfServiceChanges;
+}
+
+export const pickSelfServiceChanges = (record: Partial<Employee>): SelfServiceChanges =>
+  Object.fromEntries(
+    SELF_SERVICE_FIELDS
+      .filter(field => record[field] !== undefined)
+      .map(field => [field, record[field]])
+  );
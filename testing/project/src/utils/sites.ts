@@ -0,0 +1,62 @@
+import { COUNTRIES as SERVER_COUNTRIES } from '../../server/config/countries.js';
+
+// Mirrors the server's Organization and Site models
+
+// What an anonymous scan may show; the names the server's disclosure policy uses
+export const PUBLIC_PROFILE_FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  age: 'Age',
+  bloodGroup: 'Blood group',
+  criticalAllergies: 'Anaphylaxis-level allergies',
+  iceContact: 'First emergency contact',
+  medications: 'Medications',
+  medicalConditions: 'Medical conditions'
+};
+
+export const PUBLIC_PROFILE_FIELDS = Object.keys(PUBLIC_PROFILE_FIELD_LABELS);
+
+// From server/config/countries.js, bundled as is
+export const COUNTRIES: Record<string, { name: string; emergencyNumber: string }> = SERVER_COUNTRIES;
+
+// Used when neither the site nor its organisation sets a number or country
+export const DEFAULT_EMERGENCY_NUMBER = '911';
+
+export interface LocationSettings {
+  name: string;
+  country?: string;
+  emergencyNumber?: string;
+  // Empty means the next level up decides
+  publicProfileFields: string[];
+}
+
+export interface Organization extends LocationSettings {
+  _id: string;
+  code: string;
+}
+
+export interface Site extends LocationSettings {
+  _id: string;
+  code: string;
+  organization: Pick<Organization, '_id' | 'code' | 'name'>;
+  hasBadgeTemplate: boolean;
+}
+
+// Sent with scanned profiles: where the employee works and who to call
+export interface SiteSettings {
+  site?: string;
+  siteName?: string;
+  organizationName?: string;
+  country?: string;
+  emergencyNumber?: string;
+}
+
+// The number to call for a profile. The server resolves it from the site;
+// badge cards and profiles without a site fall back to the country the
+// scanning device is set to.
+export const resolveEmergencyNumber = (siteSettings?: SiteSettings) => {
+  const deviceCountry = navigator.language.split('-')[1]?.toUpperCase();
+  return siteSettings?.emergencyNumber
+    || COUNTRIES[siteSettings?.country || '']?.emergencyNumber
+    || COUNTRIES[deviceCountry || '']?.emergencyNumber
+    || DEFAULT_EMERGENCY_NUMBER;
+};
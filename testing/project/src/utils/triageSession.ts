@@ -0,0 +1,83 @@
+import { downloadCsv } from './csv';
+
+// A run of badge scans at a multi-casualty scene. The session lives in
+// session storage so a reload mid-incident keeps the list, and it holds only
+// the summary shown in the list, never the full medical record.
+
+// START triage categories
+export type TriageColour = 'red' | 'yellow' | 'green' | 'black';
+
+export const TRIAGE_COLOURS: { value: TriageColour; label: string; className: string }[] = [
+  { value: 'red', label: 'Immediate', className: 'bg-red-600 text-white' },
+  { value: 'yellow', label: 'Delayed', className: 'bg-yellow-400 text-gray-900' },
+  { value: 'green', label: 'Minor', className: 'bg-green-600 text-white' },
+  { value: 'black', label: 'Expectant', className: 'bg-gray-900 text-white' }
+];
+
+export interface TriageEntry {
+  // Identifies what was scanned, so the same badge is only added once
+  key: string;
+  // Database id, for opening the full profile
+  recordId?: string;
+  name: string;
+  employeeId?: string;
+  bloodGroup?: string;
+  criticalAllergies: string[];
+  // Where the details came from: the server, this device's cache or the badge itself
+  source: 'online' | 'offline' | 'card';
+  scannedAt: string;
+  triage?: TriageColour;
+}
+
+export interface TriageSession {
+  startedAt: string;
+  entries: TriageEntry[];
+}
+
+const STORAGE_KEY = 'triageSession';
+
+export const loadTriageSession = (): TriageSession | null => {
+  try {
+    const stored = sessionStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveTriageSession = (session: TriageSession | null) => {
+  if (session) {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  } else {
+    sessionStorage.removeItem(STORAGE_KEY);
+  }
+};
+
+export const clearTriageSession = () => saveTriageSession(null);
+
+const triageLabel = (colour?: TriageColour) =>
+  TRIAGE_COLOURS.find(option => option.value === colour)?.label || 'Untagged';
+
+const SOURCE_LABELS: Record<TriageEntry['source'], string> = {
+  online: 'Server',
+  offline: 'Offline cache',
+  card: 'Badge card'
+};
+
+export const exportTriageReport = (session: TriageSession) => {
+  const rows = [
+    ['Scanned at', 'Name', 'Employee ID', 'Blood group', 'Critical allergies', 'Triage', 'Details from'],
+    ...session.entries.map(entry => [
+      new Date(entry.scannedAt).toLocaleString(),
+      entry.name,
+      entry.employeeId || '',
+      entry.bloodGroup || '',
+      entry.criticalAllergies.join('; '),
+      triageLabel(entry.triage),
+      SOURCE_LABELS[entry.source]
+    ])
+  ];
+
+  const started = new Date(session.startedAt).toISOString().slice(0, 16).replace(/[T:]/g, '-');
+  downloadCsv(rows, `triage-${started}.csv`);
+};